@@ -0,0 +1,303 @@
+/**
+ * ASP.NET Core requests from the Microsoft.AspNetCore.Hosting and Microsoft-AspNetCore-Server-Kestrel
+ * EventSources.
+ *
+ * Both log RequestStart/RequestStop around every request: Hosting around the application pipeline,
+ * Kestrel around the whole HTTP exchange, with its connection and request IDs. The two starts are
+ * written back to back on the same thread and are merged into one request. Kestrel's RequestStop names
+ * its request; Hosting's has no payload and is paired with its start through the ActivityId EventSource
+ * gives Start/Stop events while TPL activity tracking is on (System.Threading.Tasks.TplEventSource,
+ * keyword 0x80), or by thread without it. Neither provider reports the response status: it comes from
+ * the Hosting "Request finished" log entry when Microsoft-Extensions-Logging is enabled too.
+ */
+
+import { LogMessage } from './logMessages';
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getString } from './payloadDecoder';
+
+export interface AspNetRequest {
+    method: string;
+    path: string;
+    route: string;              // Path with ID-like segments replaced, see requestRoute
+    statusCode?: number;        // From the "Request finished" log entry
+    failed: boolean;            // The application threw an unhandled exception
+    startTimeMs: number;        // Since the start of the trace
+    durationMs: number;
+    threadId: bigint;           // Thread the request started on
+    threadIds: bigint[];        // Threads that logged the request's start and stop events
+    activityId?: string;
+    connectionId?: string;      // Kestrel connection and request IDs
+    requestId?: string;
+    httpVersion?: string;
+    remoteEndPoint?: string;
+}
+
+export interface AspNetRequestTimeline {
+    requests: AspNetRequest[];  // Completed requests in the order they started
+    unfinishedRequests: number; // Still running when the trace ended
+    connections: number;        // Kestrel connections opened during the trace
+}
+
+type RequestProvider = 'hosting' | 'kestrel';
+
+interface RequestEvent {
+    kind: 'hostingRequestStart' | 'hostingRequestStop' | 'hostingUnhandledException' |
+        'kestrelConnectionStart' | 'kestrelConnectionStop' | 'kestrelRequestStart' | 'kestrelRequestStop';
+    fields: PayloadStruct;
+    threadId: bigint;
+    timestamp: bigint;
+    activityId?: string;
+}
+
+interface RequestRecord extends Omit<AspNetRequest, 'route' | 'startTimeMs' | 'durationMs' | 'threadIds'> {
+    providers: Set<RequestProvider>;
+    threadIds: Set<bigint>;
+    startTimestamp: bigint;
+    stopTimestamp?: bigint;
+}
+
+// Hosting's "Request finished" ILogger entry, with the StatusCode argument
+const REQUEST_FINISHED_LOG_CATEGORY = 'Microsoft.AspNetCore.Hosting.Diagnostics';
+const REQUEST_FINISHED_LOG_EVENT_ID = 2;
+
+// Path segments that identify a resource rather than an endpoint: numbers, GUIDs and long hex strings
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,})$/i;
+
+/**
+ * The path with its ID-like segments replaced by {id}, so requests to the same endpoint group together
+ */
+export function requestRoute(path: string): string {
+    return path.split('/').map(segment => ID_SEGMENT.test(segment) ? '{id}' : segment).join('/');
+}
+
+export class AspNetRequestBuilder {
+    // A request can stop on another thread than the one it started on, and each thread's events reach
+    // the trace in separate buffers, so events are paired once they are back in time order
+    private readonly events: RequestEvent[] = [];
+
+    private readonly requests: RequestRecord[] = [];
+    private readonly lastStarts = new Map<bigint, RequestRecord>();           // thread ID -> request the other provider may start next
+    private readonly threadRequests = new Map<bigint, RequestRecord>();       // thread ID -> last request that logged an event on it
+    private readonly hostingRequests = new Map<string, RequestRecord>();      // ActivityId -> running request
+    private readonly hostingThreadRequests = new Map<bigint, RequestRecord[]>(); // thread ID -> running requests without an ActivityId
+    private readonly kestrelRequests = new Map<string, RequestRecord>();      // Kestrel request ID -> running request
+    private readonly remoteEndPoints = new Map<string, string>();             // connection ID -> client address
+    private connections = 0;
+
+    hostingRequestStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'hostingRequestStart', fields, threadId, timestamp, activityId });
+    }
+
+    hostingRequestStop(threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'hostingRequestStop', fields: {}, threadId, timestamp, activityId });
+    }
+
+    hostingUnhandledException(threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'hostingUnhandledException', fields: {}, threadId, timestamp, activityId });
+    }
+
+    kestrelConnectionStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.events.push({ kind: 'kestrelConnectionStart', fields, threadId, timestamp });
+    }
+
+    kestrelConnectionStop(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.events.push({ kind: 'kestrelConnectionStop', fields, threadId, timestamp });
+    }
+
+    kestrelRequestStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'kestrelRequestStart', fields, threadId, timestamp, activityId });
+    }
+
+    kestrelRequestStop(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.events.push({ kind: 'kestrelRequestStop', fields, threadId, timestamp });
+    }
+
+    /**
+     * Completed requests in the order they started, with status codes from the Hosting log entries in `logs`
+     */
+    build(traceInfo: TraceInfo | null, logs: LogMessage[]): AspNetRequestTimeline {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const toMs = (ticks: bigint) => frequency > 0 ? Number(ticks) * 1000 / frequency : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+
+        this.events.sort((a, b) => a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0);
+        for (const event of this.events) {
+            this.replay(event);
+        }
+
+        const finishedLogs = new Map<bigint, LogMessage[]>();     // thread ID -> "Request finished" entries in time order
+        for (const log of logs) {
+            if (log.category === REQUEST_FINISHED_LOG_CATEGORY && log.eventId === REQUEST_FINISHED_LOG_EVENT_ID) {
+                const threadLogs = finishedLogs.get(log.threadId) ?? [];
+                threadLogs.push(log);
+                finishedLogs.set(log.threadId, threadLogs);
+            }
+        }
+
+        const requests: AspNetRequest[] = [];
+        for (const { providers, threadIds, startTimestamp, stopTimestamp, ...record } of this.requests) {
+            if (stopTimestamp === undefined) {
+                continue;
+            }
+            const request: AspNetRequest = {
+                ...record,
+                route: requestRoute(record.path),
+                startTimeMs: toMs(startTimestamp - syncTime),
+                durationMs: toMs(stopTimestamp - startTimestamp),
+                threadIds: Array.from(threadIds)
+            };
+            request.statusCode = findStatusCode(request, finishedLogs);
+            requests.push(request);
+        }
+
+        return {
+            requests: requests.sort((a, b) => a.startTimeMs - b.startTimeMs),
+            unfinishedRequests: this.requests.length - requests.length,
+            connections: this.connections
+        };
+    }
+
+    private replay({ kind, fields, threadId, timestamp, activityId }: RequestEvent): void {
+        switch (kind) {
+            case 'hostingRequestStart': {
+                const request = this.startRequest('hosting', fields, threadId, timestamp);
+                // Hosting's activity is the outer one; Kestrel's is nested in it
+                if (activityId) {
+                    request.activityId = activityId;
+                    this.hostingRequests.set(activityId, request);
+                } else {
+                    const running = this.hostingThreadRequests.get(threadId) ?? [];
+                    running.push(request);
+                    this.hostingThreadRequests.set(threadId, running);
+                }
+                break;
+            }
+            case 'hostingRequestStop': {
+                let request: RequestRecord | undefined;
+                if (activityId) {
+                    request = this.hostingRequests.get(activityId);
+                    this.hostingRequests.delete(activityId);
+                } else {
+                    request = this.hostingThreadRequests.get(threadId)?.pop();
+                }
+                if (request) {
+                    this.stopRequest(request, threadId, timestamp);
+                }
+                break;
+            }
+            case 'hostingUnhandledException': {
+                // Logged within the request's activity, or a nested one such as a logging scope's
+                const request = (activityId ? this.hostingRequests.get(activityId) : undefined) ?? this.threadRequests.get(threadId);
+                if (request) {
+                    request.failed = true;
+                }
+                break;
+            }
+            case 'kestrelConnectionStart': {
+                this.connections++;
+                const connectionId = getString(fields, 'connectionId');
+                const remoteEndPoint = getString(fields, 'remoteEndPoint');
+                if (connectionId && remoteEndPoint) {
+                    this.remoteEndPoints.set(connectionId, remoteEndPoint);
+                }
+                break;
+            }
+            case 'kestrelConnectionStop': {
+                const connectionId = getString(fields, 'connectionId');
+                if (connectionId) {
+                    this.remoteEndPoints.delete(connectionId);
+                }
+                break;
+            }
+            case 'kestrelRequestStart': {
+                const request = this.startRequest('kestrel', fields, threadId, timestamp);
+                const connectionId = getString(fields, 'connectionId');
+                const requestId = getString(fields, 'requestId');
+                request.activityId = request.activityId ?? activityId;
+                request.connectionId = connectionId;
+                request.requestId = requestId;
+                request.httpVersion = getString(fields, 'httpVersion');
+                request.remoteEndPoint = connectionId !== undefined ? this.remoteEndPoints.get(connectionId) : undefined;
+                if (requestId) {
+                    this.kestrelRequests.set(requestId, request);
+                }
+                break;
+            }
+            case 'kestrelRequestStop': {
+                const requestId = getString(fields, 'requestId');
+                const request = requestId !== undefined ? this.kestrelRequests.get(requestId) : undefined;
+                if (requestId !== undefined && request) {
+                    this.kestrelRequests.delete(requestId);
+                    this.stopRequest(request, threadId, timestamp);
+                }
+                break;
+            }
+        }
+    }
+
+    private startRequest(provider: RequestProvider, fields: PayloadStruct, threadId: bigint, timestamp: bigint): RequestRecord {
+        const method = getString(fields, 'method') ?? '';
+        const path = getString(fields, 'path') ?? '';
+
+        // A start right after the other provider's start for the same method and path is the same request
+        const previous = this.lastStarts.get(threadId);
+        this.lastStarts.delete(threadId);
+        if (previous && !previous.providers.has(provider) && previous.method === method && previous.path === path) {
+            previous.providers.add(provider);
+            return previous;
+        }
+
+        const request: RequestRecord = {
+            method,
+            path,
+            failed: false,
+            threadId,
+            providers: new Set([provider]),
+            threadIds: new Set([threadId]),
+            startTimestamp: timestamp
+        };
+        this.requests.push(request);
+        this.lastStarts.set(threadId, request);
+        this.threadRequests.set(threadId, request);
+        return request;
+    }
+
+    // The request ends with the later of the two providers' stops
+    private stopRequest(request: RequestRecord, threadId: bigint, timestamp: bigint): void {
+        request.threadIds.add(threadId);
+        this.threadRequests.set(threadId, request);
+        if (request.stopTimestamp === undefined || timestamp > request.stopTimestamp) {
+            request.stopTimestamp = timestamp;
+        }
+    }
+}
+
+// The last "Request finished" entry for the request's method and path logged on one of its threads while it ran
+function findStatusCode(request: AspNetRequest, finishedLogs: Map<bigint, LogMessage[]>): number | undefined {
+    const endMs = request.startTimeMs + request.durationMs;
+    let match: LogMessage | undefined;
+    for (const threadId of request.threadIds) {
+        const threadLogs = finishedLogs.get(threadId) ?? [];
+        // Binary search for the first entry logged after the request started
+        let low = 0;
+        let high = threadLogs.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (threadLogs[mid].timeMs < request.startTimeMs) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        for (let i = low; i < threadLogs.length && threadLogs[i].timeMs <= endMs; i++) {
+            const log = threadLogs[i];
+            const args = log.arguments ?? {};
+            if (args.Method === request.method && `${args.PathBase ?? ''}${args.Path ?? ''}` === request.path &&
+                (!match || log.timeMs > match.timeMs)) {
+                match = log;
+            }
+        }
+    }
+    const statusCode = Number(match?.arguments?.StatusCode);
+    return Number.isInteger(statusCode) ? statusCode : undefined;
+}
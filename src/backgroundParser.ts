@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { Worker } from 'worker_threads';
+import { ParseProgress, ParseResult } from './nettraceParser';
+
+/**
+ * Input for the parser worker: either a local file to stream, or trace contents
+ * read through the workspace file system (remote and virtual URIs), and the file
+ * to write the event index to. The host deletes the index file once done with it.
+ */
+export type ParseWorkerRequest =
+    | { filePath: string; indexPath: string }
+    | { data: Uint8Array; indexPath: string };
+
+/**
+ * Messages posted back by the parser worker
+ */
+export type ParseWorkerMessage =
+    | { type: 'progress'; progress: ParseProgress }
+    | { type: 'result'; result: ParseResult };
+
+/**
+ * Parse a trace on a worker thread so the extension host stays responsive.
+ * Cancelling the token terminates the worker and rejects with a CancellationError.
+ */
+export function parseInBackground(
+    workerPath: string,
+    request: ParseWorkerRequest,
+    onProgress: (progress: ParseProgress) => void,
+    token: vscode.CancellationToken
+): Promise<ParseResult> {
+    return new Promise<ParseResult>((resolve, reject) => {
+        if (token.isCancellationRequested) {
+            reject(new vscode.CancellationError());
+            return;
+        }
+
+        const worker = new Worker(workerPath, { workerData: request });
+        let settled = false;
+
+        const settle = (action: () => void) => {
+            if (!settled) {
+                settled = true;
+                cancellation.dispose();
+                action();
+            }
+        };
+
+        const cancellation = token.onCancellationRequested(() => {
+            settle(() => reject(new vscode.CancellationError()));
+            worker.terminate();
+        });
+
+        worker.on('message', (message: ParseWorkerMessage) => {
+            switch (message.type) {
+                case 'progress':
+                    onProgress(message.progress);
+                    break;
+                case 'result':
+                    settle(() => resolve(restoreBuffers(message.result)));
+                    worker.terminate();
+                    break;
+            }
+        });
+
+        worker.on('error', err => settle(() => reject(err)));
+
+        worker.on('exit', code => {
+            settle(() => reject(new Error(`Parser worker exited with code ${code} before producing a result`)));
+        });
+    });
+}
+
+// Structured cloning turns the retained events' Buffer payloads into plain Uint8Arrays
+function restoreBuffers(result: ParseResult): ParseResult {
+    for (const event of result.events) {
+        const payload: Uint8Array = event.payload;
+        event.payload = Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength);
+    }
+    return result;
+}
@@ -0,0 +1,316 @@
+/**
+ * Little-endian binary reader used for .nettrace blocks and event payloads.
+ * Reads from an in-memory Buffer, or from a file descriptor through a sliding window.
+ */
+
+import * as fs from 'fs';
+
+// Size of the window kept in memory when reading from a file handle
+const FILE_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// File-backed source for a BufferReader: bytes are read on demand into a sliding window
+interface FileSource {
+    fd: number;
+    size: number;
+}
+
+export class BufferReader {
+    private buffer: Buffer;
+    private _offset: number;
+    private debug: boolean;
+    private source?: FileSource;
+    private bufferStart: number = 0; // File position of buffer[0] (file-backed readers only)
+
+    constructor(buffer: Buffer, offset: number = 0, debug: boolean = false) {
+        this.buffer = buffer;
+        this._offset = offset;
+        this.debug = debug;
+    }
+
+    // Create a reader that pulls the file in FILE_CHUNK_SIZE windows instead of loading it whole
+    static fromFile(fd: number, debug: boolean = false): BufferReader {
+        const reader = new BufferReader(Buffer.alloc(0), 0, debug);
+        reader.source = { fd, size: fs.fstatSync(fd).size };
+        return reader;
+    }
+
+    // Offsets are absolute file positions for file-backed readers
+    get offset(): number {
+        return this.bufferStart + this._offset;
+    }
+
+    set offset(value: number) {
+        const relative = value - this.bufferStart;
+        if (relative >= 0 && relative <= this.buffer.length) {
+            this._offset = relative;
+        } else if (this.source) {
+            this.resetWindow(value);
+        } else {
+            this._offset = value;
+        }
+    }
+
+    get remaining(): number {
+        const end = this.source ? this.source.size : this.bufferStart + this.buffer.length;
+        return end - this.offset;
+    }
+
+    getBuffer(): Buffer {
+        return this.buffer;
+    }
+
+    hasBytes(count: number): boolean {
+        if (this._offset + count <= this.buffer.length) {
+            return true;
+        }
+        return this.source !== undefined && this.fill(count);
+    }
+
+    // Slide the window forward so that at least `count` bytes are available from the current offset.
+    // A new buffer is allocated each time so slices handed out by readBytes stay valid.
+    private fill(count: number): boolean {
+        const source = this.source!;
+        const position = this.offset;
+        if (position + count > source.size) {
+            return false;
+        }
+        
+        const leftover = this.buffer.length - this._offset;
+        const windowSize = Math.min(Math.max(FILE_CHUNK_SIZE, count), source.size - position);
+        const window = Buffer.allocUnsafe(windowSize);
+        this.buffer.copy(window, 0, this._offset);
+        
+        let filled = leftover;
+        while (filled < windowSize) {
+            const bytesRead = fs.readSync(source.fd, window, filled, windowSize - filled, position + filled);
+            if (bytesRead === 0) {
+                break;
+            }
+            filled += bytesRead;
+        }
+        
+        this.buffer = window.subarray(0, filled);
+        this.bufferStart = position;
+        this._offset = 0;
+        
+        if (this.debug) {
+            console.log(`Read window of ${filled} bytes at file offset ${position}`);
+        }
+        return count <= filled;
+    }
+
+    private resetWindow(position: number): void {
+        this.buffer = Buffer.alloc(0);
+        this.bufferStart = Math.min(Math.max(position, 0), this.source!.size);
+        this._offset = 0;
+    }
+
+    readByte(): number {
+        if (!this.hasBytes(1)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        return this.buffer[this._offset++];
+    }
+
+    peekByte(): number {
+        if (!this.hasBytes(1)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        return this.buffer[this._offset];
+    }
+
+    readInt16LE(): number {
+        if (!this.hasBytes(2)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readInt16LE(this._offset);
+        this._offset += 2;
+        return val;
+    }
+
+    readUInt16LE(): number {
+        if (!this.hasBytes(2)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readUInt16LE(this._offset);
+        this._offset += 2;
+        return val;
+    }
+
+    readInt32LE(): number {
+        if (!this.hasBytes(4)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readInt32LE(this._offset);
+        this._offset += 4;
+        return val;
+    }
+
+    readUInt32LE(): number {
+        if (!this.hasBytes(4)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readUInt32LE(this._offset);
+        this._offset += 4;
+        return val;
+    }
+
+    readInt64LE(): bigint {
+        if (!this.hasBytes(8)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readBigInt64LE(this._offset);
+        this._offset += 8;
+        return val;
+    }
+
+    readUInt64LE(): bigint {
+        if (!this.hasBytes(8)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readBigUInt64LE(this._offset);
+        this._offset += 8;
+        return val;
+    }
+
+    readFloatLE(): number {
+        if (!this.hasBytes(4)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readFloatLE(this._offset);
+        this._offset += 4;
+        return val;
+    }
+
+    readDoubleLE(): number {
+        if (!this.hasBytes(8)) {
+            throw new Error(`End of buffer at offset ${this._offset}`);
+        }
+        const val = this.buffer.readDoubleLE(this._offset);
+        this._offset += 8;
+        return val;
+    }
+
+    readBytes(count: number): Buffer {
+        if (!this.hasBytes(count)) {
+            throw new Error(`End of buffer at offset ${this._offset}, need ${count} bytes`);
+        }
+        const val = this.buffer.slice(this._offset, this._offset + count);
+        this._offset += count;
+        return val;
+    }
+
+    readVarUInt(): number {
+        let result = 0;
+        let shift = 0;
+        let b: number;
+        do {
+            if (!this.hasBytes(1)) {
+                throw new Error('End of buffer reading varint');
+            }
+            b = this.readByte();
+            result |= (b & 0x7f) << shift;
+            shift += 7;
+        } while ((b & 0x80) !== 0 && shift < 35);
+        return result >>> 0;
+    }
+
+    readVarInt64(): bigint {
+        let result = BigInt(0);
+        let shift = BigInt(0);
+        let b: number;
+        do {
+            if (!this.hasBytes(1)) {
+                throw new Error('End of buffer reading varint64');
+            }
+            b = this.readByte();
+            result |= BigInt(b & 0x7f) << shift;
+            shift += BigInt(7);
+        } while ((b & 0x80) !== 0 && shift < BigInt(70));
+        return result;
+    }
+
+    // Unsigned varint64 (same encoding as readVarInt64, just different interpretation)
+    readVarUInt64(): bigint {
+        let result = BigInt(0);
+        let shift = BigInt(0);
+        let b: number;
+        do {
+            if (!this.hasBytes(1)) {
+                throw new Error('End of buffer reading varuint64');
+            }
+            b = this.readByte();
+            result |= BigInt(b & 0x7f) << shift;
+            shift += BigInt(7);
+        } while ((b & 0x80) !== 0 && shift < BigInt(70));
+        return result;
+    }
+
+    // Read null-terminated UTF-16LE string
+    readNullTerminatedUTF16(): string {
+        const chars: number[] = [];
+        while (this.hasBytes(2)) {
+            const code = this.readUInt16LE();
+            if (code === 0) {
+                break;
+            }
+            chars.push(code);
+        }
+        return String.fromCharCode(...chars);
+    }
+
+    // Read varuint-length-prefixed UTF-16LE string (V5 encoding, length in code units)
+    readVarString(): string {
+        const length = this.readVarUInt();
+        if (!this.hasBytes(length * 2)) {
+            throw new Error(`End of buffer reading string of length ${length}`);
+        }
+        const str = this.buffer.toString('utf16le', this._offset, this._offset + length * 2);
+        this._offset += length * 2;
+        return str;
+    }
+
+    // Read a GUID in its standard string form
+    readGuid(): string {
+        const data = this.readBytes(16);
+        const hex = (start: number, end: number) => data.slice(start, end).toString('hex');
+        const a = data.readUInt32LE(0).toString(16).padStart(8, '0');
+        const b = data.readUInt16LE(4).toString(16).padStart(4, '0');
+        const c = data.readUInt16LE(6).toString(16).padStart(4, '0');
+        return `${a}-${b}-${c}-${hex(8, 10)}-${hex(10, 16)}`;
+    }
+
+    // Read ASCII string of given length
+    readAsciiString(length: number): string {
+        if (!this.hasBytes(length)) {
+            throw new Error(`End of buffer reading string of length ${length}`);
+        }
+        const str = this.buffer.toString('ascii', this._offset, this._offset + length);
+        this._offset += length;
+        return str;
+    }
+
+    skip(count: number): void {
+        if (count <= 0) {
+            return;
+        }
+        if (this.source && this._offset + count > this.buffer.length) {
+            this.resetWindow(this.offset + count);
+        } else {
+            this._offset = Math.min(this._offset + count, this.buffer.length);
+        }
+    }
+
+    align(boundary: number): void {
+        const mod = this.offset % boundary;
+        if (mod !== 0) {
+            this.skip(boundary - mod);
+        }
+    }
+
+    // Create a sub-reader for a slice of the buffer
+    subReader(length: number): BufferReader {
+        const subBuf = this.readBytes(length);
+        return new BufferReader(subBuf, 0, this.debug);
+    }
+}
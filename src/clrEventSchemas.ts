@@ -0,0 +1,285 @@
+/**
+ * Built-in schemas for common CLR runtime and rundown events
+ *
+ * The runtime providers often emit metadata with empty field lists, so payloads would otherwise
+ * have to be decoded by guessing their layout. These tables mirror ClrEtwAll.man: each event lists
+ * the complete field layout of every version it has shipped with. Newer versions generally append
+ * fields, so an unknown newer version is decoded with the latest layout known here.
+ */
+
+import { FieldMetadata } from './nettraceParser';
+import { EventTypeCode } from './payloadDecoder';
+
+export const DOTNET_RUNTIME_PROVIDER = 'Microsoft-Windows-DotNETRuntime';
+export const DOTNET_RUNTIME_RUNDOWN_PROVIDER = 'Microsoft-Windows-DotNETRuntimeRundown';
+
+export interface ClrEventSchema {
+    eventName: string;
+    fields: FieldMetadata[];
+}
+
+interface ClrEventDefinition {
+    eventName: string;
+    versions: FieldMetadata[][];   // Complete field layout per version, index = version
+}
+
+// Field builders
+const field = (typeCode: EventTypeCode) => (name: string): FieldMetadata => ({ name, typeCode });
+const uint8 = field(EventTypeCode.Byte);
+const uint16 = field(EventTypeCode.UInt16);
+const uint32 = field(EventTypeCode.UInt32);
+const uint64 = field(EventTypeCode.UInt64);
+const double = field(EventTypeCode.Double);
+const str = field(EventTypeCode.String);
+const guid = field(EventTypeCode.Guid);
+const pointer = field(EventTypeCode.Pointer);
+
+const CLR_INSTANCE_ID = uint16('ClrInstanceID');
+
+// Shared layouts
+
+const METHOD_LOAD_V0 = [
+    uint64('MethodID'), uint64('ModuleID'), uint64('MethodStartAddress'),
+    uint32('MethodSize'), uint32('MethodToken'), uint32('MethodFlags'),
+];
+const METHOD_LOAD_VERSIONS = [
+    METHOD_LOAD_V0,
+    [...METHOD_LOAD_V0, CLR_INSTANCE_ID],
+    [...METHOD_LOAD_V0, CLR_INSTANCE_ID, uint64('ReJITID')],
+];
+
+const METHOD_LOAD_VERBOSE_V0 = [
+    ...METHOD_LOAD_V0,
+    str('MethodNamespace'), str('MethodName'), str('MethodSignature'),
+];
+const METHOD_LOAD_VERBOSE_VERSIONS = [
+    METHOD_LOAD_VERBOSE_V0,
+    [...METHOD_LOAD_VERBOSE_V0, CLR_INSTANCE_ID],
+    [...METHOD_LOAD_VERBOSE_V0, CLR_INSTANCE_ID, uint64('ReJITID')],
+];
+
+// Followed by ILOffsets and NativeOffsets arrays of CountOfMapEntries each, then ClrInstanceID.
+// Count-sized arrays can't be described here, so only the fixed prefix is decoded generically.
+const METHOD_IL_TO_NATIVE_MAP_VERSIONS = [
+    [uint64('MethodID'), uint64('ReJITID'), uint8('MethodExtent'), uint16('CountOfMapEntries')],
+];
+
+const MODULE_LOAD_V0 = [
+    uint64('ModuleID'), uint64('AssemblyID'), uint32('ModuleFlags'), uint32('Reserved1'),
+    str('ModuleILPath'), str('ModuleNativePath'),
+];
+const MODULE_LOAD_VERSIONS = [
+    MODULE_LOAD_V0,
+    [...MODULE_LOAD_V0, CLR_INSTANCE_ID],
+    [
+        ...MODULE_LOAD_V0, CLR_INSTANCE_ID,
+        guid('ManagedPdbSignature'), uint32('ManagedPdbAge'), str('ManagedPdbBuildPath'),
+        guid('NativePdbSignature'), uint32('NativePdbAge'), str('NativePdbBuildPath'),
+    ],
+];
+
+const DOMAIN_MODULE_LOAD_V0 = [
+    uint64('ModuleID'), uint64('AssemblyID'), uint64('AppDomainID'), uint32('ModuleFlags'), uint32('Reserved1'),
+    str('ModuleILPath'), str('ModuleNativePath'),
+];
+const DOMAIN_MODULE_LOAD_VERSIONS = [
+    DOMAIN_MODULE_LOAD_V0,
+    [...DOMAIN_MODULE_LOAD_V0, CLR_INSTANCE_ID],
+];
+
+// V1 inserts BindingID after AppDomainID rather than appending it
+const ASSEMBLY_LOAD_VERSIONS = [
+    [uint64('AssemblyID'), uint64('AppDomainID'), uint32('AssemblyFlags'), str('FullyQualifiedAssemblyName')],
+    [
+        uint64('AssemblyID'), uint64('AppDomainID'), uint64('BindingID'), uint32('AssemblyFlags'),
+        str('FullyQualifiedAssemblyName'), CLR_INSTANCE_ID,
+    ],
+];
+
+const CLR_INSTANCE_ONLY_VERSIONS = [[], [CLR_INSTANCE_ID]];
+
+const EXCEPTION_HANDLING_VERSIONS = [
+    [uint64('EntryEIP'), uint64('MethodID'), str('MethodName'), CLR_INSTANCE_ID],
+];
+
+const THREAD_POOL_WORKER_VERSIONS = [
+    [uint32('ActiveWorkerThreadCount'), uint32('RetiredWorkerThreadCount'), CLR_INSTANCE_ID],
+];
+
+const IO_THREAD_VERSIONS = [
+    [uint32('IOThreadCount'), CLR_INSTANCE_ID],
+    [uint32('IOThreadCount'), uint32('RetiredIOThreads'), CLR_INSTANCE_ID],
+];
+
+const GC_HEAP_STATS_V1 = [
+    uint64('GenerationSize0'), uint64('TotalPromotedSize0'),
+    uint64('GenerationSize1'), uint64('TotalPromotedSize1'),
+    uint64('GenerationSize2'), uint64('TotalPromotedSize2'),
+    uint64('GenerationSize3'), uint64('TotalPromotedSize3'),
+    uint64('FinalizationPromotedSize'), uint64('FinalizationPromotedCount'),
+    uint32('PinnedObjectCount'), uint32('SinkBlockCount'), uint32('GCHandleCount'),
+    CLR_INSTANCE_ID,
+];
+
+const GC_ALLOCATION_TICK_V1 = [uint32('AllocationAmount'), uint32('AllocationKind'), CLR_INSTANCE_ID];
+const GC_ALLOCATION_TICK_V2 = [
+    ...GC_ALLOCATION_TICK_V1, uint64('AllocationAmount64'), pointer('TypeID'), str('TypeName'), uint32('HeapIndex'),
+];
+const GC_ALLOCATION_TICK_V3 = [...GC_ALLOCATION_TICK_V2, pointer('Address')];
+
+const CONTENTION_START_V1 = [uint8('ContentionFlags'), CLR_INSTANCE_ID];
+
+// Microsoft-Windows-DotNETRuntime, by event ID
+const RUNTIME_EVENTS: Map<number, ClrEventDefinition> = new Map([
+    // GC
+    [1, { eventName: 'GCStart', versions: [
+        [uint32('Count'), uint32('Reason')],
+        [uint32('Count'), uint32('Depth'), uint32('Reason'), uint32('Type'), CLR_INSTANCE_ID],
+        [uint32('Count'), uint32('Depth'), uint32('Reason'), uint32('Type'), CLR_INSTANCE_ID, uint64('ClientSequenceNumber')],
+    ] }],
+    [2, { eventName: 'GCEnd', versions: [
+        [uint32('Count'), uint16('Depth')],
+        [uint32('Count'), uint32('Depth'), CLR_INSTANCE_ID],
+    ] }],
+    [3, { eventName: 'GCRestartEEEnd', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [4, { eventName: 'GCHeapStats', versions: [
+        GC_HEAP_STATS_V1,
+        GC_HEAP_STATS_V1,
+        [...GC_HEAP_STATS_V1, uint64('GenerationSize4'), uint64('TotalPromotedSize4')],
+    ] }],
+    [7, { eventName: 'GCRestartEEBegin', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [8, { eventName: 'GCSuspendEEEnd', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [9, { eventName: 'GCSuspendEEBegin', versions: [
+        [uint16('Reason')],
+        [uint32('Reason'), uint32('Count'), CLR_INSTANCE_ID],
+    ] }],
+    [10, { eventName: 'GCAllocationTick', versions: [
+        [uint32('AllocationAmount'), uint32('AllocationKind')],
+        GC_ALLOCATION_TICK_V1,
+        GC_ALLOCATION_TICK_V2,
+        GC_ALLOCATION_TICK_V3,
+        [...GC_ALLOCATION_TICK_V3, uint64('ObjectSize')],
+    ] }],
+    [13, { eventName: 'GCFinalizersEnd', versions: [[uint32('Count')], [uint32('Count'), CLR_INSTANCE_ID]] }],
+    [14, { eventName: 'GCFinalizersBegin', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [35, { eventName: 'GCTriggered', versions: [[uint32('Reason'), CLR_INSTANCE_ID]] }],
+
+    // ThreadPool
+    [44, { eventName: 'IOThreadCreate', versions: IO_THREAD_VERSIONS }],
+    [45, { eventName: 'IOThreadTerminate', versions: IO_THREAD_VERSIONS }],
+    [46, { eventName: 'IOThreadRetire', versions: IO_THREAD_VERSIONS }],
+    [47, { eventName: 'IOThreadUnretire', versions: IO_THREAD_VERSIONS }],
+    [50, { eventName: 'ThreadPoolWorkerThreadStart', versions: THREAD_POOL_WORKER_VERSIONS }],
+    [51, { eventName: 'ThreadPoolWorkerThreadStop', versions: THREAD_POOL_WORKER_VERSIONS }],
+    [52, { eventName: 'ThreadPoolWorkerThreadRetirementStart', versions: THREAD_POOL_WORKER_VERSIONS }],
+    [53, { eventName: 'ThreadPoolWorkerThreadRetirementStop', versions: THREAD_POOL_WORKER_VERSIONS }],
+    [54, { eventName: 'ThreadPoolWorkerThreadAdjustmentSample', versions: [[double('Throughput'), CLR_INSTANCE_ID]] }],
+    [55, { eventName: 'ThreadPoolWorkerThreadAdjustmentAdjustment', versions: [
+        [double('AverageThroughput'), uint32('NewWorkerThreadCount'), uint32('Reason'), CLR_INSTANCE_ID],
+    ] }],
+    [56, { eventName: 'ThreadPoolWorkerThreadAdjustmentStats', versions: [[
+        double('Duration'), double('Throughput'), double('ThreadWave'), double('ThroughputWave'),
+        double('ThroughputErrorEstimate'), double('AverageThroughputErrorEstimate'), double('ThroughputRatio'),
+        double('Confidence'), double('NewControlSetting'), uint16('NewThreadWaveMagnitude'), CLR_INSTANCE_ID,
+    ]] }],
+    [57, { eventName: 'ThreadPoolWorkerThreadWait', versions: THREAD_POOL_WORKER_VERSIONS }],
+    [59, { eventName: 'ThreadPoolMinMaxThreads', versions: [[
+        uint16('MinWorkerThreads'), uint16('MaxWorkerThreads'), uint16('MinIOCompletionThreads'),
+        uint16('MaxIOCompletionThreads'), CLR_INSTANCE_ID,
+    ]] }],
+    [60, { eventName: 'ThreadPoolWorkingThreadCount', versions: [[uint32('Count'), CLR_INSTANCE_ID]] }],
+
+    // Type
+    [73, { eventName: 'TypeLoadStart', versions: [[uint32('TypeLoadStartID'), CLR_INSTANCE_ID]] }],
+    [74, { eventName: 'TypeLoadStop', versions: [
+        [uint32('TypeLoadStartID'), CLR_INSTANCE_ID, uint16('LoadLevel'), uint64('TypeID'), str('TypeName')],
+    ] }],
+
+    // Exception
+    [80, { eventName: 'ExceptionThrown', versions: [
+        [],
+        [str('ExceptionType'), str('ExceptionMessage'), pointer('ExceptionEIP'), uint32('ExceptionHRESULT'), uint16('ExceptionFlags'), CLR_INSTANCE_ID],
+    ] }],
+    [250, { eventName: 'ExceptionCatchStart', versions: EXCEPTION_HANDLING_VERSIONS }],
+    [251, { eventName: 'ExceptionCatchStop', versions: [[]] }],
+    [252, { eventName: 'ExceptionFinallyStart', versions: EXCEPTION_HANDLING_VERSIONS }],
+    [253, { eventName: 'ExceptionFinallyStop', versions: [[]] }],
+    [254, { eventName: 'ExceptionFilterStart', versions: EXCEPTION_HANDLING_VERSIONS }],
+    [255, { eventName: 'ExceptionFilterStop', versions: [[]] }],
+    [256, { eventName: 'ExceptionThrownStop', versions: [[]] }],
+
+    // Contention
+    [81, { eventName: 'ContentionStart', versions: [
+        CONTENTION_START_V1,
+        CONTENTION_START_V1,
+        [...CONTENTION_START_V1, pointer('LockID'), pointer('AssociatedObjectID'), uint64('LockOwnerThreadID')],
+    ] }],
+    [90, { eventName: 'ContentionLockCreated', versions: [[pointer('LockID'), pointer('AssociatedObjectID'), CLR_INSTANCE_ID]] }],
+    [91, { eventName: 'ContentionStop', versions: [
+        [uint8('ContentionFlags'), CLR_INSTANCE_ID],
+        [uint8('ContentionFlags'), CLR_INSTANCE_ID, double('DurationNs')],
+    ] }],
+
+    // Method
+    [141, { eventName: 'MethodLoad', versions: METHOD_LOAD_VERSIONS }],
+    [142, { eventName: 'MethodUnload', versions: METHOD_LOAD_VERSIONS }],
+    [143, { eventName: 'MethodLoadVerbose', versions: METHOD_LOAD_VERBOSE_VERSIONS }],
+    [144, { eventName: 'MethodUnloadVerbose', versions: METHOD_LOAD_VERBOSE_VERSIONS }],
+    [145, { eventName: 'MethodJittingStarted', versions: [
+        [uint64('MethodID'), uint64('ModuleID'), uint32('MethodToken'), uint32('MethodILSize'), str('MethodNamespace'), str('MethodName'), str('MethodSignature')],
+        [uint64('MethodID'), uint64('ModuleID'), uint32('MethodToken'), uint32('MethodILSize'), str('MethodNamespace'), str('MethodName'), str('MethodSignature'), CLR_INSTANCE_ID],
+    ] }],
+    [159, { eventName: 'R2RGetEntryPoint', versions: [
+        [uint64('MethodID'), str('MethodNamespace'), str('MethodName'), str('MethodSignature'), uint64('EntryPoint'), CLR_INSTANCE_ID],
+    ] }],
+    [160, { eventName: 'R2RGetEntryPointStart', versions: [[uint64('MethodID'), CLR_INSTANCE_ID]] }],
+    [190, { eventName: 'MethodILToNativeMap', versions: METHOD_IL_TO_NATIVE_MAP_VERSIONS }],
+
+    // Loader
+    [151, { eventName: 'DomainModuleLoad', versions: DOMAIN_MODULE_LOAD_VERSIONS }],
+    [152, { eventName: 'ModuleLoad', versions: MODULE_LOAD_VERSIONS }],
+    [153, { eventName: 'ModuleUnload', versions: MODULE_LOAD_VERSIONS }],
+    [154, { eventName: 'AssemblyLoad', versions: ASSEMBLY_LOAD_VERSIONS }],
+    [155, { eventName: 'AssemblyUnload', versions: ASSEMBLY_LOAD_VERSIONS }],
+]);
+
+// Microsoft-Windows-DotNETRuntimeRundown, by event ID
+const RUNDOWN_EVENTS: Map<number, ClrEventDefinition> = new Map([
+    [141, { eventName: 'MethodDCStart', versions: METHOD_LOAD_VERSIONS }],
+    [142, { eventName: 'MethodDCEnd', versions: METHOD_LOAD_VERSIONS }],
+    [143, { eventName: 'MethodDCStartVerbose', versions: METHOD_LOAD_VERBOSE_VERSIONS }],
+    [144, { eventName: 'MethodDCEndVerbose', versions: METHOD_LOAD_VERBOSE_VERSIONS }],
+    [145, { eventName: 'DCStartComplete', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [146, { eventName: 'DCEndComplete', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [147, { eventName: 'DCStartInit', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [148, { eventName: 'DCEndInit', versions: CLR_INSTANCE_ONLY_VERSIONS }],
+    [149, { eventName: 'MethodDCStartILToNativeMap', versions: METHOD_IL_TO_NATIVE_MAP_VERSIONS }],
+    [150, { eventName: 'MethodDCEndILToNativeMap', versions: METHOD_IL_TO_NATIVE_MAP_VERSIONS }],
+    [151, { eventName: 'DomainModuleDCStart', versions: DOMAIN_MODULE_LOAD_VERSIONS }],
+    [152, { eventName: 'DomainModuleDCEnd', versions: DOMAIN_MODULE_LOAD_VERSIONS }],
+    [153, { eventName: 'ModuleDCStart', versions: MODULE_LOAD_VERSIONS }],
+    [154, { eventName: 'ModuleDCEnd', versions: MODULE_LOAD_VERSIONS }],
+    [155, { eventName: 'AssemblyDCStart', versions: ASSEMBLY_LOAD_VERSIONS }],
+    [156, { eventName: 'AssemblyDCEnd', versions: ASSEMBLY_LOAD_VERSIONS }],
+]);
+
+const SCHEMAS_BY_PROVIDER: Map<string, Map<number, ClrEventDefinition>> = new Map([
+    [DOTNET_RUNTIME_PROVIDER, RUNTIME_EVENTS],
+    [DOTNET_RUNTIME_RUNDOWN_PROVIDER, RUNDOWN_EVENTS],
+]);
+
+/**
+ * Look up the built-in schema for a CLR event. Returns undefined for unknown providers and events.
+ */
+export function getClrEventSchema(providerName: string, eventId: number, version: number): ClrEventSchema | undefined {
+    const definition = SCHEMAS_BY_PROVIDER.get(providerName)?.get(eventId);
+    if (!definition) {
+        return undefined;
+    }
+
+    const index = Math.min(Math.max(version, 0), definition.versions.length - 1);
+    return {
+        eventName: definition.eventName,
+        fields: definition.versions[index]
+    };
+}
@@ -0,0 +1,80 @@
+/**
+ * Lock contention intervals, paired from the runtime's ContentionStart/ContentionStop events
+ * (Contention keyword, informational level).
+ *
+ * A thread logs ContentionStart with its stack when it has to wait for a lock another thread holds,
+ * and ContentionStop once it acquires it. A thread waits on one lock at a time, so the events pair up
+ * per thread. .NET 8 adds the lock, its object and the owning thread to ContentionStart, and the wait
+ * measured by the runtime to ContentionStop.
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getBigInt, getNumber } from './payloadDecoder';
+
+export interface ContentionInterval {
+    threadId: bigint;               // Waiting thread
+    startTimeMs: number;            // Since the start of the trace
+    durationMs: number;             // Time blocked
+    stackId: number;                // Where the thread blocked
+    managed: boolean;               // Monitor/Lock, as opposed to a lock inside the runtime
+    lockId?: bigint;
+    associatedObjectId?: bigint;    // Object the lock belongs to (the one passed to Monitor.Enter)
+    ownerThreadId?: bigint;         // Thread holding the lock when the wait started
+}
+
+interface PendingContention {
+    start: bigint;
+    stackId: number;
+    fields: PayloadStruct;
+}
+
+// ContentionFlags: 0 = managed, 1 = native
+const CONTENTION_FLAG_NATIVE = 0x1;
+
+export class ContentionBuilder {
+    private readonly intervals: (Omit<ContentionInterval, 'startTimeMs' | 'durationMs'> & { start: bigint; end: bigint; durationNs?: number })[] = [];
+    private readonly pending = new Map<bigint, PendingContention>();   // thread ID -> wait in progress
+
+    start(fields: PayloadStruct, threadId: bigint, timestamp: bigint, stackId: number): void {
+        this.pending.set(threadId, { start: timestamp, stackId, fields });
+    }
+
+    // A stop without a start began before the trace did; waits still open at the end are dropped
+    stop(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        const started = this.pending.get(threadId);
+        if (!started) {
+            return;
+        }
+        this.pending.delete(threadId);
+
+        const ownerThreadId = getBigInt(started.fields, 'LockOwnerThreadID');
+        this.intervals.push({
+            threadId,
+            start: started.start,
+            end: timestamp,
+            durationNs: getNumber(fields, 'DurationNs'),
+            stackId: started.stackId,
+            managed: ((getNumber(started.fields, 'ContentionFlags') ?? 0) & CONTENTION_FLAG_NATIVE) === 0,
+            lockId: getBigInt(started.fields, 'LockID'),
+            associatedObjectId: getBigInt(started.fields, 'AssociatedObjectID'),
+            ownerThreadId: ownerThreadId ? ownerThreadId : undefined
+        });
+    }
+
+    /**
+     * Waits in the order they ended; each thread's waits are paired in its own buffer, so the
+     * threads' waits are put back in time order here
+     */
+    build(traceInfo: TraceInfo | null): ContentionInterval[] {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const toMs = (ticks: bigint) => frequency > 0 ? Number(ticks) * 1000 / frequency : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+
+        this.intervals.sort((a, b) => a.end < b.end ? -1 : a.end > b.end ? 1 : 0);
+        return this.intervals.map(({ start, end, durationNs, ...interval }) => ({
+            ...interval,
+            startTimeMs: toMs(start - syncTime),
+            durationMs: durationNs !== undefined ? durationNs / 1e6 : toMs(end - start)
+        }));
+    }
+}
@@ -0,0 +1,227 @@
+/**
+ * Database commands from SqlClient's EventSource and Entity Framework Core's command log entries.
+ *
+ * Microsoft.Data.SqlClient (and System.Data.SqlClient, as Microsoft-AdoNet-SystemData) logs
+ * BeginExecute and EndExecute around each command execution with the command's object ID; depending
+ * on the version, the command text is only included for stored procedures. Entity Framework Core's
+ * own EventSource only publishes counters, but its Microsoft.EntityFrameworkCore.Database.Command
+ * logger writes CommandExecuted or CommandError once each command returns, with the elapsed time and
+ * the SQL. Those entries complete the SqlClient command they describe, and stand for the command
+ * themselves with other database providers.
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { LogMessage } from './logMessages';
+import { PayloadStruct, getNumber, getString } from './payloadDecoder';
+
+export interface DatabaseCommand {
+    commandText: string;        // Empty when neither SqlClient nor EF Core logged it
+    normalizedText: string;     // See normalizeSql
+    source: 'SqlClient' | 'EF Core';
+    dataSource?: string;        // Server, from SqlClient
+    database?: string;
+    failed: boolean;
+    errorNumber?: number;       // SQL Server error number
+    error?: string;
+    parameters?: string;        // Parameter values, when EF Core logs sensitive data
+    startTimeMs: number;        // Since the start of the trace
+    durationMs: number;
+    threadId: bigint;           // Thread the command started on
+    threadIds: bigint[];        // Threads the command started and completed on
+    logEventIndex?: number;     // Event index of the EF Core log entry
+}
+
+export interface DatabaseTimeline {
+    commands: DatabaseCommand[];    // Completed commands in the order they started
+    unfinishedCommands: number;     // SqlClient commands still running when the trace ended
+}
+
+interface SqlClientEvent {
+    kind: 'begin' | 'end';
+    fields: PayloadStruct;
+    threadId: bigint;
+    timestamp: bigint;
+}
+
+interface CommandRecord extends Omit<DatabaseCommand, 'startTimeMs' | 'durationMs'> {
+    startTimestamp: bigint;
+    endTimestamp?: bigint;
+}
+
+const EF_COMMAND_CATEGORY = 'Microsoft.EntityFrameworkCore.Database.Command';
+const EF_COMMAND_EXECUTED_EVENT_ID = 20101;
+const EF_COMMAND_ERROR_EVENT_ID = 20102;
+
+// The message EF Core writes when MessageJson (and with it the arguments) isn't enabled
+const EF_COMMAND_MESSAGE_PATTERN = /^(?:Executed|Failed executing) DbCommand \(([\d,.]+)ms\)[^\n]*\n([\s\S]*)$/;
+
+// EndExecute compositeState bits
+const END_EXECUTE_SUCCESS_FLAG = 0x1;
+
+// How long after a command ends its EF Core entry may be logged; the first entry of a logger is slow
+const EF_LOG_DELAY_MS = 50;
+
+/**
+ * SQL with literals replaced by ? and IN lists collapsed, so executions of the same statement with
+ * different values group together
+ */
+export function normalizeSql(text: string): string {
+    return text
+        .replace(/N?'(?:[^']|'')*'/g, '?')
+        .replace(/\b0x[0-9a-f]+\b/gi, '?')
+        .replace(/\b\d+(?:\.\d+)?\b/g, '?')
+        .replace(/\bIN\s*\(\s*[?@][\w?]*(?:\s*,\s*[?@][\w?]*)*\s*\)/gi, 'IN (...)')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export class DatabaseCommandBuilder {
+    // Async commands complete on another thread, whose events reach the trace in a separate buffer
+    private readonly events: SqlClientEvent[] = [];
+
+    beginExecute(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.events.push({ kind: 'begin', fields, threadId, timestamp });
+    }
+
+    endExecute(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.events.push({ kind: 'end', fields, threadId, timestamp });
+    }
+
+    build(traceInfo: TraceInfo | null, logs: LogMessage[]): DatabaseTimeline {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const toMs = (ticks: bigint) => frequency > 0 ? Number(ticks) * 1000 / frequency : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+
+        // A command object runs one execution at a time, so its object ID pairs BeginExecute with EndExecute
+        const records: CommandRecord[] = [];
+        const running = new Map<number, CommandRecord>();   // object ID -> running command
+        this.events.sort((a, b) => a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0);
+        for (const { kind, fields, threadId, timestamp } of this.events) {
+            const objectId = getNumber(fields, 'objectId');
+            if (objectId === undefined) {
+                continue;
+            }
+            if (kind === 'begin') {
+                const commandText = getString(fields, 'commandText') ?? '';
+                const record: CommandRecord = {
+                    commandText,
+                    normalizedText: normalizeSql(commandText),
+                    source: 'SqlClient',
+                    dataSource: getString(fields, 'dataSource') || undefined,
+                    database: getString(fields, 'database') || undefined,
+                    failed: false,
+                    threadId,
+                    threadIds: [threadId],
+                    startTimestamp: timestamp
+                };
+                records.push(record);
+                running.set(objectId, record);
+                continue;
+            }
+            const record = running.get(objectId);
+            running.delete(objectId);
+            if (!record) {
+                continue;
+            }
+            record.endTimestamp = timestamp;
+            if (!record.threadIds.includes(threadId)) {
+                record.threadIds.push(threadId);
+            }
+            const state = getNumber(fields, 'compositeState') ?? END_EXECUTE_SUCCESS_FLAG;
+            if ((state & END_EXECUTE_SUCCESS_FLAG) === 0) {
+                record.failed = true;
+                record.errorNumber = getNumber(fields, 'sqlExceptionNumber') || undefined;
+                record.error = getString(fields, 'message') || undefined;
+            }
+        }
+
+        const commands: DatabaseCommand[] = records
+            .filter(record => record.endTimestamp !== undefined)
+            .map(({ startTimestamp, endTimestamp, ...command }) => ({
+                ...command,
+                startTimeMs: toMs(startTimestamp - syncTime),
+                durationMs: toMs(endTimestamp! - startTimestamp)
+            }));
+        const unmatched = this.mergeEfCoreLogs(commands, logs);
+        return {
+            commands: [...commands, ...unmatched].sort((a, b) => a.startTimeMs - b.startTimeMs),
+            unfinishedCommands: records.length - commands.length
+        };
+    }
+
+    /**
+     * Complete SqlClient commands with the EF Core entry logged once they returned: the latest command
+     * with the same SQL (when both have it) that ended shortly before, on the same thread if there is
+     * one. Returns the entries no command matched, as commands of their own.
+     */
+    private mergeEfCoreLogs(commands: DatabaseCommand[], logs: LogMessage[]): DatabaseCommand[] {
+        const byEnd = [...commands].sort((a, b) => (a.startTimeMs + a.durationMs) - (b.startTimeMs + b.durationMs));
+        const matched = new Set<DatabaseCommand>();
+        const unmatched: DatabaseCommand[] = [];
+
+        for (const log of logs) {
+            if (log.category !== EF_COMMAND_CATEGORY || (log.eventId !== EF_COMMAND_EXECUTED_EVENT_ID && log.eventId !== EF_COMMAND_ERROR_EVENT_ID)) {
+                continue;
+            }
+            const parsed = EF_COMMAND_MESSAGE_PATTERN.exec(log.message);
+            const elapsed = parseFloat((log.arguments?.elapsed ?? parsed?.[1] ?? '').replace(/,/g, ''));
+            const elapsedMs = isNaN(elapsed) ? 0 : elapsed;
+            const commandText = log.arguments?.commandText ?? parsed?.[2] ?? '';
+            const failed = log.eventId === EF_COMMAND_ERROR_EVENT_ID;
+
+            // Binary search for the first command that ended after the entry was logged
+            let low = 0;
+            let high = byEnd.length;
+            while (low < high) {
+                const mid = (low + high) >> 1;
+                if (byEnd[mid].startTimeMs + byEnd[mid].durationMs <= log.timeMs) {
+                    low = mid + 1;
+                } else {
+                    high = mid;
+                }
+            }
+            let match: DatabaseCommand | undefined;
+            const windowStartMs = log.timeMs - elapsedMs - EF_LOG_DELAY_MS;
+            for (let i = low - 1; i >= 0 && byEnd[i].startTimeMs + byEnd[i].durationMs >= windowStartMs; i--) {
+                const command = byEnd[i];
+                if (matched.has(command) || (command.commandText && commandText && command.commandText !== commandText)) {
+                    continue;
+                }
+                if (command.threadIds.includes(log.threadId)) {
+                    match = command;
+                    break;
+                }
+                match ??= command;
+            }
+
+            if (match) {
+                matched.add(match);
+                if (!match.commandText && commandText) {
+                    match.commandText = commandText;
+                    match.normalizedText = normalizeSql(commandText);
+                }
+                match.parameters = log.arguments?.parameters || undefined;
+                if (failed) {
+                    match.failed = true;
+                    match.error ??= log.exception;
+                }
+                match.logEventIndex = log.eventIndex;
+            } else {
+                unmatched.push({
+                    commandText,
+                    normalizedText: normalizeSql(commandText),
+                    source: 'EF Core',
+                    failed,
+                    error: failed ? log.exception : undefined,
+                    parameters: log.arguments?.parameters || undefined,
+                    startTimeMs: Math.max(0, log.timeMs - elapsedMs),
+                    durationMs: elapsedMs,
+                    threadId: log.threadId,
+                    threadIds: [log.threadId],
+                    logEventIndex: log.eventIndex
+                });
+            }
+        }
+        return unmatched;
+    }
+}
@@ -0,0 +1,187 @@
+/**
+ * Backs the Events tab: filters the event index and serves pages of rows and per-event details
+ * to the webview on demand, so only the visible events are ever decoded or sent.
+ */
+
+import { EventIndexReader, EventRecord } from './eventIndex';
+import { EventMetadata, ParseResult } from './nettraceParser';
+import { decodePayload, formatPayloadValue } from './payloadDecoder';
+
+export interface EventFilter {
+    provider?: string;
+    eventName?: string;
+    threadId?: string;
+}
+
+export interface EventRow {
+    index: number;
+    timeMs: number;        // Milliseconds since the start of the trace
+    threadId: string;
+    provider: string;
+    eventName: string;
+    opcode: number;
+    summary: string;       // Decoded fields on a single line
+}
+
+export interface EventDetails extends EventRow {
+    eventId: number;
+    version: number;
+    level: number;
+    keywords: string;
+    stackId: number;
+    payloadSize: number;
+    fields: Array<{ name: string; value: string }>;
+    hexDump: string;
+    stack: string[];
+}
+
+// Reads `size` bytes of payload starting at an absolute offset in the parsed source
+export type PayloadReader = (offset: number, size: number) => Buffer;
+
+const MAX_PAGE_SIZE = 500;
+const MAX_SUMMARY_LENGTH = 200;
+const MAX_HEX_DUMP_BYTES = 64 * 1024;
+
+export class EventBrowser {
+    private filterKey: string | undefined;
+    private filtered: Uint32Array | undefined;  // Matching event indices; undefined when unfiltered
+
+    constructor(
+        private readonly result: ParseResult,
+        private readonly events: EventIndexReader,
+        private readonly readPayload: PayloadReader,
+        private readonly resolveFrame: (addr: bigint) => string
+    ) {}
+
+    /**
+     * Return `count` rows starting at `start` within the events matching the filter
+     */
+    query(filter: EventFilter, start: number, count: number): { total: number; rows: EventRow[] } {
+        this.applyFilter(filter);
+        const total = this.filtered ? this.filtered.length : this.events.count;
+        const end = Math.min(total, Math.max(0, start) + Math.min(count, MAX_PAGE_SIZE));
+
+        const rows: EventRow[] = [];
+        for (let i = Math.max(0, start); i < end; i++) {
+            const index = this.filtered ? this.filtered[i] : i;
+            const event = this.events.get(index);
+            const meta = this.result.metadata.get(event.metadataId);
+            const fields = this.decodeFields(event, meta);
+            let summary = fields.map(f => `${f.name}=${f.value}`).join(', ');
+            if (summary.length > MAX_SUMMARY_LENGTH) {
+                summary = summary.substring(0, MAX_SUMMARY_LENGTH) + '…';
+            }
+            rows.push({ ...this.describeEvent(index, event, meta), summary });
+        }
+        return { total, rows };
+    }
+
+    getDetails(index: number): EventDetails | undefined {
+        if (index < 0 || index >= this.events.count) {
+            return undefined;
+        }
+
+        const event = this.events.get(index);
+        const meta = this.result.metadata.get(event.metadataId);
+        const payload = this.readPayload(event.payloadOffset, event.payloadSize);
+        const fields = this.decodeFields(event, meta, payload);
+        const stackId = event.stackId;
+        const stack = this.result.stacks.get(stackId);
+
+        return {
+            ...this.describeEvent(index, event, meta),
+            summary: '',
+            eventId: meta?.eventId ?? -1,
+            version: meta?.version ?? 0,
+            level: meta?.level ?? 0,
+            keywords: `0x${(meta?.keywords ?? BigInt(0)).toString(16)}`,
+            stackId,
+            payloadSize: payload.length,
+            fields,
+            hexDump: hexDump(payload.subarray(0, MAX_HEX_DUMP_BYTES)),
+            stack: stack ? stack.addresses.map(addr => this.resolveFrame(addr)) : []
+        };
+    }
+
+    private applyFilter(filter: EventFilter): void {
+        const key = `${filter.provider ?? ''}\n${filter.eventName ?? ''}\n${filter.threadId ?? ''}`;
+        if (key === this.filterKey) {
+            return;
+        }
+        this.filterKey = key;
+
+        if (!filter.provider && !filter.eventName && !filter.threadId) {
+            this.filtered = undefined;
+            return;
+        }
+
+        // Resolve the provider/event filter to the set of matching metadata IDs once
+        const metadataIds = new Set<number>();
+        for (const meta of this.result.metadata.values()) {
+            if ((!filter.provider || meta.providerName === filter.provider) &&
+                (!filter.eventName || eventDisplayName(meta) === filter.eventName)) {
+                metadataIds.add(meta.metadataId);
+            }
+        }
+        const threadId = filter.threadId ? BigInt(filter.threadId) : undefined;
+        const matchAnyMetadata = !filter.provider && !filter.eventName;
+
+        let matches = new Uint32Array(1024);
+        let matchCount = 0;
+        this.events.forEach((event, i) => {
+            if ((matchAnyMetadata || metadataIds.has(event.metadataId)) &&
+                (threadId === undefined || event.threadId === threadId)) {
+                if (matchCount === matches.length) {
+                    const grown = new Uint32Array(matches.length * 2);
+                    grown.set(matches);
+                    matches = grown;
+                }
+                matches[matchCount++] = i;
+            }
+        });
+        this.filtered = matches.slice(0, matchCount);
+    }
+
+    private describeEvent(index: number, event: EventRecord, meta: EventMetadata | undefined): Omit<EventRow, 'summary'> {
+        const traceInfo = this.result.traceInfo;
+        const timeMs = traceInfo && traceInfo.tickFrequency > 0
+            ? Number(event.timestamp - traceInfo.syncTimeTicks) * 1000 / Number(traceInfo.tickFrequency)
+            : 0;
+
+        return {
+            index,
+            timeMs,
+            threadId: event.threadId.toString(),
+            provider: meta?.providerName ?? '<unknown>',
+            eventName: meta ? eventDisplayName(meta) : `Metadata ${event.metadataId}`,
+            opcode: meta?.opcode ?? 0
+        };
+    }
+
+    private decodeFields(event: EventRecord, meta: EventMetadata | undefined, payload?: Buffer): Array<{ name: string; value: string }> {
+        if (!meta || meta.fields.length === 0) {
+            return [];
+        }
+        const data = payload ?? this.readPayload(event.payloadOffset, event.payloadSize);
+        const decoded = decodePayload(data, meta.fields, this.result.traceInfo?.pointerSize ?? 8);
+        return Object.entries(decoded).map(([name, value]) => ({ name, value: formatPayloadValue(value) }));
+    }
+}
+
+/**
+ * Name shown for an event; events without a name in their metadata are identified by ID
+ */
+export function eventDisplayName(meta: EventMetadata): string {
+    return meta.eventName || `Event ${meta.eventId}`;
+}
+
+function hexDump(data: Buffer): string {
+    const lines: string[] = [];
+    for (let offset = 0; offset < data.length; offset += 16) {
+        const chunk = data.subarray(offset, offset + 16);
+        const hex = Array.from(chunk, b => b.toString(16).padStart(2, '0')).join(' ');
+        const ascii = Array.from(chunk, b => b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.').join('');
+        lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,114 @@
+/**
+ * Counter time series from the `EventCounters` events an EventSource logs for its counters while a
+ * session enables it with an EventCounterIntervalSec filter argument (System.Runtime, ASP.NET Core,
+ * or the application's own counters).
+ *
+ * Every interval each counter logs one event whose values are wrapped in a `Payload` struct.
+ * EventCounter and PollingCounter report statistics over the interval (CounterType "Mean");
+ * IncrementingEventCounter and IncrementingPollingCounter report how much the value grew during the
+ * interval (CounterType "Sum", with the value in Increment).
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getNumber, getString } from './payloadDecoder';
+
+export interface CounterSample {
+    timeMs: number;             // Since the start of the trace
+    value: number;              // Mean, or Increment for "Sum" counters
+    min?: number;               // Mean counters with several values in the interval
+    max?: number;
+}
+
+export interface CounterSeries {
+    providerName: string;
+    name: string;               // Counter name, e.g. cpu-usage
+    displayName: string;
+    displayUnits: string;
+    counterType: string;        // "Mean" or "Sum"
+    metadata: string;           // Counter tags, as comma-separated key:value pairs
+    intervalSec: number;        // Reporting interval of the last sample
+    samples: CounterSample[];
+}
+
+interface CounterRecord extends Omit<CounterSeries, 'samples'> {
+    samples: { timestamp: bigint; sample: Omit<CounterSample, 'timeMs'> }[];
+}
+
+const SUM_COUNTER_TYPE = 'Sum';
+
+export class CounterSeriesBuilder {
+    private readonly counters = new Map<string, CounterRecord>();   // provider + name + metadata -> series
+
+    counterEvent(providerName: string, fields: PayloadStruct, timestamp: bigint): void {
+        const payload = findCounterPayload(fields);
+        const name = payload && getString(payload, 'Name');
+        if (!payload || !name) {
+            return;
+        }
+        const counterType = getString(payload, 'CounterType') ?? (payload.Increment !== undefined ? SUM_COUNTER_TYPE : 'Mean');
+        const value = getNumber(payload, counterType === SUM_COUNTER_TYPE ? 'Increment' : 'Mean');
+        // An EventCounter with nothing written during the interval reports a count of zero
+        if (value === undefined || !Number.isFinite(value) || getNumber(payload, 'Count') === 0) {
+            return;
+        }
+
+        const metadata = getString(payload, 'Metadata') ?? '';
+        const key = `${providerName}\n${name}\n${metadata}`;
+        let counter = this.counters.get(key);
+        if (!counter) {
+            counter = {
+                providerName,
+                name,
+                displayName: getString(payload, 'DisplayName') || name,
+                displayUnits: getString(payload, 'DisplayUnits') ?? '',
+                counterType,
+                metadata,
+                intervalSec: 0,
+                samples: []
+            };
+            this.counters.set(key, counter);
+        }
+        counter.intervalSec = getNumber(payload, 'IntervalSec') ?? counter.intervalSec;
+
+        const sample: Omit<CounterSample, 'timeMs'> = { value };
+        const min = getNumber(payload, 'Min');
+        const max = getNumber(payload, 'Max');
+        if ((getNumber(payload, 'Count') ?? 0) > 1 && min !== undefined && max !== undefined && Number.isFinite(min) && Number.isFinite(max)) {
+            sample.min = min;
+            sample.max = max;
+        }
+        counter.samples.push({ timestamp, sample });
+    }
+
+    /**
+     * Counters in the order they first reported, each with its samples in time order
+     */
+    build(traceInfo: TraceInfo | null): CounterSeries[] {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+        const toMs = (timestamp: bigint) => frequency > 0 ? Number(timestamp - syncTime) * 1000 / frequency : 0;
+
+        return Array.from(this.counters.values(), ({ samples, ...counter }) => ({
+            ...counter,
+            samples: samples
+                .sort((a, b) => a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0)
+                .map(({ timestamp, sample }) => ({ timeMs: toMs(timestamp), ...sample }))
+        }));
+    }
+}
+
+// Self-describing events wrap the Payload struct in an unnamed one; look for the struct holding the Name
+function findCounterPayload(fields: PayloadStruct): PayloadStruct | undefined {
+    if (typeof fields.Name === 'string') {
+        return fields;
+    }
+    for (const value of Object.values(fields)) {
+        if (typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+            const payload = findCounterPayload(value);
+            if (payload) {
+                return payload;
+            }
+        }
+    }
+    return undefined;
+}
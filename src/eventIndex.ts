@@ -0,0 +1,486 @@
+/**
+ * Compact index of every event in a trace.
+ *
+ * Each event is a fixed-size record written into pages as it is parsed. When streaming, pages are
+ * appended to a temporary file rather than kept in memory, so the index costs a bounded amount of
+ * memory whatever the size of the trace; readers load pages back on demand.
+ *
+ * Records are kept in time order. A trace is written per thread buffer, so events arrive out of
+ * order: they are sorted a run at a time while parsing, and runs that overlap in time are merged
+ * once parsing completes.
+ *
+ * Payloads are not copied: each record says where its payload lives in the parsed source (file
+ * position or buffer offset) so it can be read back too. Per-thread event counts, the trace's time
+ * span and event counts over time are aggregated while writing, as they are needed without reading
+ * the index back.
+ */
+
+import * as fs from 'fs';
+import { TraceInfo } from './nettraceParser';
+import { TimeBucket, TimeBucketsBuilder } from './timeBuckets';
+
+export interface EventIndex {
+    count: number;
+    filePath?: string;              // Temporary file holding the records, when written to disk
+    pages: Uint8Array[];            // Otherwise the records themselves, PAGE_EVENTS per page
+    firstTimestamp: bigint;         // Earliest and latest event timestamps; 0 without events
+    lastTimestamp: bigint;
+    threads: Map<bigint, EventThreadSummary>;   // Thread ID -> events written on it
+}
+
+export interface EventThreadSummary {
+    eventCount: number;
+    firstTimestamp: bigint;
+    lastTimestamp: bigint;
+}
+
+export interface EventRecord {
+    metadataId: number;
+    threadId: bigint;
+    timestamp: bigint;
+    stackId: number;
+    payloadOffset: number;          // Absolute offset of the payload in the parsed source
+    payloadSize: number;
+}
+
+// Record layout: MetadataId (uint32), StackId (uint32), ThreadId (uint64), Timestamp (int64),
+// PayloadOffset (double), PayloadSize (uint32)
+const RECORD_SIZE = 36;
+const PAGE_EVENTS = 16384;
+const PAGE_SIZE = PAGE_EVENTS * RECORD_SIZE;
+
+// Events sorted in memory at once; longer stretches between sequence points are merged at the end
+const RUN_EVENTS = 16 * PAGE_EVENTS;
+// Records read ahead from each run while merging
+const MERGE_READ_EVENTS = 1024;
+
+// Pages a reader keeps around for random access
+const READER_CACHED_PAGES = 4;
+
+// Time buckets events are counted in, for the Timeline tab
+const TIMELINE_BUCKETS = 200;
+
+export class EventIndexBuilder {
+    private count = 0;
+    private output: PageWriter;
+    private run: Buffer | undefined;
+    private runTimes: Float64Array | undefined;    // Run timestamps relative to its first event's, for sorting
+    private runEvents = 0;
+    private runBaseTimestamp = BigInt(0);
+    private runFirstTimestamp = BigInt(0);
+    private runLastTimestamp = BigInt(0);
+    private runTracked: number[] = [];
+    private readonly runs: IndexRun[] = [];
+    private readonly positions = new Map<number, number>();  // Tracked append position -> index position
+    private firstTimestamp: bigint | undefined;
+    private lastTimestamp: bigint | undefined;
+    private readonly threads = new Map<bigint, EventThreadSummary>();
+    private readonly timeline = new TimeBucketsBuilder(TIMELINE_BUCKETS);
+    private index: EventIndex | undefined;
+
+    /**
+     * @param filePath File to write the records to; they are kept in memory without one
+     */
+    constructor(private readonly filePath?: string) {
+        this.output = new PageWriter(filePath);
+    }
+
+    /**
+     * Record an event and return the order it was appended in; see positionOf
+     */
+    append(metadataId: number, threadId: bigint, timestamp: bigint, stackId: number,
+           payloadOffset: number, payloadSize: number): number {
+        if (this.runEvents === RUN_EVENTS) {
+            this.endRun();
+        }
+        if (!this.run || !this.runTimes) {
+            this.run = Buffer.alloc(RUN_EVENTS * RECORD_SIZE);
+            this.runTimes = new Float64Array(RUN_EVENTS);
+        }
+        if (this.runEvents === 0) {
+            this.runBaseTimestamp = timestamp;
+            this.runFirstTimestamp = timestamp;
+            this.runLastTimestamp = timestamp;
+        }
+        writeRecord(this.run, this.runEvents * RECORD_SIZE, { metadataId, threadId, timestamp, stackId, payloadOffset, payloadSize });
+        this.runTimes[this.runEvents++] = Number(timestamp - this.runBaseTimestamp);
+
+        if (timestamp < this.runFirstTimestamp) {
+            this.runFirstTimestamp = timestamp;
+        }
+        if (timestamp > this.runLastTimestamp) {
+            this.runLastTimestamp = timestamp;
+        }
+        if (this.firstTimestamp === undefined || timestamp < this.firstTimestamp) {
+            this.firstTimestamp = timestamp;
+        }
+        if (this.lastTimestamp === undefined || timestamp > this.lastTimestamp) {
+            this.lastTimestamp = timestamp;
+        }
+        const thread = this.threads.get(threadId);
+        if (thread) {
+            thread.eventCount++;
+            thread.firstTimestamp = timestamp < thread.firstTimestamp ? timestamp : thread.firstTimestamp;
+            thread.lastTimestamp = timestamp > thread.lastTimestamp ? timestamp : thread.lastTimestamp;
+        } else {
+            this.threads.set(threadId, { eventCount: 1, firstTimestamp: timestamp, lastTimestamp: timestamp });
+        }
+        this.timeline.add(timestamp);
+
+        return this.count++;
+    }
+
+    /**
+     * Keep track of where the event appended at `position` ends up, for positionOf
+     */
+    track(position: number): void {
+        this.runTracked.push(position);
+    }
+
+    /**
+     * Sort and write the events appended since the previous run. Called at sequence points:
+     * EventPipe writes every buffered event before one, so runs split there rarely overlap in time
+     * and seldom need merging.
+     */
+    endRun(): void {
+        const n = this.runEvents;
+        if (n === 0 || !this.run || !this.runTimes) {
+            return;
+        }
+
+        const times = this.runTimes;
+        let order: Uint32Array | undefined;
+        for (let i = 1; i < n; i++) {
+            if (times[i] < times[i - 1]) {
+                order = new Uint32Array(n);
+                for (let j = 0; j < n; j++) {
+                    order[j] = j;
+                }
+                order.sort((a, b) => times[a] - times[b] || a - b);
+                break;
+            }
+        }
+
+        const start = this.count - n;
+        for (let i = 0; i < n; i++) {
+            this.output.write(this.run, (order ? order[i] : i) * RECORD_SIZE);
+        }
+        if (this.runTracked.length > 0) {
+            const sortedPositions = new Uint32Array(n);
+            for (let i = 0; i < n; i++) {
+                sortedPositions[order ? order[i] : i] = i;
+            }
+            for (const position of this.runTracked) {
+                this.positions.set(position, start + sortedPositions[position - start]);
+            }
+            this.runTracked = [];
+        }
+
+        this.runs.push({ start, count: n, firstTimestamp: this.runFirstTimestamp, lastTimestamp: this.runLastTimestamp });
+        this.runEvents = 0;
+    }
+
+    /**
+     * Finish the index, in time order. Calling it again returns the same index.
+     */
+    build(): EventIndex {
+        if (!this.index) {
+            this.endRun();
+            this.run = undefined;
+            this.runTimes = undefined;
+            this.output.close();
+            if (this.runsOverlap()) {
+                this.mergeRuns();
+            }
+            this.index = {
+                count: this.count,
+                filePath: this.filePath,
+                pages: this.output.pages,
+                firstTimestamp: this.firstTimestamp ?? BigInt(0),
+                lastTimestamp: this.lastTimestamp ?? BigInt(0),
+                threads: this.threads
+            };
+        }
+        return this.index;
+    }
+
+    /**
+     * Events over the trace, from its start to the last event
+     */
+    buildTimeline(traceInfo: TraceInfo | null): TimeBucket[] {
+        return this.timeline.build(traceInfo, this.lastTimestamp ?? BigInt(0));
+    }
+
+    /**
+     * Position in the built index of an event passed to track(), given the order it was appended in
+     */
+    positionOf(position: number): number {
+        return this.positions.get(position) ?? position;
+    }
+
+    private runsOverlap(): boolean {
+        for (let i = 1; i < this.runs.length; i++) {
+            if (this.runs[i].firstTimestamp < this.runs[i - 1].lastTimestamp) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Merge the sorted runs into a new index, replacing the one written while parsing
+    private mergeRuns(): void {
+        const source = this.output;
+        const sourceFd = this.filePath !== undefined ? fs.openSync(this.filePath, 'r') : undefined;
+        const mergedPath = this.filePath !== undefined ? `${this.filePath}.merged` : undefined;
+        const merged = new PageWriter(mergedPath);
+        const appendedAt = new Map<number, number>();
+        for (const [position, written] of this.positions) {
+            appendedAt.set(written, position);
+        }
+
+        try {
+            const cursors: MergeCursor[] = this.runs.map(run => ({ run, next: 0, records: Buffer.alloc(0), offset: 0, timestamp: BigInt(0) }));
+            const load = (cursor: MergeCursor): boolean => {
+                if (cursor.offset >= cursor.records.length) {
+                    const count = Math.min(MERGE_READ_EVENTS, cursor.run.count - cursor.next);
+                    if (count <= 0) {
+                        return false;
+                    }
+                    cursor.records = source.read(sourceFd, cursor.run.start + cursor.next, count);
+                    cursor.offset = 0;
+                }
+                cursor.timestamp = cursor.records.readBigInt64LE(cursor.offset + 16);
+                return true;
+            };
+
+            // Binary min-heap on timestamp; ties go to the earlier run, keeping equal timestamps in file order
+            const before = (a: MergeCursor, b: MergeCursor) =>
+                a.timestamp < b.timestamp || (a.timestamp === b.timestamp && a.run.start < b.run.start);
+            const heap = cursors.filter(load);
+            const siftDown = (i: number) => {
+                for (;;) {
+                    const left = 2 * i + 1;
+                    const right = left + 1;
+                    let smallest = i;
+                    if (left < heap.length && before(heap[left], heap[smallest])) {
+                        smallest = left;
+                    }
+                    if (right < heap.length && before(heap[right], heap[smallest])) {
+                        smallest = right;
+                    }
+                    if (smallest === i) {
+                        return;
+                    }
+                    [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+                    i = smallest;
+                }
+            };
+            for (let i = (heap.length >> 1) - 1; i >= 0; i--) {
+                siftDown(i);
+            }
+
+            let position = 0;
+            while (heap.length > 0) {
+                const cursor = heap[0];
+                merged.write(cursor.records, cursor.offset);
+                const appended = appendedAt.get(cursor.run.start + cursor.next);
+                if (appended !== undefined) {
+                    this.positions.set(appended, position);
+                }
+                position++;
+                cursor.next++;
+                cursor.offset += RECORD_SIZE;
+                if (!load(cursor)) {
+                    heap[0] = heap[heap.length - 1];
+                    heap.pop();
+                }
+                siftDown(0);
+            }
+        } finally {
+            merged.close();
+            if (sourceFd !== undefined) {
+                fs.closeSync(sourceFd);
+            }
+        }
+
+        if (this.filePath !== undefined && mergedPath !== undefined) {
+            fs.renameSync(mergedPath, this.filePath);
+        }
+        this.output = merged;
+    }
+}
+
+interface IndexRun {
+    start: number;                  // Position of the run's first record as written
+    count: number;
+    firstTimestamp: bigint;
+    lastTimestamp: bigint;
+}
+
+interface MergeCursor {
+    run: IndexRun;
+    next: number;                   // Run record at the cursor
+    records: Buffer;                // Records read ahead from the run, starting at `offset`
+    offset: number;
+    timestamp: bigint;              // Of the record at the cursor
+}
+
+/**
+ * Writes records a page at a time, to a file or kept as pages in memory
+ */
+class PageWriter {
+    readonly pages: Uint8Array[] = [];
+    private fd: number | undefined;
+    private page = Buffer.alloc(PAGE_SIZE);
+    private pageEvents = 0;
+
+    constructor(private readonly filePath?: string) {}
+
+    write(source: Buffer, offset: number): void {
+        source.copy(this.page, this.pageEvents * RECORD_SIZE, offset, offset + RECORD_SIZE);
+        if (++this.pageEvents === PAGE_EVENTS) {
+            this.flushPage();
+        }
+    }
+
+    /**
+     * Read `count` records written from `start` on, from the file open as `fd` or from memory
+     */
+    read(fd: number | undefined, start: number, count: number): Buffer {
+        const records = Buffer.allocUnsafe(count * RECORD_SIZE);
+        if (fd !== undefined) {
+            fs.readSync(fd, records, 0, records.length, start * RECORD_SIZE);
+            return records;
+        }
+        for (let copied = 0; copied < count;) {
+            const page = this.pages[Math.floor((start + copied) / PAGE_EVENTS)];
+            const offset = ((start + copied) % PAGE_EVENTS) * RECORD_SIZE;
+            const length = Math.min((count - copied) * RECORD_SIZE, page.byteLength - offset);
+            records.set(page.subarray(offset, offset + length), copied * RECORD_SIZE);
+            copied += length / RECORD_SIZE;
+        }
+        return records;
+    }
+
+    close(): void {
+        if (this.pageEvents > 0) {
+            this.flushPage();
+        }
+        if (this.fd !== undefined) {
+            fs.closeSync(this.fd);
+            this.fd = undefined;
+        }
+    }
+
+    private flushPage(): void {
+        const bytes = this.pageEvents * RECORD_SIZE;
+        if (this.filePath !== undefined) {
+            if (this.fd === undefined) {
+                this.fd = fs.openSync(this.filePath, 'w');
+            }
+            fs.writeSync(this.fd, this.page, 0, bytes);
+        } else {
+            this.pages.push(this.page.subarray(0, bytes));
+            this.page = Buffer.alloc(PAGE_SIZE);
+        }
+        this.pageEvents = 0;
+    }
+}
+
+/**
+ * Reads an event index back, a page at a time
+ */
+export class EventIndexReader {
+    private fd: number | undefined;
+    private readonly cache = new Map<number, Buffer>();    // Page number -> records, least recently used first
+
+    constructor(private readonly index: EventIndex) {}
+
+    get count(): number {
+        return this.index.count;
+    }
+
+    get(i: number): EventRecord {
+        const pageNumber = Math.floor(i / PAGE_EVENTS);
+        let page = this.cache.get(pageNumber);
+        if (page) {
+            this.cache.delete(pageNumber);
+        } else {
+            page = this.readPage(pageNumber);
+            if (this.cache.size >= READER_CACHED_PAGES) {
+                this.cache.delete(this.cache.keys().next().value!);
+            }
+        }
+        this.cache.set(pageNumber, page);
+        return readRecord(page, (i % PAGE_EVENTS) * RECORD_SIZE);
+    }
+
+    /**
+     * Visit every event in time order
+     */
+    forEach(callback: (event: EventRecord, i: number) => void): void {
+        const pageCount = Math.ceil(this.index.count / PAGE_EVENTS);
+        for (let pageNumber = 0; pageNumber < pageCount; pageNumber++) {
+            const page = this.cache.get(pageNumber) ?? this.readPage(pageNumber);
+            for (let offset = 0, i = pageNumber * PAGE_EVENTS; offset < page.length; offset += RECORD_SIZE, i++) {
+                callback(readRecord(page, offset), i);
+            }
+        }
+    }
+
+    close(): void {
+        if (this.fd !== undefined) {
+            fs.closeSync(this.fd);
+            this.fd = undefined;
+        }
+        this.cache.clear();
+    }
+
+    private readPage(pageNumber: number): Buffer {
+        const { filePath, pages, count } = this.index;
+        if (filePath === undefined) {
+            // Pages posted from the parser worker arrive as plain Uint8Arrays
+            const page = pages[pageNumber];
+            return Buffer.from(page.buffer, page.byteOffset, page.byteLength);
+        }
+        if (this.fd === undefined) {
+            this.fd = fs.openSync(filePath, 'r');
+        }
+        const page = Buffer.allocUnsafe(Math.min(PAGE_EVENTS, count - pageNumber * PAGE_EVENTS) * RECORD_SIZE);
+        fs.readSync(this.fd, page, 0, page.length, pageNumber * PAGE_SIZE);
+        return page;
+    }
+}
+
+/**
+ * Remove the file an index was written to, if any
+ */
+export function deleteEventIndexFile(filePath: string | undefined): void {
+    if (filePath !== undefined) {
+        try {
+            fs.rmSync(filePath, { force: true });
+        } catch {
+            // Still open elsewhere (Windows); the OS cleans up its temporary directory eventually
+        }
+    }
+}
+
+function writeRecord(page: Buffer, offset: number, event: EventRecord): void {
+    page.writeUInt32LE(event.metadataId, offset);
+    page.writeUInt32LE(event.stackId, offset + 4);
+    page.writeBigUInt64LE(BigInt.asUintN(64, event.threadId), offset + 8);
+    page.writeBigInt64LE(BigInt.asIntN(64, event.timestamp), offset + 16);
+    page.writeDoubleLE(event.payloadOffset, offset + 24);
+    page.writeUInt32LE(event.payloadSize, offset + 32);
+}
+
+function readRecord(page: Buffer, offset: number): EventRecord {
+    return {
+        metadataId: page.readUInt32LE(offset),
+        stackId: page.readUInt32LE(offset + 4),
+        threadId: page.readBigUInt64LE(offset + 8),
+        timestamp: page.readBigInt64LE(offset + 16),
+        payloadOffset: page.readDoubleLE(offset + 24),
+        payloadSize: page.readUInt32LE(offset + 32)
+    };
+}
@@ -0,0 +1,151 @@
+/**
+ * Thrown exceptions grouped by type and message, from the runtime's exception events (Exception
+ * keyword, informational level).
+ *
+ * ExceptionThrown is logged once per throw (a rethrow counts again) with the throwing thread's stack.
+ * The runtime then logs the handlers it runs while dispatching it on that thread: ExceptionFilterStart/Stop
+ * around each exception filter it evaluates, ExceptionFinallyStart/Stop around each finally block it runs
+ * while unwinding, and ExceptionCatchStart for the catch block that ends the dispatch.
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getNumber, getString } from './payloadDecoder';
+import { TimeBucket, TimeBucketsBuilder } from './timeBuckets';
+
+export interface ExceptionGroup {
+    typeName: string;
+    message: string;
+    hresult?: number;
+    count: number;
+    firstTimeMs: number;                // Since the start of the trace
+    lastTimeMs: number;
+    threads: Map<bigint, number>;       // OS thread ID -> throws
+    stacks: Map<number, number>;        // stackId -> throws
+    catchMethods: Map<string, number>;  // Method of the catch block that handled it -> count
+    filterMethods: Map<string, number>; // Method of each exception filter evaluated -> count
+    finallyMethods: Map<string, number>;    // Method of each finally block run -> count
+    handlerTimeMs: number;              // Total time spent in those filters and finally blocks
+}
+
+interface GroupRecord extends Omit<ExceptionGroup, 'firstTimeMs' | 'lastTimeMs' | 'handlerTimeMs'> {
+    firstTimestamp: bigint;
+    lastTimestamp: bigint;
+    handlerTicks: bigint;
+}
+
+interface OpenHandler {
+    group: GroupRecord;
+    timestamp: bigint;
+}
+
+export class ExceptionStatsBuilder {
+    private readonly groups = new Map<string, GroupRecord>();   // type + message -> group
+    private readonly dispatching = new Map<bigint, GroupRecord>();   // thread ID -> exception being dispatched
+    private readonly openHandlers = new Map<bigint, OpenHandler[]>();   // thread ID -> filters/finally blocks entered, innermost last
+    private readonly timeline = new TimeBucketsBuilder();
+
+    thrown(fields: PayloadStruct, threadId: bigint, timestamp: bigint, stackId: number): void {
+        const typeName = getString(fields, 'ExceptionType') || '<unknown>';
+        const message = getString(fields, 'ExceptionMessage') ?? '';
+        const key = `${typeName}\n${message}`;
+        let group = this.groups.get(key);
+        if (!group) {
+            group = {
+                typeName,
+                message,
+                hresult: getNumber(fields, 'ExceptionHRESULT'),
+                count: 0,
+                firstTimestamp: timestamp,
+                lastTimestamp: timestamp,
+                threads: new Map(),
+                stacks: new Map(),
+                catchMethods: new Map(),
+                filterMethods: new Map(),
+                finallyMethods: new Map(),
+                handlerTicks: BigInt(0)
+            };
+            this.groups.set(key, group);
+        }
+
+        group.count++;
+        if (timestamp < group.firstTimestamp) {
+            group.firstTimestamp = timestamp;
+        }
+        if (timestamp > group.lastTimestamp) {
+            group.lastTimestamp = timestamp;
+        }
+        group.threads.set(threadId, (group.threads.get(threadId) ?? 0) + 1);
+        if (stackId > 0) {
+            group.stacks.set(stackId, (group.stacks.get(stackId) ?? 0) + 1);
+        }
+        this.dispatching.set(threadId, group);
+        this.timeline.add(timestamp);
+    }
+
+    // The first catch block entered on the throwing thread handles its exception
+    catchStart(fields: PayloadStruct, threadId: bigint): void {
+        const group = this.dispatching.get(threadId);
+        if (!group) {
+            return;
+        }
+        this.dispatching.delete(threadId);
+        const methodName = getString(fields, 'MethodName') || '<unknown>';
+        group.catchMethods.set(methodName, (group.catchMethods.get(methodName) ?? 0) + 1);
+    }
+
+    filterStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.handlerStart(fields, threadId, timestamp, group => group.filterMethods);
+    }
+
+    finallyStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.handlerStart(fields, threadId, timestamp, group => group.finallyMethods);
+    }
+
+    // ExceptionFilterStop and ExceptionFinallyStop carry no payload: each closes the innermost handler open on its thread
+    handlerStop(threadId: bigint, timestamp: bigint): void {
+        const open = this.openHandlers.get(threadId)?.pop();
+        if (open && timestamp > open.timestamp) {
+            open.group.handlerTicks += timestamp - open.timestamp;
+        }
+    }
+
+    private handlerStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint, methods: (group: GroupRecord) => Map<string, number>): void {
+        const group = this.dispatching.get(threadId);
+        if (!group) {
+            return;
+        }
+        const methodName = getString(fields, 'MethodName') || '<unknown>';
+        const counts = methods(group);
+        counts.set(methodName, (counts.get(methodName) ?? 0) + 1);
+
+        let open = this.openHandlers.get(threadId);
+        if (!open) {
+            open = [];
+            this.openHandlers.set(threadId, open);
+        }
+        open.push({ group, timestamp });
+    }
+
+    /**
+     * Groups with the most thrown first
+     */
+    build(traceInfo: TraceInfo | null): ExceptionGroup[] {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+        const toMs = (timestamp: bigint) => frequency > 0 ? Number(timestamp - syncTime) * 1000 / frequency : 0;
+
+        return Array.from(this.groups.values(), ({ firstTimestamp, lastTimestamp, handlerTicks, ...group }) => ({
+            ...group,
+            firstTimeMs: toMs(firstTimestamp),
+            lastTimeMs: toMs(lastTimestamp),
+            handlerTimeMs: frequency > 0 ? Number(handlerTicks) * 1000 / frequency : 0
+        })).sort((a, b) => b.count - a.count);
+    }
+
+    /**
+     * Throws over the trace, which ends at `endTimestamp`
+     */
+    buildTimeline(traceInfo: TraceInfo | null, endTimestamp: bigint): TimeBucket[] {
+        return this.timeline.build(traceInfo, endTimestamp);
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * GC timeline: one record per garbage collection, assembled from the runtime's GC lifecycle events
+ * (GC keyword, informational level).
+ *
+ * A blocking GC is logged as GCSuspendEEBegin/End, GCStart, GCEnd, GCHeapStats and
+ * GCRestartEEBegin/End. A background GC runs while managed threads are resumed: it pauses them when
+ * it starts and again for its final mark (a suspension with no GCStart of its own), and foreground
+ * ephemeral GCs may run in between.
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getBigInt, getNumber } from './payloadDecoder';
+
+export interface GCInfo {
+    number: number;                  // GC index since process start
+    generation: number;              // Condemned generation
+    reason: number;                  // See gcReasonName
+    type: number;                    // See gcTypeName
+    startTimeMs: number;             // Since the start of the trace
+    durationMs?: number;             // GCStart to GCEnd; undefined if the trace ended first
+    pauseDurationMs: number;         // Managed threads suspended, from suspension start to restart
+    suspendDurationMs: number;       // Part of the pause spent suspending threads
+    heapSizeBefore?: number;         // Estimated from the previous heap size plus allocation ticks since
+    heapSizeAfter?: number;          // All generations, from GCHeapStats
+    generationSizesAfter?: number[]; // Gen0, gen1, gen2, LOH, POH
+    promotedBytes?: number;
+    pinnedObjectCount?: number;
+}
+
+interface GCRecord extends Omit<GCInfo, 'startTimeMs' | 'durationMs' | 'pauseDurationMs' | 'suspendDurationMs'> {
+    startTimestamp: bigint;
+    endTimestamp?: bigint;
+    pauseTicks: bigint;
+    suspendTicks: bigint;
+}
+
+interface GCEvent {
+    kind: 'suspendBegin' | 'suspendEnd' | 'gcStart' | 'gcEnd' | 'heapStats' | 'restartEnd' | 'allocationTick';
+    fields: PayloadStruct;
+    timestamp: bigint;
+    amount?: bigint;                 // Bytes allocated, for allocation ticks
+}
+
+interface Suspension {
+    start: bigint;
+    end?: bigint;
+    gc?: GCRecord;
+}
+
+// GCSuspendEEBegin reasons that belong to a GC
+const SUSPEND_FOR_GC = 1;
+const SUSPEND_FOR_GC_PREP = 6;
+
+const GC_TYPE_BACKGROUND = 1;
+
+const GC_REASONS = [
+    'AllocSmall', 'Induced', 'LowMemory', 'Empty', 'AllocLarge', 'OutOfSpaceSOH', 'OutOfSpaceLOH',
+    'InducedNotForced', 'Internal', 'InducedLowMemory', 'InducedCompacting', 'LowMemoryHost', 'PMFullGC',
+    'LowMemoryHostBlocking', 'BGCTuningSOH', 'BGCTuningLOH', 'BGCStepping', 'InducedAggressive',
+];
+
+const GC_TYPES = ['Blocking', 'Background', 'Foreground'];
+
+export function gcReasonName(reason: number): string {
+    return GC_REASONS[reason] ?? `Reason ${reason}`;
+}
+
+export function gcTypeName(type: number): string {
+    return GC_TYPES[type] ?? `Type ${type}`;
+}
+
+export class GCTimelineBuilder {
+    // A GC's events can be logged on different threads (the suspending thread, the GC thread, the
+    // background GC thread), and each thread's events reach the trace in separate buffers, so events
+    // are paired once they are back in time order
+    private readonly events: GCEvent[] = [];
+
+    private readonly gcs: GCRecord[] = [];
+    private suspension: Suspension | undefined;
+    private backgroundGC: GCRecord | undefined;
+    private lastEndedGC: GCRecord | undefined;
+    private lastHeapSizeAfter: number | undefined;
+    private allocatedSinceLastGC = BigInt(0);
+    private sawAllocationTicks = false;
+
+    suspendBegin(fields: PayloadStruct, timestamp: bigint): void {
+        this.events.push({ kind: 'suspendBegin', fields, timestamp });
+    }
+
+    suspendEnd(timestamp: bigint): void {
+        this.events.push({ kind: 'suspendEnd', fields: {}, timestamp });
+    }
+
+    gcStart(fields: PayloadStruct, timestamp: bigint): void {
+        this.events.push({ kind: 'gcStart', fields, timestamp });
+    }
+
+    gcEnd(fields: PayloadStruct, timestamp: bigint): void {
+        this.events.push({ kind: 'gcEnd', fields, timestamp });
+    }
+
+    // Logged right after GCEnd, with the generation sizes the collection left behind
+    heapStats(fields: PayloadStruct, timestamp: bigint): void {
+        this.events.push({ kind: 'heapStats', fields, timestamp });
+    }
+
+    restartEnd(timestamp: bigint): void {
+        this.events.push({ kind: 'restartEnd', fields: {}, timestamp });
+    }
+
+    allocationTick(amount: bigint, timestamp: bigint): void {
+        this.events.push({ kind: 'allocationTick', fields: {}, timestamp, amount });
+    }
+
+    build(traceInfo: TraceInfo | null): GCInfo[] {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const toMs = (ticks: bigint) => frequency > 0 ? Number(ticks) * 1000 / frequency : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+
+        this.events.sort((a, b) => a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0);
+        for (const event of this.events) {
+            this.replay(event);
+        }
+
+        return this.gcs.map(({ startTimestamp, endTimestamp, pauseTicks, suspendTicks, ...gc }) => ({
+            ...gc,
+            startTimeMs: toMs(startTimestamp - syncTime),
+            durationMs: endTimestamp !== undefined ? toMs(endTimestamp - startTimestamp) : undefined,
+            pauseDurationMs: toMs(pauseTicks),
+            suspendDurationMs: toMs(suspendTicks)
+        }));
+    }
+
+    private replay({ kind, fields, timestamp, amount }: GCEvent): void {
+        switch (kind) {
+            case 'suspendBegin': {
+                const reason = getNumber(fields, 'Reason');
+                this.suspension = reason === SUSPEND_FOR_GC || reason === SUSPEND_FOR_GC_PREP ? { start: timestamp } : undefined;
+                break;
+            }
+            case 'suspendEnd':
+                if (this.suspension) {
+                    this.suspension.end = timestamp;
+                }
+                break;
+            case 'gcStart':
+                this.startGC(fields, timestamp);
+                break;
+            case 'gcEnd':
+                this.endGC(fields, timestamp);
+                break;
+            case 'heapStats':
+                this.recordHeapStats(fields);
+                break;
+            case 'restartEnd': {
+                // The pause ends with the restart; suspensions without a GCStart are a background GC's final mark
+                const suspension = this.suspension;
+                this.suspension = undefined;
+                const gc = suspension?.gc ?? this.backgroundGC;
+                if (!suspension || !gc) {
+                    break;
+                }
+                gc.pauseTicks += timestamp - suspension.start;
+                gc.suspendTicks += (suspension.end ?? timestamp) - suspension.start;
+                break;
+            }
+            case 'allocationTick':
+                this.allocatedSinceLastGC += amount ?? BigInt(0);
+                this.sawAllocationTicks = true;
+                break;
+        }
+    }
+
+    private startGC(fields: PayloadStruct, timestamp: bigint): void {
+        const number = getNumber(fields, 'Count');
+        if (number === undefined) {
+            return;
+        }
+        const gc: GCRecord = {
+            number,
+            generation: getNumber(fields, 'Depth') ?? 0,
+            reason: getNumber(fields, 'Reason') ?? 0,
+            type: getNumber(fields, 'Type') ?? 0,
+            startTimestamp: timestamp,
+            pauseTicks: BigInt(0),
+            suspendTicks: BigInt(0)
+        };
+        if (this.sawAllocationTicks && this.lastHeapSizeAfter !== undefined) {
+            gc.heapSizeBefore = this.lastHeapSizeAfter + Number(this.allocatedSinceLastGC);
+        }
+        this.allocatedSinceLastGC = BigInt(0);
+
+        this.gcs.push(gc);
+        if (this.suspension && !this.suspension.gc) {
+            this.suspension.gc = gc;
+        }
+        if (gc.type === GC_TYPE_BACKGROUND) {
+            this.backgroundGC = gc;
+        }
+    }
+
+    private endGC(fields: PayloadStruct, timestamp: bigint): void {
+        const number = getNumber(fields, 'Count');
+        for (let i = this.gcs.length - 1; i >= 0; i--) {
+            const gc = this.gcs[i];
+            if (gc.number === number && gc.endTimestamp === undefined) {
+                gc.endTimestamp = timestamp;
+                this.lastEndedGC = gc;
+                if (gc === this.backgroundGC) {
+                    this.backgroundGC = undefined;
+                }
+                return;
+            }
+        }
+    }
+
+    private recordHeapStats(fields: PayloadStruct): void {
+        const gc = this.lastEndedGC;
+        if (!gc || gc.generationSizesAfter) {
+            return;
+        }
+        const generationSizes = [0, 1, 2, 3, 4].map(gen => Number(getBigInt(fields, `GenerationSize${gen}`) ?? BigInt(0)));
+        gc.generationSizesAfter = generationSizes;
+        gc.heapSizeAfter = generationSizes.reduce((sum, size) => sum + size, 0);
+        gc.promotedBytes = [0, 1, 2, 3, 4].reduce((sum, gen) => sum + Number(getBigInt(fields, `TotalPromotedSize${gen}`) ?? BigInt(0)), 0);
+        gc.pinnedObjectCount = getNumber(fields, 'PinnedObjectCount');
+        this.lastHeapSizeAfter = gc.heapSizeAfter;
+    }
+}
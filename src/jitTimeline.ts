@@ -0,0 +1,128 @@
+/**
+ * JIT compilations from the runtime's method events (JIT keyword, verbose level).
+ *
+ * The compiling thread logs MethodJittingStarted, then MethodLoadVerbose once the code is ready; the
+ * MethodFlags of the load say which optimization tier the code was compiled at. With tiered
+ * compilation a method is usually compiled more than once: quickly at tier 0, then optimized at
+ * tier 1 once it is called often, with on-stack replacement (OSR) versions for hot loops in between.
+ * Methods whose ReadyToRun code is used instead log R2RGetEntryPoint (CompilationDiagnostic keyword).
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getBigInt, getNumber, getString } from './payloadDecoder';
+
+export interface JitCompilation {
+    methodId: bigint;
+    methodName: string;         // Namespace.Name
+    methodSignature: string;
+    threadId: bigint;
+    startTimeMs: number;        // Since the start of the trace; the load time when the start wasn't seen
+    durationMs?: number;        // JittingStarted to MethodLoadVerbose
+    tier: number;               // See jitTierName
+    flags: number;              // MethodFlags
+    ilSize?: number;
+    codeAddress: bigint;
+    codeSize: number;
+}
+
+export interface JitTimeline {
+    compilations: JitCompilation[];     // In the order they started
+    readyToRunMethods: number;          // Methods that used precompiled code rather than being jitted
+}
+
+interface JitRecord extends Omit<JitCompilation, 'startTimeMs' | 'durationMs'> {
+    startTimestamp?: bigint;
+    loadTimestamp: bigint;
+}
+
+interface JitStart {
+    timestamp: bigint;
+    ilSize?: number;
+}
+
+// MethodFlags: flag bits, and the optimization tier in bits 7-9
+const METHOD_FLAG_NAMES: [number, string][] = [
+    [0x1, 'Dynamic'],
+    [0x2, 'Generic'],
+    [0x4, 'Shared generic code'],
+    [0x10, 'JIT helper'],
+    [0x20, 'Profiler rejected precompiled code'],
+    [0x40, 'ReadyToRun code rejected'],
+];
+const OPTIMIZATION_TIER_SHIFT = 7;
+const OPTIMIZATION_TIER_MASK = 0x7;
+
+const JIT_TIERS = [
+    'Unknown', 'MinOpts', 'Optimized', 'Tier0', 'Tier1', 'Tier1 OSR', 'Tier0 Instrumented', 'Tier1 Instrumented',
+];
+
+export function jitTierName(tier: number): string {
+    return JIT_TIERS[tier] ?? `Tier ${tier}`;
+}
+
+export function jitFlagNames(flags: number): string[] {
+    return METHOD_FLAG_NAMES.filter(([flag]) => (flags & flag) !== 0).map(([, name]) => name);
+}
+
+export class JitTimelineBuilder {
+    private readonly compilations: JitRecord[] = [];
+    private readonly pendingStarts = new Map<string, JitStart>();  // thread ID + method ID -> start
+    private readonly readyToRunMethods = new Set<bigint>();
+
+    jittingStarted(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        const methodId = getBigInt(fields, 'MethodID');
+        if (methodId !== undefined) {
+            this.pendingStarts.set(`${threadId}/${methodId}`, { timestamp, ilSize: getNumber(fields, 'MethodILSize') });
+        }
+    }
+
+    methodLoad(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        const methodId = getBigInt(fields, 'MethodID');
+        if (methodId === undefined) {
+            return;
+        }
+        const key = `${threadId}/${methodId}`;
+        const start = this.pendingStarts.get(key);
+        this.pendingStarts.delete(key);
+
+        const flags = getNumber(fields, 'MethodFlags') ?? 0;
+        const namespace = getString(fields, 'MethodNamespace') ?? '';
+        const name = getString(fields, 'MethodName') ?? '';
+        this.compilations.push({
+            methodId,
+            methodName: namespace ? `${namespace}.${name}` : name,
+            methodSignature: getString(fields, 'MethodSignature') ?? '',
+            threadId,
+            tier: (flags >> OPTIMIZATION_TIER_SHIFT) & OPTIMIZATION_TIER_MASK,
+            flags,
+            ilSize: start?.ilSize,
+            codeAddress: getBigInt(fields, 'MethodStartAddress') ?? BigInt(0),
+            codeSize: getNumber(fields, 'MethodSize') ?? 0,
+            startTimestamp: start?.timestamp,
+            loadTimestamp: timestamp
+        });
+    }
+
+    readyToRunEntryPoint(fields: PayloadStruct): void {
+        const methodId = getBigInt(fields, 'MethodID');
+        if (methodId !== undefined) {
+            this.readyToRunMethods.add(methodId);
+        }
+    }
+
+    build(traceInfo: TraceInfo | null): JitTimeline {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const toMs = (ticks: bigint) => frequency > 0 ? Number(ticks) * 1000 / frequency : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+
+        const compilations = this.compilations.map(({ startTimestamp, loadTimestamp, ...compilation }) => ({
+            ...compilation,
+            startTimeMs: toMs((startTimestamp ?? loadTimestamp) - syncTime),
+            durationMs: startTimestamp !== undefined ? toMs(loadTimestamp - startTimestamp) : undefined
+        }));
+        return {
+            compilations: compilations.sort((a, b) => a.startTimeMs - b.startTimeMs),
+            readyToRunMethods: this.readyToRunMethods.size
+        };
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Application log entries from the Microsoft-Extensions-Logging provider, which forwards ILogger
+ * calls to EventPipe through the EventSource logger.
+ *
+ * Depending on the keywords enabled, each log call writes FormattedMessage (the rendered message),
+ * Message (structured arguments, not described by the event's metadata) and MessageJson (exception
+ * and arguments as JSON), in that order and on the logging thread. One entry is kept per call.
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getNumber, getString } from './payloadDecoder';
+
+export interface LogMessage {
+    eventIndex: number;         // Position of the entry's first event in the event index
+    timeMs: number;             // Since the start of the trace
+    threadId: bigint;
+    level: number;              // See logLevelName
+    category: string;           // Logger name
+    eventId: number;
+    eventName: string;
+    message: string;
+    exception?: string;         // Type and message of the logged exception
+    arguments?: Record<string, string>;   // Structured logging arguments, including {OriginalFormat}
+}
+
+interface LogRecord extends Omit<LogMessage, 'timeMs'> {
+    timestamp: bigint;
+}
+
+const LOG_LEVELS = ['Trace', 'Debug', 'Information', 'Warning', 'Error', 'Critical', 'None'];
+
+export function logLevelName(level: number): string {
+    return LOG_LEVELS[level] ?? `Level ${level}`;
+}
+
+export class LogMessageBuilder {
+    private readonly messages: LogRecord[] = [];
+    private readonly lastFormatted = new Map<bigint, LogRecord>();    // thread ID -> entry awaiting its MessageJson
+
+    formattedMessage(fields: PayloadStruct, eventIndex: number, threadId: bigint, timestamp: bigint): void {
+        const message = this.createMessage(fields, eventIndex, threadId, timestamp);
+        this.messages.push(message);
+        this.lastFormatted.set(threadId, message);
+    }
+
+    messageJson(fields: PayloadStruct, eventIndex: number, threadId: bigint, timestamp: bigint): void {
+        // Merge into the FormattedMessage the same call just wrote, if that keyword is enabled too
+        let message = this.lastFormatted.get(threadId);
+        this.lastFormatted.delete(threadId);
+        if (!message || message.category !== (getString(fields, 'LoggerName') ?? '') || message.eventId !== (getNumber(fields, 'EventId') ?? 0)) {
+            message = this.createMessage(fields, eventIndex, threadId, timestamp);
+            this.messages.push(message);
+        }
+
+        const exception = parseJson(getString(fields, 'ExceptionJson'));
+        if (exception?.TypeName) {
+            message.exception = exception.Message ? `${exception.TypeName}: ${exception.Message}` : exception.TypeName;
+        }
+        const args = parseJson(getString(fields, 'ArgumentsJson'));
+        if (args && Object.keys(args).length > 0) {
+            message.arguments = args;
+        }
+    }
+
+    /**
+     * Entries in time order
+     */
+    build(traceInfo: TraceInfo | null): LogMessage[] {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+        const toMs = (timestamp: bigint) => frequency > 0 ? Number(timestamp - syncTime) * 1000 / frequency : 0;
+
+        return this.messages
+            .sort((a, b) => a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0)
+            .map(({ timestamp, ...message }) => ({ ...message, timeMs: toMs(timestamp) }));
+    }
+
+    private createMessage(fields: PayloadStruct, eventIndex: number, threadId: bigint, timestamp: bigint): LogRecord {
+        return {
+            eventIndex,
+            timestamp,
+            threadId,
+            level: getNumber(fields, 'Level') ?? 0,
+            category: getString(fields, 'LoggerName') ?? '',
+            eventId: getNumber(fields, 'EventId') ?? 0,
+            eventName: getString(fields, 'EventName') ?? '',
+            message: getString(fields, 'FormattedMessage') ?? ''
+        };
+    }
+}
+
+// The logger writes JSON objects of string values; anything else is ignored
+function parseJson(json: string | undefined): Record<string, string> | undefined {
+    if (!json) {
+        return undefined;
+    }
+    try {
+        const value = JSON.parse(json);
+        return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+    } catch (err) {
+        return undefined;
+    }
+}
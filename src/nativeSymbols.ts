@@ -0,0 +1,191 @@
+/**
+ * Native frame symbolization from ELF binaries on the local machine.
+ *
+ * Traces don't record where native libraries were loaded, so the load ranges come from a
+ * `/proc/<pid>/maps` listing of the traced process (the live file while the process still runs,
+ * or a saved copy). Function symbols are read from each library's `.symtab` and `.dynsym`
+ * sections and relocated by the library's load address.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SymbolRange } from './symbolResolver';
+
+/**
+ * A file mapped into the traced process, spanning all of its mappings
+ */
+export interface NativeImage {
+    path: string;
+    start: bigint;
+    end: bigint;
+    loadAddress: bigint;    // Start of the mapping at file offset 0
+}
+
+export interface NativeSymbols {
+    symbols: SymbolRange[];    // Functions, named `library!function`
+    images: SymbolRange[];     // Mapped images, for addresses no symbol covers
+    symbolizedImages: number;  // Images whose ELF file was found and read
+}
+
+interface ElfSymbol {
+    value: bigint;
+    size: number;
+    name: string;
+}
+
+interface ElfFile {
+    symbols: ElfSymbol[];
+    firstLoadVaddr: bigint;    // Virtual address that file offset 0 is linked at
+}
+
+// Maps line: <start>-<end> <perms> <offset> <dev> <inode> <path>
+const MAPS_LINE = /^([0-9a-fA-F]+)-([0-9a-fA-F]+)\s+(\S+)\s+([0-9a-fA-F]+)\s+\S+\s+\d+\s+(\/.*)$/;
+
+const ELF_MAGIC = 0x464c457f;  // "\x7fELF" read little-endian
+const ELF_CLASS_64 = 2;
+const ELF_DATA_LSB = 1;
+const PT_LOAD = 1;
+const SHT_SYMTAB = 2;
+const SHT_DYNSYM = 11;
+const STT_FUNC = 2;
+
+/**
+ * Parse a `/proc/<pid>/maps` listing into the file-backed images that have executable code
+ */
+export function parseProcMaps(text: string): NativeImage[] {
+    const images = new Map<string, NativeImage & { executable: boolean }>();
+    for (const line of text.split('\n')) {
+        const match = MAPS_LINE.exec(line.trim());
+        if (!match) {
+            continue;
+        }
+        const start = BigInt('0x' + match[1]);
+        const end = BigInt('0x' + match[2]);
+        const offset = BigInt('0x' + match[4]);
+        const filePath = match[5].replace(/ \(deleted\)$/, '');
+
+        let image = images.get(filePath);
+        if (!image) {
+            image = { path: filePath, start, end, loadAddress: start - offset, executable: false };
+            images.set(filePath, image);
+        }
+        if (start < image.start) { image.start = start; }
+        if (end > image.end) { image.end = end; }
+        if (offset === BigInt(0)) { image.loadAddress = start; }
+        image.executable ||= match[3].includes('x');
+    }
+    return Array.from(images.values())
+        .filter(image => image.executable)
+        .map(({ executable: _executable, ...image }) => image);
+}
+
+/**
+ * Locate the local copy of a mapped file: at its original path, else by file name in the search paths
+ */
+export function findNativeImage(imagePath: string, searchPaths: string[]): string | undefined {
+    const fileName = path.basename(imagePath);
+    const candidates = [imagePath, ...searchPaths.map(dir => path.join(dir, fileName))];
+    return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+/**
+ * Read function symbols for every mapped image whose ELF file can be found locally
+ */
+export async function loadNativeSymbols(images: NativeImage[], searchPaths: string[]): Promise<NativeSymbols> {
+    const result: NativeSymbols = { symbols: [], images: [], symbolizedImages: 0 };
+
+    for (const image of images) {
+        const imageName = path.basename(image.path);
+        result.images.push({ address: image.start, size: Number(image.end - image.start), name: imageName });
+
+        const localPath = findNativeImage(image.path, searchPaths);
+        if (!localPath) {
+            continue;
+        }
+        let elf: ElfFile | undefined;
+        try {
+            elf = readElfFile(await fs.promises.readFile(localPath));
+        } catch {
+            elf = undefined;  // Unreadable or truncated file
+        }
+        if (!elf) {
+            continue;  // Not an ELF file (e.g. a mapped managed assembly)
+        }
+
+        const bias = image.loadAddress - elf.firstLoadVaddr;
+        for (const symbol of elf.symbols) {
+            result.symbols.push({ address: symbol.value + bias, size: symbol.size, name: `${imageName}!${symbol.name}` });
+        }
+        result.symbolizedImages++;
+    }
+    return result;
+}
+
+/**
+ * Read the sized function symbols of a little-endian ELF file, or undefined if it isn't one
+ */
+function readElfFile(data: Buffer): ElfFile | undefined {
+    if (data.length < 0x40 || data.readUInt32LE(0) !== ELF_MAGIC || data[5] !== ELF_DATA_LSB) {
+        return undefined;
+    }
+    const is64 = data[4] === ELF_CLASS_64;
+    const readAddress = (offset: number): bigint => is64 ? data.readBigUInt64LE(offset) : BigInt(data.readUInt32LE(offset));
+
+    const phOffset = Number(is64 ? data.readBigUInt64LE(0x20) : data.readUInt32LE(0x1C));
+    const shOffset = Number(is64 ? data.readBigUInt64LE(0x28) : data.readUInt32LE(0x20));
+    const phEntrySize = data.readUInt16LE(is64 ? 0x36 : 0x2A);
+    const phCount = data.readUInt16LE(is64 ? 0x38 : 0x2C);
+    const shEntrySize = data.readUInt16LE(is64 ? 0x3A : 0x2E);
+    const shCount = data.readUInt16LE(is64 ? 0x3C : 0x30);
+
+    // The load address corresponds to file offset 0, i.e. the first segment's vaddr minus its offset
+    let firstLoadVaddr = BigInt(0);
+    for (let i = 0; i < phCount; i++) {
+        const ph = phOffset + i * phEntrySize;
+        if (data.readUInt32LE(ph) === PT_LOAD) {
+            const offset = is64 ? data.readBigUInt64LE(ph + 0x08) : BigInt(data.readUInt32LE(ph + 0x04));
+            firstLoadVaddr = readAddress(is64 ? ph + 0x10 : ph + 0x08) - offset;
+            break;
+        }
+    }
+
+    const sections = [];
+    for (let i = 0; i < shCount; i++) {
+        const sh = shOffset + i * shEntrySize;
+        sections.push({
+            type: data.readUInt32LE(sh + 0x04),
+            offset: Number(is64 ? data.readBigUInt64LE(sh + 0x18) : data.readUInt32LE(sh + 0x10)),
+            size: Number(is64 ? data.readBigUInt64LE(sh + 0x20) : data.readUInt32LE(sh + 0x14)),
+            link: data.readUInt32LE(is64 ? sh + 0x28 : sh + 0x18),
+            entrySize: Number(is64 ? data.readBigUInt64LE(sh + 0x38) : data.readUInt32LE(sh + 0x24))
+        });
+    }
+
+    // .symtab is a superset of .dynsym when present; read both and keep one symbol per address
+    const symbols = new Map<bigint, ElfSymbol>();
+    for (const section of sections) {
+        if ((section.type !== SHT_SYMTAB && section.type !== SHT_DYNSYM) || section.entrySize === 0) {
+            continue;
+        }
+        const strings = sections[section.link];
+        if (!strings) {
+            continue;
+        }
+        const count = Math.floor(section.size / section.entrySize);
+        for (let i = 0; i < count; i++) {
+            const sym = section.offset + i * section.entrySize;
+            const nameOffset = data.readUInt32LE(sym);
+            const info = data[is64 ? sym + 0x04 : sym + 0x0C];
+            const value = readAddress(is64 ? sym + 0x08 : sym + 0x04);
+            const size = Number(is64 ? data.readBigUInt64LE(sym + 0x10) : data.readUInt32LE(sym + 0x08));
+            if ((info & 0xf) !== STT_FUNC || value === BigInt(0) || size === 0 || symbols.has(value)) {
+                continue;
+            }
+            const nameStart = strings.offset + nameOffset;
+            const nameEnd = data.indexOf(0, nameStart);
+            symbols.set(value, { value, size, name: data.toString('utf8', nameStart, nameEnd < 0 ? data.length : nameEnd) });
+        }
+    }
+
+    return { symbols: Array.from(symbols.values()), firstLoadVaddr };
+}
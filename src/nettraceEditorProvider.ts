@@ -1,31 +1,254 @@
 import * as vscode from 'vscode';
-import { NetTraceFullParser, ParseResult, AllocationInfo, MethodProfile } from './nettraceParser';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ParseResult, computeMethodProfiles } from './nettraceParser';
+import { parseInBackground, ParseWorkerRequest } from './backgroundParser';
+import { EventBrowser, eventDisplayName } from './eventBrowser';
+import { EventIndexReader, deleteEventIndexFile } from './eventIndex';
+import { SymbolResolver, SymbolRange, getModuleName } from './symbolResolver';
+import { findPerfMap, getPerfMapSearchDirs, parsePerfMap } from './perfMap';
+import { NativeSymbols, loadNativeSymbols, parseProcMaps } from './nativeSymbols';
+import { SourceLookup, SourceResolver, getSourceLookupAddress } from './sourceResolver';
+import { findMethodDefinition } from './workspaceSymbols';
+import { gcReasonName, gcTypeName } from './gcTimeline';
+import { threadPoolAdjustmentReasonName } from './threadPool';
+import { CounterSeries } from './eventCounters';
+import { JitCompilation, jitFlagNames, jitTierName } from './jitTimeline';
+import { logLevelName } from './logMessages';
+import { AspNetRequest } from './aspNetRequests';
+import { DnsLookupSpan, HttpRequestSpan, SocketConnectSpan } from './networkActivity';
+import { DatabaseCommand } from './databaseCommands';
+import { SampleFilter, applySampleFilter, isSampleFilterActive } from './sampleFilter';
+import { summarizeThreads } from './threadActivity';
 
 /**
  * Custom document for .nettrace files
  */
 class NetTraceDocument implements vscode.CustomDocument {
     readonly uri: vscode.Uri;
+    private readonly workerPath: string;
     private _parseResult: ParseResult | null = null;
     private _disposed = false;
-
-    constructor(uri: vscode.Uri) {
+    // Source of event payloads for the Events tab: the trace file, or its contents for non-file URIs
+    private data: Buffer | undefined;
+    private fd: number | undefined;
+    // Reads back the event index, which the parser writes to a temporary file deleted with the result
+    private eventIndexReader: EventIndexReader | undefined;
+    // Perf map symbols used for addresses the trace's own method events don't cover
+    private perfMapUri: vscode.Uri | undefined;
+    private perfMapSymbols: SymbolRange[] = [];
+    // Native library load ranges (a /proc/<pid>/maps listing) and the ELF symbols found for them
+    private nativeMapsUri: vscode.Uri | undefined;
+    private nativeSymbols: NativeSymbols | undefined;
+    // Source lines from portable PDBs, created on the first lookup and dropped on reload
+    private sourceResolver: SourceResolver | undefined;
+
+    constructor(uri: vscode.Uri, extensionUri: vscode.Uri) {
         this.uri = uri;
+        this.workerPath = vscode.Uri.joinPath(extensionUri, 'dist', 'parserWorker.js').fsPath;
+    }
+
+    async load(token: vscode.CancellationToken): Promise<void> {
+        const fileName = this.uri.path.split('/').pop() || '';
+        
+        // The current result and its payload source stay in use until the new parse succeeds
+        let data: Buffer | undefined;
+        const indexPath = path.join(os.tmpdir(), `nettrace-${crypto.randomUUID()}.events`);
+        const parseResult = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Parsing ${fileName}`,
+            cancellable: true
+        }, async (progress, progressToken) => {
+            // Stop parsing when either the editor is closed or the notification is cancelled
+            const cancellation = new vscode.CancellationTokenSource();
+            const subscriptions = [
+                token.onCancellationRequested(() => cancellation.cancel()),
+                progressToken.onCancellationRequested(() => cancellation.cancel())
+            ];
+            
+            try {
+                // Local files are streamed by the worker block by block so memory stays bounded
+                let request: ParseWorkerRequest;
+                if (this.uri.scheme === 'file') {
+                    request = { filePath: this.uri.fsPath, indexPath };
+                } else {
+                    const contents = await vscode.workspace.fs.readFile(this.uri);
+                    data = Buffer.from(contents.buffer, contents.byteOffset, contents.byteLength);
+                    request = { data: contents, indexPath };
+                }
+                
+                let reportedPercent = 0;
+                return await parseInBackground(this.workerPath, request, p => {
+                    const percent = p.totalBytes > 0 ? Math.floor((p.bytesConsumed / p.totalBytes) * 100) : 0;
+                    progress.report({
+                        increment: percent - reportedPercent,
+                        message: `${formatBytes(BigInt(p.bytesConsumed))} of ${formatBytes(BigInt(p.totalBytes))} • ${p.blocksProcessed.toLocaleString()} blocks`
+                    });
+                    reportedPercent = percent;
+                }, cancellation.token);
+            } catch (err) {
+                deleteEventIndexFile(indexPath);
+                throw err;
+            } finally {
+                subscriptions.forEach(s => s.dispose());
+                cancellation.dispose();
+            }
+        });
+        if (this._parseResult) {
+            this.releaseEventIndex(this._parseResult);
+        }
+        this.closeFile();
+        this.data = data;
+        this.sourceResolver = undefined;
+        this._parseResult = parseResult;
+        
+        // Reuse a perf map picked earlier, otherwise look for one written by the traced process
+        const processId = parseResult.traceInfo?.processId;
+        let perfMapUri = this.perfMapUri;
+        if (!perfMapUri && processId && this.uri.scheme === 'file') {
+            const perfMapPath = findPerfMap(processId, getPerfMapSearchDirs(this.uri.fsPath));
+            perfMapUri = perfMapPath ? vscode.Uri.file(perfMapPath) : undefined;
+        }
+        if (perfMapUri) {
+            try {
+                await this.loadPerfMap(perfMapUri);
+            } catch (err) {
+                vscode.window.showWarningMessage(`Failed to load perf map ${perfMapUri.fsPath}: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
+        
+        // Likewise for native modules: a maps file picked earlier, or the process's own while it still runs
+        let nativeMapsUri = this.nativeMapsUri;
+        if (!nativeMapsUri && processId && this.uri.scheme === 'file' && fs.existsSync(`/proc/${processId}/maps`)) {
+            nativeMapsUri = vscode.Uri.file(`/proc/${processId}/maps`);
+        }
+        if (nativeMapsUri) {
+            try {
+                await this.loadNativeModules(nativeMapsUri);
+            } catch (err) {
+                vscode.window.showWarningMessage(`Failed to load native modules from ${nativeMapsUri.fsPath}: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
+    }
+
+    /**
+     * Load a perf map and re-symbolize the method profiles with it
+     */
+    async loadPerfMap(uri: vscode.Uri): Promise<void> {
+        const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        this.perfMapSymbols = parsePerfMap(text);
+        this.perfMapUri = uri;
+        this.recomputeMethodProfiles();
+    }
+
+    /**
+     * Load native library ranges from a /proc/<pid>/maps listing and read their ELF symbols
+     */
+    async loadNativeModules(uri: vscode.Uri): Promise<void> {
+        // /proc files report a size of 0, so read local files directly rather than through workspace.fs
+        const text = uri.scheme === 'file'
+            ? await fs.promises.readFile(uri.fsPath, 'utf8')
+            : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        const searchPaths = vscode.workspace.getConfiguration('nettraceViewer').get<string[]>('nativeSymbolSearchPaths', []);
+        this.nativeSymbols = await loadNativeSymbols(parseProcMaps(text), searchPaths);
+        this.nativeMapsUri = uri;
+        this.recomputeMethodProfiles();
+    }
+
+    private recomputeMethodProfiles(): void {
+        if (this._parseResult) {
+            this._parseResult.methodProfiles = computeMethodProfiles(this._parseResult, this.createSymbolResolver());
+        }
+    }
+
+    get perfMap(): { path: string; symbolCount: number } | undefined {
+        return this.perfMapUri ? { path: this.perfMapUri.fsPath, symbolCount: this.perfMapSymbols.length } : undefined;
+    }
+
+    get nativeModules(): { path: string; imageCount: number; symbolizedImages: number; symbolCount: number } | undefined {
+        return this.nativeMapsUri && this.nativeSymbols ? {
+            path: this.nativeMapsUri.fsPath,
+            imageCount: this.nativeSymbols.images.length,
+            symbolizedImages: this.nativeSymbols.symbolizedImages,
+            symbolCount: this.nativeSymbols.symbols.length
+        } : undefined;
     }
 
-    async load(): Promise<void> {
-        const data = await vscode.workspace.fs.readFile(this.uri);
-        const buffer = Buffer.from(data);
-        const parser = new NetTraceFullParser(buffer);
-        this._parseResult = parser.parse();
+    createSymbolResolver(): SymbolResolver {
+        return new SymbolResolver(
+            this._parseResult?.methodsByAddress.values() ?? [],
+            this._parseResult?.modules ?? new Map(),
+            [...this.perfMapSymbols, ...(this.nativeSymbols?.symbols ?? [])],
+            this.nativeSymbols?.images
+        );
+    }
+
+    /**
+     * Find the source line of a frame address through the PDBs of the trace's modules
+     */
+    async resolveSource(addr: bigint): Promise<SourceLookup> {
+        if (!this._parseResult) {
+            return { reason: 'The trace has not been parsed.' };
+        }
+        if (!this.sourceResolver) {
+            const searchPaths = vscode.workspace.getConfiguration('nettraceViewer').get<string[]>('symbolSearchPaths', []);
+            this.sourceResolver = new SourceResolver(this._parseResult, searchPaths);
+        }
+        return this.sourceResolver.resolve(addr);
     }
 
     get parseResult(): ParseResult | null {
         return this._parseResult;
     }
 
+    /**
+     * Reader for the parse result's event index, opened on first use
+     */
+    get events(): EventIndexReader | undefined {
+        if (this._parseResult && !this.eventIndexReader) {
+            this.eventIndexReader = new EventIndexReader(this._parseResult.eventIndex);
+        }
+        return this.eventIndexReader;
+    }
+
+    /**
+     * Read an event payload back from the trace; offsets come from the parse result's event index
+     */
+    readPayload(offset: number, size: number): Buffer {
+        if (this.data) {
+            return this.data.subarray(offset, offset + size);
+        }
+        if (this.fd === undefined) {
+            this.fd = fs.openSync(this.uri.fsPath, 'r');
+        }
+        const payload = Buffer.alloc(size);
+        const bytesRead = fs.readSync(this.fd, payload, 0, size, offset);
+        return payload.subarray(0, bytesRead);
+    }
+
+    private closeFile(): void {
+        if (this.fd !== undefined) {
+            fs.closeSync(this.fd);
+            this.fd = undefined;
+        }
+    }
+
+    // Close the reader before deleting the index file, which can't be deleted while open on Windows
+    private releaseEventIndex(result: ParseResult): void {
+        this.eventIndexReader?.close();
+        this.eventIndexReader = undefined;
+        deleteEventIndexFile(result.eventIndex.filePath);
+    }
+
     dispose(): void {
         this._disposed = true;
+        this.closeFile();
+        this.data = undefined;
+        if (this._parseResult) {
+            this.releaseEventIndex(this._parseResult);
+        }
     }
 }
 
@@ -45,8 +268,8 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         openContext: vscode.CustomDocumentOpenContext,
         token: vscode.CancellationToken
     ): Promise<NetTraceDocument> {
-        const document = new NetTraceDocument(uri);
-        await document.load();
+        const document = new NetTraceDocument(uri, this.context.extensionUri);
+        await document.load(token);
         return document;
     }
 
@@ -60,17 +283,127 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             localResourceRoots: [this.context.extensionUri]
         };
 
+        // Part of the trace selected in the Timeline tab and threads selected in the Threads tab, which
+        // the CPU and allocation views are limited to
+        let sampleFilter: SampleFilter = {};
+
+        // Reload requested from the webview, stopped if the editor is closed before it completes
+        let refresh: vscode.CancellationTokenSource | undefined;
+        webviewPanel.onDidDispose(() => refresh?.cancel());
+
         webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview, document);
 
+        // The Events tab pages through events on demand; rebuilt whenever the trace is reloaded
+        let eventBrowser: EventBrowser | undefined;
+        const getEventBrowser = (): EventBrowser | undefined => {
+            const result = document.parseResult;
+            const events = document.events;
+            if (result && events && !eventBrowser) {
+                eventBrowser = new EventBrowser(result, events, (offset, size) => document.readPayload(offset, size), this.createFrameResolver(document));
+            }
+            return eventBrowser;
+        };
+
         // Handle messages from webview
         webviewPanel.webview.onDidReceiveMessage(
             message => {
                 switch (message.command) {
-                    case 'refresh':
-                        document.load().then(() => {
+                    case 'queryEvents':
+                        try {
+                            const page = getEventBrowser()?.query(message.filter, message.start, message.count);
+                            webviewPanel.webview.postMessage({
+                                command: 'eventsPage',
+                                requestId: message.requestId,
+                                start: message.start,
+                                total: page?.total ?? 0,
+                                rows: page?.rows ?? []
+                            });
+                        } catch (err) {
+                            webviewPanel.webview.postMessage({
+                                command: 'eventsPage',
+                                requestId: message.requestId,
+                                start: message.start,
+                                total: 0,
+                                rows: [],
+                                error: `Failed to read events: ${err instanceof Error ? err.message : String(err)}`
+                            });
+                        }
+                        break;
+                    case 'getEventDetails':
+                        try {
+                            const details = getEventBrowser()?.getDetails(message.index);
+                            webviewPanel.webview.postMessage({ command: 'eventDetails', index: message.index, details });
+                        } catch (err) {
+                            webviewPanel.webview.postMessage({
+                                command: 'eventDetails',
+                                index: message.index,
+                                error: `Failed to read event: ${err instanceof Error ? err.message : String(err)}`
+                            });
+                        }
+                        break;
+                    case 'loadPerfMap':
+                        this.pickPerfMap(document).then(loaded => {
+                            if (loaded) {
+                                eventBrowser = undefined;
+                                webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview, document, sampleFilter);
+                            }
+                        });
+                        break;
+                    case 'loadNativeModules':
+                        this.pickNativeModules(document).then(loaded => {
+                            if (loaded) {
+                                eventBrowser = undefined;
+                                webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview, document, sampleFilter);
+                            }
+                        });
+                        break;
+                    case 'openSource':
+                        this.openSource(document, BigInt(message.address)).catch(err => {
+                            vscode.window.showErrorMessage(`Failed to open source: ${err instanceof Error ? err.message : String(err)}`);
+                        });
+                        break;
+                    case 'setTimeRange':
+                        sampleFilter = {
+                            ...sampleFilter,
+                            timeRange: message.range ? { startMs: message.range.startMs, endMs: message.range.endMs } : undefined
+                        };
+                        webviewPanel.webview.postMessage({
+                            command: 'sampleViews',
+                            views: this.buildSampleViews(document, sampleFilter, this.createFrameResolver(document))
+                        });
+                        break;
+                    case 'setThreadFilter':
+                        // Thread IDs are posted as strings, as bigints don't survive JSON
+                        sampleFilter = {
+                            ...sampleFilter,
+                            threadIds: message.threadIds ? (message.threadIds as string[]).map(threadId => BigInt(threadId)) : undefined
+                        };
+                        webviewPanel.webview.postMessage({
+                            command: 'sampleViews',
+                            views: this.buildSampleViews(document, sampleFilter, this.createFrameResolver(document))
+                        });
+                        break;
+                    case 'refresh': {
+                        eventBrowser = undefined;
+                        sampleFilter = {};
+                        // A new reload supersedes one still running
+                        refresh?.cancel();
+                        const cancellation = new vscode.CancellationTokenSource();
+                        refresh = cancellation;
+                        document.load(cancellation.token).then(() => {
                             webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview, document);
+                        }, err => {
+                            if (!(err instanceof vscode.CancellationError)) {
+                                vscode.window.showErrorMessage(`Failed to parse trace: ${err instanceof Error ? err.message : String(err)}`);
+                            }
+                        }).finally(() => {
+                            cancellation.dispose();
+                            if (refresh === cancellation) {
+                                refresh = undefined;
+                            }
                         });
                         break;
+                    }
                 }
             },
             undefined,
@@ -78,43 +411,16 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         );
     }
 
-    private getHtmlForWebview(webview: vscode.Webview, document: NetTraceDocument): string {
+    private getHtmlForWebview(webview: vscode.Webview, document: NetTraceDocument, sampleFilter: SampleFilter = {}): string {
         const result = document.parseResult;
-        
-        // Prepare allocation data
-        let allocationsHtml = '';
-        let totalAllocations = 0;
-        let totalMemory = BigInt(0);
-        let sortedAllocations: AllocationInfo[] = [];
-
-        if (result && result.allocations.size > 0) {
-            sortedAllocations = Array.from(result.allocations.values())
-                .sort((a, b) => {
-                    if (b.totalSize > a.totalSize) { return 1; }
-                    if (b.totalSize < a.totalSize) { return -1; }
-                    return b.count - a.count;
-                });
 
-            for (const alloc of sortedAllocations) {
-                totalAllocations += alloc.count;
-                totalMemory += alloc.totalSize;
-            }
-
-            allocationsHtml = sortedAllocations.map((alloc, index) => `
-                <tr class="allocation-row" data-index="${index}" data-type="${escapeHtml(alloc.typeName)}">
-                    <td class="type-name">
-                        <span class="expand-btn" onclick="toggleStackDistribution(${index}, event)">▶</span>
-                        ${escapeHtml(alloc.typeName)}
-                    </td>
-                    <td class="count">${alloc.count.toLocaleString()}</td>
-                    <td class="size">${formatBytes(alloc.totalSize)}</td>
-                    <td class="avg-size">${formatBytes(alloc.count > 0 ? alloc.totalSize / BigInt(alloc.count) : BigInt(0))}</td>
-                </tr>
-                <tr class="stack-distribution-row" id="stack-dist-${index}" style="display: none;">
-                    <td colspan="4" class="stack-distribution-cell"></td>
-                </tr>
-            `).join('');
-        }
+        // The CPU and allocation views are filled in by the page, and refilled when the filter changes;
+        // which tables and flame graph modes it offers depends on the whole trace
+        const resolveFrame = this.createFrameResolver(document);
+        const sampleViews = this.buildSampleViews(document, sampleFilter, resolveFrame);
+        const filtered = isSampleFilterActive(sampleFilter);
+        const hasAllocations = !!result && result.allocations.size > 0;
+        const hasMethodProfiles = !!result?.methodProfiles && result.methodProfiles.size > 0;
 
         // Prepare trace info
         const totalEvents = result?.debugInfo?.totalEvents || 0;
@@ -123,14 +429,14 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         const stackCount = result?.stacks?.size || 0;
         const methodCount = result?.methods?.size || 0;
 
-        // Prepare method profiling data
-        let sortedProfiles: MethodProfile[] = [];
-        const methodProfiles = result?.methodProfiles;
-        
-        if (methodProfiles && methodProfiles.size > 0) {
-            sortedProfiles = Array.from(methodProfiles.values())
-                .sort((a, b) => b.exclusiveCount - a.exclusiveCount);
-        }
+        // Events dropped by EventPipe, detected from sequence number gaps
+        const droppedByThread = Array.from(result?.droppedEvents?.entries() || [])
+            .filter(([, count]) => count > 0)
+            .sort((a, b) => b[1] - a[1]);
+        const totalDropped = droppedByThread.reduce((sum, [, count]) => sum + count, 0);
+
+        const sortedModules = Array.from(result?.modules?.values() || [])
+            .sort((a, b) => getModuleName(a).localeCompare(getModuleName(b)));
 
         // Build event statistics by provider
         const providerStats: Map<string, { events: { eventId: number; count: number }[]; total: number }> = new Map();
@@ -155,14 +461,134 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         const sortedProviders = Array.from(providerStats.entries())
             .sort((a, b) => b[1].total - a[1].total);
 
-        // Prepare flame graph data for both CPU and Allocations
-        const cpuFlameGraphData = this.buildFlameGraphData(result, 'cpu');
-        const allocFlameGraphData = this.buildFlameGraphData(result, 'allocation');
-        const hasCpuData = cpuFlameGraphData.length > 0;
-        const hasAllocData = allocFlameGraphData.length > 0;
+        // Flame graph data; the CPU and allocation graphs are part of the sample views
+        const contentionFlameGraphData = this.buildFlameGraphData(result, 'contention', resolveFrame);
+        const hasCpuData = (filtered ? this.buildFlameGraphData(result, 'cpu', resolveFrame) : sampleViews.cpuFlameGraphData).length > 0;
+        const hasAllocData = (filtered ? this.buildFlameGraphData(result, 'allocation', resolveFrame) : sampleViews.allocFlameGraphData).length > 0;
+        const hasContentionData = contentionFlameGraphData.length > 0;
+        const initialFlameGraphMode: FlameGraphMode = hasCpuData ? 'cpu' : hasAllocData ? 'allocation' : hasContentionData ? 'contention' : 'cpu';
+
+        // GC tab
+        const gcs = result?.gcs ?? [];
+        const traceDurationMs = getTraceDurationMs(result);
+        const gcGenerationCounts = [0, 1, 2].map(gen => gcs.filter(gc => gc.generation === gen).length);
+        const gcTotalPauseMs = gcs.reduce((sum, gc) => sum + gc.pauseDurationMs, 0);
+        const gcMaxPauseMs = gcs.reduce((max, gc) => Math.max(max, gc.pauseDurationMs), 0);
+        const gcPeakHeapSize = gcs.reduce((max, gc) => Math.max(max, gc.heapSizeAfter ?? 0), 0);
+
+        // Exceptions tab
+        const exceptionData = this.buildExceptionData(result, resolveFrame);
+        const totalExceptions = exceptionData.reduce((sum, group) => sum + group.count, 0);
+        const exceptionThreadCount = new Set(exceptionData.flatMap(group => group.threads.map(thread => thread.threadId))).size;
+        const exceptionTimeline = result?.exceptionTimeline ?? [];
+
+        // Contention tab
+        const contentions = result?.contentions ?? [];
+        const contentionData = this.buildContentionData(result, resolveFrame);
+        const contentionTotalWaitMs = contentions.reduce((sum, contention) => sum + contention.durationMs, 0);
+        const contentionMaxWaitMs = contentions.reduce((max, contention) => Math.max(max, contention.durationMs), 0);
+        const contentionThreadCount = new Set(contentions.map(contention => contention.threadId)).size;
+        const contentionLockCount = new Set(contentions.flatMap(contention => contention.lockId ? [contention.lockId] : [])).size;
+
+        // Thread Pool tab
+        const threadPool = result?.threadPool;
+        const hasThreadPoolData = !!threadPool && (threadPool.workerThreads.length > 0 || threadPool.ioThreads.length > 0 ||
+            threadPool.workingThreads.length > 0 || threadPool.adjustments.length > 0);
+        const threadPoolMaxWorkers = threadPool?.workerThreads.reduce((max, sample) => Math.max(max, sample.value), 0) ?? 0;
+        const threadPoolMaxIOThreads = threadPool?.ioThreads.reduce((max, sample) => Math.max(max, sample.value), 0) ?? 0;
+        const threadPoolStarvationCount = threadPool?.adjustments.filter(adjustment => adjustment.reason === THREAD_POOL_STARVATION_REASON).length ?? 0;
+        const threadPoolReasons = Array.from(new Set(threadPool?.adjustments.map(adjustment => adjustment.reason) ?? [])).sort((a, b) => a - b);
+
+        // Counters tab
+        const counters = result?.counters ?? [];
+        const counterProviders = Array.from(new Set(counters.map(counter => counter.providerName)));
+
+        // JIT tab
+        const jitCompilations = result?.jit.compilations ?? [];
+        const jitTimed = jitCompilations.filter(compilation => compilation.durationMs !== undefined);
+        const jitTotalMs = jitTimed.reduce((sum, compilation) => sum + compilation.durationMs!, 0);
+        const jitSlowest = [...jitTimed].sort((a, b) => b.durationMs! - a.durationMs!).slice(0, JIT_SLOWEST_LIMIT);
+        const jitMethodCount = new Set(jitCompilations.map(compilation => compilation.methodId)).size;
+        const jitRecompiled = this.buildRecompiledMethods(result);
+        // Logs tab
+        const logs = result?.logs ?? [];
+        const logCategories = Array.from(new Set(logs.map(log => log.category))).sort();
+        const logErrorCount = logs.filter(log => log.level === LOG_LEVEL_ERROR || log.level === LOG_LEVEL_CRITICAL).length;
+        const logWarningCount = logs.filter(log => log.level === LOG_LEVEL_WARNING).length;
+
+        // Requests tab
+        const requests = result?.requests.requests ?? [];
+        const requestDurations = requests.map(request => request.durationMs).sort((a, b) => a - b);
+        const requestErrorCount = requests.filter(isServerError).length;
+        const requestRoutes = this.buildRequestRoutes(result);
+        const requestSlowest = [...requests].sort((a, b) => b.durationMs - a.durationMs).slice(0, REQUEST_SLOWEST_LIMIT);
+        const requestSamples = requestSlowest.map(request => countRequestSamples(result, request));
+        const requestSampleCounts = requestSamples.map(counts => Array.from(counts.values()).reduce((sum, count) => sum + count, 0));
+        const requestFlameGraphs = requestSamples.map(counts => this.buildFlameGraphData(result, 'cpu', resolveFrame, counts));
+
+        // Network tab
+        const httpRequests = result?.network.httpRequests ?? [];
+        const httpDurations = httpRequests.map(request => request.durationMs).sort((a, b) => a - b);
+        const httpErrorCount = httpRequests.filter(isServerError).length;
+        const httpQueued = httpRequests.filter(request => request.queueTimeMs !== undefined);
+        const httpQueueTotalMs = httpQueued.reduce((sum, request) => sum + request.queueTimeMs!, 0);
+        const networkHosts = this.buildNetworkHosts(result);
+        const httpSlowest = [...httpRequests].sort((a, b) => b.durationMs - a.durationMs).slice(0, REQUEST_SLOWEST_LIMIT);
+        const httpFailed = httpRequests.filter(request => request.failed);
+        const dnsLookups = result?.network.dnsLookups ?? [];
+        const socketConnects = result?.network.socketConnects ?? [];
+        const dnsHosts = groupNetworkSpans(dnsLookups, lookup => lookup.hostName);
+        const socketEndpoints = groupNetworkSpans(socketConnects, connect => connect.address);
+        const hasNetworkActivity = httpRequests.length > 0 || dnsLookups.length > 0 || socketConnects.length > 0;
+
+        // Database tab
+        const databaseCommands = result?.database.commands ?? [];
+        const databaseDurations = databaseCommands.map(command => command.durationMs).sort((a, b) => a - b);
+        const databaseFailedCount = databaseCommands.filter(command => command.failed).length;
+        const databaseStatements = this.buildDatabaseStatements(result);
+        const databaseRepeatedCount = databaseStatements.filter(statement => statement.longestRun >= REPEATED_STATEMENT_THRESHOLD).length;
+        const databaseSlowest = [...databaseCommands].sort((a, b) => b.durationMs - a.durationMs).slice(0, REQUEST_SLOWEST_LIMIT);
+        const databaseSamples = databaseSlowest.map(command => countRequestSamples(result, command));
+        const databaseSampleCounts = databaseSamples.map(counts => Array.from(counts.values()).reduce((sum, count) => sum + count, 0));
+        const databaseFlameGraphs = databaseSamples.map(counts => this.buildFlameGraphData(result, 'cpu', resolveFrame, counts));
+        const databaseCpuTimeline = databaseCommands.length > 0 && result ? countOverTime(result.cpuSampleTimeline.timesMs, traceDurationMs) : [];
+        const databaseAllocationTimeline = databaseCommands.length > 0 && result
+            ? countOverTime(result.allocationSampleTimeline.timesMs, traceDurationMs, 100, result.allocationSampleTimeline.sizes)
+            : [];
+
+        // Timeline tab
+        const timelineCpu = result ? countOverTime(result.cpuSampleTimeline.timesMs, traceDurationMs, TIMELINE_BUCKET_COUNT) : [];
+        const timelineAllocations = result
+            ? countOverTime(result.allocationSampleTimeline.timesMs, traceDurationMs, TIMELINE_BUCKET_COUNT, result.allocationSampleTimeline.sizes)
+            : [];
+        const timelineEvents = result?.eventTimeline ?? [];
+
+        // Threads tab, over the whole trace so threads can be picked whatever the current filter
+        const threadActivity = result ? summarizeThreads(result) : [];
+        const threadCpuTotal = threadActivity.reduce((sum, thread) => sum + thread.cpuSamples, 0);
+        const threadAllocationTotal = threadActivity.reduce((sum, thread) => sum + thread.allocatedBytes, BigInt(0));
+
+        const jitTiers = Array.from(new Set(jitCompilations.map(compilation => compilation.tier))).sort((a, b) => a - b).map(tier => {
+            const compilations = jitCompilations.filter(compilation => compilation.tier === tier);
+            const timed = compilations.filter(compilation => compilation.durationMs !== undefined);
+            return { tier, count: compilations.length, timedCount: timed.length, totalMs: timed.reduce((sum, compilation) => sum + compilation.durationMs!, 0) };
+        });
 
-        // Prepare type stack distribution with resolved method names
-        const typeStackData = this.buildTypeStackDistribution(result);
+        // Filter choices for the Events tab
+        const eventCatalog: Record<string, string[]> = {};
+        for (const meta of result?.metadata.values() || []) {
+            const names = eventCatalog[meta.providerName] ??= [];
+            const name = eventDisplayName(meta);
+            if (!names.includes(name)) {
+                names.push(name);
+            }
+        }
+        for (const names of Object.values(eventCatalog)) {
+            names.sort();
+        }
+        const eventThreadIds = result
+            ? Array.from(result.eventIndex.threads.keys()).sort((a, b) => a < b ? -1 : a > b ? 1 : 0).map(id => id.toString())
+            : [];
 
         return `<!DOCTYPE html>
 <html lang="en">
@@ -377,6 +803,8 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             font-size: 12px;
         }
         .stack-frame { padding: 2px 0; }
+        .source-link { cursor: pointer; }
+        .source-link:hover { color: var(--vscode-textLink-foreground); text-decoration: underline; }
         .stack-frame.top { font-weight: 600; }
         .stack-preview { 
             color: var(--vscode-textLink-foreground); 
@@ -434,6 +862,13 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
 
         .hidden { display: none; }
 
+        .warning-banner {
+            padding: 10px 20px;
+            background: var(--vscode-inputValidation-warningBackground);
+            border-bottom: 1px solid var(--vscode-inputValidation-warningBorder);
+            flex-shrink: 0;
+        }
+
         button {
             background: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
@@ -444,6 +879,7 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             font-size: 0.9em;
         }
         button:hover { background: var(--vscode-button-hoverBackground); }
+        .header-actions { display: flex; gap: 8px; }
 
         /* Flame graph styles */
         .flame-graph-container {
@@ -670,6 +1106,131 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             display: flex;
             align-items: center;
         }
+
+        /* Events tab: virtualized event list with a details pane */
+        .event-filters { display: flex; gap: 8px; }
+        .events-layout { display: flex; gap: 15px; height: calc(100vh - 260px); min-height: 300px; }
+        .event-browser {
+            flex: 3;
+            display: flex;
+            flex-direction: column;
+            min-width: 0;
+            border: 1px solid var(--border-color);
+            border-radius: 6px;
+            overflow: hidden;
+        }
+        .event-browser-row {
+            display: grid;
+            grid-template-columns: 110px 80px minmax(120px, 1.2fr) minmax(120px, 1fr) 60px minmax(150px, 2fr);
+            gap: 10px;
+            height: 24px;
+            line-height: 24px;
+            padding: 0 10px;
+            font-size: 0.9em;
+            white-space: nowrap;
+            cursor: pointer;
+        }
+        .event-browser-row > span { overflow: hidden; text-overflow: ellipsis; }
+        .event-browser-row:hover { background: var(--hover-bg); }
+        .event-browser-row.selected { background: var(--selected-bg); }
+        .event-browser-row.event-browser-header { background: var(--header-bg); font-weight: 600; cursor: default; }
+        .event-browser-row .numeric { text-align: right; font-family: var(--vscode-editor-font-family), monospace; }
+        .event-browser-row .summary { font-family: var(--vscode-editor-font-family), monospace; opacity: 0.8; }
+        .event-viewport { flex: 1; overflow-y: auto; position: relative; }
+        .log-browser { height: calc(100vh - 330px); min-height: 300px; }
+        .event-browser-row.log-row { grid-template-columns: 110px 90px minmax(120px, 1fr) minmax(80px, 0.6fr) minmax(200px, 3fr); cursor: pointer; }
+        .log-level-0, .log-level-1 { opacity: 0.7; }
+        .log-level-3 { color: var(--vscode-editorWarning-foreground, #f59e0b); }
+        .log-level-4, .log-level-5, .log-exception { color: var(--vscode-editorError-foreground, #ef4444); }
+        .event-rows { position: absolute; left: 0; right: 0; }
+        .event-details {
+            flex: 2;
+            min-width: 0;
+            overflow: auto;
+            padding: 12px 16px;
+            border: 1px solid var(--border-color);
+            border-radius: 6px;
+        }
+        .event-details h3 { margin: 0 0 10px 0; word-break: break-all; }
+        .event-details h4 { margin: 15px 0 6px 0; }
+        .event-details table { font-size: 0.85em; }
+        .event-details td { padding: 4px 8px; word-break: break-all; }
+        .event-details pre {
+            margin: 0;
+            font-family: var(--vscode-editor-font-family), monospace;
+            font-size: 0.85em;
+            white-space: pre;
+            overflow-x: auto;
+        }
+
+        /* Time charts (GC tab) */
+        .time-chart {
+            position: relative;
+            border: 1px solid var(--border-color);
+            border-radius: 6px;
+            margin-bottom: 10px;
+        }
+        .time-chart svg { display: block; }
+        .time-chart .axis-label { fill: var(--text-color); opacity: 0.7; font-size: 10px; }
+        .time-chart .grid-line { stroke: var(--border-color); stroke-width: 1; }
+        .chart-legend { display: flex; gap: 15px; font-size: 0.85em; margin-bottom: 20px; flex-wrap: wrap; }
+        .chart-legend .swatch, td .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 5px; border-radius: 2px; }
+        .time-chart svg.zoomable { cursor: crosshair; }
+        .time-chart .zoom-selection { fill: var(--accent-color); opacity: 0.2; }
+        .time-chart .time-range-highlight { fill: var(--accent-color); opacity: 0.12; }
+        .numeric { text-align: right; font-family: var(--vscode-editor-font-family), monospace; }
+
+        /* Exceptions tab */
+        .exception-message {
+            max-width: 400px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .exception-full-message {
+            margin-bottom: 8px;
+            white-space: pre-wrap;
+            word-break: break-word;
+        }
+        .stack-distribution-content h4 { margin: 12px 0 4px; font-size: 0.9em; }
+
+        /* Counters tab */
+        .counter-toolbar { display: flex; gap: 10px; align-items: center; }
+        .counter-toolbar .subtitle { margin: 0; }
+        .counter-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(450px, 1fr));
+            gap: 15px;
+            margin-bottom: 20px;
+        }
+        .counter-card { border: 1px solid var(--border-color); border-radius: 6px; padding: 10px; }
+        .counter-header { display: flex; justify-content: space-between; align-items: flex-start; gap: 10px; margin-bottom: 8px; }
+        .counter-header select { min-width: 0; max-width: 200px; padding: 4px 8px; }
+        .counter-title { font-weight: 600; }
+        .counter-subtitle, .counter-stats { font-size: 0.85em; opacity: 0.7; }
+
+        /* Requests tab */
+        .request-row.has-samples { cursor: pointer; }
+        .flame-filter { display: flex; gap: 10px; align-items: center; margin-bottom: 10px; font-weight: 600; }
+
+        /* Network tab */
+        .network-error { max-width: 500px; word-break: break-word; }
+
+        /* Timeline and Threads tabs */
+        .sample-filter-banner {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            padding: 8px 20px;
+            background: var(--vscode-editorInfo-background, var(--bg-secondary));
+            border-bottom: 1px solid var(--border-color);
+        }
+        .thread-toolbar { display: flex; gap: 10px; align-items: center; margin-bottom: 10px; }
+        .thread-row.selected { background: var(--selected-bg); }
+
+        /* Database tab */
+        .sql-text { font-family: var(--vscode-editor-font-family, monospace); font-size: 0.9em; max-width: 600px; white-space: pre-wrap; word-break: break-word; }
+        .repeated-badge { display: inline-block; margin-left: 6px; padding: 0 6px; border-radius: 8px; background: #f59e0b; color: #000; font-size: 0.8em; }
     </style>
 </head>
 <body>
@@ -678,7 +1239,24 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             📊 NetTrace Viewer
             <span class="file-name">${escapeHtml(document.uri.fsPath.split(/[/\\]/).pop() || '')}</span>
         </h1>
-        <button onclick="refresh()">↻ Refresh</button>
+        <div class="header-actions">
+            <button onclick="loadNativeModules()" title="Name native frames using the library load ranges from a /proc/&lt;pid&gt;/maps listing of the traced process and the ELF files on this machine">Load Native Modules…</button>
+            <button onclick="loadPerfMap()" title="Symbolize unresolved frames with a Linux perf map (perf-&lt;pid&gt;.map) written by the traced process">Load Perf Map…</button>
+            <button onclick="refresh()">↻ Refresh</button>
+        </div>
+    </div>
+
+    ${totalDropped > 0 ? `
+    <div class="warning-banner">
+        ⚠️ EventPipe dropped ${totalDropped.toLocaleString()} events on ${droppedByThread.length.toLocaleString()} thread${droppedByThread.length === 1 ? '' : 's'} because its buffers filled up.
+        Sample counts, allocations and CPU times may be under-reported. See the Summary tab for details.
+    </div>
+    ` : ''}
+
+    <div class="sample-filter-banner" id="sampleFilterBanner" style="display: none;">
+        <span>⏱ CPU samples, allocations and method profiles are limited to <span id="sampleFilterDescription"></span>.</span>
+        <button id="showWholeTrace" onclick="selectTimeRange(null, null)">Show Whole Trace</button>
+        <button id="showAllThreads" onclick="selectThreads(null)">Show All Threads</button>
     </div>
 
     <div class="tab-bar">
@@ -686,6 +1264,19 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         <button class="tab" onclick="switchTab('allocations')">Allocations</button>
         <button class="tab" onclick="switchTab('stacks')">Stacks</button>
         <button class="tab" onclick="switchTab('flamegraph')">Flame Graph</button>
+        <button class="tab" onclick="switchTab('timeline')">Timeline</button>
+        <button class="tab" onclick="switchTab('threads')">Threads</button>
+        <button class="tab" onclick="switchTab('gc')">GC</button>
+        <button class="tab" onclick="switchTab('exceptions')">Exceptions</button>
+        <button class="tab" onclick="switchTab('contention')">Contention</button>
+        <button class="tab" onclick="switchTab('threadpool')">Thread Pool</button>
+        <button class="tab" onclick="switchTab('counters')">Counters</button>
+        <button class="tab" onclick="switchTab('jit')">JIT</button>
+        <button class="tab" onclick="switchTab('logs')">Logs</button>
+        <button class="tab" onclick="switchTab('requests')">Requests</button>
+        <button class="tab" onclick="switchTab('network')">Network</button>
+        <button class="tab" onclick="switchTab('database')">Database</button>
+        <button class="tab" onclick="switchTab('events')">Events</button>
     </div>
 
     <!-- Summary Tab -->
@@ -707,14 +1298,18 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
                 <div class="label">Methods</div>
                 <div class="value">${methodCount.toLocaleString()}</div>
             </div>
-            ${sortedAllocations.length > 0 ? `
+            <div class="summary-card">
+                <div class="label">Dropped Events</div>
+                <div class="value">${totalDropped.toLocaleString()}</div>
+            </div>
+            ${hasAllocations ? `
             <div class="summary-card">
                 <div class="label">Allocations</div>
-                <div class="value">${totalAllocations.toLocaleString()}</div>
+                <div class="value" id="summaryAllocationCount"></div>
             </div>
             <div class="summary-card">
                 <div class="label">Memory Allocated</div>
-                <div class="value">${formatBytes(totalMemory)}</div>
+                <div class="value" id="summaryAllocatedBytes"></div>
             </div>
             ` : ''}
         </div>
@@ -737,10 +1332,100 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
                     <span class="info-label">Pointer Size:</span>
                     <span class="info-value">${result.traceInfo.pointerSize * 8}-bit</span>
                 </div>
+                <div class="info-item">
+                    <span class="info-label">Format Version:</span>
+                    <span class="info-value">V${result.debugInfo.formatVersion}</span>
+                </div>
+                ${document.perfMap ? `
+                <div class="info-item">
+                    <span class="info-label">Perf Map:</span>
+                    <span class="info-value">${escapeHtml(document.perfMap.path)} (${document.perfMap.symbolCount.toLocaleString()} symbols)</span>
+                </div>
+                ` : ''}
+                ${document.nativeModules ? `
+                <div class="info-item">
+                    <span class="info-label">Native Modules:</span>
+                    <span class="info-value">${escapeHtml(document.nativeModules.path)} (${document.nativeModules.symbolizedImages} of ${document.nativeModules.imageCount} images symbolized, ${document.nativeModules.symbolCount.toLocaleString()} symbols)</span>
+                </div>
+                ` : ''}
+                ${result.traceInfo.commandLine ? `
+                <div class="info-item">
+                    <span class="info-label">Command Line:</span>
+                    <span class="info-value">${escapeHtml(result.traceInfo.commandLine)}</span>
+                </div>
+                ` : ''}
                 ` : '<p>No trace information available</p>'}
             </div>
         </div>
 
+        ${droppedByThread.length > 0 ? `
+        <div class="section">
+            <div class="section-header">
+                <h2>Dropped Events
+                    <span class="help-icon">?
+                        <span class="help-tooltip">Events lost by EventPipe, per thread that wrote them. Gaps in each thread's event sequence numbers and the last sequence numbers recorded in sequence points show how many events never reached the file, usually because the session buffers filled up. Increase the buffer size or enable fewer providers to avoid them.</span>
+                    </span>
+                </h2>
+            </div>
+            <div class="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Thread ID</th>
+                            <th>Dropped Events</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${droppedByThread.map(([threadId, count]) => `
+                            <tr>
+                                <td>${threadId.toString()}</td>
+                                <td class="count">${count.toLocaleString()}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+        ` : ''}
+
+        ${sortedModules.length > 0 ? `
+        <div class="section">
+            <div class="section-header">
+                <h2>Modules
+                    <span class="help-icon">?
+                        <span class="help-tooltip">Managed modules reported by the runtime's loader and rundown events. Stack frames are attributed to these modules as <code>Module!Namespace.Method</code>. The address range is estimated from the module's precompiled (ReadyToRun) code; PDB signatures identify the symbol files that match each image.</span>
+                    </span>
+                </h2>
+            </div>
+            <div class="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Module</th>
+                            <th>Assembly</th>
+                            <th>Address Range</th>
+                            <th>PDB Signature</th>
+                            <th>Path</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${sortedModules.map(m => `
+                            <tr>
+                                <td class="method-name">${escapeHtml(getModuleName(m))}</td>
+                                <td>${escapeHtml(m.assemblyName || '')}</td>
+                                <td class="method-name">${m.baseAddress !== undefined && m.imageSize
+                                    ? `0x${m.baseAddress.toString(16)} - 0x${(m.baseAddress + BigInt(m.imageSize)).toString(16)}`
+                                    : ''}</td>
+                                <td class="method-name">${m.managedPdbSignature ? `${escapeHtml(m.managedPdbSignature)} (age ${m.managedPdbAge ?? 0})` : ''}</td>
+                                <td class="method-name">${escapeHtml(m.ilPath || m.nativePath)}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+        ` : ''}
+
         ${sortedProviders.length > 0 ? `
         <div class="section">
             <h2>Event Providers</h2>
@@ -766,7 +1451,7 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         </div>
         ` : ''}
 
-        ${sortedProfiles.length > 0 ? `
+        ${hasMethodProfiles ? `
         <div class="section">
             <div class="section-header">
                 <h2>Hot Methods (Top 20)
@@ -784,15 +1469,7 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
                             <th>Inclusive</th>
                         </tr>
                     </thead>
-                    <tbody>
-                        ${sortedProfiles.slice(0, 20).map(p => `
-                            <tr>
-                                <td class="method-name">${escapeHtml(p.methodName)}</td>
-                                <td class="count">${p.exclusiveCount.toLocaleString()}</td>
-                                <td class="count">${p.inclusiveCount.toLocaleString()}</td>
-                            </tr>
-                        `).join('')}
-                    </tbody>
+                    <tbody id="hotMethodsBody"></tbody>
                 </table>
             </div>
         </div>
@@ -810,19 +1487,19 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             <input type="text" class="search-box" id="searchBox" placeholder="Filter by type name..." oninput="filterTable()">
         </div>
         
-        ${sortedAllocations.length > 0 ? `
+        ${hasAllocations ? `
         <div class="summary-cards" style="margin-bottom: 20px;">
             <div class="summary-card">
                 <div class="label">Unique Types</div>
-                <div class="value">${sortedAllocations.length.toLocaleString()}</div>
+                <div class="value" id="allocationTypeCount"></div>
             </div>
             <div class="summary-card">
                 <div class="label">Total Allocations</div>
-                <div class="value">${totalAllocations.toLocaleString()}</div>
+                <div class="value" id="allocationCount"></div>
             </div>
             <div class="summary-card">
                 <div class="label">Total Memory</div>
-                <div class="value">${formatBytes(totalMemory)}</div>
+                <div class="value" id="allocatedBytes"></div>
             </div>
         </div>
         <div class="table-container">
@@ -835,9 +1512,7 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
                         <th data-column="avg" onclick="sortTable('avg')">Avg Size</th>
                     </tr>
                 </thead>
-                <tbody id="allocationsBody">
-                    ${allocationsHtml}
-                </tbody>
+                <tbody id="allocationsBody"></tbody>
             </table>
         </div>
         ` : `
@@ -860,9 +1535,9 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             <input type="text" class="search-box" id="methodSearchBox" placeholder="Filter by method name..." oninput="filterMethodTable()">
         </div>
         
-        ${sortedProfiles.length > 0 ? `
+        ${hasMethodProfiles ? `
         <p class="subtitle">
-            ${sortedProfiles.length.toLocaleString()} methods profiled from ${stackCount.toLocaleString()} stack samples
+            <span id="profiledMethodCount"></span> methods profiled from ${stackCount.toLocaleString()} stack samples
         </p>
         <div class="table-container">
             <table id="methodsTable">
@@ -875,17 +1550,7 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
                         <th data-column="inclusiveTime" onclick="sortMethodTable('inclusiveTime')">Incl. Time</th>
                     </tr>
                 </thead>
-                <tbody id="methodsBody">
-                    ${sortedProfiles.slice(0, 100).map((profile, index) => `
-                        <tr class="method-row" data-index="${index}">
-                            <td class="method-name">${escapeHtml(profile.methodName)}</td>
-                            <td class="count">${profile.exclusiveCount.toLocaleString()}</td>
-                            <td class="time">${formatTime(profile.exclusiveTimeMs)}</td>
-                            <td class="count">${profile.inclusiveCount.toLocaleString()}</td>
-                            <td class="time">${formatTime(profile.inclusiveTimeMs)}</td>
-                        </tr>
-                    `).join('')}
-                </tbody>
+                <tbody id="methodsBody"></tbody>
             </table>
         </div>
         ` : `
@@ -901,22 +1566,25 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         <div class="section-header">
             <h2>Flame Graph
                 <span class="help-icon" id="flameGraphHelp">?
-                    <span class="help-tooltip" id="flameGraphHelpText">${hasCpuData ? 
-                        'Visualizes where CPU time is spent across call stacks. Width represents time: wider bars indicate more CPU usage. Stacks grow upward—the bottom shows entry points, each layer above shows called methods. If an upper layer is narrower than its parent, the difference represents exclusive time spent in the parent method itself.' :
-                        'Visualizes where memory is allocated across call stacks. Width represents allocation size: wider bars indicate more memory. Stacks grow upward—the bottom shows entry points, each layer above shows called methods. If an upper layer is narrower than its parent, the difference represents memory allocated directly by the parent method itself.'}</span>
+                    <span class="help-tooltip" id="flameGraphHelpText">${FLAME_GRAPH_TEXTS[initialFlameGraphMode].help}</span>
                 </span>
             </h2>
-            ${(hasCpuData || hasAllocData) ? `
+            ${(hasCpuData || hasAllocData || hasContentionData) ? `
             <select id="flameGraphMode" onchange="switchFlameGraphMode()">
                 <option value="cpu" ${hasCpuData ? '' : 'disabled'}>CPU Samples${hasCpuData ? '' : ' (no data)'}</option>
-                <option value="allocation" ${hasAllocData ? '' : 'disabled'}>Allocations${hasAllocData ? '' : ' (no data)'}</option>
+                <option value="allocation" ${hasAllocData ? '' : 'disabled'} ${initialFlameGraphMode === 'allocation' ? 'selected' : ''}>Allocations${hasAllocData ? '' : ' (no data)'}</option>
+                <option value="contention" ${hasContentionData ? '' : 'disabled'} ${initialFlameGraphMode === 'contention' ? 'selected' : ''}>Lock Contention${hasContentionData ? '' : ' (no data)'}</option>
             </select>
             ` : ''}
         </div>
-        ${(hasCpuData || hasAllocData) ? `
+        ${(hasCpuData || hasAllocData || hasContentionData) ? `
         <p class="subtitle" id="flameGraphSubtitle">
-            ${hasCpuData ? 'Showing CPU samples. Hover for details. Double-click to zoom.' : 'Showing memory allocations. Hover for details. Double-click to zoom.'}
+            ${FLAME_GRAPH_TEXTS[initialFlameGraphMode].subtitle}
         </p>
+        <div id="flameGraphFilter" class="flame-filter" style="display: none;">
+            <span id="flameGraphFilterLabel"></span>
+            <button onclick="clearFlameGraphRequest()">Show All Samples</button>
+        </div>
         <div class="flame-graph-container">
             <div id="flameGraph" class="flame-graph" style="position: relative;"></div>
         </div>
@@ -933,564 +1601,3055 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         ` : `
         <div class="no-data">
             <p>No stack data available for flame graph.</p>
-            <p>Make sure the trace includes SampleProfiler or GC allocation events with stack traces.</p>
+            <p>Make sure the trace includes SampleProfiler, GC allocation or contention events with stack traces.</p>
         </div>
         `}
     </div>
 
-    <script>
-        const vscode = acquireVsCodeApi();
-        
-        const allocations = ${JSON.stringify(sortedAllocations.map(a => ({
-            typeName: a.typeName,
-            count: a.count,
-            totalSize: a.totalSize.toString(),
-            avgSize: a.count > 0 ? (a.totalSize / BigInt(a.count)).toString() : '0'
-        })))};
-
-        const methodProfiles = ${JSON.stringify(sortedProfiles.slice(0, 100).map(p => ({
-            methodName: p.methodName,
-            exclusiveCount: p.exclusiveCount,
-            exclusiveTimeMs: p.exclusiveTimeMs,
-            inclusiveCount: p.inclusiveCount,
-            inclusiveTimeMs: p.inclusiveTimeMs
-        })))};
-
-        // Type stack distribution: typeName -> array of stacks with frames
-        const typeStackDistribution = ${JSON.stringify(Object.fromEntries(
-            Array.from(typeStackData.entries()).map(([typeName, stacks]) => [
-                typeName,
-                stacks.slice(0, 50) // Limit to top 50 stacks per type
-            ])
-        ))};
+    <!-- Timeline Tab -->
+    <div id="tab-timeline" class="tab-content">
+        <div class="section-header">
+            <h2>Timeline
+                <span class="help-icon">?
+                    <span class="help-tooltip">CPU samples, sampled allocation volume (GCAllocationTick events), garbage collection pauses and the number of events of any kind over the whole trace. <strong>Drag across a chart</strong> to limit the Summary, Allocations, Stacks and Flame Graph tabs to that part of the trace; double-click a chart or use Show Whole Trace to clear the selection.</span>
+                </span>
+            </h2>
+        </div>
+        ${traceDurationMs > 0 ? `
+        <h3>CPU Samples</h3>
+        <div id="timelineCpuChart" class="time-chart"></div>
+        <h3>Allocations</h3>
+        <div id="timelineAllocationChart" class="time-chart"></div>
+        <h3>GC Pauses</h3>
+        <div id="timelineGcChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: ${GC_GENERATION_COLORS[0]}"></span>Gen0</span>
+            <span><span class="swatch" style="background: ${GC_GENERATION_COLORS[1]}"></span>Gen1</span>
+            <span><span class="swatch" style="background: ${GC_GENERATION_COLORS[2]}"></span>Gen2</span>
+        </div>
+        <h3>Events</h3>
+        <div id="timelineEventChart" class="time-chart"></div>
+        ` : `
+        <div class="no-data">
+            <p>This trace has no timestamped events.</p>
+        </div>
+        `}
+    </div>
 
-        const cpuFlameGraphData = ${JSON.stringify(cpuFlameGraphData)};
-        const allocFlameGraphData = ${JSON.stringify(allocFlameGraphData)};
-        let currentFlameGraphMode = '${hasCpuData ? 'cpu' : (hasAllocData ? 'allocation' : 'cpu')}';
+    <!-- Threads Tab -->
+    <div id="tab-threads" class="tab-content">
+        <div class="section-header">
+            <h2>Threads
+                <span class="help-icon">?
+                    <span class="help-tooltip">Every thread that wrote an event, with the CPU samples taken on it, the allocations it made (sampled by GCAllocationTick events, so bytes are an estimate) and the time between its first and last event. Figures are for the whole trace. <strong>Select threads</strong> and use Filter to limit the Summary, Allocations, Stacks and Flame Graph tabs to them.</span>
+                </span>
+            </h2>
+        </div>
+        ${threadActivity.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Threads</div>
+                <div class="value">${threadActivity.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">With CPU Samples</div>
+                <div class="value">${threadActivity.filter(thread => thread.cpuSamples > 0).length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Allocating</div>
+                <div class="value">${threadActivity.filter(thread => thread.allocationSamples > 0).length.toLocaleString()}</div>
+            </div>
+        </div>
 
-        let currentSort = { column: 'size', descending: true };
-        let currentMethodSort = { column: 'exclusive', descending: true };
+        <div class="thread-toolbar">
+            <button id="applyThreadFilter" onclick="applyThreadFilter()" disabled>Filter to Selected Threads</button>
+            <button id="clearThreadFilter" onclick="selectThreads(null)" style="display: none;">Show All Threads</button>
+        </div>
+        <div class="table-container">
+            <table id="threadsTable">
+                <thead>
+                    <tr>
+                        <th></th>
+                        <th>Thread</th>
+                        <th class="numeric">Events</th>
+                        <th class="numeric">CPU Samples</th>
+                        <th class="numeric">CPU %</th>
+                        <th class="numeric">Allocation Samples</th>
+                        <th class="numeric">Allocated (sampled)</th>
+                        <th class="numeric">First Event</th>
+                        <th class="numeric">Last Event</th>
+                        <th class="numeric">Active Span</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${threadActivity.map(thread => `
+                        <tr class="thread-row">
+                            <td><input type="checkbox" class="thread-checkbox" value="${thread.threadId}" onchange="updateThreadSelection()"></td>
+                            <td>${escapeHtml(getThreadLabel(result, thread.threadId))}</td>
+                            <td class="numeric">${thread.eventCount.toLocaleString()}</td>
+                            <td class="numeric">${thread.cpuSamples.toLocaleString()}</td>
+                            <td class="numeric">${threadCpuTotal > 0 ? (thread.cpuSamples * 100 / threadCpuTotal).toFixed(1) + '%' : '-'}</td>
+                            <td class="numeric">${thread.allocationSamples.toLocaleString()}</td>
+                            <td class="numeric">${threadAllocationTotal > BigInt(0) ? formatBytes(thread.allocatedBytes) : '-'}</td>
+                            <td class="numeric">${formatSeconds(thread.firstEventMs)}</td>
+                            <td class="numeric">${formatSeconds(thread.lastEventMs)}</td>
+                            <td class="numeric">${formatDuration(thread.lastEventMs - thread.firstEventMs)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>This trace has no events.</p>
+        </div>
+        `}
+    </div>
+
+    <!-- GC Tab -->
+    <div id="tab-gc" class="tab-content">
+        <div class="section-header">
+            <h2>Garbage Collections
+                <span class="help-icon">?
+                    <span class="help-tooltip">Every GC reported by the runtime's GC events. <strong>Pause</strong> is the time managed threads were suspended for the GC, including the time to suspend them (<strong>Suspend</strong>); background GCs pause only at their start and final mark. <strong>Duration</strong> runs from GCStart to GCEnd. Heap sizes after a GC come from GCHeapStats; sizes before are estimated from the previous GC's heap size plus allocation ticks since, and need the GC keyword at verbose level.</span>
+                </span>
+            </h2>
+        </div>
+        ${gcs.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">GCs (Gen0 / Gen1 / Gen2)</div>
+                <div class="value">${gcs.length.toLocaleString()} (${gcGenerationCounts.join(' / ')})</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Total Pause</div>
+                <div class="value">${formatDuration(gcTotalPauseMs)}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Max Pause</div>
+                <div class="value">${formatDuration(gcMaxPauseMs)}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Time Paused</div>
+                <div class="value">${traceDurationMs > 0 ? (gcTotalPauseMs / traceDurationMs * 100).toFixed(2) + '%' : '-'}</div>
+            </div>
+            ${gcPeakHeapSize > 0 ? `
+            <div class="summary-card">
+                <div class="label">Peak Heap After GC</div>
+                <div class="value">${formatBytes(BigInt(gcPeakHeapSize))}</div>
+            </div>
+            ` : ''}
+        </div>
+
+        <h3>Pause Times</h3>
+        <div id="gcPauseChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: ${GC_GENERATION_COLORS[0]}"></span>Gen0</span>
+            <span><span class="swatch" style="background: ${GC_GENERATION_COLORS[1]}"></span>Gen1</span>
+            <span><span class="swatch" style="background: ${GC_GENERATION_COLORS[2]}"></span>Gen2</span>
+        </div>
+
+        <h3>Heap Size</h3>
+        <div id="gcHeapChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: var(--accent-color)"></span>Managed heap size (all generations)</span>
+        </div>
+
+        <div class="table-container">
+            <table id="gcTable">
+                <thead>
+                    <tr>
+                        <th class="numeric">GC #</th>
+                        <th class="numeric">Start (ms)</th>
+                        <th class="numeric">Gen</th>
+                        <th>Type</th>
+                        <th>Reason</th>
+                        <th class="numeric">Pause (ms)</th>
+                        <th class="numeric">Suspend (ms)</th>
+                        <th class="numeric">Duration (ms)</th>
+                        <th class="numeric">Heap Before</th>
+                        <th class="numeric">Heap After</th>
+                        <th class="numeric">Promoted</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${gcs.map(gc => `
+                        <tr>
+                            <td class="numeric">${gc.number}</td>
+                            <td class="numeric">${gc.startTimeMs.toFixed(3)}</td>
+                            <td class="numeric">${gc.generation}</td>
+                            <td>${gcTypeName(gc.type)}</td>
+                            <td>${gcReasonName(gc.reason)}</td>
+                            <td class="numeric">${gc.pauseDurationMs.toFixed(3)}</td>
+                            <td class="numeric">${gc.suspendDurationMs.toFixed(3)}</td>
+                            <td class="numeric">${gc.durationMs !== undefined ? gc.durationMs.toFixed(3) : '-'}</td>
+                            <td class="numeric">${gc.heapSizeBefore !== undefined ? formatBytes(BigInt(gc.heapSizeBefore)) : '-'}</td>
+                            <td class="numeric">${gc.heapSizeAfter !== undefined ? formatBytes(BigInt(gc.heapSizeAfter)) : '-'}</td>
+                            <td class="numeric">${gc.promotedBytes !== undefined ? formatBytes(BigInt(gc.promotedBytes)) : '-'}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>No garbage collections found in this trace.</p>
+            <p>Make sure the trace includes the runtime provider's GC keyword (0x1) at informational level or above.</p>
+        </div>
+        `}
+    </div>
+
+    <!-- Exceptions Tab -->
+    <div id="tab-exceptions" class="tab-content">
+        <div class="section-header">
+            <h2>Exceptions
+                <span class="help-icon">?
+                    <span class="help-tooltip">Every exception thrown in the process, including first-chance exceptions that were caught, grouped by type and message. A rethrow counts as another throw. Expand a row for the threads that threw it, the catch blocks that handled it and the stacks it was thrown from. Thousands of exceptions per second are a common hidden cost: each throw captures a stack trace and unwinds frames.</span>
+                </span>
+            </h2>
+            <input type="text" class="search-box" id="exceptionSearchBox" placeholder="Filter by type or message..." oninput="filterExceptionTable()">
+        </div>
+        ${exceptionData.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Exceptions Thrown</div>
+                <div class="value">${totalExceptions.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Exception Types</div>
+                <div class="value">${new Set(exceptionData.map(group => group.typeName)).size.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Throwing Threads</div>
+                <div class="value">${exceptionThreadCount.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Rate</div>
+                <div class="value">${traceDurationMs > 0 ? (totalExceptions / traceDurationMs * 1000).toFixed(1) + ' / s' : '-'}</div>
+            </div>
+        </div>
+
+        <h3>Throws Over Time</h3>
+        <div id="exceptionChart" class="time-chart"></div>
+
+        <div class="table-container">
+            <table id="exceptionsTable">
+                <thead>
+                    <tr>
+                        <th>Exception Type</th>
+                        <th>Message</th>
+                        <th class="numeric">Count</th>
+                        <th class="numeric">First (ms)</th>
+                        <th class="numeric">Last (ms)</th>
+                        <th class="numeric">Threads</th>
+                    </tr>
+                </thead>
+                <tbody id="exceptionsBody">
+                    ${exceptionData.map((group, index) => `
+                        <tr class="exception-row" data-index="${index}">
+                            <td class="type-name">
+                                <span class="expand-btn" onclick="toggleExceptionDetails(${index}, event)">▶</span>
+                                ${escapeHtml(group.typeName)}
+                            </td>
+                            <td class="exception-message" title="${escapeHtml(group.message)}">${escapeHtml(group.message)}</td>
+                            <td class="numeric">${group.count.toLocaleString()}</td>
+                            <td class="numeric">${group.firstTimeMs.toFixed(3)}</td>
+                            <td class="numeric">${group.lastTimeMs.toFixed(3)}</td>
+                            <td class="numeric">${group.threads.length.toLocaleString()}</td>
+                        </tr>
+                        <tr class="stack-distribution-row" id="exception-details-${index}" style="display: none;">
+                            <td colspan="6" class="stack-distribution-cell"></td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>No exceptions found in this trace.</p>
+            <p>Make sure the trace includes the runtime provider's Exception keyword (0x8000) at informational level or above.</p>
+            <p>Use: <code>dotnet-trace collect --providers Microsoft-Windows-DotNETRuntime:0x8000:4</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Contention Tab -->
+    <div id="tab-contention" class="tab-content">
+        <div class="section-header">
+            <h2>Lock Contention
+                <span class="help-icon">?
+                    <span class="help-tooltip">Every time a thread had to wait for a lock held by another thread, from ContentionStart/ContentionStop events. Waits are grouped by <strong>call site</strong>: the first frame of the waiting stack outside the lock implementation. On .NET 8 and later the trace also identifies the lock and the thread that owned it. Switch the Flame Graph tab to Lock Contention to see time blocked across whole stacks.</span>
+                </span>
+            </h2>
+        </div>
+        ${contentions.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Contentions</div>
+                <div class="value">${contentions.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Total Wait</div>
+                <div class="value">${formatDuration(contentionTotalWaitMs)}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Max Wait</div>
+                <div class="value">${formatDuration(contentionMaxWaitMs)}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Threads Blocked</div>
+                <div class="value">${contentionThreadCount.toLocaleString()}</div>
+            </div>
+            ${contentionLockCount > 0 ? `
+            <div class="summary-card">
+                <div class="label">Contended Locks</div>
+                <div class="value">${contentionLockCount.toLocaleString()}</div>
+            </div>
+            ` : ''}
+        </div>
+
+        <div class="table-container">
+            <table id="contentionTable">
+                <thead>
+                    <tr>
+                        <th data-column="name" onclick="sortContentionTable('name')">Call Site</th>
+                        <th data-column="count" onclick="sortContentionTable('count')" class="numeric">Waits</th>
+                        <th data-column="totalWaitMs" onclick="sortContentionTable('totalWaitMs')" class="numeric sorted-desc">Total Wait</th>
+                        <th data-column="maxWaitMs" onclick="sortContentionTable('maxWaitMs')" class="numeric">Max Wait</th>
+                        <th data-column="avgWaitMs" onclick="sortContentionTable('avgWaitMs')" class="numeric">Avg Wait</th>
+                        <th data-column="lockCount" onclick="sortContentionTable('lockCount')" class="numeric">Locks</th>
+                        <th data-column="threadCount" onclick="sortContentionTable('threadCount')" class="numeric">Threads</th>
+                    </tr>
+                </thead>
+                <tbody id="contentionBody"></tbody>
+            </table>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>No lock contention found in this trace.</p>
+            <p>Make sure the trace includes the runtime provider's Contention keyword (0x4000) at informational level or above.</p>
+            <p>Use: <code>dotnet-trace collect --providers Microsoft-Windows-DotNETRuntime:0x4000:4</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Thread Pool Tab -->
+    <div id="tab-threadpool" class="tab-content">
+        <div class="section-header">
+            <h2>Thread Pool
+                <span class="help-icon">?
+                    <span class="help-tooltip">Thread pool size over time from the runtime's ThreadPool events. The hill-climbing algorithm samples throughput (work items completed per second) and adjusts the worker thread count to maximize it; each dot is an adjustment, colored by its reason. <strong>Starvation</strong> adjustments mean queued work waited so long that the pool injected threads outside hill climbing, usually because work items block (sync-over-async, Thread.Sleep, blocking I/O). A worker count climbing slowly past the minimum is the typical starvation signature.</span>
+                </span>
+            </h2>
+        </div>
+        ${hasThreadPoolData && threadPool ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Max Worker Threads</div>
+                <div class="value">${threadPoolMaxWorkers.toLocaleString()}</div>
+            </div>
+            ${threadPool.minWorkerThreads !== undefined ? `
+            <div class="summary-card">
+                <div class="label">Configured Min / Max</div>
+                <div class="value">${threadPool.minWorkerThreads.toLocaleString()} / ${(threadPool.maxWorkerThreads ?? 0).toLocaleString()}</div>
+            </div>
+            ` : ''}
+            <div class="summary-card">
+                <div class="label">Adjustments</div>
+                <div class="value">${threadPool.adjustments.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Starvation Adjustments</div>
+                <div class="value">${threadPoolStarvationCount.toLocaleString()}</div>
+            </div>
+            ${threadPoolMaxIOThreads > 0 ? `
+            <div class="summary-card">
+                <div class="label">Max I/O Threads</div>
+                <div class="value">${threadPoolMaxIOThreads.toLocaleString()}</div>
+            </div>
+            ` : ''}
+        </div>
+
+        <h3>Threads</h3>
+        <div id="threadPoolThreadChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: var(--accent-color)"></span>Worker threads</span>
+            ${threadPool.workingThreads.length > 0 ? `<span><span class="swatch" style="background: ${THREAD_POOL_WORKING_COLOR}"></span>Working threads</span>` : ''}
+            ${threadPool.ioThreads.length > 0 ? `<span><span class="swatch" style="background: ${THREAD_POOL_IO_COLOR}"></span>I/O threads</span>` : ''}
+            ${threadPoolReasons.map(reason => `<span><span class="swatch" style="background: ${getAdjustmentReasonColor(reason)}"></span>${escapeHtml(threadPoolAdjustmentReasonName(reason))}</span>`).join('')}
+        </div>
+
+        ${threadPool.throughput.length > 0 ? `
+        <h3>Hill-Climbing Throughput</h3>
+        <div id="threadPoolThroughputChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: var(--accent-color)"></span>Work items completed per second</span>
+        </div>
+        ` : ''}
+
+        ${threadPool.adjustments.length > 0 ? `
+        <div class="table-container">
+            <table id="threadPoolAdjustmentsTable">
+                <thead>
+                    <tr>
+                        <th class="numeric">Time (ms)</th>
+                        <th>Reason</th>
+                        <th class="numeric">New Worker Count</th>
+                        <th class="numeric">Avg Throughput (items/s)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${threadPool.adjustments.map(adjustment => `
+                        <tr>
+                            <td class="numeric">${adjustment.timeMs.toFixed(3)}</td>
+                            <td><span class="swatch" style="background: ${getAdjustmentReasonColor(adjustment.reason)}"></span>${escapeHtml(threadPoolAdjustmentReasonName(adjustment.reason))}</td>
+                            <td class="numeric">${adjustment.newWorkerThreadCount.toLocaleString()}</td>
+                            <td class="numeric">${adjustment.averageThroughput.toFixed(2)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+        ` : `
+        <div class="no-data">
+            <p>No thread pool events found in this trace.</p>
+            <p>Make sure the trace includes the runtime provider's Threading keyword (0x10000) at informational level or above.</p>
+            <p>Use: <code>dotnet-trace collect --providers Microsoft-Windows-DotNETRuntime:0x10000:4</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Counters Tab -->
+    <div id="tab-counters" class="tab-content">
+        <div class="section-header">
+            <h2>Counters
+                <span class="help-icon">?
+                    <span class="help-tooltip">Values EventSource counters reported at each interval (EventCounters events), one chart per counter. <strong>Mean</strong> counters such as CPU usage or GC heap size show the average over the interval; <strong>Sum</strong> counters such as allocation rate or exception count show how much the value grew during the interval. Drag across any chart to zoom every chart to that time range, and double-click to reset. <strong>Compare with</strong> overlays another counter as a dashed line, scaled to its own axis on the right.</span>
+                </span>
+            </h2>
+            ${counters.length > 0 ? `
+            <div class="counter-toolbar">
+                <span id="counterZoomLabel" class="subtitle"></span>
+                <button id="counterZoomReset" onclick="zoomCounters(null, null)" disabled>Reset Zoom</button>
+            </div>
+            ` : ''}
+        </div>
+        ${counters.length > 0 ? counterProviders.map(provider => `
+        <h3>${escapeHtml(provider)}</h3>
+        <div class="counter-grid">
+            ${counters.map((counter, index) => counter.providerName !== provider ? '' : `
+            <div class="counter-card">
+                <div class="counter-header">
+                    <div>
+                        <div class="counter-title" title="${escapeHtml(counter.name)}">${escapeHtml(counter.displayName)}</div>
+                        <div class="counter-subtitle">${escapeHtml(describeCounter(counter))}</div>
+                    </div>
+                    <select onchange="setCounterComparison(${index}, this.value)">
+                        <option value="">Compare with...</option>
+                        ${counters.map((other, otherIndex) => otherIndex === index ? '' : `<option value="${otherIndex}">${escapeHtml(other.displayName)}${other.providerName !== provider ? ` (${escapeHtml(other.providerName)})` : ''}</option>`).join('')}
+                    </select>
+                </div>
+                <div id="counterChart-${index}" class="time-chart"></div>
+                <div id="counterStats-${index}" class="counter-stats"></div>
+            </div>
+            `).join('')}
+        </div>
+        `).join('') : `
+        <div class="no-data">
+            <p>No EventCounters events found in this trace.</p>
+            <p>EventSources report their counters when the session enables them with an EventCounterIntervalSec argument.</p>
+            <p>Use: <code>dotnet-trace collect --providers System.Runtime:0:1:EventCounterIntervalSec=1</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- JIT Tab -->
+    <div id="tab-jit" class="tab-content">
+        <div class="section-header">
+            <h2>JIT Compilation
+                <span class="help-icon">?
+                    <span class="help-tooltip">Every method the JIT compiled, from the runtime's MethodJittingStarted and MethodLoadVerbose events. <strong>JIT Time</strong> runs from the start of compilation to the code being ready. With tiered compilation, methods are first compiled quickly at <strong>Tier0</strong> and recompiled at <strong>Tier1</strong> once called often; methods with hot loops get <strong>Tier1 OSR</strong> (on-stack replacement) versions in between. Dynamic methods and methods that opt out of tiering are compiled <strong>Optimized</strong> once; <strong>MinOpts</strong> code comes from debuggable assemblies or methods too large to optimize.</span>
+                </span>
+            </h2>
+        </div>
+        ${jitCompilations.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Compilations</div>
+                <div class="value">${jitCompilations.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Methods Jitted</div>
+                <div class="value">${jitMethodCount.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Total JIT Time</div>
+                <div class="value">${jitTimed.length > 0 ? formatDuration(jitTotalMs) : '-'}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Recompiled Methods</div>
+                <div class="value">${jitRecompiled.length.toLocaleString()}</div>
+            </div>
+            ${result?.jit.readyToRunMethods ? `
+            <div class="summary-card">
+                <div class="label">ReadyToRun Methods</div>
+                <div class="value">${result.jit.readyToRunMethods.toLocaleString()}</div>
+            </div>
+            ` : ''}
+        </div>
+
+        ${jitTimed.length > 0 ? `
+        <h3>JIT Activity</h3>
+        <div id="jitChart" class="time-chart"></div>
+        <div class="chart-legend">
+            ${jitTiers.filter(tier => tier.timedCount > 0).map(tier => `<span><span class="swatch" style="background: ${getJitTierColor(tier.tier)}"></span>${escapeHtml(jitTierName(tier.tier))}</span>`).join('')}
+            <span><span class="swatch" style="background: var(--accent-color)"></span>Total JIT time (right axis)</span>
+        </div>
+        ` : ''}
+
+        <h3>By Tier</h3>
+        <div class="table-container">
+            <table>
+                <thead>
+                    <tr>
+                        <th>Tier</th>
+                        <th class="numeric">Compilations</th>
+                        <th class="numeric">JIT Time (ms)</th>
+                        <th class="numeric">Average (ms)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${jitTiers.map(tier => `
+                        <tr>
+                            <td><span class="swatch" style="background: ${getJitTierColor(tier.tier)}"></span>${escapeHtml(jitTierName(tier.tier))}</td>
+                            <td class="numeric">${tier.count.toLocaleString()}</td>
+                            <td class="numeric">${tier.timedCount > 0 ? tier.totalMs.toFixed(3) : '-'}</td>
+                            <td class="numeric">${tier.timedCount > 0 ? (tier.totalMs / tier.timedCount).toFixed(3) : '-'}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+
+        ${jitSlowest.length > 0 ? `
+        <h3>Slowest Compilations</h3>
+        <div class="table-container">
+            <table id="jitSlowestTable">
+                <thead>
+                    <tr>
+                        <th>Method</th>
+                        <th>Tier</th>
+                        <th>Flags</th>
+                        <th class="numeric">JIT Time (ms)</th>
+                        <th class="numeric">IL Size</th>
+                        <th class="numeric">Code Size</th>
+                        <th class="numeric">Start (ms)</th>
+                        <th>Thread</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${jitSlowest.map(compilation => `
+                        <tr>
+                            <td class="method-name${compilation.codeAddress ? ' source-link' : ''}"${compilation.codeAddress ? ` onclick="openSource('0x${compilation.codeAddress.toString(16)}')" title="Go to Source"` : ''}>${escapeHtml(compilation.methodName)}</td>
+                            <td>${escapeHtml(jitTierName(compilation.tier))}</td>
+                            <td>${escapeHtml(jitFlagNames(compilation.flags).join(', '))}</td>
+                            <td class="numeric">${compilation.durationMs!.toFixed(3)}</td>
+                            <td class="numeric">${compilation.ilSize !== undefined ? compilation.ilSize.toLocaleString() : '-'}</td>
+                            <td class="numeric">${compilation.codeSize.toLocaleString()}</td>
+                            <td class="numeric">${compilation.startTimeMs.toFixed(3)}</td>
+                            <td>${escapeHtml(getThreadLabel(result, compilation.threadId))}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+
+        ${jitRecompiled.length > 0 ? `
+        <h3>Recompiled Methods</h3>
+        <div class="table-container">
+            <table id="jitRecompiledTable">
+                <thead>
+                    <tr>
+                        <th>Method</th>
+                        <th>Versions</th>
+                        <th class="numeric">JIT Time (ms)</th>
+                        <th class="numeric">First (ms)</th>
+                        <th class="numeric">Last (ms)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${jitRecompiled.map(method => `
+                        <tr>
+                            <td class="method-name${method.address ? ' source-link' : ''}"${method.address ? ` onclick="openSource('${method.address}')" title="Go to Source"` : ''}>${escapeHtml(method.methodName)}</td>
+                            <td>${method.tiers.map(tier => escapeHtml(tier)).join(' → ')}</td>
+                            <td class="numeric">${method.totalMs !== undefined ? method.totalMs.toFixed(3) : '-'}</td>
+                            <td class="numeric">${method.firstTimeMs.toFixed(3)}</td>
+                            <td class="numeric">${method.lastTimeMs.toFixed(3)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+        ` : `
+        <div class="no-data">
+            <p>No JIT compilations found in this trace.</p>
+            <p>Make sure the trace includes the runtime provider's JIT keyword (0x10) at verbose level; add the CompilationDiagnostic keyword (0x2000000000) to count methods that use ReadyToRun code.</p>
+            <p>Use: <code>dotnet-trace collect --providers Microsoft-Windows-DotNETRuntime:0x2000000010:5</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Logs Tab -->
+    <div id="tab-logs" class="tab-content">
+        <div class="section-header">
+            <h2>Logs
+                <span class="help-icon">?
+                    <span class="help-tooltip">ILogger entries written through the Microsoft-Extensions-Logging provider, in time order. Messages come from its FormattedMessage events; exceptions and structured arguments from MessageJson. Search matches the message, category, event name, exception and argument values. Click an entry to show its event in the Events tab, among the events logged around it.</span>
+                </span>
+            </h2>
+            ${logs.length > 0 ? `
+            <div class="event-filters">
+                <input type="text" id="logSearch" class="search-box" placeholder="Search logs..." oninput="filterLogs()">
+                <select id="logLevelFilter" onchange="filterLogs()">
+                    <option value="">All levels</option>
+                    ${[1, 2, 3, 4, 5].map(level => `<option value="${level}">${logLevelName(level)} and above</option>`).join('')}
+                </select>
+                <select id="logCategoryFilter" onchange="filterLogs()">
+                    <option value="">All categories</option>
+                    ${logCategories.map(category => `<option value="${escapeHtml(category)}">${escapeHtml(category)}</option>`).join('')}
+                </select>
+            </div>
+            ` : ''}
+        </div>
+        ${logs.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Entries</div>
+                <div class="value">${logs.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Errors</div>
+                <div class="value">${logErrorCount.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Warnings</div>
+                <div class="value">${logWarningCount.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Categories</div>
+                <div class="value">${logCategories.length.toLocaleString()}</div>
+            </div>
+        </div>
+        <p class="subtitle" id="logsSubtitle"></p>
+        <div class="event-browser log-browser">
+            <div class="event-browser-row log-row event-browser-header">
+                <span class="numeric">Time (ms)</span>
+                <span>Level</span>
+                <span>Category</span>
+                <span class="numeric">Event ID</span>
+                <span>Message</span>
+            </div>
+            <div id="logViewport" class="event-viewport" onscroll="renderLogWindow()">
+                <div id="logSpacer"></div>
+                <div id="logRows" class="event-rows"></div>
+            </div>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>No log entries found in this trace.</p>
+            <p>Make sure the trace includes the Microsoft-Extensions-Logging provider with the FormattedMessage (0x4) or JsonMessage (0x8) keyword.</p>
+            <p>Use: <code>dotnet-trace collect --providers Microsoft-Extensions-Logging:0xC:5</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Requests Tab -->
+    <div id="tab-requests" class="tab-content">
+        <div class="section-header">
+            <h2>Requests
+                <span class="help-icon">?
+                    <span class="help-tooltip">ASP.NET Core requests from the RequestStart/RequestStop events of the Microsoft.AspNetCore.Hosting and Microsoft-AspNetCore-Server-Kestrel providers; enable System.Threading.Tasks.TplEventSource with keyword 0x80 so requests that complete on another thread are paired correctly. Requests are grouped by <strong>route</strong>: the path with numeric, GUID and long hex segments replaced by {id}. Status codes come from the "Request finished" log entries of Microsoft-Extensions-Logging. Click a slow request to show the CPU samples taken on its threads while it ran in the Flame Graph tab.</span>
+                </span>
+            </h2>
+        </div>
+        ${requests.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Requests</div>
+                <div class="value">${requests.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Median Latency</div>
+                <div class="value">${formatDuration(percentile(requestDurations, 50))}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">p99 Latency</div>
+                <div class="value">${formatDuration(percentile(requestDurations, 99))}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Server Errors</div>
+                <div class="value">${requestErrorCount.toLocaleString()}</div>
+            </div>
+            ${result!.requests.connections > 0 ? `
+            <div class="summary-card">
+                <div class="label">Connections</div>
+                <div class="value">${result!.requests.connections.toLocaleString()}</div>
+            </div>
+            ` : ''}
+            ${result!.requests.unfinishedRequests > 0 ? `
+            <div class="summary-card">
+                <div class="label">Unfinished</div>
+                <div class="value">${result!.requests.unfinishedRequests.toLocaleString()}</div>
+            </div>
+            ` : ''}
+        </div>
+
+        <h3>Latency</h3>
+        <div id="requestChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: ${REQUEST_SUCCESS_COLOR}"></span>Success</span>
+            <span><span class="swatch" style="background: ${REQUEST_CLIENT_ERROR_COLOR}"></span>Client error (4xx)</span>
+            <span><span class="swatch" style="background: ${REQUEST_SERVER_ERROR_COLOR}"></span>Server error (5xx or unhandled exception)</span>
+            <span><span class="swatch" style="background: ${REQUEST_NO_STATUS_COLOR}"></span>No status</span>
+        </div>
+
+        <h3>By Route</h3>
+        <div class="table-container">
+            <table id="requestRoutesTable">
+                <thead>
+                    <tr>
+                        <th>Route</th>
+                        <th class="numeric">Requests</th>
+                        <th class="numeric">Server Errors</th>
+                        <th class="numeric">p50 (ms)</th>
+                        <th class="numeric">p90 (ms)</th>
+                        <th class="numeric">p99 (ms)</th>
+                        <th class="numeric">Max (ms)</th>
+                        <th class="numeric">Total (ms)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${requestRoutes.map(route => `
+                        <tr>
+                            <td>${escapeHtml(`${route.method} ${route.route}`)}</td>
+                            <td class="numeric">${route.count.toLocaleString()}</td>
+                            <td class="numeric">${route.errorCount.toLocaleString()}</td>
+                            <td class="numeric">${route.p50Ms.toFixed(2)}</td>
+                            <td class="numeric">${route.p90Ms.toFixed(2)}</td>
+                            <td class="numeric">${route.p99Ms.toFixed(2)}</td>
+                            <td class="numeric">${route.maxMs.toFixed(2)}</td>
+                            <td class="numeric">${route.totalMs.toFixed(2)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+
+        <h3>Slowest Requests</h3>
+        <div class="table-container">
+            <table id="requestSlowestTable">
+                <thead>
+                    <tr>
+                        <th>Request</th>
+                        <th>Status</th>
+                        <th class="numeric">Duration (ms)</th>
+                        <th class="numeric">Start (ms)</th>
+                        <th class="numeric">CPU Samples</th>
+                        <th>Thread</th>
+                        <th>Connection</th>
+                        <th>ActivityId</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${requestSlowest.map((request, i) => `
+                        <tr class="request-row${requestFlameGraphs[i].length > 0 ? ' has-samples' : ''}"${requestFlameGraphs[i].length > 0 ? ` onclick="showRequestFlameGraph(${i})" title="Show CPU samples in the Flame Graph tab"` : ''}>
+                            <td>${escapeHtml(`${request.method} ${request.path}`)}</td>
+                            <td><span class="swatch" style="background: ${getRequestStatusColor(request)}"></span>${formatRequestStatus(request)}</td>
+                            <td class="numeric">${request.durationMs.toFixed(2)}</td>
+                            <td class="numeric">${request.startTimeMs.toFixed(1)}</td>
+                            <td class="numeric">${requestSampleCounts[i].toLocaleString()}</td>
+                            <td>${request.threadIds.map(threadId => escapeHtml(getThreadLabel(result, threadId))).join(', ')}</td>
+                            <td>${escapeHtml([request.remoteEndPoint, request.requestId].filter(Boolean).join(' · ') || '-')}</td>
+                            <td>${escapeHtml(request.activityId ?? '-')}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>No ASP.NET Core requests found in this trace.</p>
+            <p>Make sure the trace includes the Microsoft.AspNetCore.Hosting or Microsoft-AspNetCore-Server-Kestrel provider; add System.Threading.Tasks.TplEventSource for activity IDs and Microsoft-Extensions-Logging for status codes.</p>
+            <p>Use: <code>dotnet-trace collect --providers Microsoft.AspNetCore.Hosting,Microsoft-AspNetCore-Server-Kestrel,System.Threading.Tasks.TplEventSource:0x80:4,Microsoft-Extensions-Logging:0xC:4</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Network Tab -->
+    <div id="tab-network" class="tab-content">
+        <div class="section-header">
+            <h2>Network
+                <span class="help-icon">?
+                    <span class="help-tooltip">Outgoing HttpClient requests, DNS lookups and socket connects from the System.Net.Http, System.Net.NameResolution and System.Net.Sockets event sources; enable System.Threading.Tasks.TplEventSource with keyword 0x80 so operations that complete on another thread are paired correctly. <strong>Queued</strong> is the time a request waited for a pooled connection, because none was free and the pool could not open another (see MaxConnectionsPerServer). Status codes and error messages need .NET 8 or later.</span>
+                </span>
+            </h2>
+        </div>
+        ${hasNetworkActivity ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">HTTP Requests</div>
+                <div class="value">${httpRequests.length.toLocaleString()}</div>
+            </div>
+            ${httpRequests.length > 0 ? `
+            <div class="summary-card">
+                <div class="label">Median Latency</div>
+                <div class="value">${formatDuration(percentile(httpDurations, 50))}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">p99 Latency</div>
+                <div class="value">${formatDuration(percentile(httpDurations, 99))}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Failed or 5xx</div>
+                <div class="value">${httpErrorCount.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Queued for a Connection</div>
+                <div class="value">${httpQueued.length.toLocaleString()}${httpQueued.length > 0 ? ` (${formatDuration(httpQueueTotalMs)})` : ''}</div>
+            </div>
+            ` : ''}
+            <div class="summary-card">
+                <div class="label">Connections Opened</div>
+                <div class="value">${result!.network.httpConnections.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">DNS Lookups</div>
+                <div class="value">${dnsLookups.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Socket Connects</div>
+                <div class="value">${socketConnects.length.toLocaleString()}</div>
+            </div>
+        </div>
+
+        ${httpRequests.length > 0 ? `
+        <h3>HTTP Latency</h3>
+        <div id="networkChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: ${REQUEST_SUCCESS_COLOR}"></span>Success</span>
+            <span><span class="swatch" style="background: ${REQUEST_CLIENT_ERROR_COLOR}"></span>Client error (4xx)</span>
+            <span><span class="swatch" style="background: ${REQUEST_SERVER_ERROR_COLOR}"></span>Server error (5xx) or failed</span>
+            <span><span class="swatch" style="background: ${REQUEST_NO_STATUS_COLOR}"></span>No status</span>
+            <span><span class="swatch" style="background: ${NETWORK_QUEUE_COLOR}"></span>Time queued for a connection</span>
+        </div>
+
+        <h3>By Host</h3>
+        <div class="table-container">
+            <table id="networkHostsTable">
+                <thead>
+                    <tr>
+                        <th>Host</th>
+                        <th class="numeric">Requests</th>
+                        <th class="numeric">Failed or 5xx</th>
+                        <th class="numeric">p50 (ms)</th>
+                        <th class="numeric">p90 (ms)</th>
+                        <th class="numeric">p99 (ms)</th>
+                        <th class="numeric">Max (ms)</th>
+                        <th class="numeric">Total (ms)</th>
+                        <th class="numeric">Queued</th>
+                        <th class="numeric">Max Queued (ms)</th>
+                        <th class="numeric">Connections</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${networkHosts.map(host => `
+                        <tr>
+                            <td>${escapeHtml(host.origin)}</td>
+                            <td class="numeric">${host.count.toLocaleString()}</td>
+                            <td class="numeric">${host.errorCount.toLocaleString()}</td>
+                            <td class="numeric">${host.p50Ms.toFixed(2)}</td>
+                            <td class="numeric">${host.p90Ms.toFixed(2)}</td>
+                            <td class="numeric">${host.p99Ms.toFixed(2)}</td>
+                            <td class="numeric">${host.maxMs.toFixed(2)}</td>
+                            <td class="numeric">${host.totalMs.toFixed(2)}</td>
+                            <td class="numeric">${host.queuedCount.toLocaleString()}</td>
+                            <td class="numeric">${host.queuedCount > 0 ? host.maxQueueMs.toFixed(2) : '-'}</td>
+                            <td class="numeric">${host.connections.toLocaleString()}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+
+        <h3>Slowest HTTP Requests</h3>
+        <div class="table-container">
+            <table id="networkSlowestTable">
+                <thead>
+                    <tr>
+                        <th>Request</th>
+                        <th>Status</th>
+                        <th class="numeric">Duration (ms)</th>
+                        <th class="numeric">Queued (ms)</th>
+                        <th class="numeric">Start (ms)</th>
+                        <th>Version</th>
+                        <th>Thread</th>
+                        <th>ActivityId</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${httpSlowest.map(request => `
+                        <tr>
+                            <td>${escapeHtml(formatHttpRequestUrl(request))}</td>
+                            <td><span class="swatch" style="background: ${getRequestStatusColor(request)}"></span>${formatRequestStatus(request)}</td>
+                            <td class="numeric">${request.durationMs.toFixed(2)}</td>
+                            <td class="numeric">${request.queueTimeMs !== undefined ? request.queueTimeMs.toFixed(2) : '-'}</td>
+                            <td class="numeric">${request.startTimeMs.toFixed(1)}</td>
+                            <td>HTTP/${escapeHtml(request.version)}</td>
+                            <td>${escapeHtml(getThreadLabel(result, request.threadId))}</td>
+                            <td>${escapeHtml(request.activityId ?? '-')}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+
+        ${httpFailed.length > 0 ? `
+        <h3>Failed HTTP Requests</h3>
+        <div class="table-container">
+            <table id="networkFailedTable">
+                <thead>
+                    <tr>
+                        <th>Request</th>
+                        <th>Error</th>
+                        <th class="numeric">Duration (ms)</th>
+                        <th class="numeric">Start (ms)</th>
+                        <th>Thread</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${httpFailed.map(request => `
+                        <tr>
+                            <td>${escapeHtml(formatHttpRequestUrl(request))}</td>
+                            <td class="network-error">${escapeHtml(request.error ?? '-')}</td>
+                            <td class="numeric">${request.durationMs.toFixed(2)}</td>
+                            <td class="numeric">${request.startTimeMs.toFixed(1)}</td>
+                            <td>${escapeHtml(getThreadLabel(result, request.threadId))}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+
+        ${dnsHosts.length > 0 ? `
+        <h3>DNS Lookups</h3>
+        <div class="table-container">
+            <table id="networkDnsTable">
+                <thead>
+                    <tr>
+                        <th>Host Name</th>
+                        <th class="numeric">Lookups</th>
+                        <th class="numeric">Failed</th>
+                        <th class="numeric">Average (ms)</th>
+                        <th class="numeric">Max (ms)</th>
+                        <th class="numeric">Total (ms)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${dnsHosts.map(host => `
+                        <tr>
+                            <td>${escapeHtml(host.name)}</td>
+                            <td class="numeric">${host.count.toLocaleString()}</td>
+                            <td class="numeric">${host.failedCount.toLocaleString()}</td>
+                            <td class="numeric">${(host.totalMs / host.count).toFixed(2)}</td>
+                            <td class="numeric">${host.maxMs.toFixed(2)}</td>
+                            <td class="numeric">${host.totalMs.toFixed(2)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+
+        ${socketEndpoints.length > 0 ? `
+        <h3>Socket Connects</h3>
+        <div class="table-container">
+            <table id="networkSocketsTable">
+                <thead>
+                    <tr>
+                        <th>Address</th>
+                        <th class="numeric">Connects</th>
+                        <th class="numeric">Failed</th>
+                        <th class="numeric">Average (ms)</th>
+                        <th class="numeric">Max (ms)</th>
+                        <th class="numeric">Total (ms)</th>
+                        <th>Last Error</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${socketEndpoints.map(endpoint => `
+                        <tr>
+                            <td>${escapeHtml(endpoint.name)}</td>
+                            <td class="numeric">${endpoint.count.toLocaleString()}</td>
+                            <td class="numeric">${endpoint.failedCount.toLocaleString()}</td>
+                            <td class="numeric">${(endpoint.totalMs / endpoint.count).toFixed(2)}</td>
+                            <td class="numeric">${endpoint.maxMs.toFixed(2)}</td>
+                            <td class="numeric">${endpoint.totalMs.toFixed(2)}</td>
+                            <td class="network-error">${escapeHtml(endpoint.spans.filter(connect => connect.error).pop()?.error ?? '-')}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+        ` : `
+        <div class="no-data">
+            <p>No outgoing network activity found in this trace.</p>
+            <p>Make sure the trace includes the System.Net.Http, System.Net.NameResolution or System.Net.Sockets provider; add System.Threading.Tasks.TplEventSource for activity IDs.</p>
+            <p>Use: <code>dotnet-trace collect --providers System.Net.Http,System.Net.NameResolution,System.Net.Sockets,System.Threading.Tasks.TplEventSource:0x80:4</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Database Tab -->
+    <div id="tab-database" class="tab-content">
+        <div class="section-header">
+            <h2>Database
+                <span class="help-icon">?
+                    <span class="help-tooltip">Commands from the BeginExecute/EndExecute events of Microsoft.Data.SqlClient.EventSource (or Microsoft-AdoNet-SystemData for System.Data.SqlClient), completed with the CommandExecuted/CommandError log entries of Entity Framework Core's Microsoft.EntityFrameworkCore.Database.Command category, which also stand for the commands of other database providers. SqlClient may only log the text of stored procedures. Commands are grouped by <strong>statement</strong>: the SQL with literals replaced by ? and IN lists collapsed. <strong>Longest run</strong> is the most executions of a statement in a row with no other command in between; a long run usually means a query per item in a loop (N+1). Click a slow command to show the CPU samples taken on its threads while it ran in the Flame Graph tab.</span>
+                </span>
+            </h2>
+        </div>
+        ${databaseCommands.length > 0 ? `
+        <div class="summary-cards">
+            <div class="summary-card">
+                <div class="label">Commands</div>
+                <div class="value">${databaseCommands.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Statements</div>
+                <div class="value">${databaseStatements.length.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Median Duration</div>
+                <div class="value">${formatDuration(percentile(databaseDurations, 50))}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">p99 Duration</div>
+                <div class="value">${formatDuration(percentile(databaseDurations, 99))}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Total Time</div>
+                <div class="value">${formatDuration(databaseDurations.reduce((sum, duration) => sum + duration, 0))}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Failed</div>
+                <div class="value">${databaseFailedCount.toLocaleString()}</div>
+            </div>
+            <div class="summary-card">
+                <div class="label">Repeated Statements</div>
+                <div class="value">${databaseRepeatedCount.toLocaleString()}</div>
+            </div>
+            ${result!.database.unfinishedCommands > 0 ? `
+            <div class="summary-card">
+                <div class="label">Unfinished</div>
+                <div class="value">${result!.database.unfinishedCommands.toLocaleString()}</div>
+            </div>
+            ` : ''}
+        </div>
+
+        <h3>Commands</h3>
+        <div id="databaseChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: ${REQUEST_SUCCESS_COLOR}"></span>Succeeded</span>
+            <span><span class="swatch" style="background: ${REQUEST_SERVER_ERROR_COLOR}"></span>Failed</span>
+        </div>
+        <div id="databaseActivityChart" class="time-chart"></div>
+        <div class="chart-legend">
+            <span><span class="swatch" style="background: ${CPU_SAMPLE_COLOR}"></span>CPU samples</span>
+            <span><span class="swatch" style="background: ${ALLOCATION_COLOR}"></span>Allocated bytes (right axis, sampled)</span>
+        </div>
+
+        <h3>By Statement</h3>
+        <div class="table-container">
+            <table id="databaseStatementsTable">
+                <thead>
+                    <tr>
+                        <th>Statement</th>
+                        <th class="numeric">Executions</th>
+                        <th class="numeric">Failed</th>
+                        <th class="numeric">Longest Run</th>
+                        <th class="numeric">p50 (ms)</th>
+                        <th class="numeric">p90 (ms)</th>
+                        <th class="numeric">p99 (ms)</th>
+                        <th class="numeric">Max (ms)</th>
+                        <th class="numeric">Total (ms)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${databaseStatements.map(statement => `
+                        <tr>
+                            <td class="sql-text">${escapeHtml(statement.text || '(no command text)')}</td>
+                            <td class="numeric">${statement.count.toLocaleString()}</td>
+                            <td class="numeric">${statement.failedCount.toLocaleString()}</td>
+                            <td class="numeric">${statement.longestRun.toLocaleString()}${statement.longestRun >= REPEATED_STATEMENT_THRESHOLD ? '<span class="repeated-badge" title="Executed many times in a row: possibly a query per item (N+1)">N+1?</span>' : ''}</td>
+                            <td class="numeric">${statement.p50Ms.toFixed(2)}</td>
+                            <td class="numeric">${statement.p90Ms.toFixed(2)}</td>
+                            <td class="numeric">${statement.p99Ms.toFixed(2)}</td>
+                            <td class="numeric">${statement.maxMs.toFixed(2)}</td>
+                            <td class="numeric">${statement.totalMs.toFixed(2)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+
+        <h3>Slowest Commands</h3>
+        <div class="table-container">
+            <table id="databaseSlowestTable">
+                <thead>
+                    <tr>
+                        <th>Command</th>
+                        <th>Result</th>
+                        <th class="numeric">Duration (ms)</th>
+                        <th class="numeric">Start (ms)</th>
+                        <th class="numeric">CPU Samples</th>
+                        <th>Thread</th>
+                        <th>Database</th>
+                        <th>Parameters</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${databaseSlowest.map((command, i) => `
+                        <tr class="request-row${databaseFlameGraphs[i].length > 0 ? ' has-samples' : ''}"${databaseFlameGraphs[i].length > 0 ? ` onclick="showRequestFlameGraph(${requestSlowest.length + i})" title="Show CPU samples in the Flame Graph tab"` : ''}>
+                            <td class="sql-text">${escapeHtml(command.commandText || '(no command text)')}</td>
+                            <td><span class="swatch" style="background: ${command.failed ? REQUEST_SERVER_ERROR_COLOR : REQUEST_SUCCESS_COLOR}"></span>${escapeHtml(formatDatabaseCommandResult(command))}</td>
+                            <td class="numeric">${command.durationMs.toFixed(2)}</td>
+                            <td class="numeric">${command.startTimeMs.toFixed(1)}</td>
+                            <td class="numeric">${databaseSampleCounts[i].toLocaleString()}</td>
+                            <td>${command.threadIds.map(threadId => escapeHtml(getThreadLabel(result, threadId))).join(', ')}</td>
+                            <td>${escapeHtml([command.dataSource, command.database].filter(Boolean).join(' · ') || command.source)}</td>
+                            <td class="sql-text">${escapeHtml(command.parameters ?? '-')}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>No database commands found in this trace.</p>
+            <p>Make sure the trace includes Microsoft.Data.SqlClient.EventSource, or Microsoft-Extensions-Logging for Entity Framework Core's command log entries.</p>
+            <p>Use: <code>dotnet-trace collect --providers Microsoft.Data.SqlClient.EventSource:0x1:4,Microsoft-Extensions-Logging:0xC:4</code></p>
+        </div>
+        `}
+    </div>
+
+    <!-- Events Tab -->
+    <div id="tab-events" class="tab-content">
+        <div class="section-header">
+            <h2>Events
+                <span class="help-icon">?
+                    <span class="help-tooltip">Every event in the trace in timestamp order within each buffer. Times are relative to the start of the trace. Select an event to see its decoded fields, raw payload and call stack. Events are loaded on demand as you scroll, so filtering and scrolling work on traces with millions of events.</span>
+                </span>
+            </h2>
+            ${totalEvents > 0 ? `
+            <div class="event-filters">
+                <select id="eventProviderFilter" onchange="onEventProviderChanged()">
+                    <option value="">All providers</option>
+                    ${Object.keys(eventCatalog).map(p => `<option value="${escapeHtml(p)}">${escapeHtml(p)}</option>`).join('')}
+                </select>
+                <select id="eventNameFilter" onchange="onEventFilterChanged()">
+                    <option value="">All events</option>
+                </select>
+                <select id="eventThreadFilter" onchange="onEventFilterChanged()">
+                    <option value="">All threads</option>
+                    ${eventThreadIds.map(id => `<option value="${id}">Thread ${id}</option>`).join('')}
+                </select>
+            </div>
+            ` : ''}
+        </div>
+        ${totalEvents > 0 ? `
+        <p class="subtitle" id="eventsSubtitle"></p>
+        <div class="events-layout">
+            <div class="event-browser">
+                <div class="event-browser-row event-browser-header">
+                    <span class="numeric">Time (ms)</span>
+                    <span class="numeric">Thread</span>
+                    <span>Provider</span>
+                    <span>Event</span>
+                    <span class="numeric">Opcode</span>
+                    <span>Fields</span>
+                </div>
+                <div id="eventViewport" class="event-viewport" onscroll="renderEventWindow()">
+                    <div id="eventSpacer"></div>
+                    <div id="eventRows" class="event-rows"></div>
+                </div>
+            </div>
+            <div id="eventDetails" class="event-details">
+                <div class="no-data">Select an event to see its details.</div>
+            </div>
+        </div>
+        ` : `
+        <div class="no-data">
+            <p>No events found in this trace file.</p>
+        </div>
+        `}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        
+        // CPU and allocation views for the selected part of the trace, set by applySampleViews()
+        let allocations = [];
+        let methodProfiles = [];
+        let typeStackDistribution = {};    // typeName -> array of stacks with frames
+        let cpuFlameGraphData = [];
+        let allocFlameGraphData = [];
+
+        const contentionFlameGraphData = ${toScriptJson(contentionFlameGraphData)};
+        // CPU flame graph of each request in the Requests tab's slowest table, then of each command in the
+        // Database tab's; paths and SQL are arbitrary text
+        const requestFlameGraphs = ${toScriptJson([
+            ...requestSlowest.map((request, i) => ({
+                label: `${request.method} ${request.path} (${request.durationMs.toFixed(2)} ms at ${request.startTimeMs.toFixed(1)} ms)`,
+                data: requestFlameGraphs[i]
+            })),
+            ...databaseSlowest.map((command, i) => ({
+                label: `${truncateText(command.commandText || command.source + ' command', DATABASE_LABEL_LENGTH)} (${command.durationMs.toFixed(2)} ms at ${command.startTimeMs.toFixed(1)} ms)`,
+                data: databaseFlameGraphs[i]
+            }))
+        ])};
+        const flameGraphTexts = ${toScriptJson(FLAME_GRAPH_TEXTS)};
+        let currentFlameGraphMode = '${initialFlameGraphMode}';
+
+        // GC timeline, and the trace length the time charts span
+        const gcData = ${toScriptJson(gcs.map(gc => ({
+            number: gc.number,
+            generation: gc.generation,
+            type: gcTypeName(gc.type),
+            reason: gcReasonName(gc.reason),
+            startTimeMs: gc.startTimeMs,
+            durationMs: gc.durationMs ?? 0,
+            pauseDurationMs: gc.pauseDurationMs,
+            heapSizeBefore: gc.heapSizeBefore,
+            heapSizeAfter: gc.heapSizeAfter
+        })))};
+        const gcGenerationColors = ${toScriptJson(GC_GENERATION_COLORS)};
+        const traceDurationMs = ${traceDurationMs};
+
+        // Exception groups (in table order) and throws per time bucket; messages are arbitrary text
+        const exceptionData = ${toScriptJson(exceptionData)};
+        const exceptionTimeline = ${toScriptJson(exceptionTimeline)};
+
+        // Thread pool timeline, with adjustment reasons named and colored
+        const threadPoolData = ${toScriptJson(threadPool ? {
+            workerThreads: threadPool.workerThreads,
+            ioThreads: threadPool.ioThreads,
+            workingThreads: threadPool.workingThreads,
+            throughput: threadPool.throughput,
+            adjustments: threadPool.adjustments.map(adjustment => ({
+                ...adjustment,
+                reasonName: threadPoolAdjustmentReasonName(adjustment.reason),
+                color: getAdjustmentReasonColor(adjustment.reason)
+            }))
+        } : null)};
+        const threadPoolColors = ${toScriptJson({ working: THREAD_POOL_WORKING_COLOR, io: THREAD_POOL_IO_COLOR })};
+
+        // Log entries, with the text search looks through
+        const logData = ${toScriptJson(logs.map(log => ({
+            eventIndex: log.eventIndex,
+            timeMs: log.timeMs,
+            threadId: log.threadId.toString(),
+            level: log.level,
+            levelName: logLevelName(log.level),
+            category: log.category,
+            eventId: log.eventId,
+            eventName: log.eventName,
+            message: log.message,
+            exception: log.exception,
+            arguments: log.arguments
+        })))};
+        for (const log of logData) {
+            log.searchText = [log.message, log.category, log.eventName, log.exception || '', ...Object.values(log.arguments || {})].join('\\n').toLowerCase();
+        }
+        let filteredLogs = logData;
+
+        // Timed JIT compilations, in the order they started
+        const jitData = ${toScriptJson(jitTimed.map(compilation => ({
+            methodName: compilation.methodName,
+            tier: compilation.tier,
+            tierName: jitTierName(compilation.tier),
+            color: getJitTierColor(compilation.tier),
+            startTimeMs: compilation.startTimeMs,
+            durationMs: compilation.durationMs
+        })))};
+
+        // Completed requests, in the order they started
+        const requestData = ${toScriptJson(requests.map(request => ({
+            label: `${request.method} ${request.path}`,
+            status: formatRequestStatus(request),
+            color: getRequestStatusColor(request),
+            startTimeMs: request.startTimeMs,
+            durationMs: request.durationMs
+        })))};
+
+        // Timeline tab: per-bucket totals over the whole trace, and the selected part of it
+        const timelineCpu = ${toScriptJson(timelineCpu)};
+        const timelineAllocations = ${toScriptJson(timelineAllocations)};
+        const timelineEvents = ${toScriptJson(timelineEvents)};
+        let selectedTimeRange = null;
+
+        // Threads tab: the threads the view is limited to, as strings
+        let selectedThreadIds = null;
+
+        // Completed outgoing HTTP requests, in the order they started
+        const networkData = ${toScriptJson(httpRequests.map(request => ({
+            label: formatHttpRequestUrl(request),
+            status: formatRequestStatus(request),
+            color: getRequestStatusColor(request),
+            startTimeMs: request.startTimeMs,
+            durationMs: request.durationMs,
+            queueTimeMs: request.queueTimeMs
+        })))};
+        const networkQueueColor = '${NETWORK_QUEUE_COLOR}';
+
+        // Completed database commands in the order they started, and CPU and allocation activity over the same time
+        const databaseData = ${toScriptJson(databaseCommands.map(command => ({
+            label: truncateText(command.commandText || command.source + ' command', DATABASE_LABEL_LENGTH),
+            color: command.failed ? REQUEST_SERVER_ERROR_COLOR : REQUEST_SUCCESS_COLOR,
+            startTimeMs: command.startTimeMs,
+            durationMs: command.durationMs
+        })))};
+        const databaseCpuTimeline = ${toScriptJson(databaseCpuTimeline)};
+        const databaseAllocationTimeline = ${toScriptJson(databaseAllocationTimeline)};
+
+        // Counter series; every counter chart shows the same time range and may overlay another counter
+        const countersData = ${toScriptJson(counters)};
+        const counterComparisonColor = '${COUNTER_COMPARISON_COLOR}';
+        let counterZoom = null;                     // { start, end } in ms, or null for the whole trace
+        const counterComparisons = new Map();       // counter index -> index of the counter overlaid on its chart
+
+        // Contended call sites, and the table's current order
+        const contentionData = ${toScriptJson(contentionData)};
+        let currentContentionSort = { column: 'totalWaitMs', descending: true };
+
+        // Provider -> event names, used to populate the Events tab filters
+        const eventCatalog = ${toScriptJson(eventCatalog)};
+        const totalEventCount = ${totalEvents};
+
+        let currentSort = { column: 'size', descending: true };
+        let currentMethodSort = { column: 'exclusive', descending: true };
 
         // Tab switching
         function switchTab(tabId) {
             document.querySelectorAll('.tab').forEach(t => t.classList.remove('active'));
             document.querySelectorAll('.tab-content').forEach(c => c.classList.remove('active'));
             
-            document.querySelector(\`.tab[onclick="switchTab('\${tabId}')"]\`).classList.add('active');
-            document.getElementById('tab-' + tabId).classList.add('active');
+            document.querySelector(\`.tab[onclick="switchTab('\${tabId}')"]\`).classList.add('active');
+            document.getElementById('tab-' + tabId).classList.add('active');
+
+            if (tabId === 'flamegraph') {
+                renderFlameGraph();
+            } else if (tabId === 'timeline') {
+                renderTimelineCharts();
+            } else if (tabId === 'gc') {
+                renderGCCharts();
+            } else if (tabId === 'exceptions') {
+                renderExceptionChart();
+            } else if (tabId === 'threadpool') {
+                renderThreadPoolCharts();
+            } else if (tabId === 'counters') {
+                renderCounterCharts();
+            } else if (tabId === 'jit') {
+                renderJitChart();
+            } else if (tabId === 'logs') {
+                renderLogWindow();
+            } else if (tabId === 'requests') {
+                renderRequestChart();
+            } else if (tabId === 'network') {
+                renderNetworkChart();
+            } else if (tabId === 'database') {
+                renderDatabaseCharts();
+            } else if (tabId === 'events') {
+                renderEventWindow();
+            }
+        }
+
+        function switchFlameGraphMode() {
+            const select = document.getElementById('flameGraphMode');
+            currentFlameGraphMode = select.value;
+            flameGraphFocusNode = null; // Reset zoom when switching modes
+            flameGraphRequest = null;
+            const subtitle = document.getElementById('flameGraphSubtitle');
+            if (subtitle) {
+                subtitle.textContent = flameGraphTexts[currentFlameGraphMode].subtitle;
+            }
+            // Update help tooltip text
+            const helpText = document.getElementById('flameGraphHelpText');
+            if (helpText) {
+                helpText.textContent = flameGraphTexts[currentFlameGraphMode].help;
+            }
+            renderFlameGraph();
+        }
+
+        function filterTable() {
+            const searchBox = document.getElementById('searchBox');
+            if (!searchBox) return;
+            const searchTerm = searchBox.value.toLowerCase();
+            const allocationRows = document.querySelectorAll('#allocationsBody .allocation-row');
+            
+            allocationRows.forEach((row) => {
+                const index = parseInt(row.dataset.index, 10);
+                if (allocations[index]) {
+                    const typeName = allocations[index].typeName.toLowerCase();
+                    const shouldHide = !typeName.includes(searchTerm);
+                    row.classList.toggle('hidden', shouldHide);
+                    // Also hide the corresponding stack distribution row
+                    const distRow = document.getElementById('stack-dist-' + index);
+                    if (distRow && shouldHide) {
+                        distRow.style.display = 'none';
+                        row.querySelector('.expand-btn')?.classList.remove('expanded');
+                    }
+                }
+            });
+        }
+
+        function sortTable(column) {
+            const descending = currentSort.column === column ? !currentSort.descending : true;
+            currentSort = { column, descending };
+
+            document.querySelectorAll('#allocationsTable th').forEach(th => {
+                th.classList.remove('sorted-asc', 'sorted-desc');
+                if (th.dataset.column === column) {
+                    th.classList.add(descending ? 'sorted-desc' : 'sorted-asc');
+                }
+            });
+
+            renderAllocationTable();
+        }
+
+        function renderAllocationTable() {
+            const { column, descending } = currentSort;
+            const sorted = [...allocations].sort((a, b) => {
+                let cmp = 0;
+                switch (column) {
+                    case 'type': cmp = a.typeName.localeCompare(b.typeName); break;
+                    case 'count': cmp = a.count - b.count; break;
+                    case 'size': cmp = BigInt(a.totalSize) > BigInt(b.totalSize) ? 1 : BigInt(a.totalSize) < BigInt(b.totalSize) ? -1 : 0; break;
+                    case 'avg': cmp = BigInt(a.avgSize) > BigInt(b.avgSize) ? 1 : BigInt(a.avgSize) < BigInt(b.avgSize) ? -1 : 0; break;
+                }
+                return descending ? -cmp : cmp;
+            });
+
+            const tbody = document.getElementById('allocationsBody');
+            if (tbody) {
+                tbody.innerHTML = sorted.map((alloc, index) => \`
+                    <tr class="allocation-row" data-index="\${index}" data-type="\${escapeHtml(alloc.typeName)}">
+                        <td class="type-name">
+                            <span class="expand-btn" onclick="toggleStackDistribution(\${index}, event)">▶</span>
+                            \${escapeHtml(alloc.typeName)}
+                        </td>
+                        <td class="count">\${Number(alloc.count).toLocaleString()}</td>
+                        <td class="size">\${formatBytes(BigInt(alloc.totalSize))}</td>
+                        <td class="avg-size">\${formatBytes(BigInt(alloc.avgSize))}</td>
+                    </tr>
+                    <tr class="stack-distribution-row" id="stack-dist-\${index}" style="display: none;">
+                        <td colspan="4" class="stack-distribution-cell"></td>
+                    </tr>
+                \`).join('');
+                filterTable();
+            }
+        }
+
+        function toggleStackDistribution(index, event) {
+            event.stopPropagation();
+            const row = document.querySelector(\`.allocation-row[data-index="\${index}"]\`);
+            const distRow = document.getElementById('stack-dist-' + index);
+            const expandBtn = row?.querySelector('.expand-btn');
+            
+            if (!row || !distRow) return;
+            
+            const typeName = row.dataset.type;
+            const isExpanded = distRow.style.display !== 'none';
+            
+            if (isExpanded) {
+                distRow.style.display = 'none';
+                expandBtn?.classList.remove('expanded');
+            } else {
+                // Get stack distribution for this type
+                const stacks = typeStackDistribution[typeName] || [];
+                const cell = distRow.querySelector('.stack-distribution-cell');
+                
+                if (stacks.length === 0) {
+                    cell.innerHTML = '<div class="stack-distribution-content"><em>No stack data available for this type</em></div>';
+                } else {
+                    const totalSize = stacks.reduce((sum, s) => sum + s.size, 0);
+                    const totalCount = stacks.reduce((sum, s) => sum + s.count, 0);
+                    
+                    let html = '<div class="stack-distribution-content">';
+                    html += '<div style="margin-bottom: 8px; opacity: 0.7; font-size: 12px;">' + 
+                            stacks.length + ' unique stacks. Click a stack to expand all frames.</div>';
+                    
+                    stacks.forEach((stack, stackIndex) => {
+                        const sizePct = totalSize > 0 ? ((stack.size / totalSize) * 100).toFixed(1) : '0.0';
+                        const countPct = totalCount > 0 ? ((stack.count / totalCount) * 100).toFixed(1) : '0.0';
+                        const topFrame = stack.frames.length > 0 ? stack.frames[0] : '(unknown)';
+                        
+                        html += \`
+                            <div class="stack-dist-item" onclick="toggleStackFrames(\${index}, \${stackIndex}, event)">
+                                <span class="stack-preview">\${escapeHtml(topFrame)}</span>
+                                <span class="stack-dist-stats">
+                                    \${stack.count.toLocaleString()} (\${countPct}%) • 
+                                    \${formatBytes(stack.size)} (\${sizePct}%)
+                                </span>
+                            </div>
+                            <div class="stack-expanded-frames" id="stack-frames-\${index}-\${stackIndex}">
+                                \${stack.frames.map((frame, i) => 
+                                    '<div class="stack-frame source-link' + (i === 0 ? ' top' : '') + '" title="Go to Source" onclick="openSource(\\'' + stack.addresses[i] + '\\')">' + escapeHtml(frame) + '</div>'
+                                ).join('')}
+                            </div>
+                        \`;
+                    });
+                    
+                    html += '</div>';
+                    cell.innerHTML = html;
+                }
+                
+                distRow.style.display = 'table-row';
+                expandBtn?.classList.add('expanded');
+            }
+        }
+
+        function toggleStackFrames(typeIndex, stackIndex, event) {
+            event.stopPropagation();
+            const framesDiv = document.getElementById('stack-frames-' + typeIndex + '-' + stackIndex);
+            if (framesDiv) {
+                framesDiv.classList.toggle('visible');
+            }
+        }
+
+        function filterMethodTable() {
+            const searchBox = document.getElementById('methodSearchBox');
+            if (!searchBox) return;
+            const searchTerm = searchBox.value.toLowerCase();
+            const rows = document.querySelectorAll('#methodsBody tr');
+            
+            rows.forEach((row, index) => {
+                if (methodProfiles[index]) {
+                    const methodName = methodProfiles[index].methodName.toLowerCase();
+                    row.classList.toggle('hidden', !methodName.includes(searchTerm));
+                }
+            });
+        }
+
+        function sortMethodTable(column) {
+            const descending = currentMethodSort.column === column ? !currentMethodSort.descending : true;
+            currentMethodSort = { column, descending };
+
+            document.querySelectorAll('#methodsTable th').forEach(th => {
+                th.classList.remove('sorted-asc', 'sorted-desc');
+                if (th.dataset.column === column) {
+                    th.classList.add(descending ? 'sorted-desc' : 'sorted-asc');
+                }
+            });
+
+            renderMethodTable();
+        }
+
+        function renderMethodTable() {
+            const { column, descending } = currentMethodSort;
+            const sorted = [...methodProfiles].sort((a, b) => {
+                let cmp = 0;
+                switch (column) {
+                    case 'name': cmp = a.methodName.localeCompare(b.methodName); break;
+                    case 'exclusive': cmp = a.exclusiveCount - b.exclusiveCount; break;
+                    case 'exclusiveTime': cmp = a.exclusiveTimeMs - b.exclusiveTimeMs; break;
+                    case 'inclusive': cmp = a.inclusiveCount - b.inclusiveCount; break;
+                    case 'inclusiveTime': cmp = a.inclusiveTimeMs - b.inclusiveTimeMs; break;
+                }
+                return descending ? -cmp : cmp;
+            });
+
+            const tbody = document.getElementById('methodsBody');
+            if (tbody) {
+                tbody.innerHTML = sorted.map((profile, index) => \`
+                    <tr class="method-row" data-index="\${index}">
+                        <td class="method-name\${profile.address ? ' source-link' : ''}"\${profile.address ? ' onclick="openSource(\\'' + profile.address + '\\')" title="Go to Source"' : ''}>\${escapeHtml(profile.methodName)}</td>
+                        <td class="count">\${profile.exclusiveCount.toLocaleString()}</td>
+                        <td class="time">\${formatTime(profile.exclusiveTimeMs)}</td>
+                        <td class="count">\${profile.inclusiveCount.toLocaleString()}</td>
+                        <td class="time">\${formatTime(profile.inclusiveTimeMs)}</td>
+                    </tr>
+                \`).join('');
+                filterMethodTable();
+            }
+        }
+
+        function renderHotMethods() {
+            const tbody = document.getElementById('hotMethodsBody');
+            if (!tbody) return;
+            tbody.innerHTML = methodProfiles.slice(0, 20).map(profile => \`
+                <tr>
+                    <td class="method-name\${profile.address ? ' source-link' : ''}"\${profile.address ? ' onclick="openSource(\\'' + profile.address + '\\')" title="Go to Source"' : ''}>\${escapeHtml(profile.methodName)}</td>
+                    <td class="count">\${profile.exclusiveCount.toLocaleString()}</td>
+                    <td class="count">\${profile.inclusiveCount.toLocaleString()}</td>
+                </tr>
+            \`).join('');
+        }
+
+        // Show the CPU and allocation views for another part of the trace, keeping the current tab, the
+        // tables' order and filters, and the flame graph's zoom where the zoomed frame is still there
+        function applySampleViews(views) {
+            allocations = views.allocations;
+            methodProfiles = views.methodProfiles;
+            typeStackDistribution = views.typeStackDistribution;
+            cpuFlameGraphData = views.cpuFlameGraphData;
+            allocFlameGraphData = views.allocFlameGraphData;
+            selectedTimeRange = views.timeRange;
+            selectedThreadIds = views.threadIds;
+
+            const banner = document.getElementById('sampleFilterBanner');
+            banner.style.display = views.filterDescription ? 'flex' : 'none';
+            document.getElementById('sampleFilterDescription').textContent = views.filterDescription || '';
+            document.getElementById('showWholeTrace').style.display = views.timeRange ? '' : 'none';
+            document.getElementById('showAllThreads').style.display = views.threadIds ? '' : 'none';
+
+            // The Threads tab checks the threads the views are limited to
+            const clearThreadFilter = document.getElementById('clearThreadFilter');
+            if (clearThreadFilter) {
+                clearThreadFilter.style.display = views.threadIds ? '' : 'none';
+                document.querySelectorAll('.thread-checkbox').forEach(checkbox => {
+                    checkbox.checked = views.threadIds !== null && views.threadIds.includes(checkbox.value);
+                });
+                updateThreadSelection();
+            }
+
+            const setText = (id, text) => {
+                const element = document.getElementById(id);
+                if (element) element.textContent = text;
+            };
+            setText('summaryAllocationCount', views.totalAllocations.toLocaleString());
+            setText('summaryAllocatedBytes', views.totalMemory);
+            setText('allocationTypeCount', views.allocations.length.toLocaleString());
+            setText('allocationCount', views.totalAllocations.toLocaleString());
+            setText('allocatedBytes', views.totalMemory);
+            setText('profiledMethodCount', views.methodCount.toLocaleString());
+            renderAllocationTable();
+            renderMethodTable();
+            renderHotMethods();
+
+            if (flameGraphFocusNode && currentFlameGraphMode !== 'contention' && flameGraphRequest === null) {
+                const data = currentFlameGraphMode === 'cpu' ? cpuFlameGraphData : allocFlameGraphData;
+                const candidates = data.filter(n => n.name === flameGraphFocusNode.name && n.depth === flameGraphFocusNode.depth);
+                const nearest = candidates.reduce((best, n) =>
+                    !best || Math.abs(n.x - flameGraphFocusNode.x) < Math.abs(best.x - flameGraphFocusNode.x) ? n : best, null);
+                flameGraphFocusNode = nearest ? { name: nearest.name, depth: nearest.depth, x: nearest.x } : null;
+            }
+            if (document.getElementById('tab-flamegraph').classList.contains('active')) {
+                renderFlameGraph();
+            } else if (document.getElementById('tab-timeline').classList.contains('active')) {
+                renderTimelineCharts();
+            }
+        }
+
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+        }
+
+        function formatBytes(bytes) {
+            const bigBytes = BigInt(bytes);
+            if (bigBytes === 0n) return '0 B';
+            const k = 1024n;
+            const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+            let i = 0;
+            let value = bigBytes;
+            while (value >= k && i < sizes.length - 1) { value = value / k; i++; }
+            if (i === 0) return bigBytes.toString() + ' B';
+            const divisor = k ** BigInt(i);
+            const wholePart = bigBytes / divisor;
+            const remainder = bigBytes % divisor;
+            const decimal = Number(remainder) / Number(divisor);
+            return (Number(wholePart) + decimal).toFixed(2) + ' ' + sizes[i];
+        }
+
+        function formatTime(ms) {
+            if (ms < 1) return '< 1 ms';
+            if (ms < 1000) return ms.toFixed(0) + ' ms';
+            if (ms < 60000) return (ms / 1000).toFixed(2) + ' s';
+            const minutes = Math.floor(ms / 60000);
+            const seconds = ((ms % 60000) / 1000).toFixed(1);
+            return minutes + 'm ' + seconds + 's';
+        }
+
+        function formatDuration(ms) {
+            return ms < 1000 ? ms.toFixed(2) + ' ms' : formatTime(ms);
+        }
+
+        // Flame graph rendering
+        let flameGraphFocusNode = null; // Current focused node for zoom
+        let flameClickTimeout = null;   // Pending single-click, cancelled by a double-click
+        let flameGraphRequest = null;   // Index in requestFlameGraphs of the request CPU samples are limited to
+        
+        function renderFlameGraph() {
+            const container = document.getElementById('flameGraph');
+            const requestGraph = currentFlameGraphMode === 'cpu' && flameGraphRequest !== null ? requestFlameGraphs[flameGraphRequest] : null;
+            const filter = document.getElementById('flameGraphFilter');
+            if (filter) {
+                filter.style.display = requestGraph ? '' : 'none';
+                document.getElementById('flameGraphFilterLabel').textContent = requestGraph ? 'CPU samples on the threads of ' + requestGraph.label : '';
+            }
+            let flameGraphData = requestGraph ? requestGraph.data
+                : currentFlameGraphMode === 'cpu' ? cpuFlameGraphData
+                : currentFlameGraphMode === 'allocation' ? allocFlameGraphData : contentionFlameGraphData;
+            if (!container) return;
+            if (flameGraphData.length === 0) {
+                // e.g. no samples in the selected part of the trace
+                container.innerHTML = '<div class="no-data"><p>No samples in the selected part of the trace.</p></div>';
+                return;
+            }
+
+            container.innerHTML = '';
+            const width = container.clientWidth || 800;
+            const rowHeight = 22;
+            const isAllocationMode = currentFlameGraphMode === 'allocation';
+            const isContentionMode = currentFlameGraphMode === 'contention';
+            
+            // Calculate totals from full data
+            const fullTotalSamples = flameGraphData.reduce((sum, d) => sum + d.samples, 0);
+            const fullTotalSize = flameGraphData.reduce((sum, d) => sum + (d.size || 0), 0);
+            
+            // If we have a focused node, filter and rescale the data
+            let viewData = flameGraphData;
+            let focusX = 0;
+            let focusWidth = 1;
+            let focusDepth = 0;
+            
+            if (flameGraphFocusNode) {
+                // Find the focused node
+                const focusedNode = flameGraphData.find(n => 
+                    n.name === flameGraphFocusNode.name && 
+                    n.depth === flameGraphFocusNode.depth &&
+                    Math.abs(n.x - flameGraphFocusNode.x) < 0.0001
+                );
+                
+                if (focusedNode) {
+                    focusX = focusedNode.x;
+                    focusWidth = focusedNode.width;
+                    focusDepth = focusedNode.depth;
+                    
+                    // Filter to nodes within or below the focused node
+                    viewData = flameGraphData.filter(n => {
+                        // Include nodes at same depth or deeper
+                        if (n.depth < focusDepth) return false;
+                        // Include nodes that overlap with the focused area
+                        const nodeEnd = n.x + n.width;
+                        const focusEnd = focusX + focusWidth;
+                        return n.x < focusEnd && nodeEnd > focusX;
+                    });
+                }
+            }
+            
+            // Calculate totals for percentage display (use focused node's samples if zoomed)
+            const totalSamples = flameGraphFocusNode ? 
+                (viewData.find(n => n.depth === focusDepth)?.samples || fullTotalSamples) : 
+                fullTotalSamples;
+            const totalSize = flameGraphFocusNode ?
+                (viewData.find(n => n.depth === focusDepth)?.size || fullTotalSize) :
+                fullTotalSize;
+            
+            // Group by depth and calculate positions
+            const maxDepth = Math.max(...viewData.map(d => d.depth));
+            const minDepth = flameGraphFocusNode ? focusDepth : 0;
+            const height = (maxDepth - minDepth + 1) * rowHeight + 20;
+            container.style.height = height + 'px';
+
+            // Color palette - use different colors for CPU vs Allocation
+            const cpuColors = [
+                '#f59e0b', '#ef4444', '#8b5cf6', '#3b82f6', '#10b981',
+                '#f97316', '#ec4899', '#6366f1', '#14b8a6', '#84cc16'
+            ];
+            const allocColors = [
+                '#10b981', '#14b8a6', '#0ea5e9', '#3b82f6', '#6366f1',
+                '#22c55e', '#06b6d4', '#0284c7', '#2563eb', '#4f46e5'
+            ];
+            const contentionColors = [
+                '#ef4444', '#dc2626', '#f43f5e', '#e11d48', '#a855f7',
+                '#c026d3', '#db2777', '#b91c1c', '#9333ea', '#be123c'
+            ];
+            const colors = isAllocationMode ? allocColors : isContentionMode ? contentionColors : cpuColors;
+
+            // Add reset button if zoomed
+            if (flameGraphFocusNode) {
+                const resetBtn = document.createElement('button');
+                resetBtn.className = 'flame-reset-btn';
+                resetBtn.textContent = '← Reset Zoom';
+                resetBtn.onclick = () => {
+                    flameGraphFocusNode = null;
+                    renderFlameGraph();
+                };
+                container.appendChild(resetBtn);
+            }
+
+            viewData.forEach((node, index) => {
+                const div = document.createElement('div');
+                div.className = 'flame-node';
+                
+                // Rescale position if zoomed
+                const scaledX = focusWidth > 0 ? (node.x - focusX) / focusWidth : node.x;
+                const scaledWidth = focusWidth > 0 ? node.width / focusWidth : node.width;
+                
+                div.style.left = (scaledX * width) + 'px';
+                div.style.width = Math.max(scaledWidth * width - 1, 1) + 'px';
+                div.style.top = ((maxDepth - node.depth) * rowHeight) + 'px';
+                div.style.backgroundColor = colors[Math.abs(hashCode(node.name)) % colors.length];
+                div.style.color = '#fff';
+                div.textContent = scaledWidth > 0.02 ? node.name : '';
+                div.title = node.name;
+
+                div.addEventListener('mouseenter', (e) => showTooltip(e, node, totalSamples, totalSize, currentFlameGraphMode));
+                div.addEventListener('mouseleave', scheduleHideTooltip);
+                div.addEventListener('mousemove', moveTooltip);
+                
+                // Click to open the source line; double-click to zoom
+                div.addEventListener('click', () => {
+                    if (!node.address) return;
+                    clearTimeout(flameClickTimeout);
+                    flameClickTimeout = setTimeout(() => openSource(node.address), 250);
+                });
+                div.addEventListener('dblclick', (e) => {
+                    e.preventDefault();
+                    clearTimeout(flameClickTimeout);
+                    hideTooltip();
+                    flameGraphFocusNode = { name: node.name, depth: node.depth, x: node.x };
+                    renderFlameGraph();
+                });
+
+                container.appendChild(div);
+            });
+        }
+
+        function hashCode(str) {
+            let hash = 0;
+            for (let i = 0; i < str.length; i++) {
+                hash = ((hash << 5) - hash) + str.charCodeAt(i);
+                hash |= 0;
+            }
+            return hash;
+        }
+
+        let currentTooltipNode = null;
+        let tooltipHideTimeout = null;
+
+        function showTooltip(e, node, totalSamples, totalSize, mode) {
+            // Cancel any pending hide
+            if (tooltipHideTimeout) {
+                clearTimeout(tooltipHideTimeout);
+                tooltipHideTimeout = null;
+            }
+            currentTooltipNode = node;
+            const tooltip = document.getElementById('flameTooltip');
+            const pct = ((node.samples / totalSamples) * 100).toFixed(2);
+            if (mode === 'contention') {
+                // Contention nodes carry the number of waits in samples and the time blocked (µs) in size
+                const blockedPct = totalSize > 0 ? ((node.size / totalSize) * 100).toFixed(2) : '0.00';
+                tooltip.innerHTML = \`
+                    <div class="method">\${escapeHtml(node.name)}</div>
+                    <div class="stats">\${formatDuration(node.size / 1000)} blocked (\${blockedPct}%)</div>
+                    <div class="stats">\${node.samples.toLocaleString()} waits</div>
+                    \${node.address ? '<button class="details-btn" onclick="openSource(currentTooltipNode.address)">Go to Source</button>' : ''}
+                \`;
+            } else if (mode === 'allocation' && node.size !== undefined) {
+                const sizePct = totalSize > 0 ? ((node.size / totalSize) * 100).toFixed(2) : '0.00';
+                const hasTypes = node.types && node.types.length > 0;
+                tooltip.innerHTML = \`
+                    <div class="method">\${escapeHtml(node.name)}</div>
+                    <div class="stats">\${node.samples.toLocaleString()} allocations (\${pct}%)</div>
+                    <div class="stats">\${formatBytes(node.size)} (\${sizePct}% of total)</div>
+                    \${hasTypes ? '<button class="details-btn" onclick="showTypeDetails(event)">View Type Distribution</button>' : ''}
+                    \${node.address ? '<button class="details-btn" onclick="openSource(currentTooltipNode.address)">Go to Source</button>' : ''}
+                \`;
+            } else {
+                tooltip.innerHTML = \`
+                    <div class="method">\${escapeHtml(node.name)}</div>
+                    <div class="stats">\${node.samples.toLocaleString()} samples (\${pct}%)</div>
+                    \${node.address ? '<button class="details-btn" onclick="openSource(currentTooltipNode.address)">Go to Source</button>' : ''}
+                \`;
+            }
+            tooltip.style.display = 'block';
+            // Position tooltip, but ensure it doesn't go off-screen
+            const tooltipRect = tooltip.getBoundingClientRect();
+            let left = e.clientX + 10;
+            let top = e.clientY + 10;
+            
+            // Adjust if tooltip would go off right edge
+            if (left + tooltipRect.width > window.innerWidth - 10) {
+                left = e.clientX - tooltipRect.width - 10;
+            }
+            // Adjust if tooltip would go off bottom
+            if (top + tooltipRect.height > window.innerHeight - 10) {
+                top = e.clientY - tooltipRect.height - 10;
+            }
+            
+            tooltip.style.left = left + 'px';
+            tooltip.style.top = top + 'px';
+        }
+
+        function moveTooltip(e) {
+            // Don't move while mouse is potentially heading to tooltip
+        }
+
+        function scheduleHideTooltip() {
+            // Give user time to move mouse to tooltip
+            tooltipHideTimeout = setTimeout(() => {
+                hideTooltip();
+            }, 150);
+        }
+
+        function hideTooltip() {
+            if (tooltipHideTimeout) {
+                clearTimeout(tooltipHideTimeout);
+                tooltipHideTimeout = null;
+            }
+            document.getElementById('flameTooltip').style.display = 'none';
+            currentTooltipNode = null;
+        }
+
+        // Keep tooltip visible when mouse is over it
+        document.getElementById('flameTooltip')?.addEventListener('mouseenter', () => {
+            if (tooltipHideTimeout) {
+                clearTimeout(tooltipHideTimeout);
+                tooltipHideTimeout = null;
+            }
+        });
+
+        document.getElementById('flameTooltip')?.addEventListener('mouseleave', () => {
+            hideTooltip();
+        });
+
+        function showTypeDetails(event) {
+            event.stopPropagation();
+            if (!currentTooltipNode || !currentTooltipNode.types) return;
+            
+            const node = currentTooltipNode;
+            const overlay = document.getElementById('typeModalOverlay');
+            const title = document.getElementById('typeModalTitle');
+            const content = document.getElementById('typeModalContent');
+            
+            title.textContent = 'Type Distribution: ' + node.name;
+            
+            // Calculate total for percentages
+            const totalSize = node.types.reduce((sum, t) => sum + t.size, 0);
+            const totalCount = node.types.reduce((sum, t) => sum + t.count, 0);
+            
+            let html = '';
+            for (const typeInfo of node.types) {
+                const sizePct = totalSize > 0 ? ((typeInfo.size / totalSize) * 100).toFixed(1) : '0.0';
+                const countPct = totalCount > 0 ? ((typeInfo.count / totalCount) * 100).toFixed(1) : '0.0';
+                html += \`
+                    <div class="type-item">
+                        <span class="type-name">\${escapeHtml(typeInfo.name)}</span>
+                        <span class="type-stats">\${typeInfo.count.toLocaleString()} (\${countPct}%) • \${formatBytes(typeInfo.size)} (\${sizePct}%)</span>
+                    </div>
+                \`;
+            }
+            
+            content.innerHTML = html;
+            overlay.classList.add('visible');
+            
+            // Hide the tooltip
+            document.getElementById('flameTooltip').style.display = 'none';
+        }
 
-            if (tabId === 'flamegraph') {
-                renderFlameGraph();
+        function closeTypeModal() {
+            document.getElementById('typeModalOverlay').classList.remove('visible');
+        }
+
+        // Close modal on overlay click
+        document.getElementById('typeModalOverlay')?.addEventListener('click', (e) => {
+            if (e.target.id === 'typeModalOverlay') {
+                closeTypeModal();
             }
+        });
+
+        // Events tab: rows are requested from the extension a page at a time as the list scrolls
+        const EVENT_ROW_HEIGHT = 24;
+        const EVENT_PAGE_OVERSCAN = 50;
+        // Browsers cap element heights, so very long lists scroll proportionally instead of per row
+        const MAX_EVENT_SCROLL_HEIGHT = 10000000;
+        let eventFilter = {};
+        let eventTotal = -1; // Unknown until the first page arrives
+        let eventPage = { start: 0, rows: [] };
+        let eventRequestId = 0;
+        let pendingEventPageStart = -1;
+        let selectedEventIndex = -1;
+
+        function onEventProviderChanged() {
+            const provider = document.getElementById('eventProviderFilter').value;
+            const nameFilter = document.getElementById('eventNameFilter');
+            const names = provider ? (eventCatalog[provider] || []) : [];
+            nameFilter.innerHTML = '<option value="">All events</option>' +
+                names.map(name => '<option value="' + escapeHtml(name) + '">' + escapeHtml(name) + '</option>').join('');
+            nameFilter.disabled = !provider;
+            onEventFilterChanged();
         }
 
-        function switchFlameGraphMode() {
-            const select = document.getElementById('flameGraphMode');
-            currentFlameGraphMode = select.value;
-            flameGraphFocusNode = null; // Reset zoom when switching modes
-            const subtitle = document.getElementById('flameGraphSubtitle');
-            if (subtitle) {
-                subtitle.textContent = currentFlameGraphMode === 'cpu' 
-                    ? 'Showing CPU samples. Hover for details. Double-click to zoom.'
-                    : 'Showing memory allocations. Hover for details. Double-click to zoom.';
+        function onEventFilterChanged() {
+            eventFilter = {
+                provider: document.getElementById('eventProviderFilter').value || undefined,
+                eventName: document.getElementById('eventNameFilter').value || undefined,
+                threadId: document.getElementById('eventThreadFilter').value || undefined
+            };
+            eventTotal = -1;
+            eventPage = { start: 0, rows: [] };
+            pendingEventPageStart = -1;
+            document.getElementById('eventViewport').scrollTop = 0;
+            renderEventWindow();
+        }
+
+        function requestEventPage(start, count) {
+            if (pendingEventPageStart === start) {
+                return;
             }
-            // Update help tooltip text
-            const helpText = document.getElementById('flameGraphHelpText');
-            if (helpText) {
-                helpText.textContent = currentFlameGraphMode === 'cpu'
-                    ? 'Visualizes where CPU time is spent across call stacks. Width represents time: wider bars indicate more CPU usage. Stacks grow upward—the bottom shows entry points, each layer above shows called methods. If an upper layer is narrower than its parent, the difference represents exclusive time spent in the parent method itself. Double-click a node to zoom in.'
-                    : 'Visualizes where memory is allocated across call stacks. Width represents allocation size: wider bars indicate more memory. Stacks grow upward—the bottom shows entry points, each layer above shows called methods. If an upper layer is narrower than its parent, the difference represents memory allocated directly by the parent method itself. Double-click a node to zoom in.';
+            pendingEventPageStart = start;
+            vscode.postMessage({ command: 'queryEvents', requestId: ++eventRequestId, filter: eventFilter, start, count });
+        }
+
+        function renderEventWindow() {
+            const viewport = document.getElementById('eventViewport');
+            if (!viewport || viewport.clientHeight === 0) {
+                return;
             }
-            renderFlameGraph();
+
+            // Map the scroll position onto the first visible event
+            const visibleRows = viewport.clientHeight / EVENT_ROW_HEIGHT;
+            const visibleCount = Math.ceil(visibleRows) + 1;
+            const maxScroll = viewport.scrollHeight - viewport.clientHeight;
+            const fraction = maxScroll > 0 ? Math.min(1, viewport.scrollTop / maxScroll) : 0;
+            const first = Math.floor(fraction * Math.max(0, eventTotal - visibleRows));
+
+            const pageEnd = eventPage.start + eventPage.rows.length;
+            if (eventTotal < 0 || first < eventPage.start || (first + visibleCount > pageEnd && pageEnd < eventTotal)) {
+                const start = Math.max(0, first - EVENT_PAGE_OVERSCAN);
+                requestEventPage(start, visibleCount + EVENT_PAGE_OVERSCAN * 2);
+            }
+
+            const rowsContainer = document.getElementById('eventRows');
+            rowsContainer.style.top = viewport.scrollTop + 'px';
+            const rows = eventPage.rows.slice(Math.max(0, first - eventPage.start), Math.max(0, first - eventPage.start + visibleCount));
+            rowsContainer.innerHTML = rows.map(row =>
+                '<div class="event-browser-row' + (row.index === selectedEventIndex ? ' selected' : '') + '" onclick="selectEvent(' + row.index + ')">' +
+                    '<span class="numeric">' + row.timeMs.toFixed(3) + '</span>' +
+                    '<span class="numeric">' + escapeHtml(row.threadId) + '</span>' +
+                    '<span title="' + escapeHtml(row.provider) + '">' + escapeHtml(row.provider) + '</span>' +
+                    '<span title="' + escapeHtml(row.eventName) + '">' + escapeHtml(row.eventName) + '</span>' +
+                    '<span class="numeric">' + row.opcode + '</span>' +
+                    '<span class="summary" title="' + escapeHtml(row.summary) + '">' + escapeHtml(row.summary) + '</span>' +
+                '</div>'
+            ).join('');
         }
 
-        function filterTable() {
-            const searchBox = document.getElementById('searchBox');
-            if (!searchBox) return;
-            const searchTerm = searchBox.value.toLowerCase();
-            const allocationRows = document.querySelectorAll('#allocationsBody .allocation-row');
-            
-            allocationRows.forEach((row) => {
-                const index = parseInt(row.dataset.index, 10);
-                if (allocations[index]) {
-                    const typeName = allocations[index].typeName.toLowerCase();
-                    const shouldHide = !typeName.includes(searchTerm);
-                    row.classList.toggle('hidden', shouldHide);
-                    // Also hide the corresponding stack distribution row
-                    const distRow = document.getElementById('stack-dist-' + index);
-                    if (distRow && shouldHide) {
-                        distRow.style.display = 'none';
-                        row.querySelector('.expand-btn')?.classList.remove('expanded');
-                    }
+        function onEventsPage(message) {
+            if (message.requestId !== eventRequestId) {
+                return; // Superseded by a newer request
+            }
+            pendingEventPageStart = -1;
+            eventTotal = message.total;
+            eventPage = { start: message.start, rows: message.rows };
+
+            document.getElementById('eventSpacer').style.height =
+                Math.min(eventTotal * EVENT_ROW_HEIGHT, MAX_EVENT_SCROLL_HEIGHT) + 'px';
+            const filtered = eventFilter.provider || eventFilter.eventName || eventFilter.threadId;
+            document.getElementById('eventsSubtitle').textContent = message.error ||
+                eventTotal.toLocaleString() + (filtered ? ' events match the current filter' : ' events');
+            renderEventWindow();
+        }
+
+        // Show one event in the Events tab: filters cleared, the event scrolled into view and selected
+        function revealEvent(index) {
+            switchTab('events');
+            const viewport = document.getElementById('eventViewport');
+            if (!viewport) return;
+            document.getElementById('eventProviderFilter').value = '';
+            document.getElementById('eventThreadFilter').value = '';
+            onEventProviderChanged();
+
+            // Unfiltered, the list holds every event in index order
+            eventTotal = totalEventCount;
+            document.getElementById('eventSpacer').style.height = Math.min(eventTotal * EVENT_ROW_HEIGHT, MAX_EVENT_SCROLL_HEIGHT) + 'px';
+            const visibleRows = viewport.clientHeight / EVENT_ROW_HEIGHT;
+            const first = Math.max(0, index - Math.floor(visibleRows / 2));
+            const maxScroll = viewport.scrollHeight - viewport.clientHeight;
+            viewport.scrollTop = maxScroll > 0 ? first / Math.max(1, eventTotal - visibleRows) * maxScroll : 0;
+            selectEvent(index);
+        }
+
+        // Logs tab: all entries are in the page, and only the rows in view are rendered
+        function filterLogs() {
+            const minLevel = Number(document.getElementById('logLevelFilter').value || 0);
+            const category = document.getElementById('logCategoryFilter').value;
+            const search = document.getElementById('logSearch').value.toLowerCase();
+            filteredLogs = logData.filter(log => log.level >= minLevel &&
+                (!category || log.category === category) &&
+                (!search || log.searchText.includes(search)));
+
+            document.getElementById('logsSubtitle').textContent = filteredLogs.length === logData.length
+                ? logData.length.toLocaleString() + ' entries'
+                : filteredLogs.length.toLocaleString() + ' of ' + logData.length.toLocaleString() + ' entries match the current filter';
+            document.getElementById('logSpacer').style.height = Math.min(filteredLogs.length * EVENT_ROW_HEIGHT, MAX_EVENT_SCROLL_HEIGHT) + 'px';
+            document.getElementById('logViewport').scrollTop = 0;
+            renderLogWindow();
+        }
+
+        function renderLogWindow() {
+            const viewport = document.getElementById('logViewport');
+            if (!viewport || viewport.clientHeight === 0) {
+                return;
+            }
+
+            const visibleRows = viewport.clientHeight / EVENT_ROW_HEIGHT;
+            const maxScroll = viewport.scrollHeight - viewport.clientHeight;
+            const fraction = maxScroll > 0 ? Math.min(1, viewport.scrollTop / maxScroll) : 0;
+            const first = Math.floor(fraction * Math.max(0, filteredLogs.length - visibleRows));
+
+            const rowsContainer = document.getElementById('logRows');
+            rowsContainer.style.top = viewport.scrollTop + 'px';
+            rowsContainer.innerHTML = filteredLogs.slice(first, first + Math.ceil(visibleRows) + 1).map(log => {
+                const details = [log.message];
+                if (log.exception) {
+                    details.push(log.exception);
                 }
-            });
+                for (const [name, value] of Object.entries(log.arguments || {})) {
+                    details.push(name + ' = ' + value);
+                }
+                details.push('Thread ' + log.threadId);
+                return '<div class="event-browser-row log-row" title="' + escapeHtml(details.join('\\n')) + '" onclick="revealEvent(' + log.eventIndex + ')">' +
+                    '<span class="numeric">' + log.timeMs.toFixed(3) + '</span>' +
+                    '<span class="log-level-' + log.level + '">' + escapeHtml(log.levelName) + '</span>' +
+                    '<span>' + escapeHtml(log.category) + '</span>' +
+                    '<span class="numeric">' + log.eventId + (log.eventName ? ' ' + escapeHtml(log.eventName) : '') + '</span>' +
+                    '<span class="summary">' + escapeHtml(log.message) + (log.exception ? ' <span class="log-exception">' + escapeHtml(log.exception) + '</span>' : '') + '</span>' +
+                '</div>';
+            }).join('');
         }
 
-        function sortTable(column) {
-            const descending = currentSort.column === column ? !currentSort.descending : true;
-            currentSort = { column, descending };
+        function selectEvent(index) {
+            selectedEventIndex = index;
+            renderEventWindow();
+            document.getElementById('eventDetails').innerHTML = '<div class="no-data">Loading…</div>';
+            vscode.postMessage({ command: 'getEventDetails', index });
+        }
 
-            document.querySelectorAll('#allocationsTable th').forEach(th => {
-                th.classList.remove('sorted-asc', 'sorted-desc');
-                if (th.dataset.column === column) {
-                    th.classList.add(descending ? 'sorted-desc' : 'sorted-asc');
+        function renderEventDetails(message) {
+            if (message.index !== selectedEventIndex) {
+                return;
+            }
+            const container = document.getElementById('eventDetails');
+            const details = message.details;
+            if (!details) {
+                container.innerHTML = '<div class="no-data">' + escapeHtml(message.error || 'Event not found.') + '</div>';
+                return;
+            }
+
+            const properties = [
+                ['Time', details.timeMs.toFixed(3) + ' ms'],
+                ['Thread', details.threadId],
+                ['Event ID', details.eventId],
+                ['Version', details.version],
+                ['Opcode', details.opcode],
+                ['Level', details.level],
+                ['Keywords', details.keywords],
+                ['Stack ID', details.stackId],
+                ['Payload Size', details.payloadSize + ' bytes']
+            ];
+            const propertyRows = properties.map(([name, value]) =>
+                '<tr><td class="info-label">' + name + '</td><td>' + escapeHtml(String(value)) + '</td></tr>').join('');
+            const fieldRows = details.fields.map(field =>
+                '<tr><td class="info-label">' + escapeHtml(field.name) + '</td><td>' + escapeHtml(field.value) + '</td></tr>').join('');
+
+            container.innerHTML =
+                '<h3>' + escapeHtml(details.provider) + ' / ' + escapeHtml(details.eventName) + '</h3>' +
+                '<table>' + propertyRows + '</table>' +
+                '<h4>Fields</h4>' +
+                (fieldRows ? '<table>' + fieldRows + '</table>' : '<div class="subtitle">No field metadata for this event.</div>') +
+                '<h4>Stack</h4>' +
+                (details.stack.length > 0
+                    ? '<pre>' + details.stack.map(frame => escapeHtml(frame)).join('\\n') + '</pre>'
+                    : '<div class="subtitle">No stack recorded for this event.</div>') +
+                '<h4>Payload</h4>' +
+                (details.hexDump ? '<pre>' + escapeHtml(details.hexDump) + '</pre>' : '<div class="subtitle">Empty payload.</div>');
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.command) {
+                case 'eventsPage':
+                    onEventsPage(message);
+                    break;
+                case 'eventDetails':
+                    renderEventDetails(message);
+                    break;
+                case 'sampleViews':
+                    applySampleViews(message.views);
+                    break;
+            }
+        });
+
+        window.addEventListener('resize', () => {
+            if (document.getElementById('tab-events').classList.contains('active')) {
+                renderEventWindow();
+            } else if (document.getElementById('tab-timeline').classList.contains('active')) {
+                renderTimelineCharts();
+            } else if (document.getElementById('tab-gc').classList.contains('active')) {
+                renderGCCharts();
+            } else if (document.getElementById('tab-exceptions').classList.contains('active')) {
+                renderExceptionChart();
+            } else if (document.getElementById('tab-threadpool').classList.contains('active')) {
+                renderThreadPoolCharts();
+            } else if (document.getElementById('tab-counters').classList.contains('active')) {
+                renderCounterCharts();
+            } else if (document.getElementById('tab-jit').classList.contains('active')) {
+                renderJitChart();
+            } else if (document.getElementById('tab-logs').classList.contains('active')) {
+                renderLogWindow();
+            } else if (document.getElementById('tab-requests').classList.contains('active')) {
+                renderRequestChart();
+            } else if (document.getElementById('tab-network').classList.contains('active')) {
+                renderNetworkChart();
+            } else if (document.getElementById('tab-database').classList.contains('active')) {
+                renderDatabaseCharts();
+            }
+        });
+
+        // Numbers each chart's clip path, so the ids stay unique when charts are redrawn
+        let timeChartCount = 0;
+
+        /**
+         * Draw a chart over trace time into a container. Each series is { color, kind, points } where points
+         * are { x: ms since trace start, y, label } and labels show as hover tooltips. Kinds: 'line', 'bar',
+         * 'points' (markers only) and 'step' (a level held until the next point, without markers). A series
+         * may be dashed, or use axis: 'secondary' to be scaled to its own maximum and labeled on the right.
+         *
+         * Options: height; range, the { start, end } ms shown instead of the whole trace; highlight, a
+         * { start, end } ms range shaded on the plot; formatSecondaryY; and onZoom(start, end), which lets a
+         * drag across the plot pick a range and a double-click reset it (with null bounds).
+         */
+        function renderTimeChart(container, series, formatY, options = {}) {
+            const width = container.clientWidth || 800;
+            const height = options.height || 160;
+            const hasSecondaryAxis = series.some(s => s.axis === 'secondary');
+            const margin = { left: 70, right: hasSecondaryAxis ? 70 : 15, top: 10, bottom: 22 };
+            const plotWidth = width - margin.left - margin.right;
+            const plotHeight = height - margin.top - margin.bottom;
+            const minX = options.range ? options.range.start : 0;
+            const maxX = options.range ? options.range.end : Math.max(traceDurationMs, ...series.flatMap(s => s.points.map(p => p.x))) || 1;
+            const inRange = p => p.x >= minX && p.x <= maxX;
+            const getMaxY = axisSeries => Math.max(0, ...axisSeries.flatMap(s => s.points.filter(inRange).map(p => p.y))) || 1;
+            const maxY = getMaxY(series.filter(s => s.axis !== 'secondary'));
+            const maxSecondaryY = getMaxY(series.filter(s => s.axis === 'secondary'));
+            const sx = x => margin.left + ((x - minX) / (maxX - minX || 1)) * plotWidth;
+            const scaleY = max => y => margin.top + plotHeight - (y / max) * plotHeight;
+            const sy = scaleY(maxY);
+            const svgNs = 'http://www.w3.org/2000/svg';
+
+            const svg = document.createElementNS(svgNs, 'svg');
+            svg.setAttribute('width', width);
+            svg.setAttribute('height', height);
+            const add = (tag, attrs, parent = svg) => {
+                const el = document.createElementNS(svgNs, tag);
+                for (const [key, value] of Object.entries(attrs)) el.setAttribute(key, value);
+                parent.appendChild(el);
+                return el;
+            };
+
+            [0, 0.5, 1].forEach(f => {
+                add('line', { x1: margin.left, x2: width - margin.right, y1: sy(maxY * f), y2: sy(maxY * f), class: 'grid-line' });
+                add('text', { x: margin.left - 6, y: sy(maxY * f) + 3, 'text-anchor': 'end', class: 'axis-label' }).textContent = formatY(maxY * f);
+                if (hasSecondaryAxis) {
+                    add('text', { x: width - margin.right + 6, y: sy(maxY * f) + 3, 'text-anchor': 'start', class: 'axis-label' })
+                        .textContent = (options.formatSecondaryY || formatY)(maxSecondaryY * f);
                 }
             });
+            [0, 0.25, 0.5, 0.75, 1].forEach(f => {
+                add('text', { x: margin.left + plotWidth * f, y: height - 6, 'text-anchor': f === 0 ? 'start' : f === 1 ? 'end' : 'middle', class: 'axis-label' })
+                    .textContent = ((minX + (maxX - minX) * f) / 1000).toFixed(2) + ' s';
+            });
 
-            const sorted = [...allocations].sort((a, b) => {
-                let cmp = 0;
-                switch (column) {
-                    case 'type': cmp = a.typeName.localeCompare(b.typeName); break;
-                    case 'count': cmp = a.count - b.count; break;
-                    case 'size': cmp = BigInt(a.totalSize) > BigInt(b.totalSize) ? 1 : BigInt(a.totalSize) < BigInt(b.totalSize) ? -1 : 0; break;
-                    case 'avg': cmp = BigInt(a.avgSize) > BigInt(b.avgSize) ? 1 : BigInt(a.avgSize) < BigInt(b.avgSize) ? -1 : 0; break;
+            // Lines leaving a zoomed range are cut at the plot's edges
+            const clipId = 'time-chart-clip-' + (timeChartCount++);
+            add('rect', { x: margin.left - 5, y: 0, width: plotWidth + 10, height }, add('clipPath', { id: clipId }, add('defs', {})));
+            const plot = add('g', { 'clip-path': 'url(#' + clipId + ')' });
+
+            for (const s of series) {
+                const ys = s.axis === 'secondary' ? scaleY(maxSecondaryY) : sy;
+                const stroke = { fill: 'none', stroke: s.color, 'stroke-width': 1.5, 'stroke-dasharray': s.dashed ? '5 3' : 'none' };
+                if (s.kind === 'line') {
+                    const path = s.points.map((p, i) => (i === 0 ? 'M' : 'L') + sx(p.x).toFixed(1) + ',' + ys(p.y).toFixed(1)).join(' ');
+                    add('path', { d: path, ...stroke }, plot);
+                } else if (s.kind === 'step' && s.points.length > 0) {
+                    const path = s.points.map((p, i) => i === 0
+                        ? 'M' + sx(p.x).toFixed(1) + ',' + ys(p.y).toFixed(1)
+                        : 'H' + sx(p.x).toFixed(1) + ' V' + ys(p.y).toFixed(1)).join(' ') + ' H' + sx(maxX).toFixed(1);
+                    add('path', { d: path, ...stroke }, plot);
+                    continue;
                 }
-                return descending ? -cmp : cmp;
-            });
+                for (const p of s.points.filter(inRange)) {
+                    const mark = s.kind === 'bar'
+                        ? add('rect', { x: sx(p.x) - 1, y: ys(p.y), width: 3, height: Math.max(plotHeight + margin.top - ys(p.y), 1), fill: s.color }, plot)
+                        : add('circle', { cx: sx(p.x), cy: ys(p.y), r: s.kind === 'points' ? 4 : 2.5, fill: s.color }, plot);
+                    add('title', {}, mark).textContent = p.label;
+                }
+            }
 
-            const tbody = document.getElementById('allocationsBody');
-            if (tbody) {
-                tbody.innerHTML = sorted.map((alloc, index) => \`
-                    <tr class="allocation-row" data-index="\${index}" data-type="\${escapeHtml(alloc.typeName)}">
-                        <td class="type-name">
-                            <span class="expand-btn" onclick="toggleStackDistribution(\${index}, event)">▶</span>
-                            \${escapeHtml(alloc.typeName)}
-                        </td>
-                        <td class="count">\${Number(alloc.count).toLocaleString()}</td>
-                        <td class="size">\${formatBytes(BigInt(alloc.totalSize))}</td>
-                        <td class="avg-size">\${formatBytes(BigInt(alloc.avgSize))}</td>
-                    </tr>
-                    <tr class="stack-distribution-row" id="stack-dist-\${index}" style="display: none;">
-                        <td colspan="4" class="stack-distribution-cell"></td>
-                    </tr>
-                \`).join('');
-                filterTable();
+            if (options.highlight) {
+                const x1 = sx(Math.max(options.highlight.start, minX));
+                const x2 = sx(Math.min(options.highlight.end, maxX));
+                if (x2 > x1) {
+                    add('rect', { x: x1, y: margin.top, width: x2 - x1, height: plotHeight, class: 'time-range-highlight' }, plot);
+                }
+            }
+
+            if (options.onZoom) {
+                const selection = add('rect', { x: 0, y: margin.top, width: 0, height: plotHeight, class: 'zoom-selection', visibility: 'hidden' });
+                const toMs = clientX => {
+                    const px = Math.min(Math.max(clientX - svg.getBoundingClientRect().left, margin.left), width - margin.right);
+                    return minX + (px - margin.left) / plotWidth * (maxX - minX);
+                };
+                let dragStart = null;
+                svg.addEventListener('mousedown', e => {
+                    dragStart = toMs(e.clientX);
+                    e.preventDefault();
+                });
+                svg.addEventListener('mousemove', e => {
+                    if (dragStart === null) return;
+                    const x1 = sx(dragStart), x2 = sx(toMs(e.clientX));
+                    selection.setAttribute('x', Math.min(x1, x2));
+                    selection.setAttribute('width', Math.abs(x2 - x1));
+                    selection.setAttribute('visibility', 'visible');
+                });
+                svg.addEventListener('mouseup', e => {
+                    if (dragStart === null) return;
+                    const start = dragStart, end = toMs(e.clientX);
+                    dragStart = null;
+                    selection.setAttribute('visibility', 'hidden');
+                    // Clicks and tiny drags don't zoom
+                    if (Math.abs(sx(end) - sx(start)) >= 5) {
+                        options.onZoom(Math.min(start, end), Math.max(start, end));
+                    }
+                });
+                svg.addEventListener('mouseleave', () => {
+                    dragStart = null;
+                    selection.setAttribute('visibility', 'hidden');
+                });
+                svg.addEventListener('dblclick', () => options.onZoom(null, null));
+                svg.classList.add('zoomable');
             }
+
+            container.innerHTML = '';
+            container.appendChild(svg);
         }
 
-        function toggleStackDistribution(index, event) {
-            event.stopPropagation();
-            const row = document.querySelector(\`.allocation-row[data-index="\${index}"]\`);
-            const distRow = document.getElementById('stack-dist-' + index);
-            const expandBtn = row?.querySelector('.expand-btn');
-            
-            if (!row || !distRow) return;
-            
-            const typeName = row.dataset.type;
-            const isExpanded = distRow.style.display !== 'none';
-            
-            if (isExpanded) {
-                distRow.style.display = 'none';
-                expandBtn?.classList.remove('expanded');
-            } else {
-                // Get stack distribution for this type
-                const stacks = typeStackDistribution[typeName] || [];
-                const cell = distRow.querySelector('.stack-distribution-cell');
-                
-                if (stacks.length === 0) {
-                    cell.innerHTML = '<div class="stack-distribution-content"><em>No stack data available for this type</em></div>';
-                } else {
-                    const totalSize = stacks.reduce((sum, s) => sum + s.size, 0);
-                    const totalCount = stacks.reduce((sum, s) => sum + s.count, 0);
-                    
-                    let html = '<div class="stack-distribution-content">';
-                    html += '<div style="margin-bottom: 8px; opacity: 0.7; font-size: 12px;">' + 
-                            stacks.length + ' unique stacks. Click a stack to expand all frames.</div>';
-                    
-                    stacks.forEach((stack, stackIndex) => {
-                        const sizePct = totalSize > 0 ? ((stack.size / totalSize) * 100).toFixed(1) : '0.0';
-                        const countPct = totalCount > 0 ? ((stack.count / totalCount) * 100).toFixed(1) : '0.0';
-                        const topFrame = stack.frames.length > 0 ? stack.frames[0] : '(unknown)';
-                        
-                        html += \`
-                            <div class="stack-dist-item" onclick="toggleStackFrames(\${index}, \${stackIndex}, event)">
-                                <span class="stack-preview">\${escapeHtml(topFrame)}</span>
-                                <span class="stack-dist-stats">
-                                    \${stack.count.toLocaleString()} (\${countPct}%) • 
-                                    \${formatBytes(stack.size)} (\${sizePct}%)
-                                </span>
-                            </div>
-                            <div class="stack-expanded-frames" id="stack-frames-\${index}-\${stackIndex}">
-                                \${stack.frames.map((frame, i) => 
-                                    '<div class="stack-frame' + (i === 0 ? ' top' : '') + '">' + escapeHtml(frame) + '</div>'
-                                ).join('')}
-                            </div>
-                        \`;
+        function renderJitChart() {
+            const chart = document.getElementById('jitChart');
+            if (!chart) return;
+
+            // One marker series per tier, with the JIT time spent so far on the right axis
+            const tiers = new Map();
+            for (const compilation of jitData) {
+                if (!tiers.has(compilation.tier)) {
+                    tiers.set(compilation.tier, { color: compilation.color, kind: 'points', points: [] });
+                }
+                tiers.get(compilation.tier).points.push({
+                    x: compilation.startTimeMs,
+                    y: compilation.durationMs,
+                    label: compilation.methodName + ' (' + compilation.tierName + '): ' + compilation.durationMs.toFixed(3) + ' ms at ' + compilation.startTimeMs.toFixed(1) + ' ms'
+                });
+            }
+            const endMs = compilation => compilation.startTimeMs + compilation.durationMs;
+            const total = [];
+            let totalMs = 0;
+            for (const compilation of [...jitData].sort((a, b) => endMs(a) - endMs(b))) {
+                totalMs += compilation.durationMs;
+                total.push({ x: endMs(compilation), y: totalMs });
+            }
+
+            const accentColor = getComputedStyle(document.body).getPropertyValue('--accent-color').trim() || '#3b82f6';
+            renderTimeChart(chart, [
+                { color: accentColor, kind: 'step', axis: 'secondary', points: total },
+                ...tiers.values()
+            ], y => y.toFixed(2) + ' ms', { formatSecondaryY: y => formatDuration(y) });
+        }
+
+        function renderRequestChart() {
+            const chart = document.getElementById('requestChart');
+            if (!chart) return;
+
+            // One marker series per status color
+            const statuses = new Map();
+            for (const request of requestData) {
+                if (!statuses.has(request.color)) {
+                    statuses.set(request.color, { color: request.color, kind: 'points', points: [] });
+                }
+                statuses.get(request.color).points.push({
+                    x: request.startTimeMs,
+                    y: request.durationMs,
+                    label: request.label + ' (' + request.status + '): ' + request.durationMs.toFixed(2) + ' ms at ' + request.startTimeMs.toFixed(1) + ' ms'
+                });
+            }
+            renderTimeChart(chart, [...statuses.values()], y => y.toFixed(2) + ' ms');
+        }
+
+        function renderNetworkChart() {
+            const chart = document.getElementById('networkChart');
+            if (!chart) return;
+
+            // One marker series per status color, and the time queued for a connection below the latency
+            const statuses = new Map();
+            const queued = { color: networkQueueColor, kind: 'points', points: [] };
+            for (const request of networkData) {
+                if (!statuses.has(request.color)) {
+                    statuses.set(request.color, { color: request.color, kind: 'points', points: [] });
+                }
+                statuses.get(request.color).points.push({
+                    x: request.startTimeMs,
+                    y: request.durationMs,
+                    label: request.label + ' (' + request.status + '): ' + request.durationMs.toFixed(2) + ' ms at ' + request.startTimeMs.toFixed(1) + ' ms'
+                });
+                if (request.queueTimeMs !== undefined) {
+                    queued.points.push({
+                        x: request.startTimeMs,
+                        y: request.queueTimeMs,
+                        label: request.label + ': queued ' + request.queueTimeMs.toFixed(2) + ' ms for a connection'
                     });
-                    
-                    html += '</div>';
-                    cell.innerHTML = html;
                 }
-                
-                distRow.style.display = 'table-row';
-                expandBtn?.classList.add('expanded');
             }
+            renderTimeChart(chart, [...statuses.values(), queued], y => y.toFixed(2) + ' ms');
+        }
+
+        function describeBucket(bucket, text) {
+            return text + ' at ' + (bucket.startMs / 1000).toFixed(2) + '-' + (bucket.endMs / 1000).toFixed(2) + ' s';
+        }
+
+        function renderTimelineCharts() {
+            const cpuChart = document.getElementById('timelineCpuChart');
+            if (!cpuChart) return;
+
+            // Every chart selects the part of the trace the CPU and allocation views are limited to
+            const options = { height: 120, highlight: selectedTimeRange, onZoom: selectTimeRange };
+            const accentColor = getComputedStyle(document.body).getPropertyValue('--accent-color').trim() || '#3b82f6';
+            renderTimeChart(cpuChart, [{
+                color: accentColor,
+                kind: 'bar',
+                points: timelineCpu.map(bucket => ({ x: bucket.startMs, y: bucket.count, label: describeBucket(bucket, bucket.count.toLocaleString() + ' CPU samples') }))
+            }], y => Math.round(y).toLocaleString(), options);
+            renderTimeChart(document.getElementById('timelineAllocationChart'), [{
+                color: '${ALLOCATION_COLOR}',
+                kind: 'bar',
+                points: timelineAllocations.map(bucket => ({ x: bucket.startMs, y: bucket.count, label: describeBucket(bucket, formatBytes(bucket.count) + ' allocated') }))
+            }], y => formatBytes(Math.round(y)), options);
+            renderTimeChart(document.getElementById('timelineGcChart'), [0, 1, 2].map(gen => ({
+                color: gcGenerationColors[gen],
+                kind: 'bar',
+                points: gcData.filter(gc => gc.generation === gen).map(gc => ({
+                    x: gc.startTimeMs,
+                    y: gc.pauseDurationMs,
+                    label: 'GC #' + gc.number + ' (gen' + gc.generation + ') at ' + gc.startTimeMs.toFixed(1) + ' ms: paused ' + gc.pauseDurationMs.toFixed(3) + ' ms'
+                }))
+            })), y => y.toFixed(2) + ' ms', options);
+            renderTimeChart(document.getElementById('timelineEventChart'), [{
+                color: '#94a3b8',
+                kind: 'bar',
+                points: timelineEvents.map(bucket => ({ x: bucket.startMs, y: bucket.count, label: describeBucket(bucket, bucket.count.toLocaleString() + ' events') }))
+            }], y => Math.round(y).toLocaleString(), options);
+        }
+
+        // The extension sends the views for the selected part of the trace; null bounds select all of it
+        function selectTimeRange(start, end) {
+            if (start === null && selectedTimeRange === null) return;
+            vscode.postMessage({ command: 'setTimeRange', range: start === null ? null : { startMs: start, endMs: end } });
+        }
+
+        function updateThreadSelection() {
+            const checkboxes = Array.from(document.querySelectorAll('.thread-checkbox'));
+            checkboxes.forEach(checkbox => checkbox.closest('tr').classList.toggle('selected', checkbox.checked));
+            const checked = checkboxes.filter(checkbox => checkbox.checked).map(checkbox => checkbox.value);
+            const button = document.getElementById('applyThreadFilter');
+            const unchanged = selectedThreadIds !== null && checked.length === selectedThreadIds.length &&
+                checked.every(threadId => selectedThreadIds.includes(threadId));
+            button.disabled = checked.length === 0 || unchanged;
+            button.textContent = checked.length > 0
+                ? 'Filter to ' + checked.length.toLocaleString() + ' Thread' + (checked.length === 1 ? '' : 's')
+                : 'Filter to Selected Threads';
+        }
+
+        function applyThreadFilter() {
+            selectThreads(Array.from(document.querySelectorAll('.thread-checkbox:checked')).map(checkbox => checkbox.value));
+        }
+
+        // The extension sends the views for the given threads; null selects every thread
+        function selectThreads(threadIds) {
+            if (threadIds === null && selectedThreadIds === null) return;
+            vscode.postMessage({ command: 'setThreadFilter', threadIds });
+        }
+
+        function renderDatabaseCharts() {
+            const chart = document.getElementById('databaseChart');
+            if (!chart) return;
+
+            const results = new Map();
+            for (const command of databaseData) {
+                if (!results.has(command.color)) {
+                    results.set(command.color, { color: command.color, kind: 'points', points: [] });
+                }
+                results.get(command.color).points.push({
+                    x: command.startTimeMs,
+                    y: command.durationMs,
+                    label: command.label + ': ' + command.durationMs.toFixed(2) + ' ms at ' + command.startTimeMs.toFixed(1) + ' ms'
+                });
+            }
+            renderTimeChart(chart, [...results.values()], y => y.toFixed(2) + ' ms');
+
+            renderTimeChart(document.getElementById('databaseActivityChart'), [
+                {
+                    color: '${CPU_SAMPLE_COLOR}',
+                    kind: 'bar',
+                    points: databaseCpuTimeline.map(bucket => ({ x: bucket.startMs, y: bucket.count, label: describeBucket(bucket, bucket.count.toLocaleString() + ' CPU samples') }))
+                },
+                {
+                    color: '${ALLOCATION_COLOR}',
+                    kind: 'step',
+                    axis: 'secondary',
+                    points: databaseAllocationTimeline.map(bucket => ({ x: bucket.startMs, y: bucket.count, label: describeBucket(bucket, formatBytes(bucket.count) + ' allocated') }))
+                }
+            ], y => Math.round(y).toLocaleString(), { height: 120, formatSecondaryY: y => formatBytes(Math.round(y)) });
         }
 
-        function toggleStackFrames(typeIndex, stackIndex, event) {
-            event.stopPropagation();
-            const framesDiv = document.getElementById('stack-frames-' + typeIndex + '-' + stackIndex);
-            if (framesDiv) {
-                framesDiv.classList.toggle('visible');
+        // Limit the CPU flame graph to the samples taken on a slow request's threads while it ran
+        function showRequestFlameGraph(index) {
+            const select = document.getElementById('flameGraphMode');
+            if (select && select.value !== 'cpu') {
+                select.value = 'cpu';
+                switchFlameGraphMode();
             }
+            flameGraphRequest = index;
+            flameGraphFocusNode = null;
+            switchTab('flamegraph');
         }
 
-        function filterMethodTable() {
-            const searchBox = document.getElementById('methodSearchBox');
-            if (!searchBox) return;
-            const searchTerm = searchBox.value.toLowerCase();
-            const rows = document.querySelectorAll('#methodsBody tr');
-            
-            rows.forEach((row, index) => {
-                if (methodProfiles[index]) {
-                    const methodName = methodProfiles[index].methodName.toLowerCase();
-                    row.classList.toggle('hidden', !methodName.includes(searchTerm));
-                }
-            });
+        function clearFlameGraphRequest() {
+            flameGraphRequest = null;
+            flameGraphFocusNode = null;
+            renderFlameGraph();
         }
 
-        function sortMethodTable(column) {
-            const descending = currentMethodSort.column === column ? !currentMethodSort.descending : true;
-            currentMethodSort = { column, descending };
+        function formatCounterValue(value, units) {
+            const text = value.toLocaleString(undefined, Math.abs(value) < 1 ? { maximumSignificantDigits: 3 } : { maximumFractionDigits: 2 });
+            return !units ? text : units === '%' ? text + '%' : text + ' ' + units;
+        }
 
-            document.querySelectorAll('#methodsTable th').forEach(th => {
-                th.classList.remove('sorted-asc', 'sorted-desc');
-                if (th.dataset.column === column) {
-                    th.classList.add(descending ? 'sorted-desc' : 'sorted-asc');
+        function renderCounterCharts() {
+            if (countersData.length === 0) return;
+
+            const accentColor = getComputedStyle(document.body).getPropertyValue('--accent-color').trim() || '#3b82f6';
+            const range = counterZoom || { start: 0, end: traceDurationMs };
+            const toPoints = counter => counter.samples.map(sample => ({
+                x: sample.timeMs,
+                y: sample.value,
+                label: counter.displayName + ': ' + formatCounterValue(sample.value, counter.displayUnits) +
+                    (sample.min !== undefined ? ' (min ' + formatCounterValue(sample.min, counter.displayUnits) + ', max ' + formatCounterValue(sample.max, counter.displayUnits) + ')' : '') +
+                    ' at ' + (sample.timeMs / 1000).toFixed(2) + ' s'
+            }));
+
+            countersData.forEach((counter, index) => {
+                const chart = document.getElementById('counterChart-' + index);
+                if (!chart) return;
+                const compared = countersData[counterComparisons.get(index)];
+                const series = [{ color: accentColor, kind: 'line', points: toPoints(counter) }];
+                if (compared) {
+                    series.push({ color: counterComparisonColor, kind: 'line', dashed: true, axis: 'secondary', points: toPoints(compared) });
                 }
-            });
+                renderTimeChart(chart, series, y => formatCounterValue(y, counter.displayUnits), {
+                    height: 140,
+                    range,
+                    onZoom: zoomCounters,
+                    formatSecondaryY: compared ? y => formatCounterValue(y, compared.displayUnits) : undefined
+                });
 
-            const sorted = [...methodProfiles].sort((a, b) => {
-                let cmp = 0;
-                switch (column) {
-                    case 'name': cmp = a.methodName.localeCompare(b.methodName); break;
-                    case 'exclusive': cmp = a.exclusiveCount - b.exclusiveCount; break;
-                    case 'exclusiveTime': cmp = a.exclusiveTimeMs - b.exclusiveTimeMs; break;
-                    case 'inclusive': cmp = a.inclusiveCount - b.inclusiveCount; break;
-                    case 'inclusiveTime': cmp = a.inclusiveTimeMs - b.inclusiveTimeMs; break;
+                // Statistics over the samples in view
+                const values = counter.samples.filter(s => s.timeMs >= range.start && s.timeMs <= range.end).map(s => s.value);
+                const format = value => formatCounterValue(value, counter.displayUnits);
+                let stats = values.length === 0 ? 'No samples in this range' :
+                    'Min ' + format(Math.min(...values)) + ' · Avg ' + format(values.reduce((sum, v) => sum + v, 0) / values.length) +
+                    ' · Max ' + format(Math.max(...values)) + ' · Last ' + format(values[values.length - 1]);
+                if (compared) {
+                    stats += ' · Dashed: ' + compared.displayName;
                 }
-                return descending ? -cmp : cmp;
+                document.getElementById('counterStats-' + index).textContent = stats;
             });
 
-            const tbody = document.getElementById('methodsBody');
-            if (tbody) {
-                tbody.innerHTML = sorted.map((profile, index) => \`
-                    <tr class="method-row" data-index="\${index}">
-                        <td class="method-name">\${escapeHtml(profile.methodName)}</td>
-                        <td class="count">\${profile.exclusiveCount.toLocaleString()}</td>
-                        <td class="time">\${formatTime(profile.exclusiveTimeMs)}</td>
-                        <td class="count">\${profile.inclusiveCount.toLocaleString()}</td>
-                        <td class="time">\${formatTime(profile.inclusiveTimeMs)}</td>
-                    </tr>
-                \`).join('');
-                filterMethodTable();
-            }
+            document.getElementById('counterZoomLabel').textContent = counterZoom
+                ? 'Showing ' + (counterZoom.start / 1000).toFixed(2) + ' s to ' + (counterZoom.end / 1000).toFixed(2) + ' s'
+                : 'Drag across a chart to zoom';
+            document.getElementById('counterZoomReset').disabled = !counterZoom;
         }
 
-        function escapeHtml(text) {
-            const div = document.createElement('div');
-            div.textContent = text;
-            return div.innerHTML;
+        function zoomCounters(start, end) {
+            counterZoom = start === null ? null : { start, end };
+            renderCounterCharts();
         }
 
-        function formatBytes(bytes) {
-            const bigBytes = BigInt(bytes);
-            if (bigBytes === 0n) return '0 B';
-            const k = 1024n;
-            const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-            let i = 0;
-            let value = bigBytes;
-            while (value >= k && i < sizes.length - 1) { value = value / k; i++; }
-            if (i === 0) return bigBytes.toString() + ' B';
-            const divisor = k ** BigInt(i);
-            const wholePart = bigBytes / divisor;
-            const remainder = bigBytes % divisor;
-            const decimal = Number(remainder) / Number(divisor);
-            return (Number(wholePart) + decimal).toFixed(2) + ' ' + sizes[i];
+        function setCounterComparison(index, value) {
+            if (value === '') {
+                counterComparisons.delete(index);
+            } else {
+                counterComparisons.set(index, Number(value));
+            }
+            renderCounterCharts();
         }
 
-        function formatTime(ms) {
-            if (ms < 1) return '< 1 ms';
-            if (ms < 1000) return ms.toFixed(0) + ' ms';
-            if (ms < 60000) return (ms / 1000).toFixed(2) + ' s';
-            const minutes = Math.floor(ms / 60000);
-            const seconds = ((ms % 60000) / 1000).toFixed(1);
-            return minutes + 'm ' + seconds + 's';
+        function renderGCCharts() {
+            const pauseChart = document.getElementById('gcPauseChart');
+            const heapChart = document.getElementById('gcHeapChart');
+            if (!pauseChart || !heapChart) return;
+
+            const describe = gc => 'GC #' + gc.number + ' (gen' + gc.generation + ', ' + gc.type + ', ' + gc.reason + ') at ' + gc.startTimeMs.toFixed(1) + ' ms';
+            renderTimeChart(pauseChart, [0, 1, 2].map(gen => ({
+                color: gcGenerationColors[gen],
+                kind: 'bar',
+                points: gcData.filter(gc => gc.generation === gen).map(gc => ({
+                    x: gc.startTimeMs,
+                    y: gc.pauseDurationMs,
+                    label: describe(gc) + ': paused ' + gc.pauseDurationMs.toFixed(3) + ' ms'
+                }))
+            })), y => y.toFixed(2) + ' ms');
+
+            // Sawtooth of the heap growing until each GC and dropping to its size after
+            const heapPoints = [];
+            for (const gc of gcData) {
+                if (gc.heapSizeBefore !== undefined) {
+                    heapPoints.push({ x: gc.startTimeMs, y: gc.heapSizeBefore, label: describe(gc) + ': ~' + formatBytes(gc.heapSizeBefore) + ' before' });
+                }
+                if (gc.heapSizeAfter !== undefined) {
+                    heapPoints.push({ x: gc.startTimeMs + gc.durationMs, y: gc.heapSizeAfter, label: describe(gc) + ': ' + formatBytes(gc.heapSizeAfter) + ' after' });
+                }
+            }
+            const accentColor = getComputedStyle(document.body).getPropertyValue('--accent-color').trim() || '#3b82f6';
+            renderTimeChart(heapChart, [{ color: accentColor, kind: 'line', points: heapPoints }], y => formatBytes(Math.round(y)));
         }
 
-        // Flame graph rendering
-        let flameGraphFocusNode = null; // Current focused node for zoom
-        
-        function renderFlameGraph() {
-            const container = document.getElementById('flameGraph');
-            let flameGraphData = currentFlameGraphMode === 'cpu' ? cpuFlameGraphData : allocFlameGraphData;
-            if (!container || flameGraphData.length === 0) return;
+        function renderThreadPoolCharts() {
+            const threadChart = document.getElementById('threadPoolThreadChart');
+            if (!threadChart || !threadPoolData) return;
 
-            container.innerHTML = '';
-            const width = container.clientWidth || 800;
-            const rowHeight = 22;
-            const isAllocationMode = currentFlameGraphMode === 'allocation';
-            
-            // Calculate totals from full data
-            const fullTotalSamples = flameGraphData.reduce((sum, d) => sum + d.samples, 0);
-            const fullTotalSize = flameGraphData.reduce((sum, d) => sum + (d.size || 0), 0);
-            
-            // If we have a focused node, filter and rescale the data
-            let viewData = flameGraphData;
-            let focusX = 0;
-            let focusWidth = 1;
-            let focusDepth = 0;
-            
-            if (flameGraphFocusNode) {
-                // Find the focused node
-                const focusedNode = flameGraphData.find(n => 
-                    n.name === flameGraphFocusNode.name && 
-                    n.depth === flameGraphFocusNode.depth &&
-                    Math.abs(n.x - flameGraphFocusNode.x) < 0.0001
-                );
-                
-                if (focusedNode) {
-                    focusX = focusedNode.x;
-                    focusWidth = focusedNode.width;
-                    focusDepth = focusedNode.depth;
-                    
-                    // Filter to nodes within or below the focused node
-                    viewData = flameGraphData.filter(n => {
-                        // Include nodes at same depth or deeper
-                        if (n.depth < focusDepth) return false;
-                        // Include nodes that overlap with the focused area
-                        const nodeEnd = n.x + n.width;
-                        const focusEnd = focusX + focusWidth;
-                        return n.x < focusEnd && nodeEnd > focusX;
-                    });
+            const accentColor = getComputedStyle(document.body).getPropertyValue('--accent-color').trim() || '#3b82f6';
+            const toPoints = samples => samples.map(sample => ({ x: sample.timeMs, y: sample.value }));
+            const series = [
+                { color: accentColor, kind: 'step', points: toPoints(threadPoolData.workerThreads) },
+                { color: threadPoolColors.working, kind: 'step', points: toPoints(threadPoolData.workingThreads) },
+                { color: threadPoolColors.io, kind: 'step', points: toPoints(threadPoolData.ioThreads) }
+            ];
+            // One marker series per adjustment reason, so each keeps its legend color
+            const reasons = new Map();
+            for (const adjustment of threadPoolData.adjustments) {
+                if (!reasons.has(adjustment.reason)) {
+                    reasons.set(adjustment.reason, { color: adjustment.color, kind: 'points', points: [] });
                 }
+                reasons.get(adjustment.reason).points.push({
+                    x: adjustment.timeMs,
+                    y: adjustment.newWorkerThreadCount,
+                    label: adjustment.reasonName + ' at ' + adjustment.timeMs.toFixed(1) + ' ms: ' + adjustment.newWorkerThreadCount +
+                        ' worker threads (throughput ' + adjustment.averageThroughput.toFixed(2) + ' items/s)'
+                });
             }
-            
-            // Calculate totals for percentage display (use focused node's samples if zoomed)
-            const totalSamples = flameGraphFocusNode ? 
-                (viewData.find(n => n.depth === focusDepth)?.samples || fullTotalSamples) : 
-                fullTotalSamples;
-            const totalSize = flameGraphFocusNode ?
-                (viewData.find(n => n.depth === focusDepth)?.size || fullTotalSize) :
-                fullTotalSize;
-            
-            // Group by depth and calculate positions
-            const maxDepth = Math.max(...viewData.map(d => d.depth));
-            const minDepth = flameGraphFocusNode ? focusDepth : 0;
-            const height = (maxDepth - minDepth + 1) * rowHeight + 20;
-            container.style.height = height + 'px';
-
-            // Color palette - use different colors for CPU vs Allocation
-            const cpuColors = [
-                '#f59e0b', '#ef4444', '#8b5cf6', '#3b82f6', '#10b981',
-                '#f97316', '#ec4899', '#6366f1', '#14b8a6', '#84cc16'
-            ];
-            const allocColors = [
-                '#10b981', '#14b8a6', '#0ea5e9', '#3b82f6', '#6366f1',
-                '#22c55e', '#06b6d4', '#0284c7', '#2563eb', '#4f46e5'
-            ];
-            const colors = isAllocationMode ? allocColors : cpuColors;
-
-            // Add reset button if zoomed
-            if (flameGraphFocusNode) {
-                const resetBtn = document.createElement('button');
-                resetBtn.className = 'flame-reset-btn';
-                resetBtn.textContent = '← Reset Zoom';
-                resetBtn.onclick = () => {
-                    flameGraphFocusNode = null;
-                    renderFlameGraph();
-                };
-                container.appendChild(resetBtn);
+            renderTimeChart(threadChart, [...series, ...reasons.values()], y => Math.round(y).toLocaleString());
+
+            const throughputChart = document.getElementById('threadPoolThroughputChart');
+            if (throughputChart) {
+                renderTimeChart(throughputChart, [{
+                    color: accentColor,
+                    kind: 'line',
+                    points: threadPoolData.throughput.map(sample => ({
+                        x: sample.timeMs,
+                        y: sample.value,
+                        label: sample.value.toFixed(2) + ' items/s at ' + sample.timeMs.toFixed(1) + ' ms'
+                    }))
+                }], y => y.toFixed(1));
             }
+        }
 
-            viewData.forEach((node, index) => {
-                const div = document.createElement('div');
-                div.className = 'flame-node';
-                
-                // Rescale position if zoomed
-                const scaledX = focusWidth > 0 ? (node.x - focusX) / focusWidth : node.x;
-                const scaledWidth = focusWidth > 0 ? node.width / focusWidth : node.width;
-                
-                div.style.left = (scaledX * width) + 'px';
-                div.style.width = Math.max(scaledWidth * width - 1, 1) + 'px';
-                div.style.top = ((maxDepth - node.depth) * rowHeight) + 'px';
-                div.style.backgroundColor = colors[Math.abs(hashCode(node.name)) % colors.length];
-                div.style.color = '#fff';
-                div.textContent = scaledWidth > 0.02 ? node.name : '';
-                div.title = node.name;
-
-                div.addEventListener('mouseenter', (e) => showTooltip(e, node, totalSamples, totalSize, isAllocationMode));
-                div.addEventListener('mouseleave', scheduleHideTooltip);
-                div.addEventListener('mousemove', moveTooltip);
-                
-                // Double-click to zoom
-                div.addEventListener('dblclick', (e) => {
-                    e.preventDefault();
-                    hideTooltip();
-                    flameGraphFocusNode = { name: node.name, depth: node.depth, x: node.x };
-                    renderFlameGraph();
-                });
+        function renderExceptionChart() {
+            const chart = document.getElementById('exceptionChart');
+            if (!chart) return;
+            renderTimeChart(chart, [{
+                color: '#ef4444',
+                kind: 'bar',
+                points: exceptionTimeline.map(bucket => ({
+                    x: bucket.startMs,
+                    y: bucket.count,
+                    label: bucket.count.toLocaleString() + ' thrown at ' + (bucket.startMs / 1000).toFixed(2) + '-' + (bucket.endMs / 1000).toFixed(2) + ' s'
+                }))
+            }], y => Math.round(y).toLocaleString());
+        }
 
-                container.appendChild(div);
+        function filterExceptionTable() {
+            const searchTerm = document.getElementById('exceptionSearchBox').value.toLowerCase();
+            exceptionData.forEach((group, index) => {
+                const row = document.querySelector('.exception-row[data-index="' + index + '"]');
+                const matches = (group.typeName + '\\n' + group.message).toLowerCase().includes(searchTerm);
+                row?.classList.toggle('hidden', !matches);
+                if (!matches) {
+                    document.getElementById('exception-details-' + index).style.display = 'none';
+                    row?.querySelector('.expand-btn')?.classList.remove('expanded');
+                }
             });
         }
 
-        function hashCode(str) {
-            let hash = 0;
-            for (let i = 0; i < str.length; i++) {
-                hash = ((hash << 5) - hash) + str.charCodeAt(i);
-                hash |= 0;
-            }
-            return hash;
-        }
+        function toggleExceptionDetails(index, event) {
+            event.stopPropagation();
+            const row = document.querySelector('.exception-row[data-index="' + index + '"]');
+            const detailsRow = document.getElementById('exception-details-' + index);
+            const expandBtn = row?.querySelector('.expand-btn');
+            if (!row || !detailsRow) return;
 
-        let currentTooltipNode = null;
-        let tooltipHideTimeout = null;
+            if (detailsRow.style.display !== 'none') {
+                detailsRow.style.display = 'none';
+                expandBtn?.classList.remove('expanded');
+                return;
+            }
 
-        function showTooltip(e, node, totalSamples, totalSize, isAllocationMode) {
-            // Cancel any pending hide
-            if (tooltipHideTimeout) {
-                clearTimeout(tooltipHideTimeout);
-                tooltipHideTimeout = null;
+            const group = exceptionData[index];
+            let html = '<div class="stack-distribution-content">';
+            if (group.message) {
+                html += '<div class="exception-full-message">' + escapeHtml(group.message) + '</div>';
             }
-            currentTooltipNode = node;
-            const tooltip = document.getElementById('flameTooltip');
-            const pct = ((node.samples / totalSamples) * 100).toFixed(2);
-            if (isAllocationMode && node.size !== undefined) {
-                const sizePct = totalSize > 0 ? ((node.size / totalSize) * 100).toFixed(2) : '0.00';
-                const hasTypes = node.types && node.types.length > 0;
-                tooltip.innerHTML = \`
-                    <div class="method">\${escapeHtml(node.name)}</div>
-                    <div class="stats">\${node.samples.toLocaleString()} allocations (\${pct}%)</div>
-                    <div class="stats">\${formatBytes(node.size)} (\${sizePct}% of total)</div>
-                    \${hasTypes ? '<button class="details-btn" onclick="showTypeDetails(event)">View Type Distribution</button>' : ''}
-                \`;
-            } else {
-                tooltip.innerHTML = \`
-                    <div class="method">\${escapeHtml(node.name)}</div>
-                    <div class="stats">\${node.samples.toLocaleString()} samples (\${pct}%)</div>
-                \`;
+            if (group.hresult !== undefined) {
+                html += '<div style="margin-bottom: 8px; opacity: 0.7; font-size: 12px;">HRESULT 0x' + (group.hresult >>> 0).toString(16).padStart(8, '0') + '</div>';
             }
-            tooltip.style.display = 'block';
-            // Position tooltip, but ensure it doesn't go off-screen
-            const tooltipRect = tooltip.getBoundingClientRect();
-            let left = e.clientX + 10;
-            let top = e.clientY + 10;
-            
-            // Adjust if tooltip would go off right edge
-            if (left + tooltipRect.width > window.innerWidth - 10) {
-                left = e.clientX - tooltipRect.width - 10;
+            html += renderCountList('Threads', group.threads, group.count);
+            html += renderCountList('Caught In', group.catchMethods, group.count);
+            if (group.catchMethods.length === 0) {
+                html += '<div style="margin: 8px 0; opacity: 0.7; font-size: 12px;">No catch block was recorded for this exception: it was unhandled, or the trace ended during its dispatch.</div>';
             }
-            // Adjust if tooltip would go off bottom
-            if (top + tooltipRect.height > window.innerHeight - 10) {
-                top = e.clientY - tooltipRect.height - 10;
+            html += renderCountList('Filters Evaluated', group.filterMethods, group.count);
+            html += renderCountList('Finally Blocks Run', group.finallyMethods, group.count);
+            if (group.filterMethods.length > 0 || group.finallyMethods.length > 0) {
+                html += '<div style="margin: 8px 0; opacity: 0.7; font-size: 12px;">' + formatDuration(group.handlerTimeMs) + ' spent in filters and finally blocks while dispatching</div>';
+            }
+
+            html += '<h4>Throw Stacks</h4>';
+            html += group.stacks.length === 0
+                ? '<em>No stack data available for this exception</em>'
+                : renderStackList('exception-' + index, group.stacks, stack => stack.count.toLocaleString() + ' (' + (stack.count / group.count * 100).toFixed(1) + '%)');
+            html += '</div>';
+
+            detailsRow.querySelector('.stack-distribution-cell').innerHTML = html;
+            detailsRow.style.display = 'table-row';
+            expandBtn?.classList.add('expanded');
+        }
+
+        function renderContentionTable() {
+            const body = document.getElementById('contentionBody');
+            if (!body) return;
+            body.innerHTML = contentionData.map((site, index) => \`
+                <tr class="contention-row" data-index="\${index}">
+                    <td class="method-name">
+                        <span class="expand-btn" onclick="toggleContentionDetails(\${index}, event)">▶</span>
+                        <span class="\${site.address ? 'source-link' : ''}"\${site.address ? ' title="Go to Source" onclick="openSource(\\'' + site.address + '\\')"' : ''}>\${escapeHtml(site.name)}</span>
+                    </td>
+                    <td class="numeric">\${site.count.toLocaleString()}</td>
+                    <td class="numeric">\${formatDuration(site.totalWaitMs)}</td>
+                    <td class="numeric">\${formatDuration(site.maxWaitMs)}</td>
+                    <td class="numeric">\${formatDuration(site.totalWaitMs / site.count)}</td>
+                    <td class="numeric">\${site.lockCount > 0 ? site.lockCount.toLocaleString() : '-'}</td>
+                    <td class="numeric">\${site.threads.length.toLocaleString()}</td>
+                </tr>
+                <tr class="stack-distribution-row" id="contention-details-\${index}" style="display: none;">
+                    <td colspan="7" class="stack-distribution-cell"></td>
+                </tr>
+            \`).join('');
+        }
+
+        function sortContentionTable(column) {
+            const descending = currentContentionSort.column === column ? !currentContentionSort.descending : column !== 'name';
+            currentContentionSort = { column, descending };
+
+            document.querySelectorAll('#contentionTable th').forEach(th => {
+                th.classList.remove('sorted-asc', 'sorted-desc');
+                if (th.dataset.column === column) {
+                    th.classList.add(descending ? 'sorted-desc' : 'sorted-asc');
+                }
+            });
+
+            const value = site => column === 'avgWaitMs' ? site.totalWaitMs / site.count
+                : column === 'threadCount' ? site.threads.length : site[column];
+            contentionData.sort((a, b) => {
+                const order = column === 'name' ? a.name.localeCompare(b.name) : value(a) - value(b);
+                return descending ? -order : order;
+            });
+            renderContentionTable();
+        }
+
+        function toggleContentionDetails(index, event) {
+            event.stopPropagation();
+            const row = document.querySelector('.contention-row[data-index="' + index + '"]');
+            const detailsRow = document.getElementById('contention-details-' + index);
+            const expandBtn = row?.querySelector('.expand-btn');
+            if (!row || !detailsRow) return;
+
+            if (detailsRow.style.display !== 'none') {
+                detailsRow.style.display = 'none';
+                expandBtn?.classList.remove('expanded');
+                return;
             }
-            
-            tooltip.style.left = left + 'px';
-            tooltip.style.top = top + 'px';
+
+            const site = contentionData[index];
+            let html = '<div class="stack-distribution-content">';
+            html += renderCountList('Waiting Threads', site.threads, site.count);
+            html += renderCountList('Lock Owners', site.owners, site.count);
+            html += '<h4>Waiting Stacks</h4>';
+            html += site.stacks.length === 0
+                ? '<em>No stack data available for these waits</em>'
+                : renderStackList('contention-' + index, site.stacks, stack =>
+                    formatDuration(stack.waitMs) + ' (' + (site.totalWaitMs > 0 ? stack.waitMs / site.totalWaitMs * 100 : 0).toFixed(1) + '%) • ' + stack.count.toLocaleString() + ' waits');
+            html += '</div>';
+
+            detailsRow.querySelector('.stack-distribution-cell').innerHTML = html;
+            detailsRow.style.display = 'table-row';
+            expandBtn?.classList.add('expanded');
         }
 
-        function moveTooltip(e) {
-            // Don't move while mouse is potentially heading to tooltip
+        /**
+         * Rows of named counts with their share of a total, e.g. the threads an exception was thrown on
+         */
+        function renderCountList(title, items, total) {
+            return items.length === 0 ? '' :
+                '<h4>' + title + '</h4>' + items.map(item =>
+                    '<div class="stack-dist-item"><span class="stack-preview">' + escapeHtml(item.name) + '</span>' +
+                    '<span class="stack-dist-stats">' + item.count.toLocaleString() + ' (' + (item.count / total * 100).toFixed(1) + '%)</span></div>'
+                ).join('');
         }
 
-        function scheduleHideTooltip() {
-            // Give user time to move mouse to tooltip
-            tooltipHideTimeout = setTimeout(() => {
-                hideTooltip();
-            }, 150);
+        /**
+         * Resolved stacks ({ frames, addresses }) that expand to their frames on click; key keeps the
+         * frame element IDs unique within the page
+         */
+        function renderStackList(key, stacks, describeStack) {
+            return stacks.map((stack, stackIndex) => \`
+                <div class="stack-dist-item" onclick="toggleStackFrames('\${key}', \${stackIndex}, event)">
+                    <span class="stack-preview">\${escapeHtml(stack.frames.length > 0 ? stack.frames[0] : '(unknown)')}</span>
+                    <span class="stack-dist-stats">\${describeStack(stack)}</span>
+                </div>
+                <div class="stack-expanded-frames" id="stack-frames-\${key}-\${stackIndex}">
+                    \${stack.frames.map((frame, i) =>
+                        '<div class="stack-frame source-link' + (i === 0 ? ' top' : '') + '" title="Go to Source" onclick="openSource(\\'' + stack.addresses[i] + '\\')">' + escapeHtml(frame) + '</div>'
+                    ).join('')}
+                </div>
+            \`).join('');
         }
 
-        function hideTooltip() {
-            if (tooltipHideTimeout) {
-                clearTimeout(tooltipHideTimeout);
-                tooltipHideTimeout = null;
-            }
-            document.getElementById('flameTooltip').style.display = 'none';
-            currentTooltipNode = null;
+        // The contention table is rendered from its data so it can be re-sorted
+        renderContentionTable();
+        if (logData.length > 0) {
+            filterLogs();
         }
 
-        // Keep tooltip visible when mouse is over it
-        document.getElementById('flameTooltip')?.addEventListener('mouseenter', () => {
-            if (tooltipHideTimeout) {
-                clearTimeout(tooltipHideTimeout);
-                tooltipHideTimeout = null;
-            }
+        function refresh() {
+            vscode.postMessage({ command: 'refresh' });
+        }
+
+        function loadPerfMap() {
+            vscode.postMessage({ command: 'loadPerfMap' });
+        }
+
+        function loadNativeModules() {
+            vscode.postMessage({ command: 'loadNativeModules' });
+        }
+
+        function openSource(address) {
+            vscode.postMessage({ command: 'openSource', address });
+        }
+
+        applySampleViews(${toScriptJson(sampleViews)});
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Ask for a perf map file and symbolize the trace with it. Resolves to whether one was loaded.
+     */
+    private async pickPerfMap(document: NetTraceDocument): Promise<boolean> {
+        const processId = document.parseResult?.traceInfo?.processId;
+        const picked = await vscode.window.showOpenDialog({
+            title: processId ? `Select the perf map for process ${processId}` : 'Select a perf map',
+            defaultUri: vscode.Uri.file(os.tmpdir()),
+            canSelectMany: false,
+            filters: { 'Perf maps': ['map'], 'All files': ['*'] }
         });
+        if (!picked || picked.length === 0) {
+            return false;
+        }
+        try {
+            await document.loadPerfMap(picked[0]);
+            return true;
+        } catch (err) {
+            vscode.window.showErrorMessage(`Failed to load perf map: ${err instanceof Error ? err.message : String(err)}`);
+            return false;
+        }
+    }
 
-        document.getElementById('flameTooltip')?.addEventListener('mouseleave', () => {
-            hideTooltip();
+    /**
+     * Ask for a saved /proc/<pid>/maps listing and symbolize native frames with it
+     */
+    private async pickNativeModules(document: NetTraceDocument): Promise<boolean> {
+        const processId = document.parseResult?.traceInfo?.processId;
+        const picked = await vscode.window.showOpenDialog({
+            title: processId ? `Select a copy of /proc/${processId}/maps` : 'Select a /proc/<pid>/maps listing',
+            canSelectMany: false
         });
+        if (!picked || picked.length === 0) {
+            return false;
+        }
+        try {
+            await document.loadNativeModules(picked[0]);
+            return true;
+        } catch (err) {
+            vscode.window.showErrorMessage(`Failed to load native modules: ${err instanceof Error ? err.message : String(err)}`);
+            return false;
+        }
+    }
 
-        function showTypeDetails(event) {
-            event.stopPropagation();
-            if (!currentTooltipNode || !currentTooltipNode.types) return;
-            
-            const node = currentTooltipNode;
-            const overlay = document.getElementById('typeModalOverlay');
-            const title = document.getElementById('typeModalTitle');
-            const content = document.getElementById('typeModalContent');
-            
-            title.textContent = 'Type Distribution: ' + node.name;
-            
-            // Calculate total for percentages
-            const totalSize = node.types.reduce((sum, t) => sum + t.size, 0);
-            const totalCount = node.types.reduce((sum, t) => sum + t.count, 0);
-            
-            let html = '';
-            for (const typeInfo of node.types) {
-                const sizePct = totalSize > 0 ? ((typeInfo.size / totalSize) * 100).toFixed(1) : '0.0';
-                const countPct = totalCount > 0 ? ((typeInfo.count / totalCount) * 100).toFixed(1) : '0.0';
-                html += \`
-                    <div class="type-item">
-                        <span class="type-name">\${escapeHtml(typeInfo.name)}</span>
-                        <span class="type-stats">\${typeInfo.count.toLocaleString()} (\${countPct}%) • \${formatBytes(typeInfo.size)} (\${sizePct}%)</span>
-                    </div>
-                \`;
+    /**
+     * Open the source line of a frame beside the trace. PDB locations are preferred; files recorded
+     * with paths from another machine are looked up in the workspace by file name. Methods without
+     * a usable PDB are looked up by name through the workspace symbol provider.
+     */
+    private async openSource(document: NetTraceDocument, addr: bigint): Promise<void> {
+        const lookup = await document.resolveSource(addr);
+        if ('location' in lookup) {
+            const { file, line, column } = lookup.location;
+            let uri: vscode.Uri | undefined = fs.existsSync(file) ? vscode.Uri.file(file) : undefined;
+            if (!uri) {
+                const fileName = file.split(/[/\\]/).pop() || file;
+                const matches = await vscode.workspace.findFiles(`**/${fileName}`, '**/node_modules/**', 1);
+                uri = matches[0];
+            }
+            if (uri) {
+                const position = new vscode.Position(Math.max(line - 1, 0), Math.max(column - 1, 0));
+                await vscode.window.showTextDocument(uri, {
+                    viewColumn: vscode.ViewColumn.Beside,
+                    selection: new vscode.Range(position, position)
+                });
+                return;
             }
-            
-            content.innerHTML = html;
-            overlay.classList.add('visible');
-            
-            // Hide the tooltip
-            document.getElementById('flameTooltip').style.display = 'none';
         }
 
-        function closeTypeModal() {
-            document.getElementById('typeModalOverlay').classList.remove('visible');
+        const method = document.createSymbolResolver().findMethod(addr);
+        const definition = method ? await findMethodDefinition(method) : undefined;
+        if (definition) {
+            await vscode.window.showTextDocument(definition.uri, {
+                viewColumn: vscode.ViewColumn.Beside,
+                selection: new vscode.Range(definition.range.start, definition.range.start)
+            });
+            return;
         }
 
-        // Close modal on overlay click
-        document.getElementById('typeModalOverlay')?.addEventListener('click', (e) => {
-            if (e.target.id === 'typeModalOverlay') {
-                closeTypeModal();
-            }
-        });
+        vscode.window.showInformationMessage('location' in lookup
+            ? `Source file not found: ${lookup.location.file} (line ${lookup.location.line})`
+            : `No source location: ${lookup.reason}${method ? ' The method was not found among the workspace symbols either.' : ''}`);
+    }
 
-        function refresh() {
-            vscode.postMessage({ command: 'refresh' });
-        }
-    </script>
-</body>
-</html>`;
+    /**
+     * Build the CPU and allocation views for the part of the trace selected in the Timeline and Threads tabs;
+     * the page fills them in on load and again whenever the selection changes
+     */
+    private buildSampleViews(document: NetTraceDocument, sampleFilter: SampleFilter, resolveFrame: (addr: bigint) => string): SampleViews {
+        const fullResult = document.parseResult;
+        const filtered = isSampleFilterActive(sampleFilter);
+        const result = fullResult && filtered ? applySampleFilter(fullResult, sampleFilter, document.createSymbolResolver()) : fullResult;
+        const { timeRange, threadIds } = sampleFilter;
+
+        const sortedAllocations = result ? Array.from(result.allocations.values())
+            .sort((a, b) => {
+                if (b.totalSize > a.totalSize) { return 1; }
+                if (b.totalSize < a.totalSize) { return -1; }
+                return b.count - a.count;
+            }) : [];
+        const sortedProfiles = result?.methodProfiles ? Array.from(result.methodProfiles.values())
+            .sort((a, b) => b.exclusiveCount - a.exclusiveCount) : [];
+
+        const filterDescriptions = [
+            ...(timeRange ? [`${formatSeconds(timeRange.startMs)} – ${formatSeconds(timeRange.endMs)} of the trace, as selected in the Timeline tab`] : []),
+            ...(threadIds ? [`${threadIds.length === 1 ? getThreadLabel(fullResult, threadIds[0]) : `${threadIds.length} threads`}, as selected in the Threads tab`] : [])
+        ];
+
+        return {
+            filterDescription: filtered ? filterDescriptions.join(', and to ') : undefined,
+            timeRange: timeRange ? { start: timeRange.startMs, end: timeRange.endMs } : null,
+            threadIds: threadIds ? threadIds.map(threadId => threadId.toString()) : null,
+            allocations: sortedAllocations.map(a => ({
+                typeName: a.typeName,
+                count: a.count,
+                totalSize: a.totalSize.toString(),
+                avgSize: a.count > 0 ? (a.totalSize / BigInt(a.count)).toString() : '0'
+            })),
+            totalAllocations: sortedAllocations.reduce((sum, a) => sum + a.count, 0),
+            totalMemory: formatBytes(sortedAllocations.reduce((sum, a) => sum + a.totalSize, BigInt(0))),
+            methodCount: sortedProfiles.length,
+            methodProfiles: sortedProfiles.slice(0, 100).map(p => ({
+                methodName: p.methodName,
+                exclusiveCount: p.exclusiveCount,
+                exclusiveTimeMs: p.exclusiveTimeMs,
+                inclusiveCount: p.inclusiveCount,
+                inclusiveTimeMs: p.inclusiveTimeMs,
+                address: p.address !== undefined ? '0x' + p.address.toString(16) : undefined
+            })),
+            // Limited to the top 50 stacks per type
+            typeStackDistribution: Object.fromEntries(
+                Array.from(this.buildTypeStackDistribution(result, resolveFrame).entries()).map(([typeName, stacks]) => [typeName, stacks.slice(0, 50)])
+            ),
+            cpuFlameGraphData: this.buildFlameGraphData(result, 'cpu', resolveFrame, filtered ? result?.cpuSamples : undefined),
+            allocFlameGraphData: this.buildFlameGraphData(result, 'allocation', resolveFrame)
+        };
+    }
+
+    /**
+     * Build a lookup that resolves a stack frame address to a `Module!Namespace.Method` name
+     */
+    private createFrameResolver(document: NetTraceDocument): (addr: bigint) => string {
+        const symbols = document.createSymbolResolver();
+        return addr => symbols.resolve(addr);
     }
 
-    private buildFlameGraphData(result: ParseResult | null, mode: 'cpu' | 'allocation'): Array<{name: string; x: number; width: number; depth: number; samples: number; size?: number; types?: Array<{name: string; count: number; size: number}>}> {
+    /**
+     * @param cpuStackCounts CPU samples per stack to use instead of every sampled stack
+     */
+    private buildFlameGraphData(result: ParseResult | null, mode: FlameGraphMode, getMethodName: (addr: bigint) => string,
+                                cpuStackCounts?: Map<number, number>): FlameGraphNode[] {
         if (!result || !result.stacks || result.stacks.size === 0) {
             return [];
         }
 
-        // For CPU mode, we need methodProfiles; for allocation mode, we need allocationSamples
-        if (mode === 'cpu' && (!result.methodProfiles || result.methodProfiles.size === 0)) {
+        // For CPU mode, we need methodProfiles (unless given the samples); for allocation mode, we need allocationSamples
+        if (mode === 'cpu' && !cpuStackCounts && (!result.methodProfiles || result.methodProfiles.size === 0)) {
             return [];
         }
         if (mode === 'allocation' && (!result.allocationSamples || result.allocationSamples.size === 0)) {
             return [];
         }
+        if (mode === 'contention' && result.contentions.length === 0) {
+            return [];
+        }
 
         // Build a tree structure from stacks
         interface FlameNode {
             name: string;
+            address?: bigint;   // First frame address seen for the node, for source lookup
             samples: number;
             size: bigint;
             types: Map<string, { count: number; size: bigint }>;
@@ -1499,54 +4658,33 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
 
         const root: FlameNode = { name: 'root', samples: 0, size: BigInt(0), types: new Map(), children: new Map() };
         
-        // Build sorted method list for binary search (once, not per address)
-        const methodAddresses: Array<{ address: bigint, endAddress: bigint, name: string }> = [];
-        for (const method of result.methods.values()) {
-            if (method.methodStartAddress > 0) {
-                const fullName = method.methodNamespace 
-                    ? `${method.methodNamespace}.${method.methodName}`
-                    : method.methodName || `Method_0x${method.methodStartAddress.toString(16)}`;
-                methodAddresses.push({
-                    address: method.methodStartAddress,
-                    endAddress: method.methodStartAddress + BigInt(method.methodSize),
-                    name: fullName
-                });
-            }
-        }
-        methodAddresses.sort((a, b) => a.address < b.address ? -1 : a.address > b.address ? 1 : 0);
-
-        // Get method name for an address using binary search
-        const getMethodName = (addr: bigint): string => {
-            let left = 0, right = methodAddresses.length - 1;
-            while (left <= right) {
-                const mid = Math.floor((left + right) / 2);
-                const entry = methodAddresses[mid];
-                if (addr >= entry.address && addr < entry.endAddress) {
-                    return entry.name;
-                } else if (addr < entry.address) {
-                    right = mid - 1;
-                } else {
-                    left = mid + 1;
-                }
-            }
-            return `0x${addr.toString(16)}`;
-        };
-
         // Get the sample data based on mode
         const sampleData: Map<number, { count: number; size: bigint; types?: Map<string, { count: number; size: bigint }> }> = new Map();
         
-        if (mode === 'cpu') {
+        if (mode === 'cpu' && cpuStackCounts) {
+            for (const [stackId, count] of cpuStackCounts) {
+                sampleData.set(stackId, { count, size: BigInt(0) });
+            }
+        } else if (mode === 'cpu') {
             // For CPU, we need to reconstruct from stacks (simplified: 1 sample per stack)
             for (const stack of result.stacks.values()) {
                 if (stack.addresses.length > 0) {
                     sampleData.set(stack.stackId, { count: 1, size: BigInt(0) });
                 }
             }
-        } else {
+        } else if (mode === 'allocation') {
             // For allocation, use the allocation samples
             for (const [stackId, data] of result.allocationSamples) {
                 sampleData.set(stackId, { count: data.count, size: data.size, types: data.types });
             }
+        } else {
+            // For contention, count the waits per stack and sum the time blocked (in µs) as the size
+            for (const contention of result.contentions) {
+                const data = sampleData.get(contention.stackId) ?? { count: 0, size: BigInt(0) };
+                data.count++;
+                data.size += BigInt(Math.round(contention.durationMs * 1000));
+                sampleData.set(contention.stackId, data);
+            }
         }
 
         // Build tree from stacks
@@ -1575,10 +4713,12 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
             // Stacks are typically top-first, so reverse for flame graph (bottom-up)
             const reversedAddrs = [...stack.addresses].reverse();
             
-            for (const addr of reversedAddrs) {
+            for (let i = 0; i < reversedAddrs.length; i++) {
+                const addr = reversedAddrs[i];
                 const name = getMethodName(addr);
                 if (!current.children.has(name)) {
-                    current.children.set(name, { name, samples: 0, size: BigInt(0), types: new Map(), children: new Map() });
+                    const address = getSourceLookupAddress(addr, reversedAddrs.length - 1 - i);
+                    current.children.set(name, { name, address, samples: 0, size: BigInt(0), types: new Map(), children: new Map() });
                 }
                 current = current.children.get(name)!;
                 current.samples += data.count;
@@ -1600,8 +4740,10 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         }
 
         // Flatten tree to array with positions
-        const nodes: Array<{name: string; x: number; width: number; depth: number; samples: number; size?: number; types?: Array<{name: string; count: number; size: number}>}> = [];
-        const totalSamples = root.samples;
+        const nodes: FlameGraphNode[] = [];
+        // Contention graphs are weighted by time blocked rather than by the number of waits
+        const weight = (node: FlameNode) => mode === 'contention' ? Number(node.size) : node.samples;
+        const totalWeight = weight(root);
 
         const flatten = (node: FlameNode, x: number, width: number, depth: number) => {
             if (node.name !== 'root') {
@@ -1619,16 +4761,17 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
                     depth, 
                     samples: node.samples,
                     size: Number(node.size),
-                    types: typesArray
+                    types: typesArray,
+                    address: node.address !== undefined ? '0x' + node.address.toString(16) : undefined
                 });
             }
 
             let childX = x;
             // Sort children by samples for consistent ordering
-            const sortedChildren = Array.from(node.children.values()).sort((a, b) => b.samples - a.samples);
+            const sortedChildren = Array.from(node.children.values()).sort((a, b) => weight(b) - weight(a));
             
             for (const child of sortedChildren) {
-                const actualWidth = (child.samples / totalSamples);
+                const actualWidth = totalWeight > 0 ? weight(child) / totalWeight : 0;
                 flatten(child, childX, actualWidth, depth + 1);
                 childX += actualWidth;
             }
@@ -1638,48 +4781,16 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
         return nodes;
     }
 
-    private buildTypeStackDistribution(result: ParseResult | null): Map<string, Array<{ stackId: number; count: number; size: number; frames: string[] }>> {
-        const distribution = new Map<string, Array<{ stackId: number; count: number; size: number; frames: string[] }>>();
+    private buildTypeStackDistribution(result: ParseResult | null, getMethodName: (addr: bigint) => string): Map<string, TypeStackView[]> {
+        const distribution = new Map<string, TypeStackView[]>();
         
         if (!result || !result.typeStackDistribution || result.typeStackDistribution.size === 0) {
             return distribution;
         }
 
-        // Build method address lookup for resolving stack frames
-        const methodAddresses: Array<{ address: bigint, endAddress: bigint, name: string }> = [];
-        for (const method of result.methods.values()) {
-            if (method.methodStartAddress > 0) {
-                const fullName = method.methodNamespace 
-                    ? `${method.methodNamespace}.${method.methodName}`
-                    : method.methodName || `Method_0x${method.methodStartAddress.toString(16)}`;
-                methodAddresses.push({
-                    address: method.methodStartAddress,
-                    endAddress: method.methodStartAddress + BigInt(method.methodSize),
-                    name: fullName
-                });
-            }
-        }
-        methodAddresses.sort((a, b) => a.address < b.address ? -1 : a.address > b.address ? 1 : 0);
-
-        const getMethodName = (addr: bigint): string => {
-            let left = 0, right = methodAddresses.length - 1;
-            while (left <= right) {
-                const mid = Math.floor((left + right) / 2);
-                const entry = methodAddresses[mid];
-                if (addr >= entry.address && addr < entry.endAddress) {
-                    return entry.name;
-                } else if (addr < entry.address) {
-                    right = mid - 1;
-                } else {
-                    left = mid + 1;
-                }
-            }
-            return `0x${addr.toString(16)}`;
-        };
-
         // Build distribution for each type
         for (const [typeName, stackMap] of result.typeStackDistribution) {
-            const stacks: Array<{ stackId: number; count: number; size: number; frames: string[] }> = [];
+            const stacks: TypeStackView[] = [];
             
             for (const [stackId, data] of stackMap) {
                 const stack = result.stacks.get(stackId);
@@ -1687,12 +4798,14 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
                 
                 // Resolve stack frames to method names
                 const frames = stack.addresses.map(addr => getMethodName(addr));
+                const addresses = stack.addresses.map((addr, i) => '0x' + getSourceLookupAddress(addr, i).toString(16));
                 
                 stacks.push({
                     stackId,
                     count: data.count,
                     size: Number(data.size),
-                    frames
+                    frames,
+                    addresses
                 });
             }
             
@@ -1704,6 +4817,369 @@ export class NetTraceEditorProvider implements vscode.CustomReadonlyEditorProvid
 
         return distribution;
     }
+
+    /**
+     * Group lock waits by call site: the top frame of the waiting stack outside the lock implementation
+     */
+    private buildContentionData(result: ParseResult | null, getMethodName: (addr: bigint) => string): ContentionSiteView[] {
+        interface Site {
+            address?: bigint;
+            count: number;
+            totalWaitMs: number;
+            maxWaitMs: number;
+            locks: Set<bigint>;
+            threads: Map<bigint, number>;
+            owners: Map<bigint, number>;
+            stacks: Map<number, { count: number; waitMs: number }>;
+        }
+        const sites = new Map<string, Site>();
+        const frameNames = new Map<number, string[]>();   // stackId -> resolved frames
+
+        for (const contention of result?.contentions ?? []) {
+            const addresses = result?.stacks.get(contention.stackId)?.addresses ?? [];
+            let frames = frameNames.get(contention.stackId);
+            if (!frames) {
+                frames = addresses.map(addr => getMethodName(addr));
+                frameNames.set(contention.stackId, frames);
+            }
+            let callSite = frames.findIndex(frame => !frame.includes('<unknown>') && !LOCK_FRAME_PATTERN.test(frame));
+            if (callSite < 0 && frames.length > 0) {
+                callSite = 0;
+            }
+            const name = callSite >= 0 ? frames[callSite] : '<no stack>';
+
+            let site = sites.get(name);
+            if (!site) {
+                site = {
+                    address: callSite >= 0 ? getSourceLookupAddress(addresses[callSite], callSite) : undefined,
+                    count: 0,
+                    totalWaitMs: 0,
+                    maxWaitMs: 0,
+                    locks: new Set(),
+                    threads: new Map(),
+                    owners: new Map(),
+                    stacks: new Map()
+                };
+                sites.set(name, site);
+            }
+            site.count++;
+            site.totalWaitMs += contention.durationMs;
+            site.maxWaitMs = Math.max(site.maxWaitMs, contention.durationMs);
+            if (contention.lockId) {
+                site.locks.add(contention.lockId);
+            }
+            site.threads.set(contention.threadId, (site.threads.get(contention.threadId) ?? 0) + 1);
+            if (contention.ownerThreadId !== undefined) {
+                site.owners.set(contention.ownerThreadId, (site.owners.get(contention.ownerThreadId) ?? 0) + 1);
+            }
+            if (addresses.length > 0) {
+                const stack = site.stacks.get(contention.stackId) ?? { count: 0, waitMs: 0 };
+                stack.count++;
+                stack.waitMs += contention.durationMs;
+                site.stacks.set(contention.stackId, stack);
+            }
+        }
+
+        const byCount = (counts: Map<bigint, number>) => Array.from(counts)
+            .sort((a, b) => b[1] - a[1])
+            .map(([threadId, count]) => ({ name: getThreadLabel(result, threadId), count }));
+        return Array.from(sites, ([name, site]) => ({
+            name,
+            address: site.address !== undefined ? '0x' + site.address.toString(16) : undefined,
+            count: site.count,
+            totalWaitMs: site.totalWaitMs,
+            maxWaitMs: site.maxWaitMs,
+            lockCount: site.locks.size,
+            threads: byCount(site.threads),
+            owners: byCount(site.owners),
+            stacks: Array.from(site.stacks)
+                .sort((a, b) => b[1].waitMs - a[1].waitMs)
+                .map(([stackId, stack]) => ({
+                    ...stack,
+                    frames: frameNames.get(stackId)!,
+                    addresses: result!.stacks.get(stackId)!.addresses.map((addr, i) => '0x' + getSourceLookupAddress(addr, i).toString(16))
+                }))
+        })).sort((a, b) => b.totalWaitMs - a.totalWaitMs);
+    }
+
+    /**
+     * Methods compiled more than once, with their versions in order; those recompiled most first
+     */
+    private buildRecompiledMethods(result: ParseResult | null): RecompiledMethodView[] {
+        const byMethod = new Map<bigint, JitCompilation[]>();
+        for (const compilation of result?.jit.compilations ?? []) {
+            const compilations = byMethod.get(compilation.methodId) ?? [];
+            compilations.push(compilation);
+            byMethod.set(compilation.methodId, compilations);
+        }
+
+        return Array.from(byMethod.values())
+            .filter(compilations => compilations.length > 1)
+            .map(compilations => {
+                const latest = compilations[compilations.length - 1];
+                const timed = compilations.filter(compilation => compilation.durationMs !== undefined);
+                return {
+                    methodName: latest.methodName,
+                    address: latest.codeAddress ? '0x' + latest.codeAddress.toString(16) : undefined,
+                    tiers: compilations.map(compilation => jitTierName(compilation.tier)),
+                    totalMs: timed.length > 0 ? timed.reduce((sum, compilation) => sum + compilation.durationMs!, 0) : undefined,
+                    firstTimeMs: compilations[0].startTimeMs,
+                    lastTimeMs: latest.startTimeMs
+                };
+            })
+            .sort((a, b) => b.tiers.length - a.tiers.length || (b.totalMs ?? 0) - (a.totalMs ?? 0));
+    }
+
+    private buildRequestRoutes(result: ParseResult | null): RequestRouteView[] {
+        const byRoute = new Map<string, AspNetRequest[]>();
+        for (const request of result?.requests.requests ?? []) {
+            const key = `${request.method} ${request.route}`;
+            const requests = byRoute.get(key) ?? [];
+            requests.push(request);
+            byRoute.set(key, requests);
+        }
+
+        return Array.from(byRoute.values())
+            .map(requests => {
+                const durations = requests.map(request => request.durationMs).sort((a, b) => a - b);
+                return {
+                    method: requests[0].method,
+                    route: requests[0].route,
+                    count: requests.length,
+                    errorCount: requests.filter(isServerError).length,
+                    p50Ms: percentile(durations, 50),
+                    p90Ms: percentile(durations, 90),
+                    p99Ms: percentile(durations, 99),
+                    maxMs: durations[durations.length - 1],
+                    totalMs: durations.reduce((sum, duration) => sum + duration, 0)
+                };
+            })
+            .sort((a, b) => b.totalMs - a.totalMs);
+    }
+
+    private buildNetworkHosts(result: ParseResult | null): NetworkHostView[] {
+        const byOrigin = new Map<string, HttpRequestSpan[]>();
+        for (const request of result?.network.httpRequests ?? []) {
+            const origin = formatHttpOrigin(request);
+            const requests = byOrigin.get(origin) ?? [];
+            requests.push(request);
+            byOrigin.set(origin, requests);
+        }
+        const connections = new Map<string, number>();
+        for (const connection of result?.network.httpConnections ?? []) {
+            const origin = formatHttpOrigin(connection);
+            connections.set(origin, (connections.get(origin) ?? 0) + 1);
+        }
+
+        return Array.from(byOrigin)
+            .map(([origin, requests]) => {
+                const durations = requests.map(request => request.durationMs).sort((a, b) => a - b);
+                const queueTimes = requests.flatMap(request => request.queueTimeMs !== undefined ? [request.queueTimeMs] : []);
+                return {
+                    origin,
+                    count: requests.length,
+                    errorCount: requests.filter(isServerError).length,
+                    p50Ms: percentile(durations, 50),
+                    p90Ms: percentile(durations, 90),
+                    p99Ms: percentile(durations, 99),
+                    maxMs: durations[durations.length - 1],
+                    totalMs: durations.reduce((sum, duration) => sum + duration, 0),
+                    queuedCount: queueTimes.length,
+                    maxQueueMs: Math.max(0, ...queueTimes),
+                    connections: connections.get(origin) ?? 0
+                };
+            })
+            .sort((a, b) => b.totalMs - a.totalMs);
+    }
+
+    private buildDatabaseStatements(result: ParseResult | null): DatabaseStatementView[] {
+        const commands = result?.database.commands ?? [];
+        const byText = new Map<string, DatabaseCommand[]>();
+        const longestRuns = new Map<string, number>();
+        let run = 0;
+        for (let i = 0; i < commands.length; i++) {
+            const text = commands[i].normalizedText;
+            const group = byText.get(text) ?? [];
+            group.push(commands[i]);
+            byText.set(text, group);
+
+            // Commands are in the order they started
+            run = i > 0 && commands[i - 1].normalizedText === text ? run + 1 : 1;
+            longestRuns.set(text, Math.max(longestRuns.get(text) ?? 0, run));
+        }
+
+        return Array.from(byText)
+            .map(([text, group]) => {
+                const durations = group.map(command => command.durationMs).sort((a, b) => a - b);
+                return {
+                    text,
+                    count: group.length,
+                    failedCount: group.filter(command => command.failed).length,
+                    longestRun: longestRuns.get(text) ?? 0,
+                    p50Ms: percentile(durations, 50),
+                    p90Ms: percentile(durations, 90),
+                    p99Ms: percentile(durations, 99),
+                    maxMs: durations[durations.length - 1],
+                    totalMs: durations.reduce((sum, duration) => sum + duration, 0)
+                };
+            })
+            .sort((a, b) => b.totalMs - a.totalMs);
+    }
+
+    private buildExceptionData(result: ParseResult | null, getMethodName: (addr: bigint) => string): ExceptionView[] {
+        const byCount = <K>(counts: Map<K, number>) => Array.from(counts).sort((a, b) => b[1] - a[1]);
+
+        return (result?.exceptions ?? []).map(group => ({
+            typeName: group.typeName,
+            message: group.message,
+            hresult: group.hresult,
+            count: group.count,
+            firstTimeMs: group.firstTimeMs,
+            lastTimeMs: group.lastTimeMs,
+            threads: byCount(group.threads).map(([threadId, count]) => ({ threadId: threadId.toString(), name: getThreadLabel(result, threadId), count })),
+            catchMethods: byCount(group.catchMethods).map(([name, count]) => ({ name, count })),
+            filterMethods: byCount(group.filterMethods).map(([name, count]) => ({ name, count })),
+            finallyMethods: byCount(group.finallyMethods).map(([name, count]) => ({ name, count })),
+            handlerTimeMs: group.handlerTimeMs,
+            stacks: byCount(group.stacks).flatMap(([stackId, count]) => {
+                const stack = result?.stacks.get(stackId);
+                return stack ? [{
+                    count,
+                    frames: stack.addresses.map(addr => getMethodName(addr)),
+                    addresses: stack.addresses.map((addr, i) => '0x' + getSourceLookupAddress(addr, i).toString(16))
+                }] : [];
+            })
+        }));
+    }
+}
+
+// A frame of a flame graph, laid out in fractions of the graph's width
+interface FlameGraphNode {
+    name: string;
+    x: number;
+    width: number;
+    depth: number;
+    samples: number;
+    size?: number;
+    types?: Array<{ name: string; count: number; size: number }>;
+    address?: string;
+}
+
+// An allocating stack of a type, as shown when expanding the type in the Allocations tab
+interface TypeStackView {
+    stackId: number;
+    count: number;
+    size: number;
+    frames: string[];
+    addresses: string[];
+}
+
+// The CPU and allocation views for the selected part of the trace; bigints are sent as strings
+interface SampleViews {
+    filterDescription?: string;
+    timeRange: { start: number; end: number } | null;
+    threadIds: string[] | null;
+    allocations: { typeName: string; count: number; totalSize: string; avgSize: string }[];
+    totalAllocations: number;
+    totalMemory: string;
+    methodCount: number;
+    methodProfiles: {
+        methodName: string;
+        exclusiveCount: number;
+        exclusiveTimeMs: number;
+        inclusiveCount: number;
+        inclusiveTimeMs: number;
+        address?: string;
+    }[];
+    typeStackDistribution: Record<string, TypeStackView[]>;
+    cpuFlameGraphData: FlameGraphNode[];
+    allocFlameGraphData: FlameGraphNode[];
+}
+
+// A contended call site as shown in the Contention tab
+interface ContentionSiteView {
+    name: string;
+    address?: string;
+    count: number;
+    totalWaitMs: number;
+    maxWaitMs: number;
+    lockCount: number;
+    threads: { name: string; count: number }[];
+    owners: { name: string; count: number }[];
+    stacks: { count: number; waitMs: number; frames: string[]; addresses: string[] }[];
+}
+
+// A method compiled more than once, as shown in the JIT tab
+interface RecompiledMethodView {
+    methodName: string;
+    address?: string;
+    tiers: string[];            // Tier of each compilation, in order
+    totalMs?: number;
+    firstTimeMs: number;
+    lastTimeMs: number;
+}
+
+// Outgoing HTTP requests to one scheme, host and port as shown in the Network tab
+interface NetworkHostView {
+    origin: string;
+    count: number;
+    errorCount: number;         // Failed requests and server errors, see isServerError
+    p50Ms: number;
+    p90Ms: number;
+    p99Ms: number;
+    maxMs: number;
+    totalMs: number;
+    queuedCount: number;        // Requests that waited for a pooled connection
+    maxQueueMs: number;
+    connections: number;        // Connections the pool opened
+}
+
+// Executions of one normalized SQL statement as shown in the Database tab
+interface DatabaseStatementView {
+    text: string;
+    count: number;
+    failedCount: number;
+    longestRun: number;         // Most executions in a row, with no other command in between
+    p50Ms: number;
+    p90Ms: number;
+    p99Ms: number;
+    maxMs: number;
+    totalMs: number;
+}
+
+// Requests to one route as shown in the Requests tab
+interface RequestRouteView {
+    method: string;
+    route: string;
+    count: number;
+    errorCount: number;         // Server errors, see isServerError
+    p50Ms: number;
+    p90Ms: number;
+    p99Ms: number;
+    maxMs: number;
+    totalMs: number;
+}
+
+// An exception group as shown in the Exceptions tab, with counts sorted and stacks resolved
+interface ExceptionView {
+    typeName: string;
+    message: string;
+    hresult?: number;
+    count: number;
+    firstTimeMs: number;
+    lastTimeMs: number;
+    threads: { threadId: string; name: string; count: number }[];
+    catchMethods: { name: string; count: number }[];
+    filterMethods: { name: string; count: number }[];
+    finallyMethods: { name: string; count: number }[];
+    handlerTimeMs: number;
+    stacks: { count: number; frames: string[]; addresses: string[] }[];
+}
+
+// JSON for a value embedded in the page's script. Strings may hold arbitrary text, so '<' is escaped to
+// keep one containing a closing script tag from ending the script.
+function toScriptJson(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, '\\u003c');
 }
 
 function escapeHtml(text: string): string {
@@ -1741,6 +5217,229 @@ function formatBytes(bytes: bigint): string {
     return finalValue.toFixed(2) + ' ' + sizes[i];
 }
 
+type FlameGraphMode = 'cpu' | 'allocation' | 'contention';
+
+const FLAME_GRAPH_TEXTS: Record<FlameGraphMode, { subtitle: string; help: string }> = {
+    cpu: {
+        subtitle: 'Showing CPU samples. Hover for details. Click to go to source, double-click to zoom.',
+        help: 'Visualizes where CPU time is spent across call stacks. Width represents time: wider bars indicate more CPU usage. Stacks grow upward—the bottom shows entry points, each layer above shows called methods. If an upper layer is narrower than its parent, the difference represents exclusive time spent in the parent method itself. Double-click a node to zoom in.'
+    },
+    allocation: {
+        subtitle: 'Showing memory allocations. Hover for details. Click to go to source, double-click to zoom.',
+        help: 'Visualizes where memory is allocated across call stacks. Width represents allocation size: wider bars indicate more memory. Stacks grow upward—the bottom shows entry points, each layer above shows called methods. If an upper layer is narrower than its parent, the difference represents memory allocated directly by the parent method itself. Double-click a node to zoom in.'
+    },
+    contention: {
+        subtitle: 'Showing time blocked on locks. Hover for details. Click to go to source, double-click to zoom.',
+        help: 'Visualizes where threads waited for locks held by other threads, from ContentionStart stacks. Width represents time blocked: wider bars indicate longer waits. Stacks grow upward—the bottom shows entry points, each layer above shows called methods; the top of each stack is where the thread tried to take the lock. Double-click a node to zoom in.'
+    }
+};
+
+// Pause bar colors by condemned generation
+const GC_GENERATION_COLORS = ['#10b981', '#f59e0b', '#ef4444'];
+
+/**
+ * Time from the start of the trace to its last event
+ */
+function getTraceDurationMs(result: ParseResult | null): number {
+    const traceInfo = result?.traceInfo;
+    if (!result || !traceInfo || traceInfo.tickFrequency <= 0 || result.eventIndex.count === 0) {
+        return 0;
+    }
+    return Number(result.eventIndex.lastTimestamp - traceInfo.syncTimeTicks) * 1000 / Number(traceInfo.tickFrequency);
+}
+
+// Hill-climbing adjustment reason for thread injection on starvation
+const THREAD_POOL_STARVATION_REASON = 6;
+
+const THREAD_POOL_WORKING_COLOR = '#10b981';
+const THREAD_POOL_IO_COLOR = '#8b5cf6';
+
+// Adjustment marker colors by reason; starvation stands out in red
+const THREAD_POOL_REASON_COLORS = ['#94a3b8', '#64748b', '#f59e0b', '#3b82f6', '#14b8a6', '#0ea5e9', '#ef4444', '#ec4899', '#a855f7'];
+
+function getAdjustmentReasonColor(reason: number): string {
+    return THREAD_POOL_REASON_COLORS[reason] ?? '#6b7280';
+}
+
+const COUNTER_COMPARISON_COLOR = '#f59e0b';
+
+function describeCounter(counter: CounterSeries): string {
+    const interval = counter.intervalSec > 0 ? ` ${Number(counter.intervalSec.toFixed(2))} s` : '';
+    const kind = counter.counterType === 'Sum' ? `Increase per${interval} interval` : `Mean over${interval} interval`;
+    return `${counter.name}${counter.metadata ? ` [${counter.metadata}]` : ''} · ${kind}`;
+}
+
+// Microsoft.Extensions.Logging LogLevel values the Logs tab singles out
+const LOG_LEVEL_WARNING = 3;
+const LOG_LEVEL_ERROR = 4;
+const LOG_LEVEL_CRITICAL = 5;
+
+// Compilations listed in the JIT tab's slowest table
+const JIT_SLOWEST_LIMIT = 50;
+
+// Colors by optimization tier (see jitTierName): unoptimized tiers warm, optimized ones cool
+const JIT_TIER_COLORS = ['#6b7280', '#94a3b8', '#8b5cf6', '#f59e0b', '#10b981', '#3b82f6', '#ec4899', '#14b8a6'];
+
+function getJitTierColor(tier: number): string {
+    return JIT_TIER_COLORS[tier] ?? '#6b7280';
+}
+
+// Requests listed in the Requests tab's slowest table, each with its own CPU flame graph
+const REQUEST_SLOWEST_LIMIT = 50;
+
+// Request latency marker colors by response status
+const REQUEST_SUCCESS_COLOR = '#10b981';
+const REQUEST_CLIENT_ERROR_COLOR = '#f59e0b';
+const REQUEST_SERVER_ERROR_COLOR = '#ef4444';
+const REQUEST_NO_STATUS_COLOR = '#94a3b8';
+
+// An incoming or outgoing HTTP request's outcome
+type HttpStatus = Pick<AspNetRequest, 'statusCode' | 'failed'>;
+
+function isServerError(request: HttpStatus): boolean {
+    return request.failed || (request.statusCode ?? 0) >= 500;
+}
+
+function getRequestStatusColor(request: HttpStatus): string {
+    return isServerError(request) ? REQUEST_SERVER_ERROR_COLOR
+        : request.statusCode === undefined ? REQUEST_NO_STATUS_COLOR
+        : request.statusCode >= 400 ? REQUEST_CLIENT_ERROR_COLOR : REQUEST_SUCCESS_COLOR;
+}
+
+function formatRequestStatus(request: HttpStatus): string {
+    return request.statusCode !== undefined ? String(request.statusCode) : request.failed ? 'Failed' : '-';
+}
+
+/**
+ * CPU samples per stack taken on the request's threads while it ran. Anything else those threads
+ * ran in the meantime is included too.
+ */
+function countRequestSamples(result: ParseResult | null, request: Pick<AspNetRequest, 'startTimeMs' | 'durationMs' | 'threadIds'>): Map<number, number> {
+    const counts = new Map<number, number>();
+    if (!result) {
+        return counts;
+    }
+    const samples = result.cpuSampleTimeline;
+    const endMs = request.startTimeMs + request.durationMs;
+    const threadIds = new Set(request.threadIds);
+
+    // Binary search for the first sample taken after the request started
+    let low = 0;
+    let high = samples.count;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (samples.timesMs[mid] < request.startTimeMs) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    for (let i = low; i < samples.count && samples.timesMs[i] <= endMs; i++) {
+        if (threadIds.has(samples.threadIds[i])) {
+            const stackId = samples.stackIds[i];
+            counts.set(stackId, (counts.get(stackId) ?? 0) + 1);
+        }
+    }
+    return counts;
+}
+
+// Time an outgoing request waited for a pooled connection, drawn under its latency marker
+const NETWORK_QUEUE_COLOR = '#8b5cf6';
+
+function formatHttpOrigin(request: Pick<HttpRequestSpan, 'scheme' | 'host' | 'port'>): string {
+    return `${request.scheme}://${request.host}:${request.port}`;
+}
+
+function formatHttpRequestUrl(request: HttpRequestSpan): string {
+    return formatHttpOrigin(request) + request.pathAndQuery;
+}
+
+/**
+ * DNS lookups or socket connects grouped by host name or address, slowest in total first
+ */
+function groupNetworkSpans<T extends DnsLookupSpan | SocketConnectSpan>(spans: T[], getName: (span: T) => string): { name: string; spans: T[]; count: number; failedCount: number; maxMs: number; totalMs: number }[] {
+    const byName = new Map<string, T[]>();
+    for (const span of spans) {
+        const name = getName(span);
+        const group = byName.get(name) ?? [];
+        group.push(span);
+        byName.set(name, group);
+    }
+    return Array.from(byName)
+        .map(([name, group]) => ({
+            name,
+            spans: group,
+            count: group.length,
+            failedCount: group.filter(span => span.failed).length,
+            maxMs: Math.max(...group.map(span => span.durationMs)),
+            totalMs: group.reduce((sum, span) => sum + span.durationMs, 0)
+        }))
+        .sort((a, b) => b.totalMs - a.totalMs);
+}
+
+// Statements run this many times in a row are flagged as a possible N+1 query in the Database tab
+const REPEATED_STATEMENT_THRESHOLD = 5;
+
+// Time buckets of the Timeline tab's charts
+const TIMELINE_BUCKET_COUNT = 200;
+
+// Length SQL is cut to in chart tooltips and the flame graph filter banner
+const DATABASE_LABEL_LENGTH = 120;
+
+// CPU sample and allocation volume series in the Timeline and Database tabs
+const CPU_SAMPLE_COLOR = '#3b82f6';
+const ALLOCATION_COLOR = '#f59e0b';
+
+function formatDatabaseCommandResult(command: DatabaseCommand): string {
+    if (!command.failed) {
+        return 'Succeeded';
+    }
+    const detail = [command.errorNumber !== undefined ? `Error ${command.errorNumber}` : '', command.error ?? ''].filter(Boolean).join(': ');
+    return detail ? `Failed (${detail})` : 'Failed';
+}
+
+function truncateText(text: string, maxLength: number): string {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > maxLength ? line.slice(0, maxLength - 1) + '…' : line;
+}
+
+// Nearest-rank percentile of values sorted in ascending order
+function percentile(sorted: number[], p: number): number {
+    return sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(sorted.length * p / 100) - 1))] : 0;
+}
+
+// Frames of the lock implementation itself, skipped when looking for a wait's call site
+const LOCK_FRAME_PATTERN = /(^|!)System\.Threading\.(Monitor|Lock)\./;
+
+function getThreadLabel(result: ParseResult | null, threadId: bigint): string {
+    const name = result?.threads.get(threadId)?.name;
+    return name ? `Thread ${threadId} (${name})` : `Thread ${threadId}`;
+}
+
+/**
+ * Sample times counted in equal time buckets over the trace, or the samples' weights summed
+ */
+function countOverTime(timesMs: Float64Array, traceDurationMs: number, bucketCount = 100,
+                       weights?: Float64Array): { startMs: number; endMs: number; count: number }[] {
+    if (timesMs.length === 0 || traceDurationMs <= 0) {
+        return [];
+    }
+    const bucketMs = traceDurationMs / bucketCount;
+    const counts = new Array<number>(bucketCount).fill(0);
+    for (let i = 0; i < timesMs.length; i++) {
+        counts[Math.min(bucketCount - 1, Math.max(0, Math.floor(timesMs[i] / bucketMs)))] += weights ? weights[i] : 1;
+    }
+    return counts.map((count, i) => ({ startMs: i * bucketMs, endMs: (i + 1) * bucketMs, count }));
+}
+
+function formatSeconds(ms: number): string {
+    return `${(ms / 1000).toFixed(2)} s`;
+}
+
+function formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms.toFixed(2)} ms` : formatTime(ms);
+}
+
 function formatTime(ms: number): string {
     if (ms < 1) { return '< 1 ms'; }
     if (ms < 1000) { return `${ms.toFixed(0)} ms`; }
@@ -13,8 +13,41 @@
  *   - EndObject tag
  * 
  * Block types: Trace, MetadataBlock, EventBlock, StackBlock, SPBlock
+ * V5 adds: ThreadBlock, RemoveThreadBlock, LabelListBlock
+ *
+ * The file version is the version of the Trace object type. V5 differs from V4 in:
+ * - Trace is a sized block whose fixed header is followed by key/value pairs
+ * - Events reference threads by index into the thread table (ThreadBlock/RemoveThreadBlock)
+ * - Events carry a LabelListId instead of inline ActivityId/RelatedActivityId GUIDs
+ * - Metadata entries are no longer wrapped in event headers and use varint/length-prefixed encoding
+ *
+ * The parser either works on an in-memory Buffer or streams from a file descriptor one block at a
+ * time. In streaming mode only aggregates are kept: raw event payloads and per-allocation records
+ * are discarded, and the event index is written to a file when given one, so memory doesn't grow
+ * with the number of events. The CPU and allocation sample timelines are kept in both modes, at a
+ * few bytes per sample (see sampleTimeline).
  */
 
+import * as fs from 'fs';
+import { BufferReader } from './bufferReader';
+import { EventIndex, EventIndexBuilder } from './eventIndex';
+import { AllocationSampleTimeline, AllocationSampleTimelineBuilder, CpuSampleTimeline, CpuSampleTimelineBuilder } from './sampleTimeline';
+import { GCInfo, GCTimelineBuilder } from './gcTimeline';
+import { ExceptionGroup, ExceptionStatsBuilder } from './exceptionStats';
+import { TimeBucket } from './timeBuckets';
+import { ContentionBuilder, ContentionInterval } from './contention';
+import { ThreadPoolTimeline, ThreadPoolTimelineBuilder } from './threadPool';
+import { CounterSeries, CounterSeriesBuilder } from './eventCounters';
+import { JitTimeline, JitTimelineBuilder } from './jitTimeline';
+import { LogMessage, LogMessageBuilder } from './logMessages';
+import { AspNetRequestBuilder, AspNetRequestTimeline } from './aspNetRequests';
+import { NetworkActivity, NetworkActivityBuilder } from './networkActivity';
+import { DatabaseCommandBuilder, DatabaseTimeline } from './databaseCommands';
+import { SymbolResolver } from './symbolResolver';
+import { getSourceLookupAddress } from './sourceResolver';
+import { EventTypeCode, PayloadStruct, decodePayload, getBigInt, getNumber, getString } from './payloadDecoder';
+import { DOTNET_RUNTIME_PROVIDER, DOTNET_RUNTIME_RUNDOWN_PROVIDER, getClrEventSchema } from './clrEventSchemas';
+
 export interface TraceInfo {
     syncTimeUTC: Date;
     syncTimeTicks: bigint;
@@ -24,6 +57,21 @@ export interface TraceInfo {
     numberOfProcessors?: number;
     cpuSamplingRate?: number;
     commandLine?: string;
+    properties?: Map<string, string>;  // V5 key/value pairs from the Trace block
+}
+
+export interface ThreadInfo {
+    threadId: bigint;             // OS thread ID
+    processId?: bigint;
+    name?: string;
+}
+
+export interface LabelList {
+    activityId?: string;
+    relatedActivityId?: string;
+    traceId?: string;
+    spanId?: bigint;
+    keyValues?: Map<string, string>;
 }
 
 export interface EventMetadata {
@@ -40,7 +88,9 @@ export interface EventMetadata {
 
 export interface FieldMetadata {
     name: string;
-    typeCode: number;
+    typeCode: number;                 // EventTypeCode
+    elementType?: FieldMetadata;      // Element type for arrays
+    fields?: FieldMetadata[];         // Nested fields for objects
 }
 
 export interface AllocationInfo {
@@ -55,6 +105,7 @@ export interface AllocationEvent {
     typeName: string;
     size: bigint;
     timestamp: bigint;
+    threadId: bigint;             // Allocating thread
     stackTrace?: string[];
 }
 
@@ -75,12 +126,35 @@ export interface MethodInfo {
     methodSignature: string;
 }
 
+export interface ModuleInfo {
+    moduleId: bigint;
+    assemblyId: bigint;
+    moduleFlags: number;
+    ilPath: string;
+    nativePath: string;
+    assemblyName?: string;        // Simple name from the assembly's fully qualified name
+    baseAddress?: bigint;         // Estimated from the module's precompiled (ReadyToRun/NGEN) code
+    imageSize?: number;
+    managedPdbSignature?: string;
+    managedPdbAge?: number;
+    managedPdbBuildPath?: string;
+    nativePdbSignature?: string;
+    nativePdbAge?: number;
+    nativePdbBuildPath?: string;
+}
+
+export interface ILToNativeMap {
+    ilOffsets: number[];          // Negative for unmapped code (-1), the prolog (-2) and epilogs (-3)
+    nativeOffsets: number[];      // Offset from the method's code start, parallel to ilOffsets
+}
+
 export interface MethodProfile {
     methodName: string;           // Full method name (namespace.class.method)
     inclusiveCount: number;       // Samples where this method is on stack (any position)
     exclusiveCount: number;       // Samples where this method is at top of stack
     inclusiveTimeMs: number;      // Estimated inclusive time
     exclusiveTimeMs: number;      // Estimated exclusive time
+    address?: bigint;             // A sampled code address in the method, for source lookup
 }
 
 export interface ParseResult {
@@ -88,14 +162,35 @@ export interface ParseResult {
     metadata: Map<number, EventMetadata>;
     allocations: Map<string, AllocationInfo>;
     events: TraceEvent[];
+    eventIndex: EventIndex;                 // Every event in time order, including those not retained in events
     stacks: Map<number, StackInfo>;
     methods: Map<bigint, MethodInfo>;       // methodId -> MethodInfo
-    methodsByAddress: Map<bigint, MethodInfo>; // address range lookup
+    methodsByAddress: Map<bigint, MethodInfo>; // code start address -> MethodInfo (every code version)
+    modules: Map<bigint, ModuleInfo>;       // moduleId -> ModuleInfo
+    ilToNativeMaps: Map<bigint, ILToNativeMap>; // code start address -> IL offset map (JIT-compiled code only)
+    gcs: GCInfo[];                          // Garbage collections in the order they started
+    exceptions: ExceptionGroup[];           // Thrown exceptions by type and message, most frequent first
+    exceptionTimeline: TimeBucket[];        // Thrown exceptions over the trace
+    eventTimeline: TimeBucket[];            // Every event over the trace
+    contentions: ContentionInterval[];      // Lock waits in the order they ended
+    threadPool: ThreadPoolTimeline;         // Thread counts and hill-climbing adjustments over time
+    counters: CounterSeries[];              // EventCounters values over time, in the order counters first reported
+    jit: JitTimeline;                       // JIT compilations with their tier and duration
+    logs: LogMessage[];                     // ILogger entries from Microsoft-Extensions-Logging, in time order
+    requests: AspNetRequestTimeline;        // ASP.NET Core requests from the Hosting and Kestrel providers
+    network: NetworkActivity;               // Outgoing HTTP requests, DNS lookups and socket connects from System.Net
+    database: DatabaseTimeline;             // Database commands from SqlClient and EF Core
     methodProfiles: Map<string, MethodProfile>; // methodName -> profile
+    cpuSamples: Map<number, number>;        // stackId -> CPU sample count
+    cpuSampleTimeline: CpuSampleTimeline;   // Every CPU sample with its thread, in time order
+    allocationSampleTimeline: AllocationSampleTimeline; // Every GCAllocationTick with its thread, in time order
     allocationSamples: Map<number, { count: number; size: bigint; types: Map<string, { count: number; size: bigint }> }>; // stackId -> allocation count/size/types
     typeStackDistribution: Map<string, Map<number, { count: number; size: bigint }>>; // typeName -> stackId -> count/size
+    threads: Map<bigint, ThreadInfo>;       // OS thread ID -> ThreadInfo (V5 only)
+    droppedEvents: Map<bigint, number>;     // capture thread ID -> events dropped by EventPipe
     errors: string[];
     debugInfo: {
+        formatVersion: number;
         totalEvents: number;
         allocationEvents: number;
         providers: string[];
@@ -104,6 +199,12 @@ export interface ParseResult {
     };
 }
 
+export interface ParseProgress {
+    bytesConsumed: number;
+    totalBytes: number;
+    blocksProcessed: number;
+}
+
 export interface TraceEvent {
     metadataId: number;
     threadId: bigint;
@@ -132,217 +233,154 @@ enum SerializationTag {
 }
 
 // Known provider names
-const DOTNET_RUNTIME_PROVIDER = 'Microsoft-Windows-DotNETRuntime';
-const DOTNET_RUNTIME_RUNDOWN_PROVIDER = 'Microsoft-Windows-DotNETRuntimeRundown';
 const SAMPLE_PROFILER_PROVIDER = 'Microsoft-DotNETCore-SampleProfiler';
 
+// Event EventSources log their counter values with
+const EVENT_COUNTERS_EVENT_NAME = 'EventCounters';
+
+// ILogger output; the EventSource logger's event IDs vary between versions, so events are matched by name
+const EXTENSIONS_LOGGING_PROVIDER = 'Microsoft-Extensions-Logging';
+const LOG_FORMATTED_MESSAGE_EVENT_NAME = 'FormattedMessage';
+const LOG_MESSAGE_JSON_EVENT_NAME = 'MessageJson';
+
+// ASP.NET Core request events
+const ASPNETCORE_HOSTING_PROVIDER = 'Microsoft.AspNetCore.Hosting';
+const KESTREL_PROVIDER = 'Microsoft-AspNetCore-Server-Kestrel';
+const HOSTING_REQUEST_START_EVENT_ID = 3;
+const HOSTING_REQUEST_STOP_EVENT_ID = 4;
+const HOSTING_UNHANDLED_EXCEPTION_EVENT_ID = 5;
+const KESTREL_CONNECTION_START_EVENT_ID = 1;
+const KESTREL_CONNECTION_STOP_EVENT_ID = 2;
+const KESTREL_REQUEST_START_EVENT_ID = 3;
+const KESTREL_REQUEST_STOP_EVENT_ID = 4;
+
+// System.Net events
+const NET_HTTP_PROVIDER = 'System.Net.Http';
+const NET_NAME_RESOLUTION_PROVIDER = 'System.Net.NameResolution';
+const NET_SOCKETS_PROVIDER = 'System.Net.Sockets';
+const HTTP_REQUEST_START_EVENT_ID = 1;
+const HTTP_REQUEST_STOP_EVENT_ID = 2;
+const HTTP_REQUEST_FAILED_EVENT_ID = 3;
+const HTTP_CONNECTION_ESTABLISHED_EVENT_ID = 4;
+const HTTP_REQUEST_LEFT_QUEUE_EVENT_ID = 6;
+const DNS_RESOLUTION_START_EVENT_ID = 1;
+const DNS_RESOLUTION_STOP_EVENT_ID = 2;
+const DNS_RESOLUTION_FAILED_EVENT_ID = 3;
+const SOCKET_CONNECT_START_EVENT_ID = 1;
+const SOCKET_CONNECT_STOP_EVENT_ID = 2;
+const SOCKET_CONNECT_FAILED_EVENT_ID = 3;
+
+// SqlClient command events
+const SQLCLIENT_PROVIDER = 'Microsoft.Data.SqlClient.EventSource';
+const SYSTEM_DATA_SQLCLIENT_PROVIDER = 'Microsoft-AdoNet-SystemData';
+const SQLCLIENT_BEGIN_EXECUTE_EVENT_ID = 1;
+const SQLCLIENT_END_EXECUTE_EVENT_ID = 2;
+
 // Event IDs for GC allocation events
 const GC_ALLOCATION_TICK_EVENT_ID = 10;
 
+// Event IDs for GC lifecycle events, which make up the GC timeline
+const GC_START_EVENT_ID = 1;
+const GC_END_EVENT_ID = 2;
+const GC_RESTART_EE_END_EVENT_ID = 3;
+const GC_HEAP_STATS_EVENT_ID = 4;
+const GC_SUSPEND_EE_END_EVENT_ID = 8;
+const GC_SUSPEND_EE_BEGIN_EVENT_ID = 9;
+
+// Exception events
+const EXCEPTION_THROWN_EVENT_ID = 80;
+const EXCEPTION_CATCH_START_EVENT_ID = 250;
+const EXCEPTION_FINALLY_START_EVENT_ID = 252;
+const EXCEPTION_FINALLY_STOP_EVENT_ID = 253;
+const EXCEPTION_FILTER_START_EVENT_ID = 254;
+const EXCEPTION_FILTER_STOP_EVENT_ID = 255;
+
+// Contention events
+const CONTENTION_START_EVENT_ID = 81;
+const CONTENTION_STOP_EVENT_ID = 91;
+
+// ThreadPool events
+const IO_THREAD_EVENT_IDS = new Set([44, 45, 46, 47]);               // IOThreadCreate/Terminate/Retire/Unretire
+const THREAD_POOL_WORKER_EVENT_IDS = new Set([50, 51, 52, 53, 57]); // WorkerThreadStart/Stop/RetirementStart/RetirementStop/Wait
+const THREAD_POOL_ADJUSTMENT_SAMPLE_EVENT_ID = 54;
+const THREAD_POOL_ADJUSTMENT_EVENT_ID = 55;
+const THREAD_POOL_MIN_MAX_THREADS_EVENT_ID = 59;
+const THREAD_POOL_WORKING_THREAD_COUNT_EVENT_ID = 60;
+
 // Event IDs for method load events (from CLR ETW provider)
 const METHOD_LOAD_VERBOSE_EVENT_ID = 143;
 const METHOD_JITTING_STARTED_EVENT_ID = 145;
 // Rundown events have same format
 const METHOD_DC_END_VERBOSE_EVENT_ID = 144;  // MethodDCEndVerbose - same format as MethodLoadVerbose
 
+// ReadyToRun code lookup: the runtime logs where precompiled code for a method was found.
+// The matching start event (R2RGetEntryPointStart, 160) carries only the MethodID, so it is not needed.
+const R2R_GET_ENTRY_POINT_EVENT_ID = 159;
+
+// IL-to-native offset maps, logged with the JittedMethodILToNativeMap keyword (runtime) and during rundown
+const METHOD_IL_TO_NATIVE_MAP_EVENT_ID = 190;
+const METHOD_DC_START_IL_TO_NATIVE_MAP_EVENT_ID = 149;
+const METHOD_DC_END_IL_TO_NATIVE_MAP_EVENT_ID = 150;
+
+// Upper bound on the size inferred for methods whose events don't report one (ReadyToRun entry points)
+const MAX_INFERRED_METHOD_SIZE = 0x10000;
+
+// Event IDs for loader events (runtime provider)
+const DOMAIN_MODULE_LOAD_EVENT_ID = 151;
+const MODULE_LOAD_EVENT_ID = 152;
+const ASSEMBLY_LOAD_EVENT_ID = 154;
+// Rundown provider equivalents, logged for modules and assemblies already loaded when the session ends
+const DOMAIN_MODULE_DC_START_EVENT_ID = 151;
+const DOMAIN_MODULE_DC_END_EVENT_ID = 152;
+const MODULE_DC_START_EVENT_ID = 153;
+const MODULE_DC_END_EVENT_ID = 154;
+const ASSEMBLY_DC_START_EVENT_ID = 155;
+const ASSEMBLY_DC_END_EVENT_ID = 156;
+
+// MethodFlags bit set for JIT-compiled code; methods without it live in their module's image
+const METHOD_FLAGS_JITTED = 0x8;
+
 // Event IDs for SampleProfiler
 const THREAD_SAMPLE_EVENT_ID = 0;  // SampleProfiler uses event ID 0 for thread samples
 
-class BufferReader {
-    private buffer: Buffer;
-    private _offset: number;
-    private debug: boolean;
-
-    constructor(buffer: Buffer, offset: number = 0, debug: boolean = false) {
-        this.buffer = buffer;
-        this._offset = offset;
-        this.debug = debug;
-    }
-
-    get offset(): number {
-        return this._offset;
-    }
-
-    set offset(value: number) {
-        this._offset = value;
-    }
-
-    get remaining(): number {
-        return this.buffer.length - this._offset;
-    }
-
-    getBuffer(): Buffer {
-        return this.buffer;
-    }
-
-    hasBytes(count: number): boolean {
-        return this._offset + count <= this.buffer.length;
-    }
-
-    readByte(): number {
-        if (!this.hasBytes(1)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        return this.buffer[this._offset++];
-    }
-
-    peekByte(): number {
-        if (!this.hasBytes(1)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        return this.buffer[this._offset];
-    }
-
-    readInt16LE(): number {
-        if (!this.hasBytes(2)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        const val = this.buffer.readInt16LE(this._offset);
-        this._offset += 2;
-        return val;
-    }
-
-    readUInt16LE(): number {
-        if (!this.hasBytes(2)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        const val = this.buffer.readUInt16LE(this._offset);
-        this._offset += 2;
-        return val;
-    }
-
-    readInt32LE(): number {
-        if (!this.hasBytes(4)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        const val = this.buffer.readInt32LE(this._offset);
-        this._offset += 4;
-        return val;
-    }
-
-    readUInt32LE(): number {
-        if (!this.hasBytes(4)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        const val = this.buffer.readUInt32LE(this._offset);
-        this._offset += 4;
-        return val;
-    }
-
-    readInt64LE(): bigint {
-        if (!this.hasBytes(8)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        const val = this.buffer.readBigInt64LE(this._offset);
-        this._offset += 8;
-        return val;
-    }
-
-    readUInt64LE(): bigint {
-        if (!this.hasBytes(8)) {
-            throw new Error(`End of buffer at offset ${this._offset}`);
-        }
-        const val = this.buffer.readBigUInt64LE(this._offset);
-        this._offset += 8;
-        return val;
-    }
+// First file version using thread indexes, label lists and the reworked metadata encoding
+const NETTRACE_V5 = 5;
 
-    readBytes(count: number): Buffer {
-        if (!this.hasBytes(count)) {
-            throw new Error(`End of buffer at offset ${this._offset}, need ${count} bytes`);
-        }
-        const val = this.buffer.slice(this._offset, this._offset + count);
-        this._offset += count;
-        return val;
-    }
-
-    readVarUInt(): number {
-        let result = 0;
-        let shift = 0;
-        let b: number;
-        do {
-            if (!this.hasBytes(1)) {
-                throw new Error('End of buffer reading varint');
-            }
-            b = this.readByte();
-            result |= (b & 0x7f) << shift;
-            shift += 7;
-        } while ((b & 0x80) !== 0 && shift < 35);
-        return result >>> 0;
-    }
-
-    readVarInt64(): bigint {
-        let result = BigInt(0);
-        let shift = BigInt(0);
-        let b: number;
-        do {
-            if (!this.hasBytes(1)) {
-                throw new Error('End of buffer reading varint64');
-            }
-            b = this.readByte();
-            result |= BigInt(b & 0x7f) << shift;
-            shift += BigInt(7);
-        } while ((b & 0x80) !== 0 && shift < BigInt(70));
-        return result;
-    }
-
-    // Unsigned varint64 (same encoding as readVarInt64, just different interpretation)
-    readVarUInt64(): bigint {
-        let result = BigInt(0);
-        let shift = BigInt(0);
-        let b: number;
-        do {
-            if (!this.hasBytes(1)) {
-                throw new Error('End of buffer reading varuint64');
-            }
-            b = this.readByte();
-            result |= BigInt(b & 0x7f) << shift;
-            shift += BigInt(7);
-        } while ((b & 0x80) !== 0 && shift < BigInt(70));
-        return result;
-    }
-
-    // Read null-terminated UTF-16LE string
-    readNullTerminatedUTF16(): string {
-        const chars: number[] = [];
-        while (this.hasBytes(2)) {
-            const code = this.readUInt16LE();
-            if (code === 0) {
-                break;
-            }
-            chars.push(code);
-        }
-        return String.fromCharCode(...chars);
-    }
-
-    // Read ASCII string of given length
-    readAsciiString(length: number): string {
-        if (!this.hasBytes(length)) {
-            throw new Error(`End of buffer reading string of length ${length}`);
-        }
-        const str = this.buffer.toString('ascii', this._offset, this._offset + length);
-        this._offset += length;
-        return str;
-    }
-
-    skip(count: number): void {
-        if (count > 0) {
-            this._offset = Math.min(this._offset + count, this.buffer.length);
-        }
-    }
-
-    align(boundary: number): void {
-        const mod = this._offset % boundary;
-        if (mod !== 0) {
-            this.skip(boundary - mod);
-        }
-    }
+// V5 ThreadBlock entry option kinds
+enum ThreadOptionKind {
+    End = 0,
+    Name = 1,
+    ProcessId = 2,
+    ThreadId = 3,
+    KeyValue = 4,
+}
 
-    // Create a sub-reader for a slice of the buffer
-    subReader(length: number): BufferReader {
-        const subBuf = this.readBytes(length);
-        return new BufferReader(subBuf, 0, this.debug);
-    }
+// V5 LabelListBlock label kinds (the high bit marks the last label of a list)
+enum LabelKind {
+    ActivityId = 1,
+    RelatedActivityId = 2,
+    TraceId = 3,
+    SpanId = 4,
+    KeyValue = 5,
+}
+const LAST_LABEL_FLAG = 0x80;
+
+const EMPTY_GUID = '00000000-0000-0000-0000-000000000000';
+
+// V4 metadata tag carrying the event opcode
+const METADATA_TAG_OPCODE = 1;
+
+// V5 metadata optional field kinds
+enum MetadataOptionKind {
+    End = 0,
+    OpCode = 1,
+    Keywords = 2,
+    Level = 3,
+    Version = 4,
+    MessageTemplate = 5,
+    Description = 6,
+    KeyValue = 7,
+    ProviderGuid = 8,
 }
 
 // Type registry for FastSerialization
@@ -354,8 +392,8 @@ interface TypeInfo {
 }
 
 export class NetTraceParser {
-    private buffer: Buffer;
     private reader: BufferReader;
+    private streaming: boolean;
     private metadata: Map<number, EventMetadata> = new Map();
     private stacks: Map<number, StackInfo> = new Map();
     private pointerSize: number = 8;
@@ -363,8 +401,46 @@ export class NetTraceParser {
     private errors: string[] = [];
     private typeRegistry: Map<number, TypeInfo> = new Map();
     private nextTypeIndex: number = 0;
-    private fileVersion: number = 4; // Default to v4
+    private fileVersion: number = 4; // Default to v4, updated from the Trace object version
     private debug: boolean = false;
+    private blocksProcessed: number = 0;
+    
+    // Called after every block; used to report progress while parsing in the background
+    onProgress?: (progress: ParseProgress) => void;
+    
+    // V5 thread table: events reference threads by index
+    private threadsByIndex: Map<bigint, ThreadInfo> = new Map();
+    private threads: Map<bigint, ThreadInfo> = new Map();
+    private labelLists: Map<number, LabelList> = new Map();
+    
+    // Sequence number tracking per capture thread, used to detect dropped events
+    private lastSequenceNumbers: Map<bigint, number> = new Map();
+    private droppedEvents: Map<bigint, number> = new Map();
+    
+    // AssemblyID -> simple assembly name, attached to modules once parsing completes
+    private assemblyNames: Map<bigint, string> = new Map();
+    
+    // IL maps don't carry a code address, so each is paired with the MethodLoadVerbose/MethodDCEndVerbose
+    // logged next to it for the same MethodID, whichever arrives first (MethodID -> waiting half)
+    private pendingILToNativeMaps: Map<bigint, ILToNativeMap> = new Map();
+    private unmappedMethodStarts: Map<bigint, bigint> = new Map();
+    
+    // Every event with the location of its payload, so payloads can be re-read on demand
+    private eventIndex: EventIndexBuilder;
+    
+    private gcTimeline = new GCTimelineBuilder();
+    private exceptionStats = new ExceptionStatsBuilder();
+    private contention = new ContentionBuilder();
+    private threadPool = new ThreadPoolTimelineBuilder();
+    private counters = new CounterSeriesBuilder();
+    private jitTimeline = new JitTimelineBuilder();
+    private logMessages = new LogMessageBuilder();
+    private aspNetRequests = new AspNetRequestBuilder();
+    private networkActivity = new NetworkActivityBuilder();
+    private databaseCommands = new DatabaseCommandBuilder();
+    private cpuSampleTimeline = new CpuSampleTimelineBuilder();
+    private allocationSampleTimeline = new AllocationSampleTimelineBuilder();
+    private currentBlockOffset: number = 0;
     
     // Debug counters
     private debugInfo = {
@@ -376,10 +452,29 @@ export class NetTraceParser {
         eventCountsByMetadataId: new Map<number, number>(),
     };
 
-    constructor(buffer: Buffer, debug: boolean = false) {
-        this.buffer = buffer;
-        this.reader = new BufferReader(buffer);
+    /**
+     * @param source Trace contents, or a file descriptor to stream the trace from
+     * @param indexPath File to write the event index to; it is kept in memory without one
+     */
+    constructor(source: Buffer | number, debug: boolean = false, indexPath?: string) {
+        this.streaming = typeof source === 'number';
+        this.reader = typeof source === 'number'
+            ? BufferReader.fromFile(source, debug)
+            : new BufferReader(source);
         this.debug = debug;
+        this.eventIndex = new EventIndexBuilder(indexPath);
+    }
+
+    /**
+     * Stream-parse a trace file without loading it into memory
+     */
+    static parseFile(filePath: string, debug: boolean = false): ParseResult {
+        const fd = fs.openSync(filePath, 'r');
+        try {
+            return new NetTraceParser(fd, debug).parse();
+        } finally {
+            fs.closeSync(fd);
+        }
     }
 
     parse(): ParseResult {
@@ -388,14 +483,35 @@ export class NetTraceParser {
             metadata: new Map(),
             allocations: new Map(),
             events: [],
+            eventIndex: new EventIndexBuilder().build(),
             stacks: new Map(),
             methods: new Map(),
             methodsByAddress: new Map(),
+            modules: new Map(),
+            ilToNativeMaps: new Map(),
+            gcs: [],
+            exceptions: [],
+            exceptionTimeline: [],
+            eventTimeline: [],
+            contentions: [],
+            threadPool: { workerThreads: [], ioThreads: [], workingThreads: [], throughput: [], adjustments: [] },
+            counters: [],
+            jit: { compilations: [], readyToRunMethods: 0 },
+            logs: [],
+            requests: { requests: [], unfinishedRequests: 0, connections: 0 },
+            network: { httpRequests: [], dnsLookups: [], socketConnects: [], httpConnections: [] },
+            database: { commands: [], unfinishedCommands: 0 },
             methodProfiles: new Map(),
+            cpuSamples: new Map(),
+            cpuSampleTimeline: new CpuSampleTimelineBuilder().build(null),
+            allocationSampleTimeline: new AllocationSampleTimelineBuilder().build(null),
             allocationSamples: new Map(),
             typeStackDistribution: new Map(),
+            threads: new Map(),
+            droppedEvents: new Map(),
             errors: [],
             debugInfo: {
+                formatVersion: this.fileVersion,
                 totalEvents: 0,
                 allocationEvents: 0,
                 providers: [],
@@ -406,17 +522,15 @@ export class NetTraceParser {
 
         try {
             // Validate magic header "Nettrace"
-            if (this.buffer.length < 32) {
+            if (this.reader.remaining < 32) {
                 throw new Error('File too small to be a valid .nettrace file');
             }
 
-            const magic = this.buffer.toString('utf8', 0, 8);
+            const magic = this.reader.readAsciiString(8);
             if (magic !== 'Nettrace') {
                 throw new Error('Invalid file: missing Nettrace magic header');
             }
 
-            this.reader.offset = 8;
-
             // Read serialization header: length-prefixed string "!FastSerialization.1"
             const headerLength = this.reader.readInt32LE();
             const headerString = this.reader.readAsciiString(headerLength);
@@ -435,8 +549,32 @@ export class NetTraceParser {
 
             result.metadata = this.metadata;
             result.stacks = this.stacks;
+            result.threads = this.threads;
+            result.droppedEvents = this.droppedEvents;
+            result.gcs = this.gcTimeline.build(result.traceInfo);
+            result.exceptions = this.exceptionStats.build(result.traceInfo);
+            result.contentions = this.contention.build(result.traceInfo);
+            result.threadPool = this.threadPool.build(result.traceInfo);
+            result.counters = this.counters.build(result.traceInfo);
+            result.jit = this.jitTimeline.build(result.traceInfo);
+            // Sorting the index into time order moves events, so entries pointing at them follow
+            result.eventIndex = this.eventIndex.build();
+            result.exceptionTimeline = this.exceptionStats.buildTimeline(result.traceInfo, result.eventIndex.lastTimestamp);
+            result.eventTimeline = this.eventIndex.buildTimeline(result.traceInfo);
+            result.logs = this.logMessages.build(result.traceInfo);
+            for (const log of result.logs) {
+                log.eventIndex = this.eventIndex.positionOf(log.eventIndex);
+            }
+            result.requests = this.aspNetRequests.build(result.traceInfo, result.logs);
+            result.network = this.networkActivity.build(result.traceInfo);
+            result.database = this.databaseCommands.build(result.traceInfo, result.logs);
+            result.cpuSampleTimeline = this.cpuSampleTimeline.build(result.traceInfo);
+            result.allocationSampleTimeline = this.allocationSampleTimeline.build(result.traceInfo);
             result.errors = this.errors;
             
+            this.inferMethodSizes(result);
+            this.resolveModules(result);
+            
             // Compute method profiles from CPU samples
             this.computeMethodProfiles(result);
             
@@ -451,6 +589,7 @@ export class NetTraceParser {
             }
             
             result.debugInfo = {
+                formatVersion: this.fileVersion,
                 totalEvents: this.debugInfo.totalEvents,
                 allocationEvents: this.debugInfo.allocationEvents,
                 providers: Array.from(this.debugInfo.providers),
@@ -461,6 +600,9 @@ export class NetTraceParser {
         } catch (err) {
             const errMsg = err instanceof Error ? err.message : String(err);
             result.errors.push(`Parse error: ${errMsg}`);
+        } finally {
+            // Always built, so the index file is closed even if parsing failed part way
+            result.eventIndex = this.eventIndex.build();
         }
 
         return result;
@@ -641,6 +783,10 @@ export class NetTraceParser {
         
         try {
             if (typeName === 'Trace') {
+                this.fileVersion = typeInfo.version;
+            }
+            
+            if (typeName === 'Trace' && this.fileVersion < NETTRACE_V5) {
                 // Trace object: payload is directly serialized fields
                 // SYSTEMTIME(16) + syncTimeTicks(8) + tickFreq(8) + pointerSize(4) + 
                 // processId(4) + numProcessors(4) + cpuSamplingRate(4) = 48 bytes
@@ -653,10 +799,11 @@ export class NetTraceParser {
                 return;
             }
             
-            // For block types (MetadataBlock, EventBlock, StackBlock, SPBlock):
+            // For block types (MetadataBlock, EventBlock, StackBlock, SPBlock, and V5 blocks):
             // BlockSize (int) + alignment padding + header + content
-            if (typeName === 'MetadataBlock' || typeName === 'EventBlock' || 
-                typeName === 'StackBlock' || typeName === 'SPBlock') {
+            if (typeName === 'Trace' || typeName === 'MetadataBlock' || typeName === 'EventBlock' || 
+                typeName === 'StackBlock' || typeName === 'SPBlock' || typeName === 'ThreadBlock' ||
+                typeName === 'RemoveThreadBlock' || typeName === 'LabelListBlock') {
                 
                 if (!this.reader.hasBytes(4)) {
                     return;
@@ -693,8 +840,16 @@ export class NetTraceParser {
                     return;
                 }
                 
+                this.currentBlockOffset = this.reader.offset;
                 const blockData = this.reader.readBytes(blockSize);
                 this.processBlock(typeInfo, blockData, result);
+                this.blocksProcessed++;
+                
+                this.onProgress?.({
+                    bytesConsumed: this.reader.offset,
+                    totalBytes: this.reader.offset + this.reader.remaining,
+                    blocksProcessed: this.blocksProcessed
+                });
                 
                 // After block content, there should be EndObject tag
                 this.skipToNextObject();
@@ -739,7 +894,9 @@ export class NetTraceParser {
         try {
             switch (typeName) {
                 case 'Trace':
-                    result.traceInfo = this.parseTraceBlob(data);
+                    result.traceInfo = this.fileVersion >= NETTRACE_V5
+                        ? this.parseTraceBlockV5(data)
+                        : this.parseTraceBlob(data);
                     break;
                 case 'MetadataBlock':
                     this.debugInfo.metadataBlocks++;
@@ -753,7 +910,17 @@ export class NetTraceParser {
                     this.parseStackBlock(data);
                     break;
                 case 'SPBlock':
-                    // Sequence point block - ignore for now
+                    this.parseSequencePointBlock(data);
+                    this.eventIndex.endRun();
+                    break;
+                case 'ThreadBlock':
+                    this.parseThreadBlock(data);
+                    break;
+                case 'RemoveThreadBlock':
+                    this.parseRemoveThreadBlock(data);
+                    break;
+                case 'LabelListBlock':
+                    this.parseLabelListBlock(data);
                     break;
                 default:
                     if (this.debug) {
@@ -802,6 +969,211 @@ export class NetTraceParser {
         };
     }
 
+    private parseTraceBlockV5(data: Buffer): TraceInfo {
+        // V5 Trace block: the V4 fields up to PointerSize, then
+        // KeyValueCount (int32) + [Key (string), Value (string)]...
+        // ProcessId, HardwareThreadCount, ExpectedCPUSamplingRate and CommandLine moved into the pairs
+        const reader = new BufferReader(data);
+        
+        const year = reader.readInt16LE();
+        const month = reader.readInt16LE();
+        reader.readInt16LE(); // dayOfWeek
+        const day = reader.readInt16LE();
+        const hour = reader.readInt16LE();
+        const minute = reader.readInt16LE();
+        const second = reader.readInt16LE();
+        const millisecond = reader.readInt16LE();
+        
+        const syncTimeUTC = new Date(Date.UTC(year, month - 1, day, hour, minute, second, millisecond));
+        const syncTimeTicks = reader.readInt64LE();
+        const tickFrequency = reader.readInt64LE();
+        this.pointerSize = reader.readInt32LE();
+        
+        const properties = new Map<string, string>();
+        const keyValueCount = reader.readInt32LE();
+        for (let i = 0; i < keyValueCount && reader.remaining > 0; i++) {
+            const key = reader.readVarString();
+            const value = reader.readVarString();
+            properties.set(key, value);
+        }
+        
+        const toNumber = (key: string): number | undefined => {
+            const value = properties.get(key);
+            const parsed = value !== undefined ? parseInt(value, 10) : NaN;
+            return isNaN(parsed) ? undefined : parsed;
+        };
+        
+        this.processId = toNumber('ProcessId') ?? 0;
+        
+        if (this.debug) {
+            console.log(`Trace (V5): time=${syncTimeUTC.toISOString()}, pointerSize=${this.pointerSize}, pid=${this.processId}, properties=${properties.size}`);
+        }
+        
+        return {
+            syncTimeUTC,
+            syncTimeTicks,
+            tickFrequency,
+            pointerSize: this.pointerSize,
+            processId: this.processId,
+            numberOfProcessors: toNumber('HardwareThreadCount'),
+            cpuSamplingRate: toNumber('ExpectedCPUSamplingRate'),
+            commandLine: properties.get('CommandLine'),
+            properties
+        };
+    }
+
+    private parseThreadBlock(data: Buffer): void {
+        // V5 ThreadBlock: [ThreadIndex (varuint64), Options...]...
+        // Each option is a kind byte followed by its value, terminated by ThreadOptionKind.End
+        const reader = new BufferReader(data);
+        
+        while (reader.remaining > 0) {
+            const threadIndex = reader.readVarUInt64();
+            const thread: ThreadInfo = { threadId: BigInt(0) };
+            
+            let kind = reader.readByte();
+            while (kind !== ThreadOptionKind.End) {
+                switch (kind) {
+                    case ThreadOptionKind.Name:
+                        thread.name = reader.readVarString();
+                        break;
+                    case ThreadOptionKind.ProcessId:
+                        thread.processId = reader.readVarUInt64();
+                        break;
+                    case ThreadOptionKind.ThreadId:
+                        thread.threadId = reader.readVarUInt64();
+                        break;
+                    case ThreadOptionKind.KeyValue:
+                        reader.readVarString(); // key
+                        reader.readVarString(); // value
+                        break;
+                    default:
+                        throw new Error(`Unknown thread option kind ${kind}`);
+                }
+                kind = reader.readByte();
+            }
+            
+            this.threadsByIndex.set(threadIndex, thread);
+            this.threads.set(thread.threadId, thread);
+            
+            if (this.debug) {
+                console.log(`  Thread[${threadIndex}]: tid=${thread.threadId}, name=${thread.name ?? ''}`);
+            }
+        }
+    }
+
+    private parseRemoveThreadBlock(data: Buffer): void {
+        // V5 RemoveThreadBlock: [ThreadIndex (varuint64), SequenceNumber (varuint32)]...
+        // Removed indexes may be reused by later ThreadBlocks
+        const reader = new BufferReader(data);
+        
+        while (reader.remaining > 0) {
+            const threadIndex = reader.readVarUInt64();
+            const sequenceNumber = reader.readVarUInt(); // sequenceNumber of the last event on this thread
+            this.checkSequencePoint(this.resolveThreadIndex(threadIndex), sequenceNumber);
+            this.threadsByIndex.delete(threadIndex);
+        }
+    }
+
+    private parseSequencePointBlock(data: Buffer): void {
+        // SPBlock: Timestamp (int64), ThreadCount (int32), then per thread:
+        // V4: CaptureThreadId (int64), SequenceNumber (int32)
+        // V5: ThreadIndex (varuint64), SequenceNumber (varuint32)
+        const reader = new BufferReader(data);
+        const isV5 = this.fileVersion >= NETTRACE_V5;
+        
+        reader.readInt64LE(); // timestamp
+        const threadCount = reader.readInt32LE();
+        
+        for (let i = 0; i < threadCount && reader.remaining > 0; i++) {
+            const captureThreadId = isV5
+                ? this.resolveThreadIndex(reader.readVarUInt64())
+                : reader.readInt64LE();
+            const sequenceNumber = isV5 ? reader.readVarUInt() : reader.readUInt32LE();
+            this.checkSequencePoint(captureThreadId, sequenceNumber);
+        }
+        
+        if (this.debug) {
+            console.log(`SPBlock: threads=${threadCount}, dropped so far=${Array.from(this.droppedEvents.values()).reduce((a, b) => a + b, 0)}`);
+        }
+    }
+
+    // An event's sequence number must follow the previous one written by its capture thread;
+    // any gap is the number of events EventPipe dropped on that thread
+    private trackSequenceNumber(captureThreadId: bigint, sequenceNumber: number): void {
+        const last = this.lastSequenceNumbers.get(captureThreadId) ?? 0;
+        const expected = (last + 1) >>> 0;
+        if (sequenceNumber !== expected && sequenceNumber > last) {
+            this.recordDroppedEvents(captureThreadId, sequenceNumber - expected);
+        }
+        if (sequenceNumber > last) {
+            this.lastSequenceNumbers.set(captureThreadId, sequenceNumber);
+        }
+    }
+
+    // A sequence point carries the last sequence number written by each thread;
+    // events between the last one we saw and that number never made it into the file
+    private checkSequencePoint(captureThreadId: bigint, sequenceNumber: number): void {
+        const last = this.lastSequenceNumbers.get(captureThreadId) ?? 0;
+        if (sequenceNumber > last) {
+            this.recordDroppedEvents(captureThreadId, sequenceNumber - last);
+            this.lastSequenceNumbers.set(captureThreadId, sequenceNumber);
+        }
+    }
+
+    private recordDroppedEvents(captureThreadId: bigint, count: number): void {
+        this.droppedEvents.set(captureThreadId, (this.droppedEvents.get(captureThreadId) || 0) + count);
+    }
+
+    private parseLabelListBlock(data: Buffer): void {
+        // V5 LabelListBlock: FirstIndex (int32), Count (int32), then Count label lists.
+        // Each label is a kind byte followed by its value; LAST_LABEL_FLAG marks the end of a list
+        const reader = new BufferReader(data);
+        const firstIndex = reader.readUInt32LE();
+        const count = reader.readUInt32LE();
+        
+        for (let i = 0; i < count && reader.remaining > 0; i++) {
+            const labels: LabelList = {};
+            let isLast = false;
+            
+            while (!isLast) {
+                const kindByte = reader.readByte();
+                isLast = (kindByte & LAST_LABEL_FLAG) !== 0;
+                
+                switch (kindByte & ~LAST_LABEL_FLAG) {
+                    case LabelKind.ActivityId:
+                        labels.activityId = reader.readGuid();
+                        break;
+                    case LabelKind.RelatedActivityId:
+                        labels.relatedActivityId = reader.readGuid();
+                        break;
+                    case LabelKind.TraceId:
+                        labels.traceId = reader.readBytes(16).toString('hex');
+                        break;
+                    case LabelKind.SpanId:
+                        labels.spanId = reader.readUInt64LE();
+                        break;
+                    case LabelKind.KeyValue: {
+                        const key = reader.readVarString();
+                        const value = reader.readVarString();
+                        labels.keyValues = labels.keyValues ?? new Map();
+                        labels.keyValues.set(key, value);
+                        break;
+                    }
+                    default:
+                        throw new Error(`Unknown label kind ${kindByte & ~LAST_LABEL_FLAG}`);
+                }
+            }
+            
+            this.labelLists.set(firstIndex + i, labels);
+        }
+    }
+
+    private resolveThreadIndex(threadIndex: bigint): bigint {
+        // Fall back to the index itself so events on unknown threads stay distinguishable
+        return this.threadsByIndex.get(threadIndex)?.threadId ?? threadIndex;
+    }
+
     private parseMetadataBlock(data: Buffer): void {
         const reader = new BufferReader(data);
         
@@ -820,6 +1192,18 @@ export class NetTraceParser {
         if (this.debug) {
             console.log(`MetadataBlock: headerSize=${headerSize}, flags=${flags}, compressed=${compressed}, remaining=${reader.remaining}`);
         }
+        
+        if (this.fileVersion >= NETTRACE_V5) {
+            // V5: metadata entries are stored directly as [PayloadSize (varuint32), Payload]...
+            while (reader.remaining > 0) {
+                const payloadSize = reader.readVarUInt();
+                if (!reader.hasBytes(payloadSize)) {
+                    break;
+                }
+                this.parseMetadataPayloadV5(reader.subReader(payloadSize));
+            }
+            return;
+        }
 
         // Parse metadata events (each one defines an event type)
         // Use a persistent header state object like PerfView does (passed by ref)
@@ -920,8 +1304,9 @@ export class NetTraceParser {
         }
         
         // Timestamp delta is ALWAYS read (not optional)
+        // Deltas can be negative (threads flush out of order) and are written as 64-bit unsigned
         const timestampDelta = reader.readVarUInt64();
-        state.timestamp += timestampDelta;
+        state.timestamp = BigInt.asIntN(64, state.timestamp + timestampDelta);
         
         // Bit 4 (0x10): ActivityId present
         if (flags & 0x10) {
@@ -962,7 +1347,7 @@ export class NetTraceParser {
         // - Version (int32)
         // - Level (int32)
         // - FieldCount (int32)
-        // - Fields: [TypeCode (int32), FieldName (null-terminated UTF16)]...
+        // - Fields: [TypeCode (int32), type details (see readFieldTypeV4), FieldName (null-terminated UTF16)]...
         
         try {
             if (this.debug) {
@@ -1001,13 +1386,22 @@ export class NetTraceParser {
                 }
                 
                 for (let i = 0; i < fieldCount && reader.remaining > 4; i++) {
-                    const typeCode = reader.readInt32LE();
-                    // For array types (19), read element type
-                    if (typeCode === 19 && reader.remaining >= 4) {
-                        reader.readInt32LE();
-                    }
-                    const fieldName = reader.readNullTerminatedUTF16();
-                    fields.push({ name: fieldName, typeCode });
+                    const field = this.readFieldTypeV4(reader);
+                    field.name = reader.readNullTerminatedUTF16();
+                    fields.push(field);
+                }
+            }
+
+            // Optional metadata tags: [TagPayloadBytes (int32), Tag (byte), payload]...
+            let opcode = 0;
+            while (reader.remaining >= 5) {
+                const tagPayloadBytes = reader.readInt32LE();
+                const tag = reader.readByte();
+                if (tag === METADATA_TAG_OPCODE && tagPayloadBytes >= 1) {
+                    opcode = reader.readByte();
+                    reader.skip(tagPayloadBytes - 1);
+                } else {
+                    reader.skip(tagPayloadBytes);
                 }
             }
 
@@ -1019,10 +1413,11 @@ export class NetTraceParser {
                 keywords,
                 version,
                 level,
-                opcode: 0,
+                opcode,
                 fields
             };
 
+            this.applyClrSchema(metadata);
             this.metadata.set(payloadMetadataId, metadata);
             
             if (this.debug) {
@@ -1036,6 +1431,150 @@ export class NetTraceParser {
         }
     }
 
+    private parseMetadataPayloadV5(reader: BufferReader): void {
+        // V5 metadata payload:
+        // - MetadataId (varuint32)
+        // - ProviderName (string)
+        // - EventId (varuint32)
+        // - EventName (string)
+        // - FieldCount (varuint32) + fields (see readFieldV5)
+        // - Optional metadata: [Kind (byte), Value]... terminated by MetadataOptionKind.End
+        try {
+            const metadataId = reader.readVarUInt();
+            const providerName = reader.readVarString();
+            const eventId = reader.readVarUInt();
+            const eventName = reader.readVarString();
+            
+            const fields: FieldMetadata[] = [];
+            const fieldCount = reader.readVarUInt();
+            for (let i = 0; i < fieldCount; i++) {
+                fields.push(this.readFieldV5(reader));
+            }
+            
+            const metadata: EventMetadata = {
+                metadataId,
+                providerName,
+                eventId,
+                eventName,
+                keywords: BigInt(0),
+                version: 0,
+                level: 0,
+                opcode: 0,
+                fields
+            };
+            
+            while (reader.remaining > 0) {
+                const kind = reader.readByte();
+                if (kind === MetadataOptionKind.End) {
+                    break;
+                }
+                switch (kind) {
+                    case MetadataOptionKind.OpCode:
+                        metadata.opcode = reader.readByte();
+                        break;
+                    case MetadataOptionKind.Keywords:
+                        metadata.keywords = reader.readUInt64LE();
+                        break;
+                    case MetadataOptionKind.Level:
+                        metadata.level = reader.readByte();
+                        break;
+                    case MetadataOptionKind.Version:
+                        metadata.version = reader.readByte();
+                        break;
+                    case MetadataOptionKind.MessageTemplate:
+                    case MetadataOptionKind.Description:
+                        reader.readVarString();
+                        break;
+                    case MetadataOptionKind.KeyValue:
+                        reader.readVarString(); // key
+                        reader.readVarString(); // value
+                        break;
+                    case MetadataOptionKind.ProviderGuid:
+                        reader.skip(16);
+                        break;
+                    default:
+                        throw new Error(`Unknown metadata option kind ${kind}`);
+                }
+            }
+            
+            this.debugInfo.providers.add(providerName);
+            this.applyClrSchema(metadata);
+            this.metadata.set(metadataId, metadata);
+            
+            if (this.debug) {
+                console.log(`Metadata[${metadataId}]: ${providerName}/${eventName} (id=${eventId}, opcode=${metadata.opcode})`);
+            }
+        } catch (err) {
+            // Metadata parsing failed - continue
+            if (this.debug) {
+                console.log(`Failed to parse V5 metadata payload: ${err}`);
+            }
+        }
+    }
+
+    private readFieldV5(reader: BufferReader): FieldMetadata {
+        // V5 field: Name (string) followed by its type (see readFieldTypeV5)
+        const name = reader.readVarString();
+        return this.readFieldTypeV5(reader, name);
+    }
+
+    private readFieldTypeV5(reader: BufferReader, name: string): FieldMetadata {
+        // TypeCode (varuint32), then for arrays the element type and for
+        // objects a nested FieldCount (varuint32) + fields
+        const field: FieldMetadata = { name, typeCode: reader.readVarUInt() };
+        
+        if (field.typeCode === EventTypeCode.Array) {
+            field.elementType = this.readFieldTypeV5(reader, '');
+        } else if (field.typeCode === EventTypeCode.Object) {
+            const nestedCount = reader.readVarUInt();
+            field.fields = [];
+            for (let i = 0; i < nestedCount; i++) {
+                field.fields.push(this.readFieldV5(reader));
+            }
+        }
+        
+        return field;
+    }
+
+    // Runtime events often ship without field metadata or event names: use the built-in schemas
+    private applyClrSchema(metadata: EventMetadata): void {
+        if (metadata.fields.length > 0 && metadata.eventName) {
+            return;
+        }
+        
+        const schema = getClrEventSchema(metadata.providerName, metadata.eventId, metadata.version);
+        if (!schema) {
+            return;
+        }
+        
+        if (!metadata.eventName) {
+            metadata.eventName = schema.eventName;
+        }
+        if (metadata.fields.length === 0) {
+            metadata.fields = schema.fields;
+        }
+    }
+
+    private readFieldTypeV4(reader: BufferReader): FieldMetadata {
+        // TypeCode (int32), then for arrays the element type and for
+        // objects a nested FieldCount (int32) + [type, FieldName]...
+        const field: FieldMetadata = { name: '', typeCode: reader.readInt32LE() };
+        
+        if (field.typeCode === EventTypeCode.Array) {
+            field.elementType = this.readFieldTypeV4(reader);
+        } else if (field.typeCode === EventTypeCode.Object) {
+            const nestedCount = reader.readInt32LE();
+            field.fields = [];
+            for (let i = 0; i < nestedCount; i++) {
+                const nested = this.readFieldTypeV4(reader);
+                nested.name = reader.readNullTerminatedUTF16();
+                field.fields.push(nested);
+            }
+        }
+        
+        return field;
+    }
+
     private parseEventBlock(data: Buffer, result: ParseResult): void {
         const reader = new BufferReader(data);
         
@@ -1070,6 +1609,9 @@ export class NetTraceParser {
         let prevStackId = 0;
         let prevTimestamp = BigInt(0);
         let prevPayloadSize = 0;
+        let prevActivityId: string | undefined;
+        let prevLabelListId = 0;
+        const isV5 = this.fileVersion >= NETTRACE_V5;
 
         while (reader.remaining > 0) {
             try {
@@ -1085,16 +1627,27 @@ export class NetTraceParser {
                     }
 
                     // Bit 1: Sequence/CaptureThread/Processor present
+                    // (V5: the capture thread is a thread index)
+                    let sequenceNumber: number;
+                    let captureThreadId: bigint;
                     if (eventFlags & 0x02) {
-                        reader.readVarUInt(); // sequenceDelta
-                        reader.readVarInt64(); // captureThreadId
+                        sequenceNumber = (prevSequenceNumber + reader.readVarUInt() + 1) >>> 0;
+                        captureThreadId = isV5
+                            ? this.resolveThreadIndex(reader.readVarUInt64())
+                            : reader.readVarInt64();
                         reader.readVarUInt(); // processorNumber
+                    } else {
+                        // Same capture thread: the sequence number is implicitly incremented
+                        sequenceNumber = metadataId !== 0 ? (prevSequenceNumber + 1) >>> 0 : prevSequenceNumber;
+                        captureThreadId = prevCaptureThreadId;
                     }
 
-                    // Bit 2: ThreadId present
+                    // Bit 2: ThreadId present (V5: thread index into the thread table)
                     let threadId: bigint;
                     if (eventFlags & 0x04) {
-                        threadId = reader.readVarInt64();
+                        threadId = isV5
+                            ? this.resolveThreadIndex(reader.readVarUInt64())
+                            : reader.readVarInt64();
                     } else {
                         threadId = prevThreadId;
                     }
@@ -1107,17 +1660,26 @@ export class NetTraceParser {
                         stackId = prevStackId;
                     }
 
-                    // Timestamp delta always present (unsigned)
+                    // Timestamp delta always present; written unsigned but may be negative, so wrap to 64 bits
                     const timestampDelta = reader.readVarUInt64();
-                    const timestamp = prevTimestamp + timestampDelta;
+                    const timestamp = BigInt.asIntN(64, prevTimestamp + timestampDelta);
 
-                    // Bit 4: ActivityId present
+                    // Bit 4: ActivityId present (V5: LabelListId)
+                    let activityId = prevActivityId;
+                    let labelListId = prevLabelListId;
                     if (eventFlags & 0x10) {
-                        reader.skip(16);
+                        if (isV5) {
+                            labelListId = reader.readVarUInt();
+                        } else {
+                            activityId = readActivityId(reader);
+                        }
+                    }
+                    if (isV5) {
+                        activityId = labelListId !== 0 ? this.labelLists.get(labelListId)?.activityId : undefined;
                     }
                     
-                    // Bit 5: RelatedActivityId present
-                    if (eventFlags & 0x20) {
+                    // Bit 5: RelatedActivityId present (unused in V5)
+                    if (eventFlags & 0x20 && !isV5) {
                         reader.skip(16);
                     }
 
@@ -1129,17 +1691,27 @@ export class NetTraceParser {
                         payloadSize = prevPayloadSize;
                     }
 
-                    if (payloadSize > 0 && reader.hasBytes(payloadSize)) {
+                    // Events without arguments (such as most Stop events) have an empty payload
+                    if (reader.hasBytes(payloadSize)) {
+                        const payloadOffset = this.currentBlockOffset + reader.offset;
                         const payload = reader.readBytes(payloadSize);
-                        this.processEvent(metadataId, threadId, timestamp, stackId, payload, result);
+                        this.processEvent(metadataId, threadId, timestamp, stackId, payload, payloadOffset, result, activityId);
+                    }
+                    
+                    if (metadataId !== 0) {
+                        this.trackSequenceNumber(captureThreadId, sequenceNumber);
                     }
 
                     // Update state for next event
                     prevMetadataId = metadataId;
+                    prevSequenceNumber = sequenceNumber;
+                    prevCaptureThreadId = captureThreadId;
                     prevThreadId = threadId;
                     prevStackId = stackId;
                     prevTimestamp = timestamp;
                     prevPayloadSize = payloadSize;
+                    prevActivityId = activityId;
+                    prevLabelListId = labelListId;
                 } else {
                     // Uncompressed format (V3 and earlier or when flags say uncompressed)
                     if (!reader.hasBytes(4)) { break; }
@@ -1151,19 +1723,23 @@ export class NetTraceParser {
                     
                     const metadataIdWithFlags = reader.readUInt32LE();
                     const metadataId = metadataIdWithFlags & 0x7FFFFFFF;
-                    reader.readUInt32LE(); // sequenceNumber
+                    const sequenceNumber = reader.readUInt32LE();
                     const threadId = reader.readUInt64LE();
-                    reader.readUInt64LE(); // captureThreadId
+                    const captureThreadId = reader.readUInt64LE();
                     reader.readUInt32LE(); // processorNumber
                     const stackId = reader.readUInt32LE();
                     const timestamp = reader.readUInt64LE();
-                    reader.skip(32); // activityId + relatedActivityId
+                    const activityId = readActivityId(reader);
+                    reader.skip(16); // relatedActivityId
                     const payloadSize = reader.readUInt32LE();
 
-                    if (payloadSize > 0 && reader.hasBytes(payloadSize)) {
+                    if (reader.hasBytes(payloadSize)) {
+                        const payloadOffset = this.currentBlockOffset + reader.offset;
                         const payload = reader.readBytes(payloadSize);
-                        this.processEvent(metadataId, threadId, timestamp, stackId, payload, result);
+                        this.processEvent(metadataId, threadId, timestamp, stackId, payload, payloadOffset, result, activityId);
                     }
+                    
+                    this.trackSequenceNumber(captureThreadId, sequenceNumber);
 
                     // Align to 4-byte boundary
                     const consumed = reader.offset - startOffset;
@@ -1178,8 +1754,10 @@ export class NetTraceParser {
     }
 
     private processEvent(metadataId: number, threadId: bigint, timestamp: bigint,
-                         stackId: number, payload: Buffer, result: ParseResult): void {
+                         stackId: number, payload: Buffer, payloadOffset: number, result: ParseResult,
+                         activityId?: string): void {
         this.debugInfo.totalEvents++;
+        const eventIndex = this.eventIndex.append(metadataId, threadId, timestamp, stackId, payloadOffset, payload.length);
         
         // Track event counts by metadataId
         this.debugInfo.eventCountsByMetadataId.set(
@@ -1187,6 +1765,11 @@ export class NetTraceParser {
             (this.debugInfo.eventCountsByMetadataId.get(metadataId) || 0) + 1
         );
         
+        // Raw events are only retained when parsing from memory
+        if (!this.streaming) {
+            result.events.push({ metadataId, threadId, timestamp, stackId, payload });
+        }
+        
         const meta = this.metadata.get(metadataId);
         
         if (meta) {
@@ -1194,279 +1777,423 @@ export class NetTraceParser {
             if (meta.providerName === DOTNET_RUNTIME_PROVIDER) {
                 if (meta.eventId === GC_ALLOCATION_TICK_EVENT_ID) {
                     this.debugInfo.allocationEvents++;
-                    this.parseAllocationEvent(payload, timestamp, stackId, result);
+                    this.parseAllocationEvent(this.decodeEvent(meta, payload), threadId, timestamp, stackId, result);
+                } else if (meta.eventId === GC_START_EVENT_ID) {
+                    this.gcTimeline.gcStart(this.decodeEvent(meta, payload), timestamp);
+                } else if (meta.eventId === GC_END_EVENT_ID) {
+                    this.gcTimeline.gcEnd(this.decodeEvent(meta, payload), timestamp);
+                } else if (meta.eventId === GC_HEAP_STATS_EVENT_ID) {
+                    this.gcTimeline.heapStats(this.decodeEvent(meta, payload), timestamp);
+                } else if (meta.eventId === GC_SUSPEND_EE_BEGIN_EVENT_ID) {
+                    this.gcTimeline.suspendBegin(this.decodeEvent(meta, payload), timestamp);
+                } else if (meta.eventId === GC_SUSPEND_EE_END_EVENT_ID) {
+                    this.gcTimeline.suspendEnd(timestamp);
+                } else if (meta.eventId === GC_RESTART_EE_END_EVENT_ID) {
+                    this.gcTimeline.restartEnd(timestamp);
+                } else if (meta.eventId === EXCEPTION_THROWN_EVENT_ID) {
+                    this.exceptionStats.thrown(this.decodeEvent(meta, payload), threadId, timestamp, stackId);
+                } else if (meta.eventId === EXCEPTION_CATCH_START_EVENT_ID) {
+                    this.exceptionStats.catchStart(this.decodeEvent(meta, payload), threadId);
+                } else if (meta.eventId === EXCEPTION_FILTER_START_EVENT_ID) {
+                    this.exceptionStats.filterStart(this.decodeEvent(meta, payload), threadId, timestamp);
+                } else if (meta.eventId === EXCEPTION_FINALLY_START_EVENT_ID) {
+                    this.exceptionStats.finallyStart(this.decodeEvent(meta, payload), threadId, timestamp);
+                } else if (meta.eventId === EXCEPTION_FILTER_STOP_EVENT_ID || meta.eventId === EXCEPTION_FINALLY_STOP_EVENT_ID) {
+                    this.exceptionStats.handlerStop(threadId, timestamp);
+                } else if (meta.eventId === CONTENTION_START_EVENT_ID) {
+                    this.contention.start(this.decodeEvent(meta, payload), threadId, timestamp, stackId);
+                } else if (meta.eventId === CONTENTION_STOP_EVENT_ID) {
+                    this.contention.stop(this.decodeEvent(meta, payload), threadId, timestamp);
+                } else if (THREAD_POOL_WORKER_EVENT_IDS.has(meta.eventId)) {
+                    this.threadPool.workerThreadEvent(this.decodeEvent(meta, payload), timestamp);
+                } else if (IO_THREAD_EVENT_IDS.has(meta.eventId)) {
+                    this.threadPool.ioThreadEvent(this.decodeEvent(meta, payload), timestamp);
+                } else if (meta.eventId === THREAD_POOL_ADJUSTMENT_SAMPLE_EVENT_ID) {
+                    this.threadPool.adjustmentSample(this.decodeEvent(meta, payload), timestamp);
+                } else if (meta.eventId === THREAD_POOL_ADJUSTMENT_EVENT_ID) {
+                    this.threadPool.adjustment(this.decodeEvent(meta, payload), timestamp);
+                } else if (meta.eventId === THREAD_POOL_MIN_MAX_THREADS_EVENT_ID) {
+                    this.threadPool.minMaxThreads(this.decodeEvent(meta, payload));
+                } else if (meta.eventId === THREAD_POOL_WORKING_THREAD_COUNT_EVENT_ID) {
+                    this.threadPool.workingThreadCount(this.decodeEvent(meta, payload), timestamp);
                 } else if (meta.eventId === METHOD_LOAD_VERBOSE_EVENT_ID) {
-                    this.parseMethodLoadVerboseEvent(payload, result);
+                    const fields = this.decodeEvent(meta, payload);
+                    this.parseMethodLoadVerboseEvent(fields, result);
+                    this.jitTimeline.methodLoad(fields, threadId, timestamp);
                 } else if (meta.eventId === METHOD_JITTING_STARTED_EVENT_ID) {
-                    this.parseMethodJittingStartedEvent(payload, result);
+                    const fields = this.decodeEvent(meta, payload);
+                    this.parseMethodJittingStartedEvent(fields, result);
+                    this.jitTimeline.jittingStarted(fields, threadId, timestamp);
+                } else if (meta.eventId === R2R_GET_ENTRY_POINT_EVENT_ID) {
+                    const fields = this.decodeEvent(meta, payload);
+                    this.parseR2RGetEntryPointEvent(fields, result);
+                    this.jitTimeline.readyToRunEntryPoint(fields);
+                } else if (meta.eventId === METHOD_IL_TO_NATIVE_MAP_EVENT_ID) {
+                    this.parseILToNativeMapEvent(payload, result);
+                } else if (meta.eventId === MODULE_LOAD_EVENT_ID || meta.eventId === DOMAIN_MODULE_LOAD_EVENT_ID) {
+                    this.parseModuleLoadEvent(this.decodeEvent(meta, payload), result);
+                } else if (meta.eventId === ASSEMBLY_LOAD_EVENT_ID) {
+                    this.parseAssemblyLoadEvent(this.decodeEvent(meta, payload));
                 }
             }
             
-            // Handle Rundown provider method events (MethodDCEndVerbose has same format)
+            // Handle Rundown provider method and loader events (same formats as their runtime counterparts)
             if (meta.providerName === DOTNET_RUNTIME_RUNDOWN_PROVIDER) {
                 if (meta.eventId === METHOD_DC_END_VERBOSE_EVENT_ID) {
-                    this.parseMethodLoadVerboseEvent(payload, result);
+                    this.parseMethodLoadVerboseEvent(this.decodeEvent(meta, payload), result);
+                } else if (meta.eventId === METHOD_DC_START_IL_TO_NATIVE_MAP_EVENT_ID || meta.eventId === METHOD_DC_END_IL_TO_NATIVE_MAP_EVENT_ID) {
+                    this.parseILToNativeMapEvent(payload, result);
+                } else if (meta.eventId === MODULE_DC_START_EVENT_ID || meta.eventId === MODULE_DC_END_EVENT_ID ||
+                           meta.eventId === DOMAIN_MODULE_DC_START_EVENT_ID || meta.eventId === DOMAIN_MODULE_DC_END_EVENT_ID) {
+                    this.parseModuleLoadEvent(this.decodeEvent(meta, payload), result);
+                } else if (meta.eventId === ASSEMBLY_DC_START_EVENT_ID || meta.eventId === ASSEMBLY_DC_END_EVENT_ID) {
+                    this.parseAssemblyLoadEvent(this.decodeEvent(meta, payload));
                 }
             }
             
             // Track CPU samples from SampleProfiler
             if (meta.providerName === SAMPLE_PROFILER_PROVIDER) {
-                this.processCpuSample(stackId, timestamp, result);
+                this.processCpuSample(threadId, stackId, timestamp, result);
             }
-        }
-    }
-
-    private parseMethodLoadVerboseEvent(payload: Buffer, result: ParseResult): void {
-        // MethodLoadVerbose event payload (Event ID 143):
-        // MethodID: UInt64, ModuleID: UInt64, MethodStartAddress: UInt64, MethodSize: UInt32,
-        // MethodToken: UInt32, MethodFlags: UInt32, MethodNamespace: string, MethodName: string,
-        // MethodSignature: string, ClrInstanceID: UInt16
-        try {
-            const reader = new BufferReader(payload);
-            
-            const methodId = reader.readUInt64LE();
-            const moduleId = reader.readUInt64LE();
-            const methodStartAddress = reader.readUInt64LE();
-            const methodSize = reader.readUInt32LE();
-            const methodToken = reader.readUInt32LE();
-            const methodFlags = reader.readUInt32LE();
-            const methodNamespace = reader.readNullTerminatedUTF16();
-            const methodName = reader.readNullTerminatedUTF16();
-            const methodSignature = reader.readNullTerminatedUTF16();
             
-            const methodInfo: MethodInfo = {
-                methodId,
-                moduleId,
-                methodStartAddress,
-                methodSize,
-                methodToken,
-                methodFlags,
-                methodNamespace,
-                methodName,
-                methodSignature
-            };
+            // Counter values from any EventSource with counters enabled
+            if (meta.eventName === EVENT_COUNTERS_EVENT_NAME) {
+                this.counters.counterEvent(meta.providerName, this.decodeEvent(meta, payload), timestamp);
+            }
             
-            result.methods.set(methodId, methodInfo);
-            result.methodsByAddress.set(methodStartAddress, methodInfo);
+            // ILogger entries
+            if (meta.providerName === EXTENSIONS_LOGGING_PROVIDER) {
+                this.eventIndex.track(eventIndex);
+                if (meta.eventName === LOG_FORMATTED_MESSAGE_EVENT_NAME) {
+                    this.logMessages.formattedMessage(this.decodeEvent(meta, payload), eventIndex, threadId, timestamp);
+                } else if (meta.eventName === LOG_MESSAGE_JSON_EVENT_NAME) {
+                    this.logMessages.messageJson(this.decodeEvent(meta, payload), eventIndex, threadId, timestamp);
+                }
+            }
             
-            if (this.debug) {
-                console.log(`  Method loaded: ${methodNamespace}.${methodName} at 0x${methodStartAddress.toString(16)}`);
+            // ASP.NET Core requests
+            if (meta.providerName === ASPNETCORE_HOSTING_PROVIDER) {
+                if (meta.eventId === HOSTING_REQUEST_START_EVENT_ID) {
+                    this.aspNetRequests.hostingRequestStart(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                } else if (meta.eventId === HOSTING_REQUEST_STOP_EVENT_ID) {
+                    this.aspNetRequests.hostingRequestStop(threadId, timestamp, activityId);
+                } else if (meta.eventId === HOSTING_UNHANDLED_EXCEPTION_EVENT_ID) {
+                    this.aspNetRequests.hostingUnhandledException(threadId, timestamp, activityId);
+                }
+            } else if (meta.providerName === KESTREL_PROVIDER) {
+                if (meta.eventId === KESTREL_CONNECTION_START_EVENT_ID) {
+                    this.aspNetRequests.kestrelConnectionStart(this.decodeEvent(meta, payload), threadId, timestamp);
+                } else if (meta.eventId === KESTREL_CONNECTION_STOP_EVENT_ID) {
+                    this.aspNetRequests.kestrelConnectionStop(this.decodeEvent(meta, payload), threadId, timestamp);
+                } else if (meta.eventId === KESTREL_REQUEST_START_EVENT_ID) {
+                    this.aspNetRequests.kestrelRequestStart(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                } else if (meta.eventId === KESTREL_REQUEST_STOP_EVENT_ID) {
+                    this.aspNetRequests.kestrelRequestStop(this.decodeEvent(meta, payload), threadId, timestamp);
+                }
             }
-        } catch (err) {
-            // Method load parsing failed
-            if (this.debug) {
-                console.log(`Failed to parse MethodLoadVerbose event: ${err}`);
+
+            // Outgoing network activity
+            if (meta.providerName === NET_HTTP_PROVIDER) {
+                if (meta.eventId === HTTP_REQUEST_START_EVENT_ID) {
+                    this.networkActivity.httpRequestStart(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                } else if (meta.eventId === HTTP_REQUEST_STOP_EVENT_ID) {
+                    this.networkActivity.httpRequestStop(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                } else if (meta.eventId === HTTP_REQUEST_FAILED_EVENT_ID) {
+                    this.networkActivity.httpRequestFailed(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                } else if (meta.eventId === HTTP_CONNECTION_ESTABLISHED_EVENT_ID) {
+                    this.networkActivity.httpConnectionEstablished(this.decodeEvent(meta, payload), threadId, timestamp);
+                } else if (meta.eventId === HTTP_REQUEST_LEFT_QUEUE_EVENT_ID) {
+                    this.networkActivity.httpRequestLeftQueue(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                }
+            } else if (meta.providerName === NET_NAME_RESOLUTION_PROVIDER) {
+                if (meta.eventId === DNS_RESOLUTION_START_EVENT_ID) {
+                    this.networkActivity.dnsStart(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                } else if (meta.eventId === DNS_RESOLUTION_STOP_EVENT_ID) {
+                    this.networkActivity.dnsStop(threadId, timestamp, activityId);
+                } else if (meta.eventId === DNS_RESOLUTION_FAILED_EVENT_ID) {
+                    this.networkActivity.dnsFailed(threadId, timestamp, activityId);
+                }
+            } else if (meta.providerName === NET_SOCKETS_PROVIDER) {
+                if (meta.eventId === SOCKET_CONNECT_START_EVENT_ID) {
+                    this.networkActivity.socketConnectStart(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                } else if (meta.eventId === SOCKET_CONNECT_STOP_EVENT_ID) {
+                    this.networkActivity.socketConnectStop(threadId, timestamp, activityId);
+                } else if (meta.eventId === SOCKET_CONNECT_FAILED_EVENT_ID) {
+                    this.networkActivity.socketConnectFailed(this.decodeEvent(meta, payload), threadId, timestamp, activityId);
+                }
+            }
+
+            // Database commands
+            if (meta.providerName === SQLCLIENT_PROVIDER || meta.providerName === SYSTEM_DATA_SQLCLIENT_PROVIDER) {
+                if (meta.eventId === SQLCLIENT_BEGIN_EXECUTE_EVENT_ID) {
+                    this.databaseCommands.beginExecute(this.decodeEvent(meta, payload), threadId, timestamp);
+                } else if (meta.eventId === SQLCLIENT_END_EXECUTE_EVENT_ID) {
+                    this.databaseCommands.endExecute(this.decodeEvent(meta, payload), threadId, timestamp);
+                }
             }
         }
     }
-    
-    private parseMethodJittingStartedEvent(payload: Buffer, result: ParseResult): void {
-        // MethodJittingStarted event payload (Event ID 145):
-        // MethodID: UInt64, ModuleID: UInt64, MethodToken: UInt32, MethodILSize: UInt32,
-        // MethodNamespace: string, MethodName: string, MethodSignature: string, ClrInstanceID: UInt16
-        try {
-            const reader = new BufferReader(payload);
-            
-            const methodId = reader.readUInt64LE();
-            const moduleId = reader.readUInt64LE();
-            const methodToken = reader.readUInt32LE();
-            reader.readUInt32LE(); // methodILSize
-            const methodNamespace = reader.readNullTerminatedUTF16();
-            const methodName = reader.readNullTerminatedUTF16();
-            const methodSignature = reader.readNullTerminatedUTF16();
-            
-            // Only add if we don't have it from MethodLoadVerbose (which has more info)
-            if (!result.methods.has(methodId)) {
-                const methodInfo: MethodInfo = {
-                    methodId,
-                    moduleId,
-                    methodStartAddress: BigInt(0),
-                    methodSize: 0,
-                    methodToken,
-                    methodFlags: 0,
-                    methodNamespace,
-                    methodName,
-                    methodSignature
-                };
-                
-                result.methods.set(methodId, methodInfo);
-            }
-        } catch (err) {
-            // Method jitting parsing failed
-            if (this.debug) {
-                console.log(`Failed to parse MethodJittingStarted event: ${err}`);
-            }
+
+    private decodeEvent(meta: EventMetadata, payload: Buffer): PayloadStruct {
+        return decodePayload(payload, meta.fields, this.pointerSize);
+    }
+
+    private parseMethodLoadVerboseEvent(fields: PayloadStruct, result: ParseResult): void {
+        // MethodLoadVerbose / MethodDCEndVerbose: MethodID, ModuleID, MethodStartAddress, MethodSize,
+        // MethodToken, MethodFlags, MethodNamespace, MethodName, MethodSignature, ClrInstanceID
+        const methodId = getBigInt(fields, 'MethodID');
+        if (methodId === undefined) {
+            return;
+        }
+        
+        const methodInfo: MethodInfo = {
+            methodId,
+            moduleId: getBigInt(fields, 'ModuleID') ?? BigInt(0),
+            methodStartAddress: getBigInt(fields, 'MethodStartAddress') ?? BigInt(0),
+            methodSize: getNumber(fields, 'MethodSize') ?? 0,
+            methodToken: getNumber(fields, 'MethodToken') ?? 0,
+            methodFlags: getNumber(fields, 'MethodFlags') ?? 0,
+            methodNamespace: getString(fields, 'MethodNamespace') ?? '',
+            methodName: getString(fields, 'MethodName') ?? '',
+            methodSignature: getString(fields, 'MethodSignature') ?? ''
+        };
+        
+        result.methods.set(methodId, methodInfo);
+        result.methodsByAddress.set(methodInfo.methodStartAddress, methodInfo);
+        
+        const ilMap = this.pendingILToNativeMaps.get(methodId);
+        if (ilMap) {
+            result.ilToNativeMaps.set(methodInfo.methodStartAddress, ilMap);
+            this.pendingILToNativeMaps.delete(methodId);
+        } else {
+            this.unmappedMethodStarts.set(methodId, methodInfo.methodStartAddress);
+        }
+        
+        if (this.debug) {
+            console.log(`  Method loaded: ${methodInfo.methodNamespace}.${methodInfo.methodName} at 0x${methodInfo.methodStartAddress.toString(16)}`);
         }
     }
     
-    private cpuSamples: Map<number, number> = new Map();  // stackId -> sample count
+    private parseR2RGetEntryPointEvent(fields: PayloadStruct, result: ParseResult): void {
+        // R2RGetEntryPoint: MethodID, MethodNamespace, MethodName, MethodSignature, EntryPoint, ClrInstanceID.
+        // No size or module is reported; the size is inferred once all code addresses are known.
+        const methodId = getBigInt(fields, 'MethodID');
+        const entryPoint = getBigInt(fields, 'EntryPoint');
+        if (methodId === undefined || !entryPoint) {
+            return;
+        }
+        
+        const existing = result.methods.get(methodId);
+        const methodInfo: MethodInfo = {
+            methodId,
+            moduleId: existing?.moduleId ?? BigInt(0),
+            methodStartAddress: entryPoint,
+            methodSize: 0,
+            methodToken: existing?.methodToken ?? 0,
+            methodFlags: 0,
+            methodNamespace: getString(fields, 'MethodNamespace') ?? '',
+            methodName: getString(fields, 'MethodName') ?? '',
+            methodSignature: getString(fields, 'MethodSignature') ?? ''
+        };
+        
+        // Keep a later MethodLoadVerbose (e.g. tier-1 rejit) as the primary entry; the R2R code
+        // stays resolvable through methodsByAddress either way
+        if (!existing || existing.methodStartAddress === BigInt(0)) {
+            result.methods.set(methodId, methodInfo);
+        }
+        result.methodsByAddress.set(entryPoint, methodInfo);
+    }
     
-    private processCpuSample(stackId: number, timestamp: bigint, result: ParseResult): void {
-        // Each sample from SampleProfiler represents one CPU sample at this stack
-        if (stackId > 0) {
-            this.cpuSamples.set(stackId, (this.cpuSamples.get(stackId) || 0) + 1);
+    private parseILToNativeMapEvent(payload: Buffer, result: ParseResult): void {
+        // MethodILToNativeMap / MethodDCStart/EndILToNativeMap: MethodID, ReJITID, MethodExtent,
+        // CountOfMapEntries, ILOffsets[count], NativeOffsets[count], ClrInstanceID. Read by hand since
+        // the arrays are sized by an earlier field.
+        const reader = new BufferReader(payload);
+        if (!reader.hasBytes(19)) {
+            return;
+        }
+        const methodId = reader.readUInt64LE();
+        reader.skip(8);  // ReJITID
+        const methodExtent = reader.readByte();
+        const count = reader.readUInt16LE();
+        if (methodExtent !== 0 || !reader.hasBytes(count * 8)) {
+            return;  // Only the main (hot) code region is tracked
+        }
+        
+        const ilMap: ILToNativeMap = { ilOffsets: [], nativeOffsets: [] };
+        for (let i = 0; i < count; i++) {
+            ilMap.ilOffsets.push(reader.readInt32LE());
+        }
+        for (let i = 0; i < count; i++) {
+            ilMap.nativeOffsets.push(reader.readUInt32LE());
+        }
+        
+        const methodStartAddress = this.unmappedMethodStarts.get(methodId);
+        if (methodStartAddress !== undefined) {
+            result.ilToNativeMaps.set(methodStartAddress, ilMap);
+            this.unmappedMethodStarts.delete(methodId);
+        } else {
+            this.pendingILToNativeMaps.set(methodId, ilMap);
         }
     }
     
-    private computeMethodProfiles(result: ParseResult): void {
-        // Build a sorted list of method addresses for binary search lookup
-        const methodAddresses: Array<{ address: bigint, endAddress: bigint, method: MethodInfo }> = [];
-        for (const method of result.methods.values()) {
-            if (method.methodStartAddress > 0) {
-                methodAddresses.push({
-                    address: method.methodStartAddress,
-                    endAddress: method.methodStartAddress + BigInt(method.methodSize),
-                    method
-                });
+    /**
+     * Give methods without a reported size (ReadyToRun entry points) the space up to the next
+     * known code address. Precompiled methods are laid out back to back in their image.
+     */
+    private inferMethodSizes(result: ParseResult): void {
+        const starts = Array.from(result.methodsByAddress.keys())
+            .sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+        for (let i = 0; i < starts.length; i++) {
+            const method = result.methodsByAddress.get(starts[i])!;
+            if (method.methodSize > 0) {
+                continue;
             }
+            const gap = i + 1 < starts.length ? starts[i + 1] - starts[i] : BigInt(MAX_INFERRED_METHOD_SIZE);
+            method.methodSize = gap < BigInt(MAX_INFERRED_METHOD_SIZE) ? Number(gap) : MAX_INFERRED_METHOD_SIZE;
+        }
+    }
+    
+    private parseModuleLoadEvent(fields: PayloadStruct, result: ParseResult): void {
+        // ModuleLoad / ModuleDCStart / ModuleDCEnd: ModuleID, AssemblyID, ModuleFlags, Reserved1,
+        // ModuleILPath, ModuleNativePath, ClrInstanceID, then (V2) managed and native PDB identities.
+        // DomainModuleLoad has the same fields plus AppDomainID but no PDB identities.
+        const moduleId = getBigInt(fields, 'ModuleID');
+        if (moduleId === undefined) {
+            return;
         }
-        methodAddresses.sort((a, b) => a.address < b.address ? -1 : a.address > b.address ? 1 : 0);
-        
-        // Function to find method by address
-        const findMethodByAddress = (addr: bigint): MethodInfo | undefined => {
-            // Binary search for the method containing this address
-            let left = 0;
-            let right = methodAddresses.length - 1;
-            while (left <= right) {
-                const mid = Math.floor((left + right) / 2);
-                const entry = methodAddresses[mid];
-                if (addr >= entry.address && addr < entry.endAddress) {
-                    return entry.method;
-                } else if (addr < entry.address) {
-                    right = mid - 1;
-                } else {
-                    left = mid + 1;
-                }
-            }
-            return undefined;
-        };
         
-        // Create a helper to get full method name
-        const getMethodFullName = (method: MethodInfo): string => {
-            if (method.methodNamespace) {
-                return `${method.methodNamespace}.${method.methodName}`;
-            }
-            return method.methodName || `Method_0x${method.methodStartAddress.toString(16)}`;
+        // A module is usually reported more than once (load, domain load, rundown); keep what we know
+        const existing = result.modules.get(moduleId);
+        const module: ModuleInfo = {
+            ...existing,
+            moduleId,
+            assemblyId: getBigInt(fields, 'AssemblyID') ?? existing?.assemblyId ?? BigInt(0),
+            moduleFlags: getNumber(fields, 'ModuleFlags') ?? existing?.moduleFlags ?? 0,
+            ilPath: getString(fields, 'ModuleILPath') || existing?.ilPath || '',
+            nativePath: getString(fields, 'ModuleNativePath') || existing?.nativePath || ''
         };
         
-        // Aggregate samples across all stacks
-        const inclusiveCounts = new Map<string, number>();
-        const exclusiveCounts = new Map<string, number>();
-        let totalSamples = 0;
+        const managedPdbSignature = getString(fields, 'ManagedPdbSignature');
+        if (managedPdbSignature !== undefined) {
+            module.managedPdbSignature = managedPdbSignature;
+            module.managedPdbAge = getNumber(fields, 'ManagedPdbAge');
+            module.managedPdbBuildPath = getString(fields, 'ManagedPdbBuildPath');
+        }
+        const nativePdbSignature = getString(fields, 'NativePdbSignature');
+        if (nativePdbSignature !== undefined) {
+            module.nativePdbSignature = nativePdbSignature;
+            module.nativePdbAge = getNumber(fields, 'NativePdbAge');
+            module.nativePdbBuildPath = getString(fields, 'NativePdbBuildPath');
+        }
+        
+        result.modules.set(moduleId, module);
         
-        for (const [stackId, sampleCount] of this.cpuSamples) {
-            const stack = this.stacks.get(stackId);
-            if (!stack || stack.addresses.length === 0) {
+        if (this.debug) {
+            console.log(`  Module loaded: ${module.ilPath} (id=0x${moduleId.toString(16)})`);
+        }
+    }
+    
+    private parseAssemblyLoadEvent(fields: PayloadStruct): void {
+        // AssemblyLoad / AssemblyDCStart / AssemblyDCEnd: AssemblyID, AppDomainID, (V1) BindingID,
+        // AssemblyFlags, FullyQualifiedAssemblyName, ClrInstanceID
+        const assemblyId = getBigInt(fields, 'AssemblyID');
+        const fullName = getString(fields, 'FullyQualifiedAssemblyName');
+        if (assemblyId !== undefined && fullName) {
+            this.assemblyNames.set(assemblyId, fullName.split(',')[0].trim());
+        }
+    }
+    
+    /**
+     * Attach assembly names to modules and estimate each module's image range from the
+     * precompiled methods it contains (JIT-compiled code lives outside the image)
+     */
+    private resolveModules(result: ParseResult): void {
+        const ranges = new Map<bigint, { start: bigint; end: bigint }>();
+        for (const method of result.methodsByAddress.values()) {
+            if (method.moduleId === BigInt(0) || (method.methodFlags & METHOD_FLAGS_JITTED) !== 0) {
                 continue;
             }
-            
-            totalSamples += sampleCount;
-            
-            // Track which methods we've seen in this stack to avoid double-counting inclusive
-            const seenMethods = new Set<string>();
-            
-            for (let i = 0; i < stack.addresses.length; i++) {
-                const addr = stack.addresses[i];
-                const method = findMethodByAddress(addr);
-                
-                if (method) {
-                    const fullName = getMethodFullName(method);
-                    
-                    // Exclusive count: only the top of stack (first address in our array)
-                    if (i === 0) {
-                        exclusiveCounts.set(fullName, (exclusiveCounts.get(fullName) || 0) + sampleCount);
-                    }
-                    
-                    // Inclusive count: all methods on stack, but only count each once per sample
-                    if (!seenMethods.has(fullName)) {
-                        seenMethods.add(fullName);
-                        inclusiveCounts.set(fullName, (inclusiveCounts.get(fullName) || 0) + sampleCount);
-                    }
-                } else {
-                    // Unknown method - use address as name
-                    const addrName = `<unknown> 0x${addr.toString(16)}`;
-                    
-                    if (i === 0) {
-                        exclusiveCounts.set(addrName, (exclusiveCounts.get(addrName) || 0) + sampleCount);
-                    }
-                    if (!seenMethods.has(addrName)) {
-                        seenMethods.add(addrName);
-                        inclusiveCounts.set(addrName, (inclusiveCounts.get(addrName) || 0) + sampleCount);
-                    }
-                }
+            const end = method.methodStartAddress + BigInt(method.methodSize);
+            const range = ranges.get(method.moduleId);
+            if (!range) {
+                ranges.set(method.moduleId, { start: method.methodStartAddress, end });
+            } else {
+                if (method.methodStartAddress < range.start) { range.start = method.methodStartAddress; }
+                if (end > range.end) { range.end = end; }
             }
         }
         
-        // Compute time estimates based on sample count and sampling interval
-        // Default interval is 1ms for SampleProfiler
-        const samplingIntervalMs = 1;
+        for (const module of result.modules.values()) {
+            const assemblyName = this.assemblyNames.get(module.assemblyId);
+            if (assemblyName) {
+                module.assemblyName = assemblyName;
+            }
+            const range = ranges.get(module.moduleId);
+            if (range) {
+                module.baseAddress = range.start;
+                module.imageSize = Number(range.end - range.start);
+            }
+        }
+    }
+    
+    private parseMethodJittingStartedEvent(fields: PayloadStruct, result: ParseResult): void {
+        // MethodJittingStarted: MethodID, ModuleID, MethodToken, MethodILSize,
+        // MethodNamespace, MethodName, MethodSignature, ClrInstanceID
+        const methodId = getBigInt(fields, 'MethodID');
         
-        // Build MethodProfile objects
-        const allMethods = new Set([...inclusiveCounts.keys(), ...exclusiveCounts.keys()]);
-        for (const methodName of allMethods) {
-            const inclusiveCount = inclusiveCounts.get(methodName) || 0;
-            const exclusiveCount = exclusiveCounts.get(methodName) || 0;
-            
-            result.methodProfiles.set(methodName, {
-                methodName,
-                inclusiveCount,
-                exclusiveCount,
-                inclusiveTimeMs: inclusiveCount * samplingIntervalMs,
-                exclusiveTimeMs: exclusiveCount * samplingIntervalMs
-            });
+        // Only add if we don't have it from MethodLoadVerbose (which has more info)
+        if (methodId === undefined || result.methods.has(methodId)) {
+            return;
         }
         
+        result.methods.set(methodId, {
+            methodId,
+            moduleId: getBigInt(fields, 'ModuleID') ?? BigInt(0),
+            methodStartAddress: BigInt(0),
+            methodSize: 0,
+            methodToken: getNumber(fields, 'MethodToken') ?? 0,
+            methodFlags: 0,
+            methodNamespace: getString(fields, 'MethodNamespace') ?? '',
+            methodName: getString(fields, 'MethodName') ?? '',
+            methodSignature: getString(fields, 'MethodSignature') ?? ''
+        });
+    }
+    
+    private processCpuSample(threadId: bigint, stackId: number, timestamp: bigint, result: ParseResult): void {
+        // Each sample from SampleProfiler represents one CPU sample at this stack
+        if (stackId > 0) {
+            result.cpuSamples.set(stackId, (result.cpuSamples.get(stackId) || 0) + 1);
+            this.cpuSampleTimeline.sample(threadId, timestamp, stackId);
+        }
+    }
+    
+    private computeMethodProfiles(result: ParseResult): void {
+        result.methodProfiles = computeMethodProfiles(result, new SymbolResolver(result.methodsByAddress.values(), result.modules));
+        
         if (this.debug) {
-            console.log(`Computed profiles for ${result.methodProfiles.size} methods from ${totalSamples} samples`);
+            console.log(`Computed profiles for ${result.methodProfiles.size} methods from ${result.cpuSamples.size} sampled stacks`);
         }
     }
 
-    private parseAllocationEvent(payload: Buffer, timestamp: bigint, stackId: number,
+    private parseAllocationEvent(fields: PayloadStruct, threadId: bigint, timestamp: bigint, stackId: number,
                                   result: ParseResult): void {
-        if (payload.length < 10) { return; }
-
-        try {
-            const reader = new BufferReader(payload);
-
-            // GCAllocationTick event format (varies by version):
-            // V1: AllocationAmount (UInt32), AllocationKind (UInt32), TypeName (string)
-            // V2: adds ClrInstanceID (UInt16)
-            // V3: adds TypeID (UInt64), HeapIndex (UInt32)
-            // V4: adds Address (UInt64), ObjectSize (UInt64)
-            
-            const allocationAmount = reader.readUInt32LE();
-            const allocationKind = reader.readUInt32LE();
-            reader.readUInt16LE(); // clrInstanceId
-
-            let allocSize = BigInt(allocationAmount);
-            
-            // Try to read extended fields
-            if (reader.remaining >= 8) {
-                // allocationAmount64 (more accurate)
-                allocSize = reader.readUInt64LE();
-            }
-
-            // Skip TypeID (pointer size)
-            if (reader.remaining >= this.pointerSize) {
-                reader.skip(this.pointerSize);
-            }
-
-            // Read TypeName (null-terminated UTF16)
-            let typeName = reader.readNullTerminatedUTF16();
-            if (!typeName || typeName.length === 0) {
-                typeName = '<unknown>';
-            }
-
-            this.addAllocation(result, typeName, allocSize, timestamp, stackId);
-        } catch (err) {
-            // Allocation parsing failed
-            if (this.debug) {
-                console.log(`Failed to parse allocation event: ${err}`);
-            }
+        // GCAllocationTick (see clrEventSchemas for the per-version layouts):
+        // V2+ carries the exact AllocationAmount64 and the TypeName
+        const allocationAmount = getNumber(fields, 'AllocationAmount');
+        if (allocationAmount === undefined) {
+            return;
         }
+        
+        const allocSize = getBigInt(fields, 'AllocationAmount64') ?? BigInt(allocationAmount);
+        const typeName = getString(fields, 'TypeName') || '<unknown>';
+        this.gcTimeline.allocationTick(allocSize, timestamp);
+        this.allocationSampleTimeline.allocation(threadId, timestamp, stackId, typeName, allocSize);
+        
+        this.addAllocation(result, typeName, allocSize, threadId, timestamp, stackId);
     }
 
-    private addAllocation(result: ParseResult, typeName: string, size: bigint, 
+    private addAllocation(result: ParseResult, typeName: string, size: bigint, threadId: bigint,
                           timestamp: bigint, stackId: number): void {
         let allocInfo = result.allocations.get(typeName);
         if (!allocInfo) {
@@ -1517,6 +2244,11 @@ export class NetTraceParser {
             }
         }
         
+        // Individual allocations are not retained when streaming
+        if (this.streaming) {
+            return;
+        }
+        
         // Get stack trace if available
         let stackTrace: string[] | undefined;
         const stack = this.stacks.get(stackId);
@@ -1528,6 +2260,7 @@ export class NetTraceParser {
             typeName,
             size,
             timestamp,
+            threadId,
             stackTrace
         });
     }
@@ -1569,5 +2302,74 @@ export class NetTraceParser {
     }
 }
 
-// Alias for backward compatibility
+// Events logged outside any activity carry an all-zero ActivityId
+function readActivityId(reader: BufferReader): string | undefined {
+    const activityId = reader.readGuid();
+    return activityId !== EMPTY_GUID ? activityId : undefined;
+}
+
+/**
+ * Aggregate CPU samples into per-method inclusive/exclusive profiles, naming frames with `symbols`.
+ * Exported so profiles can be recomputed when more symbols become available after parsing.
+ */
+export function computeMethodProfiles(result: ParseResult, symbols: SymbolResolver): Map<string, MethodProfile> {
+    const profiles = new Map<string, MethodProfile>();
+    
+    // Aggregate samples across all stacks
+    const inclusiveCounts = new Map<string, number>();
+    const exclusiveCounts = new Map<string, number>();
+    const addresses = new Map<string, bigint>();
+    
+    for (const [stackId, sampleCount] of result.cpuSamples) {
+        const stack = result.stacks.get(stackId);
+        if (!stack || stack.addresses.length === 0) {
+            continue;
+        }
+        
+        // Track which methods we've seen in this stack to avoid double-counting inclusive
+        const seenMethods = new Set<string>();
+        
+        for (let i = 0; i < stack.addresses.length; i++) {
+            // Unknown methods are named by address (and module, when the address is in one)
+            const fullName = symbols.resolve(stack.addresses[i]);
+            if (!addresses.has(fullName)) {
+                addresses.set(fullName, getSourceLookupAddress(stack.addresses[i], i));
+            }
+            
+            // Exclusive count: only the top of stack (first address in our array)
+            if (i === 0) {
+                exclusiveCounts.set(fullName, (exclusiveCounts.get(fullName) || 0) + sampleCount);
+            }
+            
+            // Inclusive count: all methods on stack, but only count each once per sample
+            if (!seenMethods.has(fullName)) {
+                seenMethods.add(fullName);
+                inclusiveCounts.set(fullName, (inclusiveCounts.get(fullName) || 0) + sampleCount);
+            }
+        }
+    }
+    
+    // Compute time estimates based on sample count and sampling interval
+    // Default interval is 1ms for SampleProfiler
+    const samplingIntervalMs = 1;
+    
+    // Build MethodProfile objects
+    const allMethods = new Set([...inclusiveCounts.keys(), ...exclusiveCounts.keys()]);
+    for (const methodName of allMethods) {
+        const inclusiveCount = inclusiveCounts.get(methodName) || 0;
+        const exclusiveCount = exclusiveCounts.get(methodName) || 0;
+        
+        profiles.set(methodName, {
+            methodName,
+            inclusiveCount,
+            exclusiveCount,
+            inclusiveTimeMs: inclusiveCount * samplingIntervalMs,
+            exclusiveTimeMs: exclusiveCount * samplingIntervalMs,
+            address: addresses.get(methodName)
+        });
+    }
+    
+    return profiles;
+}
+
 export class NetTraceFullParser extends NetTraceParser {}
@@ -0,0 +1,360 @@
+/**
+ * Outgoing network activity from the System.Net.Http, System.Net.NameResolution and System.Net.Sockets
+ * EventSources.
+ *
+ * Each logs Start/Stop events around an operation: an HttpClient request, a DNS lookup or a socket
+ * connect. Only the Start events say what the operation is about, so Stops (and the Failed events
+ * logged just before them) are paired with their Start through the ActivityId EventSource gives them
+ * while TPL activity tracking is on (System.Threading.Tasks.TplEventSource, keyword 0x80), or by
+ * thread without it. A request that had to wait for a pooled connection also logs RequestLeftQueue
+ * within its activity, with the time it spent queued.
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getNumber, getString } from './payloadDecoder';
+
+export interface HttpRequestSpan {
+    scheme: string;
+    host: string;
+    port: number;
+    pathAndQuery: string;
+    version: string;            // HTTP version requested, e.g. 1.1
+    statusCode?: number;        // .NET 8 and later
+    failed: boolean;
+    error?: string;             // Exception message of a failed request (.NET 8 and later)
+    queueTimeMs?: number;       // Time spent waiting for a pooled connection
+    startTimeMs: number;        // Since the start of the trace
+    durationMs: number;
+    threadId: bigint;           // Thread the request started on
+    activityId?: string;
+}
+
+export interface DnsLookupSpan {
+    hostName: string;
+    failed: boolean;
+    startTimeMs: number;
+    durationMs: number;
+    threadId: bigint;
+    activityId?: string;
+}
+
+export interface SocketConnectSpan {
+    address: string;            // Remote endpoint, see formatSocketAddress
+    failed: boolean;
+    error?: string;             // SocketError and exception message
+    startTimeMs: number;
+    durationMs: number;
+    threadId: bigint;
+    activityId?: string;
+}
+
+export interface HttpConnection {
+    scheme: string;
+    host: string;
+    port: number;
+    version: string;
+    remoteAddress: string;
+    timeMs: number;             // When the connection was established
+}
+
+export interface NetworkActivity {
+    httpRequests: HttpRequestSpan[];    // Completed operations in the order they started
+    dnsLookups: DnsLookupSpan[];
+    socketConnects: SocketConnectSpan[];
+    httpConnections: HttpConnection[];  // Pooled connections opened, in time order
+}
+
+type SpanKind = 'http' | 'dns' | 'socket';
+
+interface NetworkEvent {
+    kind: 'httpRequestStart' | 'httpRequestStop' | 'httpRequestFailed' | 'httpRequestLeftQueue' | 'httpConnectionEstablished' |
+        'dnsStart' | 'dnsStop' | 'dnsFailed' | 'socketConnectStart' | 'socketConnectStop' | 'socketConnectFailed';
+    fields: PayloadStruct;
+    threadId: bigint;
+    timestamp: bigint;
+    activityId?: string;
+}
+
+interface SpanRecord {
+    kind: SpanKind;
+    fields: PayloadStruct;      // Of the Start event
+    failed: boolean;
+    error?: string;
+    statusCode?: number;
+    queueTimeMs?: number;
+    threadId: bigint;
+    activityId?: string;
+    startTimestamp: bigint;
+    stopTimestamp?: bigint;
+}
+
+// RequestStop reports -1 when no response was received
+const NO_STATUS_CODE = -1;
+
+// SocketError values ConnectFailed reports most often
+const SOCKET_ERRORS = new Map<number, string>([
+    [995, 'OperationAborted'],
+    [10013, 'AccessDenied'],
+    [10048, 'AddressAlreadyInUse'],
+    [10050, 'NetworkDown'],
+    [10051, 'NetworkUnreachable'],
+    [10053, 'ConnectionAborted'],
+    [10054, 'ConnectionReset'],
+    [10060, 'TimedOut'],
+    [10061, 'ConnectionRefused'],
+    [10065, 'HostUnreachable'],
+    [11001, 'HostNotFound'],
+]);
+
+/**
+ * A SocketAddress as the Sockets EventSource writes it (family:size:{bytes after the family}) as an
+ * IP endpoint; other formats are returned unchanged
+ */
+export function formatSocketAddress(address: string): string {
+    const match = /^(InterNetwork|InterNetworkV6):\d+:\{([\d,]+)\}$/.exec(address);
+    if (!match) {
+        return address;
+    }
+    // The port (big-endian) comes first, then the IPv4 address or the IPv6 flow info, address and scope
+    const bytes = match[2].split(',').map(Number);
+    const port = (bytes[0] << 8) | bytes[1];
+    if (match[1] === 'InterNetwork' && bytes.length >= 6) {
+        return `${bytes.slice(2, 6).join('.')}:${port}`;
+    }
+    if (bytes.length < 22) {
+        return address;
+    }
+    const ip = bytes.slice(6, 22);
+    if (ip.slice(0, 10).every(b => b === 0) && ip[10] === 255 && ip[11] === 255) {
+        return `[::ffff:${ip.slice(12).join('.')}]:${port}`;
+    }
+    const groups: number[] = [];
+    for (let i = 0; i < 16; i += 2) {
+        groups.push((ip[i] << 8) | ip[i + 1]);
+    }
+    // Collapse the longest run of zero groups
+    let runStart = -1;
+    let runLength = 0;
+    for (let i = 0; i < groups.length; i++) {
+        let end = i;
+        while (end < groups.length && groups[end] === 0) {
+            end++;
+        }
+        if (end - i > runLength && end - i > 1) {
+            runStart = i;
+            runLength = end - i;
+        }
+    }
+    const hex = groups.map(g => g.toString(16));
+    const text = runStart < 0
+        ? hex.join(':')
+        : `${hex.slice(0, runStart).join(':')}::${hex.slice(runStart + runLength).join(':')}`;
+    return `[${text}]:${port}`;
+}
+
+export class NetworkActivityBuilder {
+    // Operations usually complete on another thread than the one they started on, and each thread's
+    // events reach the trace in separate buffers, so events are paired once they are back in time order
+    private readonly events: NetworkEvent[] = [];
+
+    private readonly spans: SpanRecord[] = [];
+    private readonly running = new Map<string, SpanRecord>();         // kind + ActivityId -> running operation
+    private readonly runningByThread = new Map<string, SpanRecord[]>(); // kind + thread ID -> running operations without an ActivityId
+    private readonly connections: { fields: PayloadStruct; timestamp: bigint }[] = [];
+
+    httpRequestStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'httpRequestStart', fields, threadId, timestamp, activityId });
+    }
+
+    httpRequestStop(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'httpRequestStop', fields, threadId, timestamp, activityId });
+    }
+
+    httpRequestFailed(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'httpRequestFailed', fields, threadId, timestamp, activityId });
+    }
+
+    httpRequestLeftQueue(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'httpRequestLeftQueue', fields, threadId, timestamp, activityId });
+    }
+
+    httpConnectionEstablished(fields: PayloadStruct, threadId: bigint, timestamp: bigint): void {
+        this.events.push({ kind: 'httpConnectionEstablished', fields, threadId, timestamp });
+    }
+
+    dnsStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'dnsStart', fields, threadId, timestamp, activityId });
+    }
+
+    dnsStop(threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'dnsStop', fields: {}, threadId, timestamp, activityId });
+    }
+
+    dnsFailed(threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'dnsFailed', fields: {}, threadId, timestamp, activityId });
+    }
+
+    socketConnectStart(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'socketConnectStart', fields, threadId, timestamp, activityId });
+    }
+
+    socketConnectStop(threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'socketConnectStop', fields: {}, threadId, timestamp, activityId });
+    }
+
+    socketConnectFailed(fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        this.events.push({ kind: 'socketConnectFailed', fields, threadId, timestamp, activityId });
+    }
+
+    build(traceInfo: TraceInfo | null): NetworkActivity {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const toMs = (ticks: bigint) => frequency > 0 ? Number(ticks) * 1000 / frequency : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+
+        this.events.sort((a, b) => a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0);
+        for (const event of this.events) {
+            this.replay(event);
+        }
+
+        const activity: NetworkActivity = { httpRequests: [], dnsLookups: [], socketConnects: [], httpConnections: [] };
+        for (const span of this.spans) {
+            if (span.stopTimestamp === undefined) {
+                continue;
+            }
+            const common = {
+                failed: span.failed,
+                startTimeMs: toMs(span.startTimestamp - syncTime),
+                durationMs: toMs(span.stopTimestamp - span.startTimestamp),
+                threadId: span.threadId,
+                activityId: span.activityId
+            };
+            const { fields } = span;
+            if (span.kind === 'http') {
+                activity.httpRequests.push({
+                    scheme: getString(fields, 'scheme') ?? '',
+                    host: getString(fields, 'host') ?? '',
+                    port: getNumber(fields, 'port') ?? 0,
+                    pathAndQuery: getString(fields, 'pathAndQuery') ?? '',
+                    version: `${getNumber(fields, 'versionMajor') ?? 1}.${getNumber(fields, 'versionMinor') ?? 1}`,
+                    statusCode: span.statusCode,
+                    error: span.error,
+                    queueTimeMs: span.queueTimeMs,
+                    ...common
+                });
+            } else if (span.kind === 'dns') {
+                activity.dnsLookups.push({ hostName: getString(fields, 'hostNameOrAddress') ?? '', ...common });
+            } else {
+                activity.socketConnects.push({ address: formatSocketAddress(getString(fields, 'address') ?? ''), error: span.error, ...common });
+            }
+        }
+        activity.httpConnections = this.connections.map(({ fields, timestamp }) => ({
+            scheme: getString(fields, 'scheme') ?? '',
+            host: getString(fields, 'host') ?? '',
+            port: getNumber(fields, 'port') ?? 0,
+            version: `${getNumber(fields, 'versionMajor') ?? 1}.${getNumber(fields, 'versionMinor') ?? 1}`,
+            remoteAddress: getString(fields, 'remoteAddress') ?? '',
+            timeMs: toMs(timestamp - syncTime)
+        }));
+        return activity;
+    }
+
+    private replay({ kind, fields, threadId, timestamp, activityId }: NetworkEvent): void {
+        switch (kind) {
+            case 'httpRequestStart':
+                this.startSpan('http', fields, threadId, timestamp, activityId);
+                break;
+            case 'dnsStart':
+                this.startSpan('dns', fields, threadId, timestamp, activityId);
+                break;
+            case 'socketConnectStart':
+                this.startSpan('socket', fields, threadId, timestamp, activityId);
+                break;
+            case 'httpRequestStop': {
+                const span = this.stopSpan('http', threadId, timestamp, activityId);
+                const statusCode = getNumber(fields, 'statusCode');
+                if (span && statusCode !== undefined && statusCode !== NO_STATUS_CODE) {
+                    span.statusCode = statusCode;
+                }
+                break;
+            }
+            case 'dnsStop':
+                this.stopSpan('dns', threadId, timestamp, activityId);
+                break;
+            case 'socketConnectStop':
+                this.stopSpan('socket', threadId, timestamp, activityId);
+                break;
+            case 'httpRequestFailed': {
+                const span = this.findSpan('http', threadId, activityId);
+                if (span) {
+                    span.failed = true;
+                    span.error = getString(fields, 'exceptionMessage') || undefined;
+                }
+                break;
+            }
+            case 'dnsFailed': {
+                const span = this.findSpan('dns', threadId, activityId);
+                if (span) {
+                    span.failed = true;
+                }
+                break;
+            }
+            case 'socketConnectFailed': {
+                const span = this.findSpan('socket', threadId, activityId);
+                if (span) {
+                    const error = getNumber(fields, 'error');
+                    const message = getString(fields, 'exceptionMessage');
+                    span.failed = true;
+                    const name = error !== undefined ? SOCKET_ERRORS.get(error) ?? `Error ${error}` : '';
+                    span.error = [name, message ?? ''].filter(Boolean).join(': ') || undefined;
+                }
+                break;
+            }
+            case 'httpRequestLeftQueue': {
+                const span = this.findSpan('http', threadId, activityId);
+                const queueTimeMs = getNumber(fields, 'timeOnQueueMilliseconds');
+                if (span && queueTimeMs !== undefined) {
+                    span.queueTimeMs = (span.queueTimeMs ?? 0) + queueTimeMs;
+                }
+                break;
+            }
+            case 'httpConnectionEstablished':
+                this.connections.push({ fields, timestamp });
+                break;
+        }
+    }
+
+    private startSpan(kind: SpanKind, fields: PayloadStruct, threadId: bigint, timestamp: bigint, activityId: string | undefined): void {
+        const span: SpanRecord = { kind, fields, failed: false, threadId, activityId, startTimestamp: timestamp };
+        this.spans.push(span);
+        if (activityId) {
+            this.running.set(`${kind}/${activityId}`, span);
+        } else {
+            const key = `${kind}/${threadId}`;
+            const running = this.runningByThread.get(key) ?? [];
+            running.push(span);
+            this.runningByThread.set(key, running);
+        }
+    }
+
+    private stopSpan(kind: SpanKind, threadId: bigint, timestamp: bigint, activityId: string | undefined): SpanRecord | undefined {
+        let span: SpanRecord | undefined;
+        if (activityId) {
+            span = this.running.get(`${kind}/${activityId}`);
+            this.running.delete(`${kind}/${activityId}`);
+        } else {
+            span = this.runningByThread.get(`${kind}/${threadId}`)?.pop();
+        }
+        if (span) {
+            span.stopTimestamp = timestamp;
+        }
+        return span;
+    }
+
+    private findSpan(kind: SpanKind, threadId: bigint, activityId: string | undefined): SpanRecord | undefined {
+        if (activityId) {
+            return this.running.get(`${kind}/${activityId}`);
+        }
+        const running = this.runningByThread.get(`${kind}/${threadId}`);
+        return running?.[running.length - 1];
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Worker thread entry point: parses a trace and posts progress and the result back to the host
+ */
+
+import * as fs from 'fs';
+import { parentPort, workerData } from 'worker_threads';
+import { NetTraceParser, ParseResult } from './nettraceParser';
+import type { ParseWorkerMessage, ParseWorkerRequest } from './backgroundParser';
+
+// Minimum time between progress messages
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(message: ParseWorkerMessage, transferList?: ArrayBuffer[]): void {
+    parentPort!.postMessage(message, transferList);
+}
+
+// The sample timelines' typed arrays are handed over rather than copied
+function getTransferList(result: ParseResult): ArrayBuffer[] {
+    const cpu = result.cpuSampleTimeline;
+    const allocations = result.allocationSampleTimeline;
+    const buffers = new Set<ArrayBuffer>([
+        cpu.timesMs.buffer, cpu.threadIds.buffer, cpu.stackIds.buffer,
+        allocations.timesMs.buffer, allocations.threadIds.buffer, allocations.stackIds.buffer,
+        allocations.typeIndexes.buffer, allocations.sizes.buffer
+    ] as ArrayBuffer[]);
+    return Array.from(buffers);
+}
+
+function run(request: ParseWorkerRequest): void {
+    let fd: number | undefined;
+    let parser: NetTraceParser;
+
+    if ('filePath' in request) {
+        fd = fs.openSync(request.filePath, 'r');
+        parser = new NetTraceParser(fd, false, request.indexPath);
+    } else {
+        parser = new NetTraceParser(Buffer.from(request.data.buffer, request.data.byteOffset, request.data.byteLength), false, request.indexPath);
+    }
+
+    let lastReport = 0;
+    parser.onProgress = progress => {
+        const now = Date.now();
+        if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+            lastReport = now;
+            post({ type: 'progress', progress });
+        }
+    };
+
+    try {
+        const result = parser.parse();
+        post({ type: 'result', result }, getTransferList(result));
+    } finally {
+        if (fd !== undefined) {
+            fs.closeSync(fd);
+        }
+    }
+}
+
+run(workerData as ParseWorkerRequest);
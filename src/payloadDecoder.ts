@@ -0,0 +1,202 @@
+/**
+ * Generic event payload decoder driven by EventMetadata field descriptions
+ *
+ * EventPipe serializes payload fields back to back with these encodings:
+ * - Boolean: int32 (non-zero is true)
+ * - Char: UTF-16 code unit
+ * - Integers, Single, Double: little-endian, natural size
+ * - Decimal: 16 bytes (flags, hi32, lo64) as in System.Decimal
+ * - DateTime: int64 FILETIME
+ * - Guid: 16 bytes
+ * - String: null-terminated UTF-16LE
+ * - Array: element count (uint16) followed by the elements
+ * - Object: the nested fields, back to back
+ * - Pointer: pointer-sized unsigned integer (only used by built-in schemas)
+ */
+
+import { BufferReader } from './bufferReader';
+import { FieldMetadata } from './nettraceParser';
+
+// System.TypeCode values used in EventPipe metadata, plus EventPipe's Guid and Array extensions
+export enum EventTypeCode {
+    Empty = 0,
+    Object = 1,
+    DBNull = 2,
+    Boolean = 3,
+    Char = 4,
+    SByte = 5,
+    Byte = 6,
+    Int16 = 7,
+    UInt16 = 8,
+    Int32 = 9,
+    UInt32 = 10,
+    Int64 = 11,
+    UInt64 = 12,
+    Single = 13,
+    Double = 14,
+    Decimal = 15,
+    DateTime = 16,
+    Guid = 17,
+    String = 18,
+    Array = 19,
+    // Not emitted by EventPipe: pointer-sized fields in built-in CLR schemas
+    Pointer = 0x100,
+}
+
+export type PayloadValue = boolean | number | bigint | string | Date | PayloadValue[] | PayloadStruct;
+
+export interface PayloadStruct {
+    [name: string]: PayloadValue;
+}
+
+// Offset between the FILETIME epoch (1601-01-01) and the Unix epoch, in 100ns ticks
+const FILETIME_UNIX_EPOCH_TICKS = BigInt('116444736000000000');
+
+/**
+ * Decode a payload into named, typed values.
+ * Truncated payloads return the fields decoded before the data ran out.
+ */
+export function decodePayload(payload: Buffer, fields: FieldMetadata[], pointerSize: number = 8): PayloadStruct {
+    const reader = new BufferReader(payload);
+    const result: PayloadStruct = {};
+    
+    try {
+        readStruct(reader, fields, pointerSize, result);
+    } catch (err) {
+        // Payload shorter than its metadata - keep what was decoded
+    }
+    
+    return result;
+}
+
+function readStruct(reader: BufferReader, fields: FieldMetadata[], pointerSize: number, target: PayloadStruct = {}): PayloadStruct {
+    for (const field of fields) {
+        target[field.name] = readValue(reader, field, pointerSize);
+    }
+    return target;
+}
+
+function readValue(reader: BufferReader, field: FieldMetadata, pointerSize: number): PayloadValue {
+    switch (field.typeCode) {
+        case EventTypeCode.Boolean:
+            return reader.readInt32LE() !== 0;
+        case EventTypeCode.Char:
+            return String.fromCharCode(reader.readUInt16LE());
+        case EventTypeCode.SByte: {
+            const b = reader.readByte();
+            return b > 0x7f ? b - 0x100 : b;
+        }
+        case EventTypeCode.Byte:
+            return reader.readByte();
+        case EventTypeCode.Int16:
+            return reader.readInt16LE();
+        case EventTypeCode.UInt16:
+            return reader.readUInt16LE();
+        case EventTypeCode.Int32:
+            return reader.readInt32LE();
+        case EventTypeCode.UInt32:
+            return reader.readUInt32LE();
+        case EventTypeCode.Int64:
+            return reader.readInt64LE();
+        case EventTypeCode.UInt64:
+            return reader.readUInt64LE();
+        case EventTypeCode.Single:
+            return reader.readFloatLE();
+        case EventTypeCode.Double:
+            return reader.readDoubleLE();
+        case EventTypeCode.Decimal:
+            return readDecimal(reader);
+        case EventTypeCode.DateTime: {
+            const fileTime = reader.readInt64LE();
+            return new Date(Number((fileTime - FILETIME_UNIX_EPOCH_TICKS) / BigInt(10000)));
+        }
+        case EventTypeCode.Guid:
+            return reader.readGuid();
+        case EventTypeCode.String:
+            return reader.readNullTerminatedUTF16();
+        case EventTypeCode.Array: {
+            if (!field.elementType) {
+                throw new Error(`Array field ${field.name} has no element type`);
+            }
+            const count = reader.readUInt16LE();
+            const values: PayloadValue[] = [];
+            for (let i = 0; i < count; i++) {
+                values.push(readValue(reader, field.elementType, pointerSize));
+            }
+            return values;
+        }
+        case EventTypeCode.Object:
+            return readStruct(reader, field.fields || [], pointerSize);
+        case EventTypeCode.Pointer:
+            return pointerSize === 8 ? reader.readUInt64LE() : BigInt(reader.readUInt32LE());
+        default:
+            throw new Error(`Unsupported type code ${field.typeCode} for field ${field.name}`);
+    }
+}
+
+function readDecimal(reader: BufferReader): string {
+    // System.Decimal layout: flags (scale in bits 16-23, sign in bit 31), hi32, lo64
+    const flags = reader.readInt32LE();
+    const hi = BigInt(reader.readUInt32LE());
+    const lo = reader.readUInt64LE();
+    const scale = (flags >> 16) & 0xff;
+    const negative = (flags & 0x80000000) !== 0;
+    
+    const digits = ((hi << BigInt(64)) | lo).toString().padStart(scale + 1, '0');
+    const value = scale > 0
+        ? `${digits.slice(0, digits.length - scale)}.${digits.slice(digits.length - scale)}`
+        : digits;
+    return negative ? `-${value}` : value;
+}
+
+/**
+ * Read a decoded integer field as a bigint
+ */
+export function getBigInt(fields: PayloadStruct, name: string): bigint | undefined {
+    const value = fields[name];
+    if (typeof value === 'bigint') {
+        return value;
+    }
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return BigInt(value);
+    }
+    return undefined;
+}
+
+/**
+ * Read a decoded numeric field as a number
+ */
+export function getNumber(fields: PayloadStruct, name: string): number | undefined {
+    const value = fields[name];
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'bigint') {
+        return Number(value);
+    }
+    return undefined;
+}
+
+/**
+ * Read a decoded string (or GUID) field
+ */
+export function getString(fields: PayloadStruct, name: string): string | undefined {
+    const value = fields[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Format a decoded value for display
+ */
+export function formatPayloadValue(value: PayloadValue): string {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? String(value) : value.toISOString();
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatPayloadValue).join(', ')}]`;
+    }
+    if (typeof value === 'object') {
+        return `{ ${Object.entries(value).map(([name, v]) => `${name}: ${formatPayloadValue(v)}`).join(', ')} }`;
+    }
+    return String(value);
+}
@@ -0,0 +1,48 @@
+/**
+ * Linux perf map support.
+ *
+ * With DOTNET_PerfMapEnabled set, the runtime writes `perf-<pid>.map` (to /tmp unless
+ * DOTNET_PerfMapJitDumpPath says otherwise): one line per JIT-compiled or precompiled code region,
+ * `<start> <size> <name>` with hexadecimal start and size. It also writes `perfinfo-<pid>.map`,
+ * which lists the loaded images without addresses, so only the perf map is used to symbolize frames.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolRange } from './symbolResolver';
+
+const PERF_MAP_LINE = /^([0-9a-fA-F]+)\s+([0-9a-fA-F]+)\s+(.+)$/;
+
+export function parsePerfMap(text: string): SymbolRange[] {
+    const symbols: SymbolRange[] = [];
+    for (const line of text.split('\n')) {
+        const match = PERF_MAP_LINE.exec(line.trim());
+        if (!match) {
+            continue;
+        }
+        const size = parseInt(match[2], 16);
+        if (size > 0) {
+            symbols.push({ address: BigInt('0x' + match[1]), size, name: match[3] });
+        }
+    }
+    return symbols;
+}
+
+/**
+ * Directories searched for the perf map of a traced process: next to the trace, then the temp directory
+ */
+export function getPerfMapSearchDirs(traceFilePath: string): string[] {
+    const dirs = [path.dirname(traceFilePath), os.tmpdir(), '/tmp'];
+    return dirs.filter((dir, index) => dirs.indexOf(dir) === index);
+}
+
+export function findPerfMap(processId: number, searchDirs: string[]): string | undefined {
+    for (const dir of searchDirs) {
+        const candidate = path.join(dir, `perf-${processId}.map`);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
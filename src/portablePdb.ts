@@ -0,0 +1,259 @@
+/**
+ * Portable PDB reader.
+ *
+ * Portable PDBs use the ECMA-335 metadata layout with their own tables. Only what's needed to map a
+ * method token and IL offset to a source line is read: the #Pdb stream's id (to match the signature
+ * reported by ModuleLoad), the Document table and the MethodDebugInformation table's sequence points.
+ * See https://github.com/dotnet/runtime/blob/main/docs/design/specs/PortablePdb-Metadata.md
+ */
+
+import { BufferReader } from './bufferReader';
+
+export interface SourceLocation {
+    file: string;
+    line: number;
+    column: number;
+}
+
+interface SequencePoint {
+    ilOffset: number;
+    document: number;     // Document table row
+    startLine: number;
+    startColumn: number;
+}
+
+interface TableLocation {
+    offset: number;
+    rowSize: number;
+    rowCount: number;
+}
+
+const METADATA_SIGNATURE = 0x424a5342;  // "BSJB"
+const METHOD_DEF_TOKEN_TYPE = 0x06;
+
+// Table numbers; a standalone PDB only has the debug tables, which start at Document
+const DOCUMENT_TABLE = 0x30;
+const METHOD_DEBUG_INFORMATION_TABLE = 0x31;
+
+// #~ HeapSizes bits: set when the heap needs 4-byte indexes
+const LARGE_GUID_HEAP = 0x02;
+const LARGE_BLOB_HEAP = 0x04;
+
+export class PortablePdb {
+    private readonly documentNames = new Map<number, string>();
+    private readonly sequencePoints = new Map<number, SequencePoint[]>();
+
+    private constructor(
+        readonly id: string,   // PDB GUID, formatted like ModuleLoad's ManagedPdbSignature
+        private readonly data: Buffer,
+        private readonly blobHeapOffset: number,
+        private readonly blobIndexSize: number,
+        private readonly documents: TableLocation,
+        private readonly methods: TableLocation
+    ) {}
+
+    /**
+     * Read the metadata of a portable PDB, or undefined if the data isn't one (e.g. a Windows PDB)
+     */
+    static read(data: Buffer): PortablePdb | undefined {
+        if (data.length < 16 || data.readUInt32LE(0) !== METADATA_SIGNATURE) {
+            return undefined;
+        }
+
+        // Metadata root: signature, version numbers, reserved, version string, flags, stream headers
+        const reader = new BufferReader(data);
+        reader.skip(12);
+        const versionLength = reader.readUInt32LE();
+        reader.skip(versionLength + 2);
+        const streamCount = reader.readUInt16LE();
+        const streams = new Map<string, number>();
+        for (let i = 0; i < streamCount; i++) {
+            const offset = reader.readUInt32LE();
+            reader.skip(4);  // Size
+            let name = '';
+            for (let c = reader.readByte(); c !== 0; c = reader.readByte()) {
+                name += String.fromCharCode(c);
+            }
+            reader.align(4);
+            streams.set(name, offset);
+        }
+
+        const pdbStream = streams.get('#Pdb');
+        const tableStream = streams.get('#~');
+        const blobHeap = streams.get('#Blob');
+        if (pdbStream === undefined || tableStream === undefined || blobHeap === undefined) {
+            return undefined;
+        }
+        const id = new BufferReader(data, pdbStream).readGuid();
+
+        // Table stream header: reserved, version, heap sizes, reserved, valid and sorted table masks, row counts
+        const tables = new BufferReader(data, tableStream);
+        tables.skip(6);
+        const heapSizes = tables.readByte();
+        tables.skip(1);
+        const validTables = tables.readUInt64LE();
+        tables.skip(8);
+        if ((validTables & ((BigInt(1) << BigInt(DOCUMENT_TABLE)) - BigInt(1))) !== BigInt(0)) {
+            return undefined;  // Type system tables in the same file: not a standalone PDB
+        }
+        const rowCounts = new Map<number, number>();
+        for (let table = 0; table < 64; table++) {
+            if ((validTables >> BigInt(table)) & BigInt(1)) {
+                rowCounts.set(table, tables.readUInt32LE());
+            }
+        }
+
+        const guidIndexSize = heapSizes & LARGE_GUID_HEAP ? 4 : 2;
+        const blobIndexSize = heapSizes & LARGE_BLOB_HEAP ? 4 : 2;
+        const documentCount = rowCounts.get(DOCUMENT_TABLE) ?? 0;
+        const documents: TableLocation = {
+            offset: tables.offset,
+            rowSize: 2 * blobIndexSize + 2 * guidIndexSize,   // Name, HashAlgorithm, Hash, Language
+            rowCount: documentCount
+        };
+        const methods: TableLocation = {
+            offset: documents.offset + documents.rowSize * documents.rowCount,
+            rowSize: (documentCount < 0x10000 ? 2 : 4) + blobIndexSize,   // Document, SequencePoints
+            rowCount: rowCounts.get(METHOD_DEBUG_INFORMATION_TABLE) ?? 0
+        };
+
+        return new PortablePdb(id, data, blobHeap, blobIndexSize, documents, methods);
+    }
+
+    /**
+     * Source location of an IL offset in a method, or of the method's first line when the offset is unknown
+     */
+    findLocation(methodToken: number, ilOffset?: number): SourceLocation | undefined {
+        const points = this.getSequencePoints(methodToken);
+        if (points.length === 0) {
+            return undefined;
+        }
+        let point = points[0];
+        if (ilOffset !== undefined) {
+            for (const candidate of points) {
+                if (candidate.ilOffset > ilOffset) {
+                    break;
+                }
+                point = candidate;
+            }
+        }
+        return { file: this.getDocumentName(point.document), line: point.startLine, column: point.startColumn };
+    }
+
+    /**
+     * Decode a method's visible sequence points, in IL offset order. Hidden points are dropped, so
+     * compiler-generated code maps to the line before it.
+     */
+    private getSequencePoints(methodToken: number): SequencePoint[] {
+        const row = methodToken & 0xffffff;
+        if (methodToken >>> 24 !== METHOD_DEF_TOKEN_TYPE || row === 0 || row > this.methods.rowCount) {
+            return [];
+        }
+        const cached = this.sequencePoints.get(row);
+        if (cached) {
+            return cached;
+        }
+
+        const rowOffset = this.methods.offset + (row - 1) * this.methods.rowSize;
+        const documentIndexSize = this.methods.rowSize - this.blobIndexSize;
+        let document = this.readIndex(rowOffset, documentIndexSize);
+        const blobIndex = this.readIndex(rowOffset + documentIndexSize, this.blobIndexSize);
+        const points: SequencePoint[] = [];
+
+        if (blobIndex !== 0) {
+            const reader = new BufferReader(this.readBlob(blobIndex));
+            readCompressedUInt(reader);  // LocalSignature
+            if (document === 0) {
+                document = readCompressedUInt(reader);  // Methods spanning documents name the first here
+            }
+
+            let ilOffset = 0, startLine = 0, startColumn = 0;
+            let first = true, firstVisible = true;
+            while (reader.remaining > 0) {
+                const ilDelta = readCompressedUInt(reader);
+                if (ilDelta === 0 && !first) {
+                    document = readCompressedUInt(reader);  // Document record
+                    continue;
+                }
+                ilOffset = first ? ilDelta : ilOffset + ilDelta;
+                first = false;
+
+                const lineDelta = readCompressedUInt(reader);
+                const columnDelta = lineDelta === 0 ? readCompressedUInt(reader) : readCompressedInt(reader);
+                if (lineDelta === 0 && columnDelta === 0) {
+                    continue;  // Hidden sequence point
+                }
+                if (firstVisible) {
+                    startLine = readCompressedUInt(reader);
+                    startColumn = readCompressedUInt(reader);
+                    firstVisible = false;
+                } else {
+                    startLine += readCompressedInt(reader);
+                    startColumn += readCompressedInt(reader);
+                }
+                points.push({ ilOffset, document, startLine, startColumn });
+            }
+        }
+
+        this.sequencePoints.set(row, points);
+        return points;
+    }
+
+    // Document names are stored as a separator character followed by blob indexes of the path parts
+    private getDocumentName(row: number): string {
+        const cached = this.documentNames.get(row);
+        if (cached !== undefined) {
+            return cached;
+        }
+        let name = '';
+        if (row > 0 && row <= this.documents.rowCount) {
+            const nameIndex = this.readIndex(this.documents.offset + (row - 1) * this.documents.rowSize, this.blobIndexSize);
+            const reader = new BufferReader(this.readBlob(nameIndex));
+            if (reader.remaining > 0) {
+                const separator = reader.readByte();
+                const parts: string[] = [];
+                while (reader.remaining > 0) {
+                    const part = readCompressedUInt(reader);
+                    parts.push(part === 0 ? '' : this.readBlob(part).toString('utf8'));
+                }
+                name = parts.join(separator === 0 ? '' : String.fromCharCode(separator));
+            }
+        }
+        this.documentNames.set(row, name);
+        return name;
+    }
+
+    private readBlob(index: number): Buffer {
+        const reader = new BufferReader(this.data, this.blobHeapOffset + index);
+        const length = readCompressedUInt(reader);
+        return reader.readBytes(length);
+    }
+
+    private readIndex(offset: number, size: number): number {
+        return size === 2 ? this.data.readUInt16LE(offset) : this.data.readUInt32LE(offset);
+    }
+}
+
+/**
+ * ECMA-335 II.23.2 compressed unsigned integer: 1, 2 or 4 bytes big-endian, length in the top bits
+ */
+function readCompressedUInt(reader: BufferReader): number {
+    const first = reader.readByte();
+    if ((first & 0x80) === 0) {
+        return first;
+    }
+    if ((first & 0xc0) === 0x80) {
+        return ((first & 0x3f) << 8) | reader.readByte();
+    }
+    return ((first & 0x1f) * 0x1000000) + (reader.readByte() << 16) + (reader.readByte() << 8) + reader.readByte();
+}
+
+/**
+ * Compressed signed integer: the compressed unsigned value rotated left by one, sign in bit 0
+ */
+function readCompressedInt(reader: BufferReader): number {
+    const first = reader.peekByte();
+    const bits = (first & 0x80) === 0 ? 7 : (first & 0xc0) === 0x80 ? 14 : 29;
+    const value = readCompressedUInt(reader);
+    return (value & 1) === 0 ? value >>> 1 : (value >>> 1) - (1 << (bits - 1));
+}
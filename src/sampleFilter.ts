@@ -0,0 +1,118 @@
+/**
+ * A parse result limited to part of the trace, as selected in the Timeline tab, and to some of its
+ * threads, as selected in the Threads tab.
+ *
+ * The CPU and allocation aggregates (samples per stack, allocations per type, method profiles) are
+ * rebuilt from the sample timelines for the samples that pass the filter. Everything else is shared
+ * with the full result.
+ */
+
+import { AllocationInfo, ParseResult, computeMethodProfiles } from './nettraceParser';
+import { SymbolResolver } from './symbolResolver';
+
+export interface TimeRange {
+    startMs: number;            // Since the start of the trace
+    endMs: number;
+}
+
+export interface SampleFilter {
+    timeRange?: TimeRange;
+    threadIds?: bigint[];       // OS thread IDs; every thread when undefined
+}
+
+export function isSampleFilterActive(filter: SampleFilter): boolean {
+    return filter.timeRange !== undefined || filter.threadIds !== undefined;
+}
+
+export function applySampleFilter(result: ParseResult, filter: SampleFilter, symbols: SymbolResolver): ParseResult {
+    const { timeRange } = filter;
+    const startMs = timeRange?.startMs ?? -Infinity;
+    const endMs = timeRange?.endMs ?? Infinity;
+    const threads = filter.threadIds ? new Set(filter.threadIds) : undefined;
+    const passes = (timeMs: number, threadId: bigint) =>
+        timeMs >= startMs && timeMs <= endMs && (!threads || threads.has(threadId));
+
+    const cpuSamples = new Map<number, number>();
+    const cpu = result.cpuSampleTimeline;
+    for (let i = findFirstAtOrAfter(cpu.timesMs, startMs); i < cpu.count; i++) {
+        if (cpu.timesMs[i] > endMs) {
+            break;
+        }
+        if (threads && !threads.has(cpu.threadIds[i])) {
+            continue;
+        }
+        const stackId = cpu.stackIds[i];
+        cpuSamples.set(stackId, (cpuSamples.get(stackId) ?? 0) + 1);
+    }
+
+    const allocations = new Map<string, AllocationInfo>();
+    const allocationSamples: ParseResult['allocationSamples'] = new Map();
+    const typeStackDistribution: ParseResult['typeStackDistribution'] = new Map();
+    const ticks = result.allocationSampleTimeline;
+    for (let i = findFirstAtOrAfter(ticks.timesMs, startMs); i < ticks.count; i++) {
+        if (ticks.timesMs[i] > endMs) {
+            break;
+        }
+        if (threads && !threads.has(ticks.threadIds[i])) {
+            continue;
+        }
+        const stackId = ticks.stackIds[i];
+        const typeName = ticks.typeNames[ticks.typeIndexes[i]];
+        const size = BigInt(ticks.sizes[i]);
+
+        let allocInfo = allocations.get(typeName);
+        if (!allocInfo) {
+            allocInfo = { typeName, count: 0, totalSize: BigInt(0), allocations: [] };
+            allocations.set(typeName, allocInfo);
+        }
+        allocInfo.count++;
+        allocInfo.totalSize += size;
+
+        // Stacks are only tracked for allocations that have one, as when parsing
+        if (stackId > 0) {
+            const stackData = allocationSamples.get(stackId) ?? { count: 0, size: BigInt(0), types: new Map() };
+            stackData.count++;
+            stackData.size += size;
+            const typeData = stackData.types.get(typeName) ?? { count: 0, size: BigInt(0) };
+            typeData.count++;
+            typeData.size += size;
+            stackData.types.set(typeName, typeData);
+            allocationSamples.set(stackId, stackData);
+
+            const typeStacks = typeStackDistribution.get(typeName) ?? new Map();
+            const typeStack = typeStacks.get(stackId) ?? { count: 0, size: BigInt(0) };
+            typeStack.count++;
+            typeStack.size += size;
+            typeStacks.set(stackId, typeStack);
+            typeStackDistribution.set(typeName, typeStacks);
+        }
+    }
+
+    // Individual allocation records, when the parse kept them
+    const traceInfo = result.traceInfo;
+    if (traceInfo && traceInfo.tickFrequency > 0) {
+        for (const allocInfo of allocations.values()) {
+            allocInfo.allocations = (result.allocations.get(allocInfo.typeName)?.allocations ?? []).filter(allocation =>
+                passes(Number(allocation.timestamp - traceInfo.syncTimeTicks) * 1000 / Number(traceInfo.tickFrequency), allocation.threadId));
+        }
+    }
+
+    const filtered: ParseResult = { ...result, cpuSamples, allocations, allocationSamples, typeStackDistribution };
+    filtered.methodProfiles = computeMethodProfiles(filtered, symbols);
+    return filtered;
+}
+
+// Binary search ascending sample times for the first at or after a time
+function findFirstAtOrAfter(timesMs: Float64Array, timeMs: number): number {
+    let low = 0;
+    let high = timesMs.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (timesMs[mid] < timeMs) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
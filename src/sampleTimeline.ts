@@ -0,0 +1,133 @@
+/**
+ * CPU samples and allocation ticks in time order, each with its thread and stack, for the views
+ * that filter samples by time or thread.
+ *
+ * Samples are stored column by column in typed arrays rather than as one object each, so a long
+ * trace costs a few bytes per sample and the parser worker can transfer the columns to the
+ * extension host instead of copying them. Columns grow a chunk at a time while parsing and are
+ * sorted into single arrays once parsing completes (samples are written per thread, not in time
+ * order).
+ */
+
+import { TraceInfo } from './nettraceParser';
+
+export interface CpuSampleTimeline {
+    count: number;
+    timesMs: Float64Array;           // Since the start of the trace, ascending
+    threadIds: BigUint64Array;       // Sampled thread
+    stackIds: Uint32Array;
+}
+
+export interface AllocationSampleTimeline extends CpuSampleTimeline {
+    typeIndexes: Uint32Array;        // Allocated type, as an index into typeNames
+    sizes: Float64Array;             // Bytes allocated since the previous tick
+    typeNames: string[];
+}
+
+const CHUNK_BITS = 16;
+const CHUNK_SIZE = 1 << CHUNK_BITS;
+const CHUNK_MASK = CHUNK_SIZE - 1;
+
+class SampleColumnsBuilder {
+    protected count = 0;
+    private readonly timestamps: BigInt64Array[] = [];
+    private readonly threadIds: BigUint64Array[] = [];
+    private readonly stackIds: Uint32Array[] = [];
+
+    // Store a sample's common columns and return its position, for subclasses to add their own
+    protected append(threadId: bigint, timestamp: bigint, stackId: number): number {
+        const chunk = this.count >>> CHUNK_BITS;
+        const i = this.count & CHUNK_MASK;
+        if (i === 0) {
+            this.timestamps.push(new BigInt64Array(CHUNK_SIZE));
+            this.threadIds.push(new BigUint64Array(CHUNK_SIZE));
+            this.stackIds.push(new Uint32Array(CHUNK_SIZE));
+        }
+        this.timestamps[chunk][i] = BigInt.asIntN(64, timestamp);
+        this.threadIds[chunk][i] = BigInt.asUintN(64, threadId);
+        this.stackIds[chunk][i] = stackId;
+        return this.count++;
+    }
+
+    // Sort the common columns by time; `order` maps each sorted position to the appended position
+    protected buildColumns(traceInfo: TraceInfo | null): { timeline: CpuSampleTimeline; order: Uint32Array } {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+        const toMs = (timestamp: bigint) => frequency > 0 ? Number(timestamp - syncTime) * 1000 / frequency : 0;
+
+        const timestamps = this.timestamps;
+        const timestampAt = (position: number) => timestamps[position >>> CHUNK_BITS][position & CHUNK_MASK];
+        const order = new Uint32Array(this.count);
+        for (let i = 0; i < this.count; i++) {
+            order[i] = i;
+        }
+        order.sort((a, b) => {
+            const timeA = timestampAt(a);
+            const timeB = timestampAt(b);
+            return timeA < timeB ? -1 : timeA > timeB ? 1 : a - b;
+        });
+
+        const timeline: CpuSampleTimeline = {
+            count: this.count,
+            timesMs: new Float64Array(this.count),
+            threadIds: new BigUint64Array(this.count),
+            stackIds: new Uint32Array(this.count)
+        };
+        for (let i = 0; i < this.count; i++) {
+            const chunk = order[i] >>> CHUNK_BITS;
+            const j = order[i] & CHUNK_MASK;
+            timeline.timesMs[i] = toMs(timestamps[chunk][j]);
+            timeline.threadIds[i] = this.threadIds[chunk][j];
+            timeline.stackIds[i] = this.stackIds[chunk][j];
+        }
+        return { timeline, order };
+    }
+}
+
+export class CpuSampleTimelineBuilder extends SampleColumnsBuilder {
+    sample(threadId: bigint, timestamp: bigint, stackId: number): void {
+        this.append(threadId, timestamp, stackId);
+    }
+
+    build(traceInfo: TraceInfo | null): CpuSampleTimeline {
+        return this.buildColumns(traceInfo).timeline;
+    }
+}
+
+export class AllocationSampleTimelineBuilder extends SampleColumnsBuilder {
+    private readonly typeIndexes: Uint32Array[] = [];
+    private readonly sizes: Float64Array[] = [];
+    private readonly typeNames: string[] = [];
+    private readonly typeIndexByName = new Map<string, number>();
+
+    allocation(threadId: bigint, timestamp: bigint, stackId: number, typeName: string, size: bigint): void {
+        const position = this.append(threadId, timestamp, stackId);
+        const chunk = position >>> CHUNK_BITS;
+        const i = position & CHUNK_MASK;
+        if (i === 0) {
+            this.typeIndexes.push(new Uint32Array(CHUNK_SIZE));
+            this.sizes.push(new Float64Array(CHUNK_SIZE));
+        }
+
+        let typeIndex = this.typeIndexByName.get(typeName);
+        if (typeIndex === undefined) {
+            typeIndex = this.typeNames.push(typeName) - 1;
+            this.typeIndexByName.set(typeName, typeIndex);
+        }
+        this.typeIndexes[chunk][i] = typeIndex;
+        this.sizes[chunk][i] = Number(size);
+    }
+
+    build(traceInfo: TraceInfo | null): AllocationSampleTimeline {
+        const { timeline, order } = this.buildColumns(traceInfo);
+        const typeIndexes = new Uint32Array(this.count);
+        const sizes = new Float64Array(this.count);
+        for (let i = 0; i < this.count; i++) {
+            const chunk = order[i] >>> CHUNK_BITS;
+            const j = order[i] & CHUNK_MASK;
+            typeIndexes[i] = this.typeIndexes[chunk][j];
+            sizes[i] = this.sizes[chunk][j];
+        }
+        return { ...timeline, typeIndexes, sizes, typeNames: this.typeNames };
+    }
+}
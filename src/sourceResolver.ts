@@ -0,0 +1,126 @@
+/**
+ * Maps stack frame addresses to source lines through portable PDBs.
+ *
+ * A frame's method supplies the metadata token, its IL-to-native map (when the trace has one) turns
+ * the native offset into an IL offset, and the module's PDB turns token and IL offset into a line.
+ * Without an IL map the method's first line is used.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MethodInfo, ModuleInfo, ParseResult } from './nettraceParser';
+import { PortablePdb, SourceLocation } from './portablePdb';
+import { SymbolResolver, getModuleName } from './symbolResolver';
+
+export type SourceLookup = { location: SourceLocation } | { reason: string };
+
+export class SourceResolver {
+    private readonly symbols: SymbolResolver;
+    private readonly pdbs = new Map<bigint, Promise<PortablePdb | undefined>>();   // moduleId -> PDB
+
+    constructor(private readonly result: ParseResult, private readonly searchPaths: string[]) {
+        this.symbols = new SymbolResolver(result.methodsByAddress.values(), result.modules);
+    }
+
+    async resolve(addr: bigint): Promise<SourceLookup> {
+        const method = this.symbols.findMethod(addr);
+        if (!method) {
+            return { reason: 'The frame is not in a known managed method.' };
+        }
+        const methodName = this.symbols.getMethodName(method);
+        const module = this.result.modules.get(method.moduleId) ?? this.symbols.findModule(method.methodStartAddress);
+        if (!method.methodToken || !module) {
+            return { reason: `The trace doesn't identify the metadata token and module of ${methodName}.` };
+        }
+
+        const pdb = await this.getPdb(module);
+        if (!pdb) {
+            return { reason: `No matching portable PDB found for ${getModuleName(module)}. Add its folder to nettraceViewer.symbolSearchPaths.` };
+        }
+        const location = pdb.findLocation(method.methodToken, this.getILOffset(method, addr));
+        return location ? { location } : { reason: `${getModuleName(module)}.pdb has no sequence points for ${methodName}.` };
+    }
+
+    /**
+     * IL offset of the instruction at `addr`: the mapped IL offset of the closest native offset at or
+     * before it. Prolog, epilog and unmapped entries are skipped.
+     */
+    private getILOffset(method: MethodInfo, addr: bigint): number | undefined {
+        const ilMap = this.result.ilToNativeMaps.get(method.methodStartAddress);
+        if (!ilMap) {
+            return undefined;
+        }
+        const nativeOffset = Number(addr - method.methodStartAddress);
+        let best: { nativeOffset: number; ilOffset: number } | undefined;
+        for (let i = 0; i < ilMap.ilOffsets.length; i++) {
+            const entry = { nativeOffset: ilMap.nativeOffsets[i], ilOffset: ilMap.ilOffsets[i] };
+            if (entry.ilOffset >= 0 && entry.nativeOffset <= nativeOffset && (!best || entry.nativeOffset >= best.nativeOffset)) {
+                best = entry;
+            }
+        }
+        return best?.ilOffset;
+    }
+
+    private getPdb(module: ModuleInfo): Promise<PortablePdb | undefined> {
+        let pdb = this.pdbs.get(module.moduleId);
+        if (!pdb) {
+            pdb = findPortablePdb(module, this.searchPaths);
+            this.pdbs.set(module.moduleId, pdb);
+        }
+        return pdb;
+    }
+}
+
+/**
+ * Address to look up the source line of a stack frame with. Frames below the top of the stack hold
+ * return addresses, which point past the call and may already belong to the next line.
+ */
+export function getSourceLookupAddress(addr: bigint, frameIndex: number): bigint {
+    return frameIndex > 0 && addr > BigInt(0) ? addr - BigInt(1) : addr;
+}
+
+/**
+ * Locations a module's PDB may be in: next to the IL image, at its build path, and by file name in
+ * the search paths (flat, or in a symbol server layout `name.pdb/<guid>FFFFFFFF/name.pdb`)
+ */
+export function getPdbCandidates(module: ModuleInfo, searchPaths: string[]): string[] {
+    const candidates: string[] = [];
+    if (module.ilPath) {
+        candidates.push(module.ilPath.replace(/\.(dll|exe)$/i, '') + '.pdb');
+    }
+    if (module.managedPdbBuildPath) {
+        candidates.push(module.managedPdbBuildPath);
+    }
+
+    const fileName = module.managedPdbBuildPath
+        ? module.managedPdbBuildPath.split(/[/\\]/).pop()!
+        : getModuleName(module) + '.pdb';
+    const symbolStoreKey = module.managedPdbSignature
+        ? module.managedPdbSignature.replace(/-/g, '') + 'FFFFFFFF'
+        : undefined;
+    for (const dir of searchPaths) {
+        candidates.push(path.join(dir, fileName));
+        if (symbolStoreKey) {
+            candidates.push(path.join(dir, fileName, symbolStoreKey, fileName));
+        }
+    }
+    return candidates.filter((candidate, index) => candidates.indexOf(candidate) === index);
+}
+
+/**
+ * Load the first candidate PDB that is a portable PDB matching the module's reported signature
+ */
+async function findPortablePdb(module: ModuleInfo, searchPaths: string[]): Promise<PortablePdb | undefined> {
+    for (const candidate of getPdbCandidates(module, searchPaths)) {
+        let pdb: PortablePdb | undefined;
+        try {
+            pdb = PortablePdb.read(await fs.promises.readFile(candidate));
+        } catch {
+            pdb = undefined;  // Missing, unreadable or corrupt
+        }
+        if (pdb && (!module.managedPdbSignature || pdb.id === module.managedPdbSignature)) {
+            return pdb;
+        }
+    }
+    return undefined;
+}
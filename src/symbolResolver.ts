@@ -0,0 +1,143 @@
+/**
+ * Resolves stack frame addresses to names, shared by the parser's method profiles and the
+ * editor's flame graph and stack views.
+ *
+ * Frames are named `Module!Namespace.Method` when the method and its module are known. Addresses
+ * that no method covers are looked up in fallback symbols loaded from outside the trace (perf maps,
+ * native ELF symbols), and otherwise still name their module or native image when they fall inside one.
+ */
+
+import { MethodInfo, ModuleInfo } from './nettraceParser';
+
+/**
+ * A named code region from a symbol source other than the trace's own method events
+ */
+export interface SymbolRange {
+    address: bigint;
+    size: number;
+    name: string;
+}
+
+interface AddressRange<T> {
+    address: bigint;
+    endAddress: bigint;
+    value: T;
+}
+
+export class SymbolResolver {
+    private readonly methodRanges: AddressRange<MethodInfo>[] = [];
+    private readonly moduleRanges: AddressRange<ModuleInfo>[] = [];
+    private readonly fallbackRanges: AddressRange<string>[] = [];
+    private readonly imageRanges: AddressRange<string>[] = [];
+
+    constructor(methods: Iterable<MethodInfo>, private readonly modules: Map<bigint, ModuleInfo>,
+                fallbackSymbols: SymbolRange[] = [], nativeImages: SymbolRange[] = []) {
+        for (const method of methods) {
+            if (method.methodStartAddress > 0) {
+                this.methodRanges.push({
+                    address: method.methodStartAddress,
+                    endAddress: method.methodStartAddress + BigInt(method.methodSize),
+                    value: method
+                });
+            }
+        }
+        for (const module of modules.values()) {
+            if (module.baseAddress !== undefined && module.imageSize) {
+                this.moduleRanges.push({
+                    address: module.baseAddress,
+                    endAddress: module.baseAddress + BigInt(module.imageSize),
+                    value: module
+                });
+            }
+        }
+        for (const symbol of fallbackSymbols) {
+            this.fallbackRanges.push({
+                address: symbol.address,
+                endAddress: symbol.address + BigInt(symbol.size),
+                value: symbol.name
+            });
+        }
+        for (const image of nativeImages) {
+            this.imageRanges.push({
+                address: image.address,
+                endAddress: image.address + BigInt(image.size),
+                value: image.name
+            });
+        }
+        sortRanges(this.methodRanges);
+        sortRanges(this.moduleRanges);
+        sortRanges(this.fallbackRanges);
+        sortRanges(this.imageRanges);
+    }
+
+    findMethod(addr: bigint): MethodInfo | undefined {
+        return findRange(this.methodRanges, addr);
+    }
+
+    findModule(addr: bigint): ModuleInfo | undefined {
+        return findRange(this.moduleRanges, addr);
+    }
+
+    /**
+     * Name for a frame address: the containing method, a fallback symbol, or `<unknown>` with the
+     * module or native image if known
+     */
+    resolve(addr: bigint): string {
+        const method = this.findMethod(addr);
+        if (method) {
+            return this.getMethodName(method);
+        }
+        const fallback = findRange(this.fallbackRanges, addr);
+        if (fallback) {
+            return fallback;
+        }
+        const unknown = `<unknown> 0x${addr.toString(16)}`;
+        const module = this.findModule(addr);
+        if (module) {
+            return `${getModuleName(module)}!${unknown}`;
+        }
+        const image = findRange(this.imageRanges, addr);
+        return image ? `${image}!${unknown}` : unknown;
+    }
+
+    getMethodName(method: MethodInfo): string {
+        const name = method.methodNamespace
+            ? `${method.methodNamespace}.${method.methodName}`
+            : method.methodName || `Method_0x${method.methodStartAddress.toString(16)}`;
+        // Some events (ReadyToRun entry points) don't report the module; fall back to the image range
+        const module = this.modules.get(method.moduleId) ?? this.findModule(method.methodStartAddress);
+        return module ? `${getModuleName(module)}!${name}` : name;
+    }
+}
+
+/**
+ * Short module name: the IL image file name without its extension, or the assembly name
+ */
+export function getModuleName(module: ModuleInfo): string {
+    const path = module.ilPath || module.nativePath;
+    if (path) {
+        const fileName = path.split(/[/\\]/).pop() || path;
+        return fileName.replace(/(\.ni)?\.(dll|exe)$/i, '');
+    }
+    return module.assemblyName || `Module_0x${module.moduleId.toString(16)}`;
+}
+
+function sortRanges<T>(ranges: AddressRange<T>[]): void {
+    ranges.sort((a, b) => a.address < b.address ? -1 : a.address > b.address ? 1 : 0);
+}
+
+function findRange<T>(ranges: AddressRange<T>[], addr: bigint): T | undefined {
+    let left = 0, right = ranges.length - 1;
+    while (left <= right) {
+        const mid = Math.floor((left + right) / 2);
+        const entry = ranges[mid];
+        if (addr >= entry.address && addr < entry.endAddress) {
+            return entry.value;
+        } else if (addr < entry.address) {
+            right = mid - 1;
+        } else {
+            left = mid + 1;
+        }
+    }
+    return undefined;
+}
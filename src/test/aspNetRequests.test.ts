@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { AspNetRequestBuilder, requestRoute } from '../aspNetRequests';
+import { LogMessage } from '../logMessages';
+import { TraceInfo } from '../nettraceParser';
+
+suite('ASP.NET Core requests', () => {
+    // Millisecond ticks
+    const traceInfo: TraceInfo = { syncTimeUTC: new Date(0), syncTimeTicks: BigInt(0), tickFrequency: BigInt(1000), pointerSize: 8 };
+    const requestFinished = (threadId: number, timeMs: number, method: string, path: string, statusCode: string): LogMessage => ({
+        eventIndex: 0, timeMs, threadId: BigInt(threadId), level: 2, category: 'Microsoft.AspNetCore.Hosting.Diagnostics', eventId: 2,
+        eventName: 'RequestFinished', message: '', arguments: { Method: method, PathBase: '', Path: path, StatusCode: statusCode }
+    });
+
+    test('merges Hosting and Kestrel events into requests, whatever thread they stop on', () => {
+        const builder = new AspNetRequestBuilder();
+        const orders = { method: 'GET', path: '/orders/42' };
+        const kestrel = { connectionId: 'conn1', requestId: 'conn1:1', httpVersion: 'HTTP/1.1' };
+
+        // Each thread's events reach the builder in turn, not in time order
+        builder.hostingRequestStart({ method: 'POST', path: '/api/checkout' }, BigInt(3), BigInt(120), undefined);
+        builder.hostingUnhandledException(BigInt(3), BigInt(130), undefined);
+        builder.hostingRequestStop(BigInt(3), BigInt(140), undefined);
+        builder.kestrelConnectionStart({ connectionId: 'conn1', remoteEndPoint: '10.0.0.1:5000' }, BigInt(1), BigInt(50));
+        builder.hostingRequestStart(orders, BigInt(1), BigInt(100), 'activity-1');
+        builder.kestrelRequestStart({ ...orders, ...kestrel }, BigInt(1), BigInt(100), 'activity-1/1');
+        builder.kestrelRequestStart({ ...orders, ...kestrel, requestId: 'conn1:2' }, BigInt(1), BigInt(200), undefined);
+        builder.hostingRequestStop(BigInt(2), BigInt(150), 'activity-1');
+        builder.kestrelRequestStop({ ...orders, ...kestrel }, BigInt(2), BigInt(160));
+
+        const timeline = builder.build(traceInfo, [
+            requestFinished(2, 155, 'GET', '/orders/42', '200'),
+            // Another request's entry on the same thread
+            requestFinished(2, 156, 'GET', '/health', '204')
+        ]);
+
+        assert.deepStrictEqual(timeline.requests.map(({ method, route, statusCode, failed, startTimeMs, durationMs, threadId, threadIds }) =>
+            [method, route, statusCode, failed, startTimeMs, durationMs, threadId, threadIds]), [
+            ['GET', '/orders/{id}', 200, false, 100, 60, BigInt(1), [BigInt(1), BigInt(2)]],
+            ['POST', '/api/checkout', undefined, true, 120, 20, BigInt(3), [BigInt(3)]]
+        ]);
+        const [request] = timeline.requests;
+        assert.deepStrictEqual([request.activityId, request.connectionId, request.requestId, request.httpVersion, request.remoteEndPoint],
+            ['activity-1', 'conn1', 'conn1:1', 'HTTP/1.1', '10.0.0.1:5000']);
+        assert.strictEqual(timeline.unfinishedRequests, 1);
+        assert.strictEqual(timeline.connections, 1);
+    });
+
+    test('replaces ID-like path segments in routes', () => {
+        assert.strictEqual(requestRoute('/orders/42/items/7'), '/orders/{id}/items/{id}');
+        assert.strictEqual(requestRoute('/users/0f8fad5b-d9cb-469f-a165-70867728950e'), '/users/{id}');
+        assert.strictEqual(requestRoute('/blobs/00112233445566778899aabb'), '/blobs/{id}');
+        assert.strictEqual(requestRoute('/v2/api/cafe'), '/v2/api/cafe');
+    });
+});
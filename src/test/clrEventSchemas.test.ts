@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { DOTNET_RUNTIME_PROVIDER, DOTNET_RUNTIME_RUNDOWN_PROVIDER, getClrEventSchema } from '../clrEventSchemas';
+import { decodePayload } from '../payloadDecoder';
+import { ByteWriter } from './nettraceWriter';
+
+suite('CLR event schemas', () => {
+    test('decodes an AssemblyLoad V1 payload with BindingID ahead of the flags', () => {
+        const payload = new ByteWriter()
+            .uint64(BigInt(0x7ff0001000))                     // AssemblyID
+            .uint64(BigInt(0x7ff0002000))                     // AppDomainID
+            .uint64(BigInt(42))                               // BindingID
+            .uint32(0x2)                                      // AssemblyFlags
+            .utf16z('System.Text.Json, Version=8.0.0.0, Culture=neutral')
+            .uint16(7)                                        // ClrInstanceID
+            .toBuffer();
+
+        const schema = getClrEventSchema(DOTNET_RUNTIME_PROVIDER, 154, 1)!;
+
+        assert.strictEqual(schema.eventName, 'AssemblyLoad');
+        assert.deepStrictEqual(decodePayload(payload, schema.fields), {
+            AssemblyID: BigInt(0x7ff0001000),
+            AppDomainID: BigInt(0x7ff0002000),
+            BindingID: BigInt(42),
+            AssemblyFlags: 2,
+            FullyQualifiedAssemblyName: 'System.Text.Json, Version=8.0.0.0, Culture=neutral',
+            ClrInstanceID: 7
+        });
+    });
+
+    test('decodes an AssemblyLoad V0 payload without BindingID', () => {
+        const payload = new ByteWriter()
+            .uint64(BigInt(1)).uint64(BigInt(2)).uint32(0).utf16z('App')
+            .toBuffer();
+
+        const schema = getClrEventSchema(DOTNET_RUNTIME_RUNDOWN_PROVIDER, 155, 0)!;
+
+        assert.strictEqual(schema.eventName, 'AssemblyDCStart');
+        assert.deepStrictEqual(decodePayload(payload, schema.fields), {
+            AssemblyID: BigInt(1),
+            AppDomainID: BigInt(2),
+            AssemblyFlags: 0,
+            FullyQualifiedAssemblyName: 'App'
+        });
+    });
+
+    test('uses the latest known layout for newer versions and nothing for unknown events', () => {
+        assert.strictEqual(getClrEventSchema(DOTNET_RUNTIME_PROVIDER, 154, 9)?.fields[2].name, 'BindingID');
+        assert.strictEqual(getClrEventSchema(DOTNET_RUNTIME_PROVIDER, 60000, 0), undefined);
+        assert.strictEqual(getClrEventSchema('Some-Other-Provider', 154, 1), undefined);
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { ContentionBuilder } from '../contention';
+import { NetTraceParser, TraceInfo } from '../nettraceParser';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('Contention', () => {
+    test('pairs starts and stops per thread, in the order the waits ended, with the lock details of .NET 8', () => {
+        const runtime = 'Microsoft-Windows-DotNETRuntime';
+        const start = (flags: number) => new ByteWriter().byte(flags).uint16(0)
+            .uint64(BigInt(0x7000)).uint64(BigInt(0x8000)).uint64(BigInt(42)).toBuffer();
+        const stop = (flags: number, durationNs: number) => new ByteWriter().byte(flags).uint16(0).double(durationNs).toBuffer();
+
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000000))
+            .threads([{ index: 1, threadId: BigInt(1) }, { index: 2, threadId: BigInt(2) }])
+            .metadata([
+                { metadataId: 1, providerName: runtime, eventId: 81, eventName: '', version: 2 },
+                { metadataId: 2, providerName: runtime, eventId: 91, eventName: '', version: 1 }
+            ])
+            .events([
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(1000), payload: start(0) },
+                { metadataId: 1, threadIndex: 2, sequenceNumber: 1, timestamp: BigInt(1500), payload: start(1) },
+                { metadataId: 2, threadIndex: 2, sequenceNumber: 2, timestamp: BigInt(1600), payload: stop(1, 100000) },
+                { metadataId: 2, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(3000), payload: stop(0, 1750000) }
+            ])
+            .end()).parse();
+
+        assert.deepStrictEqual(result.contentions, [
+            {
+                threadId: BigInt(2), startTimeMs: 1.5, durationMs: 0.1, stackId: 0, managed: false,
+                lockId: BigInt(0x7000), associatedObjectId: BigInt(0x8000), ownerThreadId: BigInt(42)
+            },
+            {
+                threadId: BigInt(1), startTimeMs: 1, durationMs: 1.75, stackId: 0, managed: true,
+                lockId: BigInt(0x7000), associatedObjectId: BigInt(0x8000), ownerThreadId: BigInt(42)
+            }
+        ]);
+    });
+
+    // Millisecond ticks
+    const traceInfo: TraceInfo = { syncTimeUTC: new Date(0), syncTimeTicks: BigInt(100), tickFrequency: BigInt(1000), pointerSize: 8 };
+
+    test('measures waits from the timestamps before .NET 8 and drops unpaired events', () => {
+        const builder = new ContentionBuilder();
+
+        builder.stop({ ContentionFlags: 0 }, BigInt(1), BigInt(105));
+        builder.start({ ContentionFlags: 0 }, BigInt(1), BigInt(110), 7);
+        builder.stop({ ContentionFlags: 0 }, BigInt(1), BigInt(135));
+        builder.start({ ContentionFlags: 0 }, BigInt(2), BigInt(140), 8);
+
+        assert.deepStrictEqual(builder.build(traceInfo), [{
+            threadId: BigInt(1), startTimeMs: 10, durationMs: 25, stackId: 7, managed: true,
+            lockId: undefined, associatedObjectId: undefined, ownerThreadId: undefined
+        }]);
+    });
+
+    test('orders waits on different threads by when they ended, not by when their buffers were read', () => {
+        const builder = new ContentionBuilder();
+
+        // Thread 1's buffer comes first, though thread 2's wait ended in between its two
+        builder.start({ ContentionFlags: 0 }, BigInt(1), BigInt(110), 1);
+        builder.stop({ ContentionFlags: 0 }, BigInt(1), BigInt(120));
+        builder.start({ ContentionFlags: 0 }, BigInt(1), BigInt(130), 1);
+        builder.stop({ ContentionFlags: 0 }, BigInt(1), BigInt(150));
+        builder.start({ ContentionFlags: 0 }, BigInt(2), BigInt(100), 2);
+        builder.stop({ ContentionFlags: 0 }, BigInt(2), BigInt(140));
+
+        assert.deepStrictEqual(builder.build(traceInfo).map(({ threadId, startTimeMs, durationMs }) => [threadId, startTimeMs, durationMs]), [
+            [BigInt(1), 10, 10],
+            [BigInt(2), 0, 40],
+            [BigInt(1), 30, 20]
+        ]);
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { DatabaseCommandBuilder, normalizeSql } from '../databaseCommands';
+import { LogMessage } from '../logMessages';
+import { TraceInfo } from '../nettraceParser';
+
+suite('Database commands', () => {
+    // Millisecond ticks
+    const traceInfo: TraceInfo = { syncTimeUTC: new Date(0), syncTimeTicks: BigInt(0), tickFrequency: BigInt(1000), pointerSize: 8 };
+    const efLog = (eventIndex: number, threadId: number, timeMs: number, eventId: number, message: string, args?: Record<string, string>): LogMessage => ({
+        eventIndex, timeMs, threadId: BigInt(threadId), level: 2, category: 'Microsoft.EntityFrameworkCore.Database.Command', eventId,
+        eventName: '', message, arguments: args
+    });
+
+    test('pairs SqlClient executions and completes them with the EF Core entries logged after them', () => {
+        const builder = new DatabaseCommandBuilder();
+        const connection = { dataSource: 'tcp:db', database: 'Shop' };
+
+        // The async command completes on another thread
+        builder.endExecute({ objectId: 1, compositeState: 1 }, BigInt(2), BigInt(130));
+        builder.beginExecute({ objectId: 1, commandText: '', ...connection }, BigInt(1), BigInt(100));
+        builder.beginExecute({ objectId: 2, commandText: 'dbo.GetOrders', ...connection }, BigInt(1), BigInt(200));
+        builder.endExecute({ objectId: 2, compositeState: 0, sqlExceptionNumber: 1205, message: 'Deadlock victim' }, BigInt(1), BigInt(210));
+        builder.beginExecute({ objectId: 3, commandText: 'dbo.Archive', ...connection }, BigInt(1), BigInt(300));
+
+        const timeline = builder.build(traceInfo, [
+            efLog(7, 2, 131, 20101, '', { elapsed: '30', commandText: 'SELECT * FROM Orders WHERE Id = 42', parameters: '@p0=\'42\'' }),
+            // Another provider: no SqlClient command to complete
+            efLog(9, 5, 2000, 20102, 'Failed executing DbCommand (1,250ms) [Parameters=[], CommandType=\'Text\', CommandTimeout=\'30\']\nUPDATE Stock SET Count = 0')
+        ]);
+
+        assert.deepStrictEqual(timeline.commands.map(({ source, commandText, normalizedText, failed, errorNumber, error, startTimeMs, durationMs, threadIds, logEventIndex }) =>
+            [source, commandText, normalizedText, failed, errorNumber, error, startTimeMs, durationMs, threadIds, logEventIndex]), [
+            ['SqlClient', 'SELECT * FROM Orders WHERE Id = 42', 'SELECT * FROM Orders WHERE Id = ?', false, undefined, undefined, 100, 30, [BigInt(1), BigInt(2)], 7],
+            ['SqlClient', 'dbo.GetOrders', 'dbo.GetOrders', true, 1205, 'Deadlock victim', 200, 10, [BigInt(1)], undefined],
+            ['EF Core', 'UPDATE Stock SET Count = 0', 'UPDATE Stock SET Count = ?', true, undefined, undefined, 750, 1250, [BigInt(5)], 9]
+        ]);
+        assert.deepStrictEqual([timeline.commands[0].dataSource, timeline.commands[0].database, timeline.commands[0].parameters], ['tcp:db', 'Shop', '@p0=\'42\'']);
+        assert.strictEqual(timeline.unfinishedCommands, 1);
+    });
+
+    test('normalizes literals and IN lists', () => {
+        assert.strictEqual(
+            normalizeSql('SELECT *\n  FROM Orders1 WHERE Id IN (1, 2, 3) AND Name = N\'O\'\'Brien\' AND Flags = 0xFF AND Price > 9.5'),
+            'SELECT * FROM Orders1 WHERE Id IN (...) AND Name = ? AND Flags = ? AND Price > ?');
+        assert.strictEqual(normalizeSql('DELETE FROM Carts WHERE Id IN (@p0, @p1)'), 'DELETE FROM Carts WHERE Id IN (...)');
+    });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { EventBrowser } from '../eventBrowser';
+import { EventIndexReader } from '../eventIndex';
+import { NetTraceParser } from '../nettraceParser';
+import { EventTypeCode } from '../payloadDecoder';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('Event browser', () => {
+    const logFields = [
+        { name: 'Level', typeCode: EventTypeCode.Int32 },
+        { name: 'LoggerName', typeCode: EventTypeCode.String },
+        { name: 'FormattedMessage', typeCode: EventTypeCode.String }
+    ];
+    const log = (message: string) => new ByteWriter().int32(2).utf16z('App').utf16z(message).toBuffer();
+
+    // Each thread's buffer is written as its own block, so the file interleaves the threads' events
+    const trace = new NetTraceWriter()
+        .trace(BigInt(0), BigInt(1000))
+        .threads([{ index: 1, threadId: BigInt(101) }, { index: 2, threadId: BigInt(102) }])
+        .metadata([
+            { metadataId: 1, providerName: 'Test', eventId: 1, eventName: 'Tick', fields: [{ name: 'Value', typeCode: EventTypeCode.Int32 }] },
+            { metadataId: 2, providerName: 'Microsoft-Extensions-Logging', eventId: 1, eventName: 'FormattedMessage', fields: logFields }
+        ])
+        .events([
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(10), payload: new ByteWriter().int32(1).toBuffer() },
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(30), payload: new ByteWriter().int32(3).toBuffer() },
+            { metadataId: 2, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(50), payload: log('late') }
+        ])
+        .events([
+            { metadataId: 2, threadIndex: 2, sequenceNumber: 1, timestamp: BigInt(20), payload: log('early') },
+            { metadataId: 1, threadIndex: 2, sequenceNumber: 2, timestamp: BigInt(40), payload: new ByteWriter().int32(4).toBuffer() }
+        ])
+        .sequencePoint(BigInt(60), [{ index: 1, sequenceNumber: 3 }, { index: 2, sequenceNumber: 2 }])
+        .events([{ metadataId: 1, threadIndex: 2, sequenceNumber: 3, timestamp: BigInt(70), payload: new ByteWriter().int32(7).toBuffer() }])
+        .end();
+
+    const open = () => {
+        const result = new NetTraceParser(trace).parse();
+        const browser = new EventBrowser(
+            result,
+            new EventIndexReader(result.eventIndex),
+            (offset, size) => trace.subarray(offset, offset + size),
+            addr => `0x${addr.toString(16)}`);
+        return { result, browser };
+    };
+
+    test('pages through events in time order, whatever order the file holds them in', () => {
+        const { browser } = open();
+
+        const first = browser.query({}, 0, 3);
+        assert.strictEqual(first.total, 6);
+        assert.deepStrictEqual(first.rows.map(row => [row.timeMs, row.threadId, row.eventName]), [
+            [10, '101', 'Tick'],
+            [20, '102', 'FormattedMessage'],
+            [30, '101', 'Tick']
+        ]);
+        assert.deepStrictEqual(browser.query({}, 3, 3).rows.map(row => row.timeMs), [40, 50, 70]);
+        assert.strictEqual(first.rows[0].summary, 'Value=1');
+    });
+
+    test('filters by provider and thread, keeping time order', () => {
+        const { browser } = open();
+
+        const ticks = browser.query({ provider: 'Test' }, 0, 10);
+        assert.deepStrictEqual(ticks.rows.map(row => row.summary), ['Value=1', 'Value=3', 'Value=4', 'Value=7']);
+
+        const thread = browser.query({ threadId: '102' }, 0, 10);
+        assert.deepStrictEqual(thread.rows.map(row => row.timeMs), [20, 40, 70]);
+        assert.deepStrictEqual(thread.rows.map(row => row.index), [1, 3, 5]);
+    });
+
+    test('reveals the event a log entry came from', () => {
+        const { result, browser } = open();
+
+        assert.deepStrictEqual(result.logs.map(entry => entry.message), ['early', 'late']);
+        const details = result.logs.map(entry => browser.getDetails(entry.eventIndex)!);
+        assert.deepStrictEqual(details.map(event => [event.timeMs, event.eventName]), [[20, 'FormattedMessage'], [50, 'FormattedMessage']]);
+        assert.deepStrictEqual(details[1].fields, [
+            { name: 'Level', value: '2' },
+            { name: 'LoggerName', value: 'App' },
+            { name: 'FormattedMessage', value: 'late' }
+        ]);
+        assert.strictEqual(browser.getDetails(99), undefined);
+    });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { CounterSeriesBuilder } from '../eventCounters';
+import { NetTraceParser, TraceInfo } from '../nettraceParser';
+import { EventTypeCode } from '../payloadDecoder';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('Event counters', () => {
+    test('reads counter values from EventCounters events of any provider', () => {
+        const fields = [
+            { name: 'Name', typeCode: EventTypeCode.String },
+            { name: 'DisplayName', typeCode: EventTypeCode.String },
+            { name: 'Mean', typeCode: EventTypeCode.Double },
+            { name: 'Count', typeCode: EventTypeCode.Int32 },
+            { name: 'Min', typeCode: EventTypeCode.Double },
+            { name: 'Max', typeCode: EventTypeCode.Double },
+            { name: 'IntervalSec', typeCode: EventTypeCode.Double },
+            { name: 'CounterType', typeCode: EventTypeCode.String },
+            { name: 'DisplayUnits', typeCode: EventTypeCode.String }
+        ];
+        const mean = (value: number, count: number, min: number, max: number) => new ByteWriter()
+            .utf16z('request-duration').utf16z('Request Duration').double(value).int32(count).double(min).double(max)
+            .double(1).utf16z('Mean').utf16z('ms').toBuffer();
+
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(1) }])
+            .metadata([
+                { metadataId: 1, providerName: 'App.Metrics', eventId: 0, eventName: 'EventCounters', fields },
+                { metadataId: 2, providerName: 'App.Metrics', eventId: 1, eventName: 'Other', fields }
+            ])
+            .events([
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(1000), payload: mean(12, 3, 10, 15) },
+                { metadataId: 2, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(1500), payload: mean(99, 1, 99, 99) },
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(2000), payload: mean(20, 1, 20, 20) },
+                // Nothing was recorded during this interval
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 4, timestamp: BigInt(3000), payload: mean(0, 0, 0, 0) }
+            ])
+            .end()).parse();
+
+        assert.deepStrictEqual(result.counters, [{
+            providerName: 'App.Metrics',
+            name: 'request-duration',
+            displayName: 'Request Duration',
+            displayUnits: 'ms',
+            counterType: 'Mean',
+            metadata: '',
+            intervalSec: 1,
+            samples: [{ timeMs: 1000, value: 12, min: 10, max: 15 }, { timeMs: 2000, value: 20 }]
+        }]);
+    });
+
+    test('keeps a series per tag set and reads increments from the nested Payload struct', () => {
+        // Millisecond ticks
+        const traceInfo: TraceInfo = { syncTimeUTC: new Date(0), syncTimeTicks: BigInt(0), tickFrequency: BigInt(1000), pointerSize: 8 };
+        const builder = new CounterSeriesBuilder();
+        const sum = (increment: number, metadata: string) => ({
+            Payload: { Name: 'requests', DisplayName: '', Increment: increment, CounterType: 'Sum', Metadata: metadata, IntervalSec: 5 }
+        });
+
+        builder.counterEvent('App', sum(3, 'route:/b'), BigInt(2000));
+        builder.counterEvent('App', sum(7, 'route:/a'), BigInt(1000));
+        builder.counterEvent('App', sum(4, 'route:/b'), BigInt(1000));
+        builder.counterEvent('App', { Payload: { Name: 'requests', Increment: NaN } }, BigInt(3000));
+        builder.counterEvent('App', { Payload: { DisplayName: 'No name', Mean: 1 } }, BigInt(3000));
+
+        const counters = builder.build(traceInfo);
+        assert.deepStrictEqual(counters.map(counter => [counter.metadata, counter.displayName, counter.counterType, counter.intervalSec]), [
+            ['route:/b', 'requests', 'Sum', 5],
+            ['route:/a', 'requests', 'Sum', 5]
+        ]);
+        assert.deepStrictEqual(counters[0].samples, [{ timeMs: 1000, value: 4 }, { timeMs: 2000, value: 3 }]);
+    });
+});
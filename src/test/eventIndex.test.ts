@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventIndexBuilder, EventIndexReader, deleteEventIndexFile } from '../eventIndex';
+import { NetTraceParser } from '../nettraceParser';
+import { NetTraceWriter } from './nettraceWriter';
+
+suite('Event index', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nettrace-index-test-'));
+
+    suiteTeardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('reads back records across pages, kept in memory', () => {
+        const builder = new EventIndexBuilder();
+        for (let i = 0; i < 40000; i++) {
+            assert.strictEqual(builder.append(i % 7, BigInt(100 + i % 3), BigInt(1000 + i), i % 5, i * 10, i % 300), i);
+        }
+        const index = builder.build();
+        assert.strictEqual(index.count, 40000);
+        assert.strictEqual(index.filePath, undefined);
+        assert.strictEqual(index.firstTimestamp, BigInt(1000));
+        assert.strictEqual(index.lastTimestamp, BigInt(40999));
+        assert.deepStrictEqual(index.threads.get(BigInt(101)), { eventCount: 13333, firstTimestamp: BigInt(1001), lastTimestamp: BigInt(40997) });
+
+        // Counted over time as they are appended, in no more than 200 buckets from the start of the trace
+        const timeline = builder.buildTimeline({ syncTimeUTC: new Date(0), syncTimeTicks: BigInt(1000), tickFrequency: BigInt(1000), pointerSize: 8 });
+        assert.strictEqual(timeline.reduce((sum, bucket) => sum + bucket.count, 0), 40000);
+        assert.ok(timeline.length >= 100 && timeline.length <= 200);
+        assert.deepStrictEqual([timeline[0].startMs, timeline[0].count], [0, timeline[0].endMs]);
+
+        const reader = new EventIndexReader(index);
+        assert.deepStrictEqual(reader.get(16384), {
+            metadataId: 16384 % 7,
+            stackId: 16384 % 5,
+            threadId: BigInt(100 + 16384 % 3),
+            timestamp: BigInt(17384),
+            payloadOffset: 163840,
+            payloadSize: 16384 % 300
+        });
+        assert.strictEqual(reader.get(39999).timestamp, BigInt(40999));
+        assert.strictEqual(reader.get(0).payloadOffset, 0);
+
+        let visited = 0;
+        reader.forEach((event, i) => {
+            assert.strictEqual(event.timestamp, BigInt(1000 + i));
+            visited++;
+        });
+        assert.strictEqual(visited, 40000);
+    });
+
+    test('sorts each run into time order and merges runs that overlap', () => {
+        for (const filePath of [undefined, path.join(tempDir, 'merged.events')]) {
+            const builder = new EventIndexBuilder(filePath);
+            const append = (timestamp: number) => builder.append(1, BigInt(timestamp % 2), BigInt(timestamp), 0, timestamp, 0);
+            [50, 10, 30].forEach(append);
+            builder.track(1);
+            builder.endRun();
+            [40, 20, 30].forEach(append);
+            builder.track(5);
+            builder.endRun();
+            [60, 70].forEach(append);
+            const index = builder.build();
+
+            const reader = new EventIndexReader(index);
+            const records: number[][] = [];
+            reader.forEach(event => records.push([Number(event.timestamp), event.payloadOffset]));
+            reader.close();
+            // Equal timestamps keep their file order
+            assert.deepStrictEqual(records.map(([timestamp]) => timestamp), [10, 20, 30, 30, 40, 50, 60, 70]);
+            assert.strictEqual(builder.positionOf(1), 0);
+            assert.strictEqual(builder.positionOf(5), 3);
+            assert.strictEqual(builder.build(), index);
+            if (filePath) {
+                assert.strictEqual(fs.statSync(filePath).size, 8 * 36);
+                assert.strictEqual(fs.existsSync(`${filePath}.merged`), false);
+                deleteEventIndexFile(filePath);
+            }
+        }
+    });
+
+    test('streams a large trace with the index written to disk', function () {
+        this.timeout(120000);
+
+        const tracePath = path.join(tempDir, 'large.nettrace');
+        const indexPath = path.join(tempDir, 'large.events');
+        const fd = fs.openSync(tracePath, 'w');
+        const writer = new NetTraceWriter(chunk => fs.writeSync(fd, chunk));
+        writer.trace(BigInt(0), BigInt(1000000))
+            .threads([1, 2, 3, 4].map(index => ({ index, threadId: BigInt(1000 + index) })))
+            .metadata([
+                { metadataId: 1, providerName: 'Microsoft-DotNETCore-SampleProfiler', eventId: 0, eventName: 'ThreadSample' },
+                { metadataId: 2, providerName: 'Test-Provider', eventId: 1, eventName: 'Tick' }
+            ])
+            .stacks(1, [[BigInt(0x1000), BigInt(0x2000)]]);
+
+        // Each block holds one thread's events, as EventPipe flushes per-thread buffers
+        const blockCount = 200;
+        const eventsPerBlock = 1500;
+        const sequenceNumbers = new Map<number, number>();
+        for (let block = 0; block < blockCount; block++) {
+            const threadIndex = block % 4 + 1;
+            const events = [];
+            for (let i = 0; i < eventsPerBlock; i++) {
+                const sequenceNumber = (sequenceNumbers.get(threadIndex) ?? 0) + 1;
+                sequenceNumbers.set(threadIndex, sequenceNumber);
+                events.push({
+                    metadataId: i % 2 === 0 ? 1 : 2,
+                    threadIndex,
+                    sequenceNumber,
+                    timestamp: BigInt(block * eventsPerBlock + i),
+                    stackId: i % 2 === 0 ? 1 : 0,
+                    payload: i % 2 === 0 ? undefined : Buffer.from([block & 0xff, i & 0xff, 0, 0])
+                });
+            }
+            writer.events(events);
+        }
+        writer.end();
+        fs.closeSync(fd);
+
+        const traceFd = fs.openSync(tracePath, 'r');
+        let result;
+        try {
+            result = new NetTraceParser(traceFd, false, indexPath).parse();
+        } finally {
+            fs.closeSync(traceFd);
+        }
+
+        const totalEvents = blockCount * eventsPerBlock;
+        assert.deepStrictEqual(result.errors, []);
+        assert.strictEqual(result.events.length, 0);
+        assert.strictEqual(result.eventIndex.count, totalEvents);
+        assert.strictEqual(result.eventIndex.pages.length, 0);
+        assert.strictEqual(fs.statSync(indexPath).size, totalEvents * 36);
+        assert.strictEqual(result.eventIndex.lastTimestamp, BigInt(totalEvents - 1));
+        assert.strictEqual(result.eventIndex.threads.get(BigInt(1001))?.eventCount, totalEvents / 4);
+
+        const cpu = result.cpuSampleTimeline;
+        assert.strictEqual(cpu.count, totalEvents / 2);
+        assert.ok(cpu.timesMs instanceof Float64Array);
+        assert.strictEqual(cpu.timesMs[cpu.count - 1], (totalEvents - 2) / 1000);
+        assert.strictEqual(result.cpuSamples.get(1), totalEvents / 2);
+
+        // Payloads are located in the trace file, not copied
+        const reader = new EventIndexReader(result.eventIndex);
+        const event = reader.get(123 * eventsPerBlock + 7);
+        assert.strictEqual(event.threadId, BigInt(1004));
+        const payload = Buffer.alloc(event.payloadSize);
+        const traceReadFd = fs.openSync(tracePath, 'r');
+        fs.readSync(traceReadFd, payload, 0, payload.length, event.payloadOffset);
+        fs.closeSync(traceReadFd);
+        assert.deepStrictEqual([...payload], [123, 7, 0, 0]);
+
+        reader.close();
+        deleteEventIndexFile(result.eventIndex.filePath);
+        assert.strictEqual(fs.existsSync(indexPath), false);
+    });
+});
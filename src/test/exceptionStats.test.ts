@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { NetTraceParser } from '../nettraceParser';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('Exception stats', () => {
+    const RUNTIME = 'Microsoft-Windows-DotNETRuntime';
+    const thrown = (type: string, message: string) =>
+        new ByteWriter().utf16z(type).utf16z(message).uint64(BigInt(0)).uint32(0x80131500).uint16(0x10).uint16(0).toBuffer();
+    const handler = (methodName: string) =>
+        new ByteWriter().uint64(BigInt(0x1000)).uint64(BigInt(1)).utf16z(methodName).uint16(0).toBuffer();
+    // Stop events carry only the ClrInstanceID
+    const stop = new ByteWriter().uint16(0).toBuffer();
+
+    test('groups throws and attributes the handlers run while dispatching them', () => {
+        const events: [number, number, number, Buffer][] = [
+            // eventId, thread, timestamp, payload
+            [80, 1, 1000, thrown('System.InvalidOperationException', 'Bad state')],
+            [254, 1, 1100, handler('App.Worker.ShouldHandle')],   // FilterStart
+            [255, 1, 1300, stop],                                  // FilterStop
+            [252, 1, 1400, handler('App.Worker.Cleanup')],         // FinallyStart
+            [253, 1, 1500, stop],                                  // FinallyStop
+            [250, 1, 1600, handler('App.Worker.Run')],             // CatchStart
+            [251, 1, 1700, stop],                                  // CatchStop
+            // Handlers after the catch block belong to no dispatch
+            [252, 1, 1800, handler('App.Worker.Dispose')],
+            [253, 1, 1900, stop],
+            [80, 2, 2000, thrown('System.InvalidOperationException', 'Bad state')],
+            [80, 1, 3000, thrown('System.IO.IOException', 'Disk full')],
+            [252, 1, 3100, handler('App.Worker.Cleanup')],
+            [253, 1, 3200, stop],
+            [250, 1, 3300, handler('App.Worker.Retry')]
+        ];
+        const eventIds = Array.from(new Set(events.map(([eventId]) => eventId)));
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000000))
+            .threads([{ index: 1, threadId: BigInt(1) }, { index: 2, threadId: BigInt(2) }])
+            .metadata(eventIds.map(eventId => ({ metadataId: eventId, providerName: RUNTIME, eventId, eventName: '', version: eventId === 80 ? 1 : 0 })))
+            .events(events.map(([eventId, threadIndex, timestamp, payload], i) => ({
+                metadataId: eventId, threadIndex, sequenceNumber: i + 1, timestamp: BigInt(timestamp), payload
+            })))
+            .end()).parse();
+
+        const [invalidOperation, io] = result.exceptions;
+        assert.strictEqual(result.exceptions.length, 2);
+        assert.deepStrictEqual([invalidOperation.typeName, invalidOperation.message, invalidOperation.count], ['System.InvalidOperationException', 'Bad state', 2]);
+        assert.strictEqual(invalidOperation.hresult, 0x80131500);
+        assert.deepStrictEqual([invalidOperation.firstTimeMs, invalidOperation.lastTimeMs], [1, 2]);
+        assert.deepStrictEqual(Array.from(invalidOperation.threads), [[BigInt(1), 1], [BigInt(2), 1]]);
+        assert.deepStrictEqual(Array.from(invalidOperation.filterMethods), [['App.Worker.ShouldHandle', 1]]);
+        assert.deepStrictEqual(Array.from(invalidOperation.finallyMethods), [['App.Worker.Cleanup', 1]]);
+        assert.deepStrictEqual(Array.from(invalidOperation.catchMethods), [['App.Worker.Run', 1]]);
+        assert.strictEqual(invalidOperation.handlerTimeMs, 0.3);
+
+        assert.deepStrictEqual(Array.from(io.catchMethods), [['App.Worker.Retry', 1]]);
+        assert.deepStrictEqual(Array.from(io.finallyMethods), [['App.Worker.Cleanup', 1]]);
+        assert.strictEqual(io.handlerTimeMs, 0.1);
+
+        // Throws over the whole trace
+        assert.strictEqual(result.exceptionTimeline.reduce((sum, bucket) => sum + bucket.count, 0), 3);
+        assert.strictEqual(result.exceptionTimeline[0].startMs, 0);
+        assert.ok(result.exceptionTimeline[result.exceptionTimeline.length - 1].endMs >= 3.3);
+    });
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import { GCTimelineBuilder, gcReasonName, gcTypeName } from '../gcTimeline';
+import { NetTraceParser, TraceInfo } from '../nettraceParser';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('GC timeline', () => {
+    test('assembles a blocking GC from its lifecycle events', () => {
+        const runtime = 'Microsoft-Windows-DotNETRuntime';
+        const heapStats = new ByteWriter();
+        [100, 200, 300, 400].forEach((size, gen) => heapStats.uint64(BigInt(size)).uint64(BigInt(gen * 10)));
+        heapStats.uint64(BigInt(0)).uint64(BigInt(0)).uint32(3).uint32(0).uint32(0).uint16(0);
+        heapStats.uint64(BigInt(50)).uint64(BigInt(5));
+
+        const events: [number, number, Buffer][] = [
+            [9, 1000, new ByteWriter().uint32(1).uint32(1).uint16(0).toBuffer()],                        // GCSuspendEEBegin
+            [8, 1100, Buffer.alloc(2)],                                                                // GCSuspendEEEnd
+            [1, 1200, new ByteWriter().uint32(1).uint32(0).uint32(0).uint32(0).uint16(0).toBuffer()],  // GCStart
+            [2, 1700, new ByteWriter().uint32(1).uint32(0).uint16(0).toBuffer()],                      // GCEnd
+            [4, 1750, heapStats.toBuffer()],                                                           // GCHeapStats
+            [3, 2000, Buffer.alloc(2)]                                                                 // GCRestartEEEnd
+        ];
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000000))
+            .threads([{ index: 1, threadId: BigInt(1) }])
+            .metadata(events.map(([eventId]) => ({ metadataId: eventId, providerName: runtime, eventId, eventName: '', version: eventId === 4 ? 2 : 1 })))
+            .events(events.map(([eventId, timestamp, payload], i) => ({ metadataId: eventId, threadIndex: 1, sequenceNumber: i + 1, timestamp: BigInt(timestamp), payload })))
+            .end()).parse();
+
+        assert.deepStrictEqual(result.gcs, [{
+            number: 1,
+            generation: 0,
+            reason: 0,
+            type: 0,
+            startTimeMs: 1.2,
+            durationMs: 0.5,
+            pauseDurationMs: 1,
+            suspendDurationMs: 0.1,
+            generationSizesAfter: [100, 200, 300, 400, 50],
+            heapSizeAfter: 1050,
+            promotedBytes: 65,
+            pinnedObjectCount: 3
+        }]);
+    });
+
+    test('pairs events logged on different threads in time order, not in the order their buffers are written', () => {
+        const runtime = 'Microsoft-Windows-DotNETRuntime';
+        const gcStart = (count: number) => new ByteWriter().uint32(count).uint32(0).uint32(0).uint32(0).uint16(0).toBuffer();
+        const gcEnd = (count: number) => new ByteWriter().uint32(count).uint32(0).uint16(0).toBuffer();
+        const suspendBegin = () => new ByteWriter().uint32(1).uint32(1).uint16(0).toBuffer();
+
+        // The GC thread's buffer is written before the buffer of the thread that suspended the runtime
+        const gcThreadEvents: [number, number, Buffer][] = [
+            [1, 1200, gcStart(1)],
+            [2, 1700, gcEnd(1)],
+            [1, 3200, gcStart(2)],
+            [2, 3400, gcEnd(2)]
+        ];
+        const suspendingThreadEvents: [number, number, Buffer][] = [
+            [9, 1000, suspendBegin()],
+            [8, 1100, Buffer.alloc(2)],
+            [3, 2000, Buffer.alloc(2)],
+            [9, 3000, suspendBegin()],
+            [8, 3050, Buffer.alloc(2)],
+            [3, 3500, Buffer.alloc(2)]
+        ];
+        const toEvents = (threadIndex: number, events: [number, number, Buffer][]) =>
+            events.map(([eventId, timestamp, payload], i) => ({ metadataId: eventId, threadIndex, sequenceNumber: i + 1, timestamp: BigInt(timestamp), payload }));
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000000))
+            .threads([{ index: 1, threadId: BigInt(1) }, { index: 2, threadId: BigInt(2) }])
+            .metadata([1, 2, 3, 8, 9].map(eventId => ({ metadataId: eventId, providerName: runtime, eventId, eventName: '', version: 1 })))
+            .events(toEvents(2, gcThreadEvents))
+            .events(toEvents(1, suspendingThreadEvents))
+            .end()).parse();
+
+        assert.deepStrictEqual(result.gcs.map(({ number, startTimeMs, durationMs, pauseDurationMs, suspendDurationMs }) =>
+            [number, startTimeMs, durationMs, pauseDurationMs, suspendDurationMs]), [
+            [1, 1.2, 0.5, 1, 0.1],
+            [2, 3.2, 0.2, 0.5, 0.05]
+        ]);
+    });
+
+    // Millisecond ticks
+    const traceInfo: TraceInfo = { syncTimeUTC: new Date(0), syncTimeTicks: BigInt(0), tickFrequency: BigInt(1000), pointerSize: 8 };
+
+    test('charges a background GC with its own pauses and not the foreground GCs inside it', () => {
+        const builder = new GCTimelineBuilder();
+        const gc = (Count: number, Depth: number, Type: number) => ({ Count, Depth, Reason: 0, Type });
+        const sizes = (gen0: number) => ({ GenerationSize0: BigInt(gen0), GenerationSize1: BigInt(0), GenerationSize2: BigInt(1000) });
+
+        builder.suspendBegin({ Reason: 1 }, BigInt(0));
+        builder.suspendEnd(BigInt(1));
+        builder.gcStart(gc(10, 2, 1), BigInt(2));
+        builder.restartEnd(BigInt(5));
+        builder.allocationTick(BigInt(1000), BigInt(6));
+
+        // A foreground gen0 GC while the background GC runs
+        builder.suspendBegin({ Reason: 6 }, BigInt(20));
+        builder.suspendEnd(BigInt(21));
+        builder.gcStart(gc(11, 0, 2), BigInt(22));
+        builder.gcEnd({ Count: 11 }, BigInt(25));
+        builder.heapStats(sizes(10), BigInt(26));
+        builder.restartEnd(BigInt(30));
+
+        // The background GC's final mark suspends threads without a GCStart
+        builder.suspendBegin({ Reason: 1 }, BigInt(40));
+        builder.suspendEnd(BigInt(42));
+        builder.restartEnd(BigInt(46));
+        builder.gcEnd({ Count: 10 }, BigInt(60));
+        builder.heapStats(sizes(20), BigInt(61));
+
+        builder.allocationTick(BigInt(500), BigInt(70));
+        builder.gcStart(gc(12, 0, 0), BigInt(80));
+        builder.gcEnd({ Count: 12 }, BigInt(85));
+        // Suspensions for anything but a GC are ignored
+        builder.suspendBegin({ Reason: 2 }, BigInt(90));
+        builder.restartEnd(BigInt(95));
+
+        const gcs = builder.build(traceInfo);
+
+        assert.deepStrictEqual(gcs.map(({ number, startTimeMs, durationMs, pauseDurationMs, suspendDurationMs }) =>
+            [number, startTimeMs, durationMs, pauseDurationMs, suspendDurationMs]), [
+            [10, 2, 58, 11, 3],
+            [11, 22, 3, 10, 1],
+            [12, 80, 5, 0, 0]
+        ]);
+        assert.deepStrictEqual(gcs.map(entry => [entry.heapSizeBefore, entry.heapSizeAfter]), [
+            [undefined, 1020],
+            [undefined, 1010],
+            [1520, undefined]
+        ]);
+        assert.strictEqual(gcReasonName(gcs[0].reason), 'AllocSmall');
+        assert.strictEqual(gcTypeName(gcs[0].type), 'Background');
+        assert.strictEqual(gcTypeName(7), 'Type 7');
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { jitFlagNames, jitTierName } from '../jitTimeline';
+import { NetTraceParser } from '../nettraceParser';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('JIT timeline', () => {
+    const RUNTIME = 'Microsoft-Windows-DotNETRuntime';
+    const jittingStarted = (methodId: number, ilSize: number) => new ByteWriter()
+        .uint64(BigInt(methodId)).uint64(BigInt(0x500)).uint32(0x06000001).uint32(ilSize)
+        .utf16z('App.Program').utf16z('Main').utf16z('void ()').uint16(0)
+        .toBuffer();
+    const methodLoad = (methodId: number, address: number, tier: number, flags = 0) => new ByteWriter()
+        .uint64(BigInt(methodId)).uint64(BigInt(0x500)).uint64(BigInt(address)).uint32(0x80).uint32(0x06000001)
+        .uint32((tier << 7) | flags)
+        .utf16z('App.Program').utf16z('Main').utf16z('void ()').uint16(0)
+        .toBuffer();
+    const r2rEntryPoint = (methodId: number) => new ByteWriter()
+        .uint64(BigInt(methodId)).utf16z('App').utf16z('Helper').utf16z('void ()').uint64(BigInt(0x9000)).uint16(0)
+        .toBuffer();
+
+    test('pairs each compilation with the start on its thread and reads its tier', () => {
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000000))
+            .threads([{ index: 1, threadId: BigInt(1) }, { index: 2, threadId: BigInt(2) }])
+            .metadata([
+                { metadataId: 1, providerName: RUNTIME, eventId: 145, eventName: '', version: 1 },
+                { metadataId: 2, providerName: RUNTIME, eventId: 143, eventName: '', version: 1 },
+                { metadataId: 3, providerName: RUNTIME, eventId: 159, eventName: '' }
+            ])
+            .events([
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(1000), payload: jittingStarted(1, 40) },
+                { metadataId: 2, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(1500), payload: methodLoad(1, 0x5000, 3) },
+                // A load without a start, e.g. one that began before the trace
+                { metadataId: 2, threadIndex: 2, sequenceNumber: 1, timestamp: BigInt(1200), payload: methodLoad(2, 0x6000, 2, 0x2) },
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(3000), payload: jittingStarted(1, 40) },
+                { metadataId: 2, threadIndex: 1, sequenceNumber: 4, timestamp: BigInt(5000), payload: methodLoad(1, 0x7000, 4) },
+                { metadataId: 3, threadIndex: 2, sequenceNumber: 2, timestamp: BigInt(6000), payload: r2rEntryPoint(3) },
+                { metadataId: 3, threadIndex: 2, sequenceNumber: 3, timestamp: BigInt(6100), payload: r2rEntryPoint(3) }
+            ])
+            .end()).parse();
+
+        assert.deepStrictEqual(result.jit.compilations.map(({ methodId, threadId, startTimeMs, durationMs, tier, ilSize, codeAddress }) =>
+            [methodId, threadId, startTimeMs, durationMs, jitTierName(tier), ilSize, codeAddress]), [
+            [BigInt(1), BigInt(1), 1, 0.5, 'Tier0', 40, BigInt(0x5000)],
+            [BigInt(2), BigInt(2), 1.2, undefined, 'Optimized', undefined, BigInt(0x6000)],
+            [BigInt(1), BigInt(1), 3, 2, 'Tier1', 40, BigInt(0x7000)]
+        ]);
+        assert.strictEqual(result.jit.compilations[0].methodName, 'App.Program.Main');
+        assert.strictEqual(result.jit.compilations[0].codeSize, 0x80);
+        assert.deepStrictEqual(jitFlagNames(result.jit.compilations[1].flags), ['Generic']);
+        assert.strictEqual(result.jit.readyToRunMethods, 1);
+    });
+
+    test('names tiers and flags', () => {
+        assert.strictEqual(jitTierName(5), 'Tier1 OSR');
+        assert.strictEqual(jitTierName(9), 'Tier 9');
+        assert.deepStrictEqual(jitFlagNames(0x1 | 0x4 | 0x40 | 0x8), ['Dynamic', 'Shared generic code', 'ReadyToRun code rejected']);
+    });
+});
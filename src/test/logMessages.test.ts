@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { LogMessageBuilder, logLevelName } from '../logMessages';
+import { TraceInfo } from '../nettraceParser';
+
+suite('Log messages', () => {
+    // Millisecond ticks
+    const traceInfo: TraceInfo = { syncTimeUTC: new Date(0), syncTimeTicks: BigInt(0), tickFrequency: BigInt(1000), pointerSize: 8 };
+    const call = { Level: 4, FactoryID: 1, LoggerName: 'App.Orders', EventId: 7, EventName: 'OrderFailed' };
+
+    test('merges the MessageJson of a call into its FormattedMessage', () => {
+        const builder = new LogMessageBuilder();
+        builder.formattedMessage({ ...call, FormattedMessage: 'Order 42 failed' }, 10, BigInt(1), BigInt(100));
+        builder.messageJson({
+            ...call,
+            ExceptionJson: '{"TypeName":"System.TimeoutException","Message":"Timed out","HResult":"-2146233083"}',
+            ArgumentsJson: '{"OrderId":"42","{OriginalFormat}":"Order {OrderId} failed"}'
+        }, 11, BigInt(1), BigInt(100));
+
+        assert.deepStrictEqual(builder.build(traceInfo), [{
+            eventIndex: 10,
+            timeMs: 100,
+            threadId: BigInt(1),
+            level: 4,
+            category: 'App.Orders',
+            eventId: 7,
+            eventName: 'OrderFailed',
+            message: 'Order 42 failed',
+            exception: 'System.TimeoutException: Timed out',
+            arguments: { 'OrderId': '42', '{OriginalFormat}': 'Order {OrderId} failed' }
+        }]);
+    });
+
+    test('keeps a MessageJson of another call as its own entry, in time order', () => {
+        const builder = new LogMessageBuilder();
+        builder.formattedMessage({ ...call, FormattedMessage: 'first' }, 1, BigInt(1), BigInt(300));
+        builder.messageJson({ ...call, LoggerName: 'App.Payments', ExceptionJson: '{}', ArgumentsJson: 'not json' }, 2, BigInt(1), BigInt(200));
+        builder.messageJson({ ...call, ArgumentsJson: '{"A":"1"}' }, 3, BigInt(1), BigInt(350));
+
+        const logs = builder.build(traceInfo);
+        assert.deepStrictEqual(logs.map(entry => [entry.eventIndex, entry.category, entry.message, entry.exception, entry.arguments]), [
+            [2, 'App.Payments', '', undefined, undefined],
+            [1, 'App.Orders', 'first', undefined, undefined],
+            [3, 'App.Orders', '', undefined, { A: '1' }]
+        ]);
+    });
+
+    test('names log levels', () => {
+        assert.strictEqual(logLevelName(2), 'Information');
+        assert.strictEqual(logLevelName(5), 'Critical');
+        assert.strictEqual(logLevelName(9), 'Level 9');
+    });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadNativeSymbols, parseProcMaps } from '../nativeSymbols';
+
+/**
+ * A minimal 64-bit ELF file: one PT_LOAD segment linked at 0x10000 and a .symtab holding
+ * a sized function, a data object and a function without a size
+ */
+function buildElf(): Buffer {
+    const data = Buffer.alloc(0x1b0);
+    data.writeUInt32LE(0x464c457f, 0);
+    data[4] = 2;                                  // 64-bit
+    data[5] = 1;                                  // Little-endian
+    data.writeBigUInt64LE(BigInt(0x40), 0x20);    // Program headers
+    data.writeBigUInt64LE(BigInt(0xf0), 0x28);    // Section headers
+    data.writeUInt16LE(56, 0x36);
+    data.writeUInt16LE(1, 0x38);
+    data.writeUInt16LE(64, 0x3a);
+    data.writeUInt16LE(3, 0x3c);
+
+    // PT_LOAD at file offset 0
+    data.writeUInt32LE(1, 0x40);
+    data.writeBigUInt64LE(BigInt(0x10000), 0x40 + 0x10);
+
+    // .strtab at 0x78, .symtab at 0x90
+    data.write('\0do_work\0data\0empty\0', 0x78, 'latin1');
+    const symbol = (i: number, name: number, info: number, value: number, size: number) => {
+        const offset = 0x90 + i * 24;
+        data.writeUInt32LE(name, offset);
+        data[offset + 4] = info;
+        data.writeBigUInt64LE(BigInt(value), offset + 8);
+        data.writeBigUInt64LE(BigInt(size), offset + 16);
+    };
+    symbol(1, 1, 0x12, 0x11000, 0x40);            // Global function
+    symbol(2, 9, 0x11, 0x12000, 0x10);            // Object
+    symbol(3, 14, 0x12, 0x11100, 0);              // Function without a size
+
+    const section = (i: number, type: number, offset: number, size: number, link: number, entrySize: number) => {
+        const header = 0xf0 + i * 64;
+        data.writeUInt32LE(type, header + 4);
+        data.writeBigUInt64LE(BigInt(offset), header + 0x18);
+        data.writeBigUInt64LE(BigInt(size), header + 0x20);
+        data.writeUInt32LE(link, header + 0x28);
+        data.writeBigUInt64LE(BigInt(entrySize), header + 0x38);
+    };
+    section(1, 2, 0x90, 4 * 24, 2, 24);           // SHT_SYMTAB, strings in section 2
+    section(2, 3, 0x78, 20, 0, 0);                // SHT_STRTAB
+    return data;
+}
+
+suite('Native symbols', () => {
+    test('reads executable file mappings from a maps listing', () => {
+        const images = parseProcMaps([
+            '7f0000000000-7f0000010000 r-xp 00000000 08:01 1234 /usr/lib/libnative.so',
+            '7f0000010000-7f0000012000 rw-p 00010000 08:01 1234 /usr/lib/libnative.so',
+            '7f1000000000-7f1000001000 r--p 00000000 08:01 99 /usr/share/locale.dat',
+            '7f2000001000-7f2000002000 r-xp 00001000 08:01 77 /app/libold.so (deleted)',
+            '7ffd00000000-7ffd00021000 rw-p 00000000 00:00 0 [stack]'
+        ].join('\n'));
+
+        assert.deepStrictEqual(images, [
+            { path: '/usr/lib/libnative.so', start: BigInt('0x7f0000000000'), end: BigInt('0x7f0000012000'), loadAddress: BigInt('0x7f0000000000') },
+            { path: '/app/libold.so', start: BigInt('0x7f2000001000'), end: BigInt('0x7f2000002000'), loadAddress: BigInt('0x7f2000000000') }
+        ]);
+    });
+
+    test('relocates sized function symbols by the load address', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nettrace-elf-test-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'libnative.so'), buildElf());
+            fs.writeFileSync(path.join(dir, 'App.dll'), Buffer.from('MZ not an ELF file'));
+
+            // Neither path exists here; both are found by file name in the search path
+            const symbols = await loadNativeSymbols([
+                { path: '/nonexistent/libnative.so', start: BigInt('0x7f0000000000'), end: BigInt('0x7f0000012000'), loadAddress: BigInt('0x7f0000000000') },
+                { path: '/nonexistent/App.dll', start: BigInt('0x7f3000000000'), end: BigInt('0x7f3000001000'), loadAddress: BigInt('0x7f3000000000') },
+                { path: '/nonexistent/libmissing.so', start: BigInt('0x7f4000000000'), end: BigInt('0x7f4000001000'), loadAddress: BigInt('0x7f4000000000') }
+            ], [dir]);
+
+            assert.deepStrictEqual(symbols.symbols, [
+                { address: BigInt('0x7f0000001000'), size: 0x40, name: 'libnative.so!do_work' }
+            ]);
+            assert.deepStrictEqual(symbols.images.map(image => image.name), ['libnative.so', 'App.dll', 'libmissing.so']);
+            assert.strictEqual(symbols.images[0].size, 0x12000);
+            assert.strictEqual(symbols.symbolizedImages, 1);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
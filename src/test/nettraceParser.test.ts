@@ -0,0 +1,211 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NetTraceParser } from '../nettraceParser';
+import { EventTypeCode } from '../payloadDecoder';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('NetTrace V5', () => {
+    test('reads the Trace block header and its key/value pairs', () => {
+        const trace = new NetTraceWriter()
+            .trace(BigInt(5000), BigInt(10000000), {
+                ProcessId: '4242',
+                HardwareThreadCount: '16',
+                ExpectedCPUSamplingRate: '1000',
+                CommandLine: 'dotnet app.dll'
+            }, 4)
+            .end();
+
+        const result = new NetTraceParser(trace).parse();
+
+        assert.deepStrictEqual(result.errors, []);
+        assert.strictEqual(result.debugInfo.formatVersion, 5);
+        const info = result.traceInfo!;
+        assert.strictEqual(info.syncTimeTicks, BigInt(5000));
+        assert.strictEqual(info.tickFrequency, BigInt(10000000));
+        assert.strictEqual(info.pointerSize, 4);
+        assert.strictEqual(info.processId, 4242);
+        assert.strictEqual(info.numberOfProcessors, 16);
+        assert.strictEqual(info.cpuSamplingRate, 1000);
+        assert.strictEqual(info.commandLine, 'dotnet app.dll');
+        assert.strictEqual(info.syncTimeUTC.toISOString(), '2024-01-02T03:04:05.006Z');
+    });
+
+    test('resolves thread indexes through ThreadBlock and RemoveThreadBlock', () => {
+        const ping = new ByteWriter().int32(1).toBuffer();
+        const trace = new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(7001), name: 'Main' }, { index: 2, threadId: BigInt(7002) }])
+            .metadata([{ metadataId: 1, providerName: 'Test', eventId: 1, eventName: 'Ping' }])
+            .events([
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(10), payload: ping },
+                { metadataId: 1, threadIndex: 2, sequenceNumber: 1, timestamp: BigInt(20), payload: ping }
+            ])
+            // Index 2 is reused by another thread once removed
+            .removeThreads([{ index: 2, sequenceNumber: 1 }])
+            .threads([{ index: 2, threadId: BigInt(7003), name: 'Worker' }])
+            .events([{ metadataId: 1, threadIndex: 2, sequenceNumber: 1, timestamp: BigInt(30), payload: ping }])
+            .end();
+
+        const result = new NetTraceParser(trace).parse();
+
+        assert.deepStrictEqual(result.events.map(event => event.threadId), [BigInt(7001), BigInt(7002), BigInt(7003)]);
+        assert.strictEqual(result.threads.get(BigInt(7001))?.name, 'Main');
+        assert.strictEqual(result.threads.get(BigInt(7003))?.name, 'Worker');
+        assert.deepStrictEqual(Array.from(result.droppedEvents.values()).filter(count => count > 0), []);
+    });
+
+    test('decodes metadata fields and options, and the payloads they describe', () => {
+        const trace = new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(1) }])
+            .metadata([{
+                metadataId: 3,
+                providerName: 'My-Provider',
+                eventId: 12,
+                eventName: 'Work/Start',
+                fields: [{ name: 'Count', typeCode: EventTypeCode.Int32 }, { name: 'Name', typeCode: EventTypeCode.String }],
+                opcode: 1,
+                version: 2
+            }])
+            .events([{
+                metadataId: 3,
+                threadIndex: 1,
+                sequenceNumber: 1,
+                timestamp: BigInt(100),
+                stackId: 0,
+                payload: new ByteWriter().int32(-5).utf16z('job').toBuffer()
+            }])
+            .end();
+
+        const result = new NetTraceParser(trace).parse();
+        const meta = result.metadata.get(3)!;
+
+        assert.strictEqual(meta.providerName, 'My-Provider');
+        assert.strictEqual(meta.eventName, 'Work/Start');
+        assert.strictEqual(meta.eventId, 12);
+        assert.strictEqual(meta.opcode, 1);
+        assert.strictEqual(meta.version, 2);
+        assert.deepStrictEqual(meta.fields.map(field => [field.name, field.typeCode]), [['Count', EventTypeCode.Int32], ['Name', EventTypeCode.String]]);
+        assert.strictEqual(result.events[0].timestamp, BigInt(100));
+        assert.strictEqual(result.events[0].payload.length, 12);
+        assert.strictEqual(result.debugInfo.eventCounts.get('My-Provider:12'), 1);
+    });
+
+    test('takes activity IDs from label lists', () => {
+        const activity = (last: number) => [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, last];
+        const labels = new ByteWriter()
+            .uint32(1).uint32(2)                                  // FirstIndex, Count
+            .byte(0x80 | 1).guid(activity(0xaa))                  // ActivityId, last label of list 1
+            .byte(0x80 | 1).guid(activity(0xbb))                  // ActivityId, last label of list 2
+            .toBuffer();
+        const requestStart = (path: string) => new ByteWriter().utf16z('GET').utf16z(path).toBuffer();
+
+        // Two requests interleaved on one thread can only be told apart by their activities
+        const trace = new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(1) }])
+            .metadata([
+                {
+                    metadataId: 1, providerName: 'Microsoft.AspNetCore.Hosting', eventId: 3, eventName: 'RequestStart',
+                    fields: [{ name: 'method', typeCode: EventTypeCode.String }, { name: 'path', typeCode: EventTypeCode.String }]
+                },
+                { metadataId: 2, providerName: 'Microsoft.AspNetCore.Hosting', eventId: 4, eventName: 'RequestStop' }
+            ])
+            .block('LabelListBlock', labels)
+            .events([
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(10), labelListId: 1, payload: requestStart('/a') },
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(20), labelListId: 2, payload: requestStart('/b') },
+                { metadataId: 2, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(30), labelListId: 1 },
+                { metadataId: 2, threadIndex: 1, sequenceNumber: 4, timestamp: BigInt(60), labelListId: 2 }
+            ])
+            .end();
+
+        const result = new NetTraceParser(trace).parse();
+        const requests = result.requests.requests.map(request => [request.path, request.durationMs, request.activityId]);
+
+        assert.deepStrictEqual(requests, [
+            ['/a', 20, '00000000-0000-0000-0000-0000000000aa'],
+            ['/b', 40, '00000000-0000-0000-0000-0000000000bb']
+        ]);
+    });
+
+    test('streams a trace file and keeps only aggregates', () => {
+        const filePath = path.join(os.tmpdir(), `nettrace-stream-${process.pid}.nettrace`);
+        const ping = new ByteWriter().int32(1).toBuffer();
+        fs.writeFileSync(filePath, new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(42), name: 'Main' }])
+            .metadata([{ metadataId: 1, providerName: 'Test', eventId: 1, eventName: 'Ping' }])
+            .events([
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(10), payload: ping },
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(20), payload: ping }
+            ])
+            .end());
+
+        try {
+            const result = NetTraceParser.parseFile(filePath);
+
+            assert.deepStrictEqual(result.errors, []);
+            assert.strictEqual(result.events.length, 0);
+            assert.strictEqual(result.threads.get(BigInt(42))?.name, 'Main');
+            assert.strictEqual(result.debugInfo.eventCounts.get('Test:1'), 2);
+        } finally {
+            fs.unlinkSync(filePath);
+        }
+    });
+});
+
+suite('Sequence points', () => {
+    const ping = { metadataId: 1, providerName: 'Test', eventId: 1, eventName: 'Ping' };
+    const events = (threadIndex: number, sequenceNumbers: number[]) =>
+        sequenceNumbers.map(sequenceNumber => ({ metadataId: 1, threadIndex, sequenceNumber, timestamp: BigInt(sequenceNumber) }));
+
+    test('counts gaps between sequence numbers on a capture thread as dropped events', () => {
+        const trace = new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(11) }, { index: 2, threadId: BigInt(12) }])
+            .metadata([ping])
+            .events(events(1, [1, 2, 5, 6, 10]))
+            .events(events(2, [1, 2, 3]))
+            .end();
+
+        const result = new NetTraceParser(trace).parse();
+
+        assert.strictEqual(result.droppedEvents.get(BigInt(11)), 5);
+        assert.strictEqual(result.droppedEvents.get(BigInt(12)) ?? 0, 0);
+    });
+
+    test('counts events a sequence point says were written but never arrived', () => {
+        const trace = new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(11) }, { index: 2, threadId: BigInt(12) }])
+            .metadata([ping])
+            .events(events(1, [1, 2, 3]))
+            .events(events(2, [1]))
+            .sequencePoint(BigInt(100), [{ index: 1, sequenceNumber: 3 }, { index: 2, sequenceNumber: 4 }])
+            // Numbering carries on after the sequence point
+            .events(events(2, [5, 6]))
+            .end();
+
+        const result = new NetTraceParser(trace).parse();
+
+        assert.strictEqual(result.droppedEvents.get(BigInt(11)) ?? 0, 0);
+        assert.strictEqual(result.droppedEvents.get(BigInt(12)), 3);
+    });
+
+    test('checks the last sequence number of a removed thread', () => {
+        const trace = new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(11) }])
+            .metadata([ping])
+            .events(events(1, [1, 2]))
+            .removeThreads([{ index: 1, sequenceNumber: 4 }])
+            .end();
+
+        const result = new NetTraceParser(trace).parse();
+
+        assert.strictEqual(result.droppedEvents.get(BigInt(11)), 2);
+    });
+});
@@ -0,0 +1,283 @@
+/**
+ * Writes V5 .nettrace streams for the parser tests: the FastSerialization framing and the block
+ * layouts. Tests supply their own metadata, events and payloads.
+ */
+
+export interface TestField {
+    name: string;
+    typeCode: number;           // TypeCode; arrays and nested objects aren't needed by the tests
+}
+
+export interface TestMetadata {
+    metadataId: number;
+    providerName: string;
+    eventId: number;
+    eventName: string;
+    fields?: TestField[];
+    version?: number;
+    opcode?: number;
+}
+
+export interface TestEvent {
+    metadataId: number;
+    threadIndex: number;        // Index into the ThreadBlock table; also the capture thread
+    sequenceNumber: number;
+    timestamp: bigint;
+    stackId?: number;
+    labelListId?: number;
+    payload?: Buffer;
+}
+
+const SERIALIZATION_HEADER = '!FastSerialization.1';
+const NULL_REFERENCE = 1;
+const BEGIN_PRIVATE_OBJECT = 5;
+const END_OBJECT = 6;
+
+/**
+ * Appends blocks to a trace, handing each finished object to `sink`, so large traces can be
+ * written straight to a file. Without a sink the trace is collected and returned by end().
+ */
+export class NetTraceWriter {
+    private readonly chunks: Buffer[] = [];
+    private length = 0;
+
+    constructor(private readonly sink?: (chunk: Buffer) => void) {
+        const header = Buffer.alloc(8 + 4 + SERIALIZATION_HEADER.length);
+        header.write('Nettrace', 0, 'ascii');
+        header.writeInt32LE(SERIALIZATION_HEADER.length, 8);
+        header.write(SERIALIZATION_HEADER, 12, 'ascii');
+        this.emit(header);
+    }
+
+    trace(syncTimeTicks: bigint, tickFrequency: bigint, properties: Record<string, string> = {}, pointerSize = 8): this {
+        const data = new ByteWriter();
+        data.int16(2024).int16(1).int16(1).int16(2).int16(3).int16(4).int16(5).int16(6);  // SYSTEMTIME
+        data.int64(syncTimeTicks).int64(tickFrequency).int32(pointerSize);
+        data.int32(Object.keys(properties).length);
+        for (const [key, value] of Object.entries(properties)) {
+            data.varString(key).varString(value);
+        }
+        return this.block('Trace', data.toBuffer());
+    }
+
+    threads(threads: { index: number; threadId: bigint; name?: string }[]): this {
+        const data = new ByteWriter();
+        for (const thread of threads) {
+            data.varUInt(thread.index);
+            data.byte(3).varUInt(thread.threadId);            // ThreadId
+            if (thread.name !== undefined) {
+                data.byte(1).varString(thread.name);          // Name
+            }
+            data.byte(0);                                     // End
+        }
+        return this.block('ThreadBlock', data.toBuffer());
+    }
+
+    removeThreads(threads: { index: number; sequenceNumber: number }[]): this {
+        const data = new ByteWriter();
+        for (const thread of threads) {
+            data.varUInt(thread.index).varUInt(thread.sequenceNumber);
+        }
+        return this.block('RemoveThreadBlock', data.toBuffer());
+    }
+
+    metadata(entries: TestMetadata[]): this {
+        const data = new ByteWriter();
+        data.int16(20).int16(0).bytes(Buffer.alloc(16));      // Header
+        for (const entry of entries) {
+            const payload = new ByteWriter();
+            payload.varUInt(entry.metadataId).varString(entry.providerName).varUInt(entry.eventId).varString(entry.eventName);
+            payload.varUInt(entry.fields?.length ?? 0);
+            for (const field of entry.fields ?? []) {
+                payload.varString(field.name).varUInt(field.typeCode);
+            }
+            if (entry.opcode !== undefined) {
+                payload.byte(1).byte(entry.opcode);
+            }
+            if (entry.version !== undefined) {
+                payload.byte(4).byte(entry.version);
+            }
+            payload.byte(0);
+            const bytes = payload.toBuffer();
+            data.varUInt(bytes.length).bytes(bytes);
+        }
+        return this.block('MetadataBlock', data.toBuffer());
+    }
+
+    /**
+     * An EventBlock with compressed headers, every field written explicitly
+     */
+    events(events: TestEvent[]): this {
+        const timestamps = events.map(event => event.timestamp);
+        const data = new ByteWriter();
+        data.int16(20).int16(1);                              // Header size, compressed
+        data.int64(timestamps.reduce((a, b) => a < b ? a : b, timestamps[0] ?? BigInt(0)));
+        data.int64(timestamps.reduce((a, b) => a > b ? a : b, timestamps[0] ?? BigInt(0)));
+
+        let previousSequenceNumber = 0;
+        let previousTimestamp = BigInt(0);
+        for (const event of events) {
+            const payload = event.payload ?? Buffer.alloc(0);
+            data.byte(0x01 | 0x02 | 0x04 | 0x08 | 0x80 | (event.labelListId !== undefined ? 0x10 : 0));
+            data.varUInt(event.metadataId);
+            data.varUInt((event.sequenceNumber - previousSequenceNumber - 1) >>> 0).varUInt(event.threadIndex).varUInt(0);
+            data.varUInt(event.threadIndex);
+            data.varUInt(event.stackId ?? 0);
+            data.varUInt(BigInt.asUintN(64, event.timestamp - previousTimestamp));
+            if (event.labelListId !== undefined) {
+                data.varUInt(event.labelListId);
+            }
+            data.varUInt(payload.length).bytes(payload);
+            previousSequenceNumber = event.sequenceNumber;
+            previousTimestamp = event.timestamp;
+        }
+        return this.block('EventBlock', data.toBuffer());
+    }
+
+    stacks(firstId: number, stacks: bigint[][]): this {
+        const data = new ByteWriter();
+        data.int32(firstId).int32(stacks.length);
+        for (const addresses of stacks) {
+            data.int32(addresses.length * 8);
+            addresses.forEach(address => data.uint64(address));
+        }
+        return this.block('StackBlock', data.toBuffer());
+    }
+
+    sequencePoint(timestamp: bigint, threads: { index: number; sequenceNumber: number }[]): this {
+        const data = new ByteWriter();
+        data.int64(timestamp).int32(threads.length);
+        for (const thread of threads) {
+            data.varUInt(thread.index).varUInt(thread.sequenceNumber);
+        }
+        return this.block('SPBlock', data.toBuffer());
+    }
+
+    /**
+     * Write the end of stream marker and return the trace, when collected in memory
+     */
+    end(): Buffer {
+        this.emit(Buffer.from([NULL_REFERENCE]));
+        return Buffer.concat(this.chunks);
+    }
+
+    /**
+     * Any block, for contents the tests build by hand
+     */
+    block(typeName: string, data: Buffer): this {
+        const type = new ByteWriter();
+        type.byte(BEGIN_PRIVATE_OBJECT).byte(BEGIN_PRIVATE_OBJECT).byte(NULL_REFERENCE);
+        type.int32(typeName === 'Trace' ? 5 : 2).int32(0).int32(typeName.length).ascii(typeName);
+        type.byte(END_OBJECT).int32(data.length);
+        const typeBytes = type.toBuffer();
+
+        // Block contents start at a 4-byte aligned file position
+        const padding = (4 - ((this.length + typeBytes.length) & 3)) & 3;
+        this.emit(Buffer.concat([typeBytes, Buffer.alloc(padding), data, Buffer.from([END_OBJECT])]));
+        return this;
+    }
+
+    private emit(chunk: Buffer): void {
+        this.length += chunk.length;
+        if (this.sink) {
+            this.sink(chunk);
+        } else {
+            this.chunks.push(chunk);
+        }
+    }
+}
+
+/**
+ * Little-endian payload builder, for event payloads as much as for block contents
+ */
+export class ByteWriter {
+    private readonly parts: Buffer[] = [];
+
+    byte(value: number): this {
+        return this.push(Buffer.from([value]));
+    }
+
+    int16(value: number): this {
+        const buffer = Buffer.alloc(2);
+        buffer.writeInt16LE(value);
+        return this.push(buffer);
+    }
+
+    uint16(value: number): this {
+        const buffer = Buffer.alloc(2);
+        buffer.writeUInt16LE(value);
+        return this.push(buffer);
+    }
+
+    int32(value: number): this {
+        const buffer = Buffer.alloc(4);
+        buffer.writeInt32LE(value);
+        return this.push(buffer);
+    }
+
+    uint32(value: number): this {
+        const buffer = Buffer.alloc(4);
+        buffer.writeUInt32LE(value);
+        return this.push(buffer);
+    }
+
+    int64(value: bigint): this {
+        const buffer = Buffer.alloc(8);
+        buffer.writeBigInt64LE(value);
+        return this.push(buffer);
+    }
+
+    uint64(value: bigint): this {
+        const buffer = Buffer.alloc(8);
+        buffer.writeBigUInt64LE(value);
+        return this.push(buffer);
+    }
+
+    double(value: number): this {
+        const buffer = Buffer.alloc(8);
+        buffer.writeDoubleLE(value);
+        return this.push(buffer);
+    }
+
+    varUInt(value: number | bigint): this {
+        const bytes: number[] = [];
+        let remaining = BigInt(value);
+        do {
+            const low = Number(remaining & BigInt(0x7f));
+            remaining >>= BigInt(7);
+            bytes.push(remaining > BigInt(0) ? low | 0x80 : low);
+        } while (remaining > BigInt(0));
+        return this.push(Buffer.from(bytes));
+    }
+
+    // V5 string: length in UTF-16 code units, then the characters
+    varString(value: string): this {
+        return this.varUInt(value.length).push(Buffer.from(value, 'utf16le'));
+    }
+
+    // Payload string: UTF-16 with a null terminator
+    utf16z(value: string): this {
+        return this.push(Buffer.from(value + '\0', 'utf16le'));
+    }
+
+    ascii(value: string): this {
+        return this.push(Buffer.from(value, 'ascii'));
+    }
+
+    guid(bytes: number[]): this {
+        return this.push(Buffer.from(bytes));
+    }
+
+    bytes(value: Buffer): this {
+        return this.push(value);
+    }
+
+    toBuffer(): Buffer {
+        return Buffer.concat(this.parts);
+    }
+
+    private push(buffer: Buffer): this {
+        this.parts.push(buffer);
+        return this;
+    }
+}
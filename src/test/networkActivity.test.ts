@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { NetworkActivityBuilder, formatSocketAddress } from '../networkActivity';
+import { TraceInfo } from '../nettraceParser';
+
+suite('Network activity', () => {
+    // Millisecond ticks
+    const traceInfo: TraceInfo = { syncTimeUTC: new Date(0), syncTimeTicks: BigInt(0), tickFrequency: BigInt(1000), pointerSize: 8 };
+
+    test('pairs operations by activity or thread and attaches their failures and queue times', () => {
+        const builder = new NetworkActivityBuilder();
+        const request = { scheme: 'https', host: 'api.example.com', port: 443, pathAndQuery: '/orders?page=2', versionMajor: 2, versionMinor: 0 };
+
+        // The stops were written by other threads, before the starts reached the trace
+        builder.httpRequestStop({ statusCode: 200 }, BigInt(2), BigInt(180), 'activity-1');
+        builder.httpRequestFailed({ exceptionMessage: 'Connection refused' }, BigInt(3), BigInt(340), 'activity-2');
+        builder.httpRequestStop({ statusCode: -1 }, BigInt(3), BigInt(345), 'activity-2');
+        builder.httpRequestStart(request, BigInt(1), BigInt(100), 'activity-1');
+        builder.httpRequestLeftQueue({ timeOnQueueMilliseconds: 12.5 }, BigInt(1), BigInt(130), 'activity-1');
+        builder.httpConnectionEstablished({ ...request, remoteAddress: '93.184.216.34' }, BigInt(1), BigInt(125));
+        builder.httpRequestStart({ ...request, pathAndQuery: '/health', versionMajor: 1, versionMinor: 1 }, BigInt(1), BigInt(300), 'activity-2');
+
+        // Without activity tracking, on one thread
+        builder.dnsStart({ hostNameOrAddress: 'api.example.com' }, BigInt(4), BigInt(105), undefined);
+        builder.dnsStop(BigInt(4), BigInt(110), undefined);
+        builder.dnsStart({ hostNameOrAddress: 'missing.example.com' }, BigInt(4), BigInt(200), undefined);
+        builder.dnsFailed(BigInt(4), BigInt(250), undefined);
+        builder.dnsStop(BigInt(4), BigInt(251), undefined);
+        builder.socketConnectStart({ address: 'InterNetwork:16:{1,187,93,184,216,34,0,0,0,0,0,0,0,0}' }, BigInt(4), BigInt(111), undefined);
+        builder.socketConnectFailed({ error: 10061, exceptionMessage: 'Connection refused' }, BigInt(4), BigInt(119), undefined);
+        builder.socketConnectStop(BigInt(4), BigInt(120), undefined);
+        // Still running when the trace ended
+        builder.socketConnectStart({ address: 'unix:/tmp/app.sock' }, BigInt(4), BigInt(400), undefined);
+
+        const activity = builder.build(traceInfo);
+        assert.deepStrictEqual(activity.httpRequests.map(({ pathAndQuery, version, statusCode, failed, error, queueTimeMs, startTimeMs, durationMs, threadId }) =>
+            [pathAndQuery, version, statusCode, failed, error, queueTimeMs, startTimeMs, durationMs, threadId]), [
+            ['/orders?page=2', '2.0', 200, false, undefined, 12.5, 100, 80, BigInt(1)],
+            ['/health', '1.1', undefined, true, 'Connection refused', undefined, 300, 45, BigInt(1)]
+        ]);
+        assert.deepStrictEqual(activity.dnsLookups.map(({ hostName, failed, durationMs }) => [hostName, failed, durationMs]), [
+            ['api.example.com', false, 5],
+            ['missing.example.com', true, 51]
+        ]);
+        assert.deepStrictEqual(activity.socketConnects.map(({ address, failed, error, durationMs }) => [address, failed, error, durationMs]), [
+            ['93.184.216.34:443', true, 'ConnectionRefused: Connection refused', 9]
+        ]);
+        assert.deepStrictEqual(activity.httpConnections, [
+            { scheme: 'https', host: 'api.example.com', port: 443, version: '2.0', remoteAddress: '93.184.216.34', timeMs: 125 }
+        ]);
+    });
+
+    test('formats socket addresses as IP endpoints', () => {
+        const ipv6 = (address: number[]) => `InterNetworkV6:28:{31,144,0,0,0,0,${address.join(',')},0,0,0,0}`;
+
+        assert.strictEqual(formatSocketAddress(ipv6([0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1])), '[2001:db8::1]:8080');
+        assert.strictEqual(formatSocketAddress(ipv6([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 255, 255, 10, 0, 0, 7])), '[::ffff:10.0.0.7]:8080');
+        assert.strictEqual(formatSocketAddress('InterNetworkV6:28:{1,2,3}'), 'InterNetworkV6:28:{1,2,3}');
+        assert.strictEqual(formatSocketAddress('Unix:110:{47,116,109,112}'), 'Unix:110:{47,116,109,112}');
+    });
+});
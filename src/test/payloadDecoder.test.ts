@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import { EventTypeCode, decodePayload, formatPayloadValue, getBigInt, getNumber, getString } from '../payloadDecoder';
+import { ByteWriter } from './nettraceWriter';
+
+suite('Payload decoder', () => {
+    test('decodes scalar fields back to back', () => {
+        const payload = new ByteWriter()
+            .int32(1)                                   // Boolean
+            .uint16(0x41)                               // Char
+            .byte(0xff)                                 // SByte
+            .byte(0xff)                                 // Byte
+            .int16(-2)
+            .uint16(65535)
+            .int32(-3)
+            .uint32(0xffffffff)
+            .int64(BigInt(-4))
+            .uint64(BigInt('18446744073709551615'))
+            .double(1.5)
+            .toBuffer();
+        const single = Buffer.alloc(4);
+        single.writeFloatLE(0.25);
+
+        const fields = decodePayload(Buffer.concat([payload, single]), [
+            { name: 'Flag', typeCode: EventTypeCode.Boolean },
+            { name: 'Letter', typeCode: EventTypeCode.Char },
+            { name: 'Signed', typeCode: EventTypeCode.SByte },
+            { name: 'Unsigned', typeCode: EventTypeCode.Byte },
+            { name: 'Short', typeCode: EventTypeCode.Int16 },
+            { name: 'UShort', typeCode: EventTypeCode.UInt16 },
+            { name: 'Int', typeCode: EventTypeCode.Int32 },
+            { name: 'UInt', typeCode: EventTypeCode.UInt32 },
+            { name: 'Long', typeCode: EventTypeCode.Int64 },
+            { name: 'ULong', typeCode: EventTypeCode.UInt64 },
+            { name: 'Double', typeCode: EventTypeCode.Double },
+            { name: 'Single', typeCode: EventTypeCode.Single }
+        ]);
+
+        assert.deepStrictEqual(fields, {
+            Flag: true,
+            Letter: 'A',
+            Signed: -1,
+            Unsigned: 255,
+            Short: -2,
+            UShort: 65535,
+            Int: -3,
+            UInt: 4294967295,
+            Long: BigInt(-4),
+            ULong: BigInt('18446744073709551615'),
+            Double: 1.5,
+            Single: 0.25
+        });
+    });
+
+    test('decodes strings, GUIDs, dates and decimals', () => {
+        const payload = new ByteWriter()
+            .utf16z('héllo')
+            .guid([0x78, 0x56, 0x34, 0x12, 0x34, 0x12, 0x78, 0x56, 1, 2, 3, 4, 5, 6, 7, 8])
+            .int64(BigInt('132539328000000000'))                // 2021-01-01T00:00:00Z as FILETIME
+            .uint32(0x80020000).uint32(0).uint64(BigInt(12345))  // -123.45
+            .toBuffer();
+
+        const fields = decodePayload(payload, [
+            { name: 'Text', typeCode: EventTypeCode.String },
+            { name: 'Id', typeCode: EventTypeCode.Guid },
+            { name: 'When', typeCode: EventTypeCode.DateTime },
+            { name: 'Amount', typeCode: EventTypeCode.Decimal }
+        ]);
+
+        assert.strictEqual(fields.Text, 'héllo');
+        assert.strictEqual(fields.Id, '12345678-1234-5678-0102-030405060708');
+        assert.strictEqual((fields.When as Date).toISOString(), '2021-01-01T00:00:00.000Z');
+        assert.strictEqual(fields.Amount, '-123.45');
+    });
+
+    test('decodes arrays and nested objects', () => {
+        const payload = new ByteWriter()
+            .uint16(3).int32(10).int32(20).int32(30)
+            .uint16(2).utf16z('a').int32(1).utf16z('b').int32(2)
+            .toBuffer();
+
+        const fields = decodePayload(payload, [
+            { name: 'Values', typeCode: EventTypeCode.Array, elementType: { name: '', typeCode: EventTypeCode.Int32 } },
+            {
+                name: 'Pairs',
+                typeCode: EventTypeCode.Array,
+                elementType: {
+                    name: '',
+                    typeCode: EventTypeCode.Object,
+                    fields: [{ name: 'Key', typeCode: EventTypeCode.String }, { name: 'Value', typeCode: EventTypeCode.Int32 }]
+                }
+            }
+        ]);
+
+        assert.deepStrictEqual(fields, {
+            Values: [10, 20, 30],
+            Pairs: [{ Key: 'a', Value: 1 }, { Key: 'b', Value: 2 }]
+        });
+        assert.strictEqual(formatPayloadValue(fields.Pairs), '[{ Key: a, Value: 1 }, { Key: b, Value: 2 }]');
+    });
+
+    test('reads pointers at the trace pointer size', () => {
+        const payload = new ByteWriter().uint32(0xdeadbeef).uint32(7).toBuffer();
+        const pointer = [{ name: 'Address', typeCode: EventTypeCode.Pointer }];
+
+        assert.strictEqual(decodePayload(payload, pointer, 4).Address, BigInt(0xdeadbeef));
+        assert.strictEqual(decodePayload(payload, pointer, 8).Address, BigInt('0x7deadbeef'));
+    });
+
+    test('keeps the fields decoded before a truncated payload ran out', () => {
+        const payload = new ByteWriter().int32(5).uint16(1).toBuffer();
+
+        const fields = decodePayload(payload, [
+            { name: 'Count', typeCode: EventTypeCode.Int32 },
+            { name: 'Total', typeCode: EventTypeCode.Int64 }
+        ]);
+
+        assert.deepStrictEqual(fields, { Count: 5 });
+    });
+
+    test('reads fields back by type', () => {
+        const fields = { Small: 3, Large: BigInt(1) << BigInt(40), Name: 'x', Ratio: 0.5 };
+
+        assert.strictEqual(getBigInt(fields, 'Small'), BigInt(3));
+        assert.strictEqual(getBigInt(fields, 'Ratio'), undefined);
+        assert.strictEqual(getNumber(fields, 'Large'), 2 ** 40);
+        assert.strictEqual(getNumber(fields, 'Name'), undefined);
+        assert.strictEqual(getString(fields, 'Name'), 'x');
+        assert.strictEqual(getString(fields, 'Missing'), undefined);
+    });
+});
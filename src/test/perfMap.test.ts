@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findPerfMap, getPerfMapSearchDirs, parsePerfMap } from '../perfMap';
+
+suite('Perf map', () => {
+    test('reads hexadecimal start, size and name from each line', () => {
+        const symbols = parsePerfMap([
+            '7F8A1C001000 2c [OptimizedTier1] App.Program::Main(string[])',
+            '7f8a1c002000 0 [PreJIT] Empty::Stub()',
+            'not a symbol line',
+            '',
+            '  7f8a1c003000 1A0 stub<1> AllocateTemporaryEntryPoints<PRECODE_FIXUP>\r'
+        ].join('\n'));
+
+        assert.deepStrictEqual(symbols, [
+            { address: BigInt('0x7f8a1c001000'), size: 0x2c, name: '[OptimizedTier1] App.Program::Main(string[])' },
+            { address: BigInt('0x7f8a1c003000'), size: 0x1a0, name: 'stub<1> AllocateTemporaryEntryPoints<PRECODE_FIXUP>' }
+        ]);
+    });
+
+    test('looks for the process perf map next to the trace before the temp directory', () => {
+        const traceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nettrace-perfmap-test-'));
+        try {
+            const tracePath = path.join(traceDir, 'app.nettrace');
+            const dirs = getPerfMapSearchDirs(tracePath);
+            assert.strictEqual(dirs[0], traceDir);
+            assert.strictEqual(new Set(dirs).size, dirs.length);
+
+            assert.strictEqual(findPerfMap(4242, [traceDir]), undefined);
+            fs.writeFileSync(path.join(traceDir, 'perf-4242.map'), '1000 10 A\n');
+            assert.strictEqual(findPerfMap(4242, dirs), path.join(traceDir, 'perf-4242.map'));
+        } finally {
+            fs.rmSync(traceDir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NetTraceParser } from '../nettraceParser';
+import { PortablePdb } from '../portablePdb';
+import { SourceResolver, getPdbCandidates, getSourceLookupAddress } from '../sourceResolver';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+const PDB_GUID = [0x78, 0x56, 0x34, 0x12, 0x34, 0x12, 0x78, 0x56, 1, 2, 3, 4, 5, 6, 7, 8];
+const PDB_ID = '12345678-1234-5678-0102-030405060708';
+
+/**
+ * A standalone portable PDB with one document, /src/Program.cs, and two methods: the first with
+ * sequence points at IL 0 (line 10), 6 (line 12), a hidden one at 10 and 12 (line 13, column 5);
+ * the second without any
+ */
+function buildPdb(): Buffer {
+    const blobs = new ByteWriter()
+        .byte(0)                                                  // 0: empty blob
+        .byte(3).ascii('src')                                     // 1
+        .byte(10).ascii('Program.cs')                             // 5
+        .byte(4).byte(0x2f).byte(0).byte(1).byte(5)               // 16: '/' joining '', 'src', 'Program.cs'
+        .byte(19).bytes(Buffer.from([
+            0x00,                                                 // LocalSignature
+            0x00, 0x00, 0x14, 0x0a, 0x09,                         // IL 0: line 10, column 9
+            0x06, 0x00, 0x0f, 0x04, 0x00,                         // IL 6: line +2, column +0
+            0x04, 0x00, 0x00,                                     // IL 10: hidden
+            0x02, 0x00, 0x0a, 0x02, 0x79                          // IL 12: line +1, column -4
+        ]))
+        .toBuffer();
+
+    const pdbStream = new ByteWriter().guid(PDB_GUID).uint32(0).uint32(0).uint64(BigInt(0)).toBuffer();
+    const tableStream = new ByteWriter()
+        .uint32(0).byte(2).byte(0).byte(0).byte(1)
+        .uint64((BigInt(1) << BigInt(0x30)) | (BigInt(1) << BigInt(0x31)))   // Document, MethodDebugInformation
+        .uint64(BigInt(0))
+        .uint32(1).uint32(2)
+        .uint16(16).uint16(0).uint16(0).uint16(0)                 // Document: Name, HashAlgorithm, Hash, Language
+        .uint16(1).uint16(21)                                     // MethodDebugInformation rows
+        .uint16(1).uint16(0)
+        .toBuffer();
+
+    const headerSize = 32 + 16 + 12 + 16;
+    const root = new ByteWriter()
+        .uint32(0x424a5342).uint16(1).uint16(1).uint32(0)
+        .uint32(12).bytes(Buffer.from('PDB v1.0\0\0\0\0', 'ascii'))
+        .uint16(0).uint16(3)
+        .uint32(headerSize).uint32(pdbStream.length).bytes(Buffer.from('#Pdb\0\0\0\0', 'ascii'))
+        .uint32(headerSize + pdbStream.length).uint32(tableStream.length).bytes(Buffer.from('#~\0\0', 'ascii'))
+        .uint32(headerSize + pdbStream.length + tableStream.length).uint32(blobs.length).bytes(Buffer.from('#Blob\0\0\0', 'ascii'))
+        .toBuffer();
+    assert.strictEqual(root.length, headerSize);
+    return Buffer.concat([root, pdbStream, tableStream, blobs]);
+}
+
+suite('Portable PDB', () => {
+    test('maps a method token and IL offset to a source line', () => {
+        const pdb = PortablePdb.read(buildPdb())!;
+        const at = (ilOffset?: number) => pdb.findLocation(0x06000001, ilOffset);
+
+        assert.strictEqual(pdb.id, PDB_ID);
+        assert.deepStrictEqual(at(), { file: '/src/Program.cs', line: 10, column: 9 });
+        assert.deepStrictEqual(at(7), { file: '/src/Program.cs', line: 12, column: 9 });
+        // Hidden sequence points map to the line before them
+        assert.deepStrictEqual(at(11), { file: '/src/Program.cs', line: 12, column: 9 });
+        assert.deepStrictEqual(at(40), { file: '/src/Program.cs', line: 13, column: 5 });
+    });
+
+    test('finds nothing for methods without sequence points or tokens of other tables', () => {
+        const pdb = PortablePdb.read(buildPdb())!;
+
+        assert.strictEqual(pdb.findLocation(0x06000002), undefined);
+        assert.strictEqual(pdb.findLocation(0x06000003), undefined);
+        assert.strictEqual(pdb.findLocation(0x02000001), undefined);
+        assert.strictEqual(PortablePdb.read(Buffer.from('Microsoft C/C++ MSF 7.00\r\n')), undefined);
+    });
+});
+
+suite('Source resolver', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nettrace-pdb-test-'));
+    const RUNTIME = 'Microsoft-Windows-DotNETRuntime';
+
+    suiteTeardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('resolves a frame through the IL map and the PDB next to the module', async () => {
+        fs.writeFileSync(path.join(dir, 'App.pdb'), buildPdb());
+        const moduleLoad = new ByteWriter()
+            .uint64(BigInt(0x500)).uint64(BigInt(0x900)).uint32(0).uint32(0)
+            .utf16z(path.join(dir, 'App.dll')).utf16z('').uint16(0)
+            .guid(PDB_GUID).uint32(1).utf16z('/build/App.pdb')
+            .guid(new Array(16).fill(0)).uint32(0).utf16z('')
+            .toBuffer();
+        const methodLoad = new ByteWriter()
+            .uint64(BigInt(1)).uint64(BigInt(0x500)).uint64(BigInt(0x5000)).uint32(0x100).uint32(0x06000001).uint32(0x8)
+            .utf16z('App').utf16z('Main').utf16z('void ()').uint16(0)
+            .toBuffer();
+        const ilMap = new ByteWriter()
+            .uint64(BigInt(1)).uint64(BigInt(0)).byte(0).uint16(4)
+            .int32(-2).int32(0).int32(6).int32(12)                // IL offsets: prolog, then code
+            .uint32(0).uint32(0x4).uint32(0x20).uint32(0x40)      // Native offsets
+            .uint16(0)
+            .toBuffer();
+
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([{ index: 1, threadId: BigInt(1) }])
+            .metadata([
+                { metadataId: 1, providerName: RUNTIME, eventId: 152, eventName: '', version: 2 },
+                { metadataId: 2, providerName: RUNTIME, eventId: 143, eventName: '', version: 1 },
+                { metadataId: 3, providerName: RUNTIME, eventId: 190, eventName: '' }
+            ])
+            .events([
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(1), payload: moduleLoad },
+                // The IL map may arrive before the method it belongs to
+                { metadataId: 3, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(2), payload: ilMap },
+                { metadataId: 2, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(3), payload: methodLoad }
+            ])
+            .end()).parse();
+        const resolver = new SourceResolver(result, []);
+
+        assert.strictEqual(result.modules.get(BigInt(0x500))?.managedPdbSignature, PDB_ID);
+        assert.deepStrictEqual(await resolver.resolve(BigInt(0x5030)), { location: { file: '/src/Program.cs', line: 12, column: 9 } });
+        assert.deepStrictEqual(await resolver.resolve(BigInt(0x5002)), { location: { file: '/src/Program.cs', line: 10, column: 9 } });
+        assert.ok('reason' in await resolver.resolve(BigInt(0x9000)));
+    });
+
+    test('looks for PDBs next to the image, at the build path and in symbol store layouts', () => {
+        const candidates = getPdbCandidates({
+            moduleId: BigInt(1), assemblyId: BigInt(0), moduleFlags: 0, ilPath: '/app/App.dll', nativePath: '',
+            managedPdbSignature: PDB_ID, managedPdbBuildPath: 'C:\\build\\App.pdb'
+        }, ['/symbols']);
+
+        assert.deepStrictEqual(candidates, [
+            '/app/App.pdb',
+            'C:\\build\\App.pdb',
+            path.join('/symbols', 'App.pdb'),
+            path.join('/symbols', 'App.pdb', '12345678123456780102030405060708FFFFFFFF', 'App.pdb')
+        ]);
+    });
+
+    test('looks up return addresses one byte back', () => {
+        assert.strictEqual(getSourceLookupAddress(BigInt(0x5030), 0), BigInt(0x5030));
+        assert.strictEqual(getSourceLookupAddress(BigInt(0x5030), 2), BigInt(0x502f));
+    });
+});
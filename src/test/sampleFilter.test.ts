@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { NetTraceParser, ParseResult } from '../nettraceParser';
+import { applySampleFilter, isSampleFilterActive, SampleFilter } from '../sampleFilter';
+import { SymbolResolver } from '../symbolResolver';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('Sample filter', () => {
+    const allocationTick = (typeName: string, size: number) => new ByteWriter()
+        .uint32(size).uint32(0).uint16(0).uint64(BigInt(size)).uint64(BigInt(0x7000)).utf16z(typeName).uint32(0)
+        .toBuffer();
+
+    // Millisecond ticks; threads 1 and 2 sample stacks 1 and 2 and allocate on them
+    const result = new NetTraceParser(new NetTraceWriter()
+        .trace(BigInt(0), BigInt(1000))
+        .threads([{ index: 1, threadId: BigInt(1) }, { index: 2, threadId: BigInt(2) }])
+        .metadata([
+            { metadataId: 1, providerName: 'Microsoft-DotNETCore-SampleProfiler', eventId: 0, eventName: 'ThreadSample' },
+            { metadataId: 2, providerName: 'Microsoft-Windows-DotNETRuntime', eventId: 10, eventName: '', version: 2 }
+        ])
+        .stacks(1, [[BigInt(0x1000), BigInt(0x2000)], [BigInt(0x3000), BigInt(0x2000)]])
+        .events([
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(100), stackId: 1 },
+            { metadataId: 2, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(150), stackId: 1, payload: allocationTick('System.String', 100) },
+            { metadataId: 1, threadIndex: 2, sequenceNumber: 1, timestamp: BigInt(200), stackId: 2 },
+            { metadataId: 2, threadIndex: 2, sequenceNumber: 2, timestamp: BigInt(250), stackId: 2, payload: allocationTick('System.Byte[]', 1000) },
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(300), stackId: 2 },
+            // An allocation without a stack
+            { metadataId: 2, threadIndex: 1, sequenceNumber: 4, timestamp: BigInt(400), payload: allocationTick('System.String', 50) },
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 5, timestamp: BigInt(500), stackId: 1 }
+        ])
+        .end()).parse();
+    const filter = (sampleFilter: SampleFilter) =>
+        applySampleFilter(result, sampleFilter, new SymbolResolver(result.methodsByAddress.values(), result.modules));
+    const allocationTotals = (filtered: ParseResult) =>
+        Array.from(filtered.allocations.values()).map(({ typeName, count, totalSize }) => [typeName, count, totalSize]);
+
+    test('keeps the samples and allocations in the time range, including its bounds', () => {
+        const filtered = filter({ timeRange: { startMs: 150, endMs: 400 } });
+
+        assert.deepStrictEqual(filtered.cpuSamples, new Map([[2, 2]]));
+        assert.deepStrictEqual(allocationTotals(filtered), [
+            ['System.String', 2, BigInt(150)],
+            ['System.Byte[]', 1, BigInt(1000)]
+        ]);
+        assert.deepStrictEqual(Array.from(filtered.typeStackDistribution.entries()).map(([typeName, stacks]) => [typeName, Array.from(stacks.keys())]), [
+            ['System.String', [1]],
+            ['System.Byte[]', [2]]
+        ]);
+        assert.deepStrictEqual(Array.from(filtered.allocationSamples.keys()), [1, 2]);
+        assert.strictEqual(Array.from(filtered.methodProfiles!.values()).reduce((sum, profile) => sum + profile.exclusiveCount, 0), 2);
+
+        // Everything else is the full result's
+        assert.strictEqual(filtered.stacks, result.stacks);
+        assert.strictEqual(result.cpuSamples.size, 2);
+        assert.strictEqual(result.allocations.get('System.String')!.count, 2);
+    });
+
+    test('keeps the samples and allocations of the selected threads, within the time range if there is one', () => {
+        const thread1 = filter({ threadIds: [BigInt(1)] });
+        assert.deepStrictEqual(thread1.cpuSamples, new Map([[1, 2], [2, 1]]));
+        assert.deepStrictEqual(allocationTotals(thread1), [['System.String', 2, BigInt(150)]]);
+
+        const thread2 = filter({ timeRange: { startMs: 0, endMs: 220 }, threadIds: [BigInt(2)] });
+        assert.deepStrictEqual(thread2.cpuSamples, new Map([[2, 1]]));
+        assert.deepStrictEqual(allocationTotals(thread2), []);
+        assert.strictEqual(thread2.typeStackDistribution.size, 0);
+    });
+
+    test('is active with a time range or threads', () => {
+        assert.strictEqual(isSampleFilterActive({}), false);
+        assert.strictEqual(isSampleFilterActive({ timeRange: { startMs: 0, endMs: 10 } }), true);
+        assert.strictEqual(isSampleFilterActive({ threadIds: [BigInt(1)] }), true);
+    });
+});
@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import { ModuleInfo, NetTraceParser } from '../nettraceParser';
+import { SymbolResolver, getModuleName } from '../symbolResolver';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+const RUNTIME = 'Microsoft-Windows-DotNETRuntime';
+const RUNDOWN = 'Microsoft-Windows-DotNETRuntimeRundown';
+
+suite('Module table', () => {
+    // Loader and method events ship without field metadata; the built-in schemas describe them
+    const moduleLoad = (moduleId: number, assemblyId: number, ilPath: string) => new ByteWriter()
+        .uint64(BigInt(moduleId)).uint64(BigInt(assemblyId)).uint32(0).uint32(0)
+        .utf16z(ilPath).utf16z('').uint16(0)
+        .toBuffer();
+    const assemblyLoad = (assemblyId: number, name: string) => new ByteWriter()
+        .uint64(BigInt(assemblyId)).uint64(BigInt(1)).uint64(BigInt(0)).uint32(0).utf16z(name).uint16(0)
+        .toBuffer();
+    const methodLoad = (methodId: number, moduleId: number, start: number, size: number, flags: number, name: string) => new ByteWriter()
+        .uint64(BigInt(methodId)).uint64(BigInt(moduleId)).uint64(BigInt(start)).uint32(size).uint32(0x06000001).uint32(flags)
+        .utf16z('App.Services').utf16z(name).utf16z('void ()').uint16(0)
+        .toBuffer();
+
+    const parse = () => new NetTraceParser(new NetTraceWriter()
+        .trace(BigInt(0), BigInt(1000))
+        .threads([{ index: 1, threadId: BigInt(1) }])
+        .metadata([
+            { metadataId: 1, providerName: RUNTIME, eventId: 152, eventName: '', version: 1 },
+            { metadataId: 2, providerName: RUNTIME, eventId: 154, eventName: '', version: 1 },
+            { metadataId: 3, providerName: RUNDOWN, eventId: 144, eventName: '', version: 1 },
+            { metadataId: 4, providerName: RUNDOWN, eventId: 153, eventName: '', version: 1 }
+        ])
+        .events([
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(1), payload: moduleLoad(0x500, 0x900, '/app/App.Services.dll') },
+            { metadataId: 2, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(2), payload: assemblyLoad(0x900, 'App.Services, Version=1.0.0.0') },
+            // Precompiled methods give the module its image range; the JIT-compiled one lives elsewhere
+            { metadataId: 3, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(3), payload: methodLoad(1, 0x500, 0x10000, 0x100, 0, 'Load') },
+            { metadataId: 3, threadIndex: 1, sequenceNumber: 4, timestamp: BigInt(4), payload: methodLoad(2, 0x500, 0x10400, 0x80, 0, 'Save') },
+            { metadataId: 3, threadIndex: 1, sequenceNumber: 5, timestamp: BigInt(5), payload: methodLoad(3, 0x500, 0x90000, 0x40, 0x8, 'Run') },
+            // Rundown reports the module again, without its paths being lost
+            { metadataId: 4, threadIndex: 1, sequenceNumber: 6, timestamp: BigInt(6), payload: moduleLoad(0x500, 0x900, '') }
+        ])
+        .end()).parse();
+
+    test('builds modules from loader and rundown events, named after their assembly', () => {
+        const result = parse();
+        const module = result.modules.get(BigInt(0x500))!;
+
+        assert.deepStrictEqual(result.errors, []);
+        assert.strictEqual(result.modules.size, 1);
+        assert.strictEqual(module.ilPath, '/app/App.Services.dll');
+        assert.strictEqual(module.assemblyName, 'App.Services');
+        assert.strictEqual(module.baseAddress, BigInt(0x10000));
+        assert.strictEqual(module.imageSize, 0x480);
+        assert.strictEqual(result.metadata.get(3)?.eventName, 'MethodDCEndVerbose');
+    });
+
+    test('attributes frames to the method and module that contain them', () => {
+        const result = parse();
+        const resolver = new SymbolResolver(result.methodsByAddress.values(), result.modules);
+
+        assert.strictEqual(resolver.resolve(BigInt(0x10010)), 'App.Services!App.Services.Load');
+        assert.strictEqual(resolver.resolve(BigInt(0x90020)), 'App.Services!App.Services.Run');
+        // Between two precompiled methods: inside the image, but no method covers it
+        assert.strictEqual(resolver.resolve(BigInt(0x10200)), 'App.Services!<unknown> 0x10200');
+        assert.strictEqual(resolver.resolve(BigInt(0x20000)), '<unknown> 0x20000');
+    });
+
+    test('falls back to symbols and native images loaded from outside the trace', () => {
+        const resolver = new SymbolResolver([], new Map(),
+            [{ address: BigInt(0x7000), size: 0x10, name: 'perf-stub' }],
+            [{ address: BigInt(0x7000), size: 0x1000, name: 'libcoreclr.so' }]);
+
+        assert.strictEqual(resolver.resolve(BigInt(0x7008)), 'perf-stub');
+        assert.strictEqual(resolver.resolve(BigInt(0x7800)), 'libcoreclr.so!<unknown> 0x7800');
+    });
+
+    test('names modules after their image file, then their assembly', () => {
+        const module = (fields: Partial<ModuleInfo>): ModuleInfo => ({ moduleId: BigInt(0x42), assemblyId: BigInt(0), moduleFlags: 0, ilPath: '', nativePath: '', ...fields });
+
+        assert.strictEqual(getModuleName(module({ ilPath: 'C:\\app\\Lib.dll' })), 'Lib');
+        assert.strictEqual(getModuleName(module({ nativePath: '/app/System.Private.CoreLib.ni.dll' })), 'System.Private.CoreLib');
+        assert.strictEqual(getModuleName(module({ assemblyName: 'Dynamic' })), 'Dynamic');
+        assert.strictEqual(getModuleName(module({})), 'Module_0x42');
+    });
+});
+
+suite('ReadyToRun entry points', () => {
+    const methodLoad = (methodId: number, start: number, size: number, flags: number, name: string) => new ByteWriter()
+        .uint64(BigInt(methodId)).uint64(BigInt(0x500)).uint64(BigInt(start)).uint32(size).uint32(0).uint32(flags)
+        .utf16z('App').utf16z(name).utf16z('').uint16(0)
+        .toBuffer();
+    const entryPoint = (methodId: number, address: number, name: string) => new ByteWriter()
+        .uint64(BigInt(methodId)).utf16z('App').utf16z(name).utf16z('').uint64(BigInt(address)).uint16(0)
+        .toBuffer();
+
+    const parse = () => new NetTraceParser(new NetTraceWriter()
+        .trace(BigInt(0), BigInt(1000))
+        .threads([{ index: 1, threadId: BigInt(1) }])
+        .metadata([
+            { metadataId: 1, providerName: RUNTIME, eventId: 143, eventName: '', version: 1 },
+            { metadataId: 2, providerName: RUNTIME, eventId: 159, eventName: '' },
+            { metadataId: 3, providerName: RUNTIME, eventId: 152, eventName: '', version: 1 }
+        ])
+        .events([
+            { metadataId: 3, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(1), payload: new ByteWriter()
+                .uint64(BigInt(0x500)).uint64(BigInt(0x900)).uint32(0).uint32(0).utf16z('/app/App.dll').utf16z('').uint16(0).toBuffer() },
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(2), payload: methodLoad(1, 0x10000, 0x100, 0, 'First') },
+            { metadataId: 2, threadIndex: 1, sequenceNumber: 3, timestamp: BigInt(3), payload: entryPoint(2, 0x10100, 'Parse') },
+            { metadataId: 2, threadIndex: 1, sequenceNumber: 4, timestamp: BigInt(4), payload: entryPoint(3, 0x10300, 'Format') },
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 5, timestamp: BigInt(5), payload: methodLoad(4, 0x10600, 0x20, 0, 'Last') },
+            // Format is later rejitted at tier 1
+            { metadataId: 1, threadIndex: 1, sequenceNumber: 6, timestamp: BigInt(6), payload: methodLoad(3, 0x80000, 0x40, 0x8, 'Format') },
+            { metadataId: 2, threadIndex: 1, sequenceNumber: 7, timestamp: BigInt(7), payload: entryPoint(5, 0x90000, 'Tail') }
+        ])
+        .end()).parse();
+
+    test('sizes entry points up to the next known code address', () => {
+        const result = parse();
+        const sizeAt = (address: number) => result.methodsByAddress.get(BigInt(address))?.methodSize;
+
+        assert.strictEqual(sizeAt(0x10100), 0x200);
+        assert.strictEqual(sizeAt(0x10300), 0x300);
+        assert.strictEqual(sizeAt(0x90000), 0x10000);
+    });
+
+    test('keeps the rejitted code as the method, and the precompiled code resolvable', () => {
+        const result = parse();
+        const resolver = new SymbolResolver(result.methodsByAddress.values(), result.modules);
+
+        assert.strictEqual(result.methods.get(BigInt(3))?.methodStartAddress, BigInt(0x80000));
+        assert.strictEqual(result.methods.get(BigInt(2))?.methodStartAddress, BigInt(0x10100));
+        // Entry points don't name their module; the image range does
+        assert.strictEqual(resolver.resolve(BigInt(0x10150)), 'App!App.Parse');
+        assert.strictEqual(resolver.resolve(BigInt(0x10310)), 'App!App.Format');
+        assert.strictEqual(resolver.resolve(BigInt(0x80010)), 'App!App.Format');
+    });
+});
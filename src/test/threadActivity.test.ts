@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { NetTraceParser } from '../nettraceParser';
+import { summarizeThreads } from '../threadActivity';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('Thread activity', () => {
+    const allocationTick = (typeName: string, size: number) => new ByteWriter()
+        .uint32(size).uint32(0).uint16(0).uint64(BigInt(size)).uint64(BigInt(0x7000)).utf16z(typeName).uint32(0)
+        .toBuffer();
+
+    test('counts the events, samples and allocations of each thread, busiest first', () => {
+        // Millisecond ticks
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000))
+            .threads([
+                { index: 1, threadId: BigInt(11), name: 'Main' },
+                { index: 2, threadId: BigInt(12) },
+                { index: 3, threadId: BigInt(13), name: 'Worker' },
+                { index: 4, threadId: BigInt(14) },
+                { index: 5, threadId: BigInt(15) }
+            ])
+            .metadata([
+                { metadataId: 1, providerName: 'Microsoft-DotNETCore-SampleProfiler', eventId: 0, eventName: 'ThreadSample' },
+                { metadataId: 2, providerName: 'Microsoft-Windows-DotNETRuntime', eventId: 10, eventName: '', version: 2 }
+            ])
+            .stacks(1, [[BigInt(0x1000)]])
+            .events([
+                // Samples without a stack are events but not CPU samples
+                { metadataId: 1, threadIndex: 4, sequenceNumber: 1, timestamp: BigInt(50) },
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 1, timestamp: BigInt(100), stackId: 1 },
+                { metadataId: 2, threadIndex: 3, sequenceNumber: 1, timestamp: BigInt(150), stackId: 1, payload: allocationTick('System.String', 100) },
+                { metadataId: 2, threadIndex: 2, sequenceNumber: 1, timestamp: BigInt(250), stackId: 1, payload: allocationTick('System.Byte[]', 1000) },
+                { metadataId: 1, threadIndex: 1, sequenceNumber: 2, timestamp: BigInt(300), stackId: 1 },
+                { metadataId: 2, threadIndex: 3, sequenceNumber: 2, timestamp: BigInt(400), payload: allocationTick('System.String', 50) },
+                { metadataId: 1, threadIndex: 4, sequenceNumber: 2, timestamp: BigInt(600) },
+                { metadataId: 1, threadIndex: 5, sequenceNumber: 1, timestamp: BigInt(700) }
+            ])
+            .end()).parse();
+
+        assert.deepStrictEqual(summarizeThreads(result).map(({ threadId, name, eventCount, cpuSamples, allocationSamples, allocatedBytes, firstEventMs, lastEventMs }) =>
+            [threadId, name, eventCount, cpuSamples, allocationSamples, allocatedBytes, firstEventMs, lastEventMs]), [
+            [BigInt(11), 'Main', 2, 2, 0, BigInt(0), 100, 300],
+            [BigInt(12), undefined, 1, 0, 1, BigInt(1000), 250, 250],
+            [BigInt(13), 'Worker', 2, 0, 2, BigInt(150), 150, 400],
+            [BigInt(14), undefined, 2, 0, 0, BigInt(0), 50, 600],
+            [BigInt(15), undefined, 1, 0, 0, BigInt(0), 700, 700]
+        ]);
+    });
+});
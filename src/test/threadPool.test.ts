@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { NetTraceParser } from '../nettraceParser';
+import { threadPoolAdjustmentReasonName } from '../threadPool';
+import { ByteWriter, NetTraceWriter } from './nettraceWriter';
+
+suite('Thread pool', () => {
+    test('charts thread counts and hill-climbing from the ThreadPool events in time order', () => {
+        const runtime = 'Microsoft-Windows-DotNETRuntime';
+        const workers = (active: number) => new ByteWriter().uint32(active).uint32(0).uint16(0).toBuffer();
+        const events: [number, number, number, Buffer][] = [
+            // eventId, thread, timestamp, payload
+            [59, 1, 500, new ByteWriter().uint16(4).uint16(32767).uint16(4).uint16(1000).uint16(0).toBuffer()],   // MinMaxThreads
+            [50, 1, 1000, workers(1)],                                                                          // WorkerThreadStart
+            [54, 1, 3000, new ByteWriter().double(12.5).uint16(0).toBuffer()],                                  // AdjustmentSample
+            [55, 1, 3000, new ByteWriter().double(11).uint32(5).uint32(6).uint16(0).toBuffer()],                // Adjustment
+            // Another thread's events may be written after later ones
+            [50, 2, 2000, workers(2)],
+            [60, 2, 2500, new ByteWriter().uint32(2).uint16(0).toBuffer()],                                     // WorkingThreadCount
+            [57, 2, 4000, workers(1)],                                                                          // WorkerThreadWait
+            [44, 2, 4500, new ByteWriter().uint32(3).uint32(0).uint16(0).toBuffer()]                            // IOThreadCreate
+        ];
+        const eventIds = Array.from(new Set(events.map(([eventId]) => eventId)));
+        const result = new NetTraceParser(new NetTraceWriter()
+            .trace(BigInt(0), BigInt(1000000))
+            .threads([{ index: 1, threadId: BigInt(1) }, { index: 2, threadId: BigInt(2) }])
+            .metadata(eventIds.map(eventId => ({ metadataId: eventId, providerName: runtime, eventId, eventName: '', version: eventId === 44 ? 1 : 0 })))
+            .events(events.map(([eventId, threadIndex, timestamp, payload], i) => ({
+                metadataId: eventId, threadIndex, sequenceNumber: i + 1, timestamp: BigInt(timestamp), payload
+            })))
+            .end()).parse();
+
+        assert.deepStrictEqual(result.threadPool, {
+            workerThreads: [{ timeMs: 1, value: 1 }, { timeMs: 2, value: 2 }, { timeMs: 4, value: 1 }],
+            ioThreads: [{ timeMs: 4.5, value: 3 }],
+            workingThreads: [{ timeMs: 2.5, value: 2 }],
+            throughput: [{ timeMs: 3, value: 12.5 }],
+            adjustments: [{ timeMs: 3, newWorkerThreadCount: 5, averageThroughput: 11, reason: 6 }],
+            minWorkerThreads: 4,
+            maxWorkerThreads: 32767
+        });
+        assert.strictEqual(threadPoolAdjustmentReasonName(6), 'Starvation');
+        assert.strictEqual(threadPoolAdjustmentReasonName(42), 'Reason 42');
+    });
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { TraceInfo } from '../nettraceParser';
+import { TimeBucket, TimeBucketsBuilder } from '../timeBuckets';
+
+suite('Time buckets', () => {
+    // Millisecond ticks
+    const traceInfo = (syncTimeTicks: number): TraceInfo =>
+        ({ syncTimeUTC: new Date(0), syncTimeTicks: BigInt(syncTimeTicks), tickFrequency: BigInt(1000), pointerSize: 8 });
+    const summarize = (buckets: TimeBucket[]) => buckets.map(({ startMs, endMs, count }) => [startMs, endMs, count]);
+
+    test('widens the buckets as the trace grows, merging their counts', () => {
+        const builder = new TimeBucketsBuilder(4);
+        [0, 1, 2, 3, 10, 5].forEach(timestamp => builder.add(BigInt(timestamp)));
+
+        assert.deepStrictEqual(summarize(builder.build(traceInfo(0), BigInt(12))), [
+            [0, 4, 4],
+            [4, 8, 1],
+            [8, 12, 1],
+            [12, 16, 0]
+        ]);
+    });
+
+    test('grows toward earlier events and counts events before the trace start in the first bucket', () => {
+        const builder = new TimeBucketsBuilder(4);
+        [108, 104, 98].forEach(timestamp => builder.add(BigInt(timestamp)));
+
+        assert.deepStrictEqual(summarize(builder.build(traceInfo(100), BigInt(110))), [
+            [0, 4, 1],
+            [4, 8, 1],
+            [8, 12, 1]
+        ]);
+    });
+
+    test('has no buckets without events', () => {
+        assert.deepStrictEqual(new TimeBucketsBuilder().build(traceInfo(0), BigInt(1000)), []);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { MethodInfo } from '../nettraceParser';
+import { findMethodDefinition } from '../workspaceSymbols';
+
+suite('Workspace symbols', () => {
+    const file = vscode.Uri.file('/workspace/OrderService.cs');
+    const symbol = (name: string, kind: vscode.SymbolKind, containerName: string, line: number) =>
+        new vscode.SymbolInformation(name, kind, containerName, new vscode.Location(file, new vscode.Position(line, 4)));
+    const symbols = [
+        symbol('OrderService()', vscode.SymbolKind.Constructor, 'OrderService', 5),
+        symbol('Process(string name)', vscode.SymbolKind.Method, 'OrderService', 10),
+        symbol('Process(string name, int count)', vscode.SymbolKind.Method, 'OrderService', 20),
+        symbol('Process(Order order)', vscode.SymbolKind.Method, 'InvoiceService', 30),
+        symbol('SaveAsync(CancellationToken token)', vscode.SymbolKind.Method, 'OrderService', 40),
+        symbol('Run()', vscode.SymbolKind.Method, 'OrderService', 50),
+        symbol('Process', vscode.SymbolKind.Property, 'OrderService', 60)
+    ];
+    let provider: vscode.Disposable;
+
+    suiteSetup(() => {
+        provider = vscode.languages.registerWorkspaceSymbolProvider({
+            provideWorkspaceSymbols: query => symbols.filter(s => s.name.startsWith(query))
+        });
+    });
+
+    suiteTeardown(() => {
+        provider.dispose();
+    });
+
+    const method = (methodNamespace: string, methodName: string, methodSignature = ''): MethodInfo => ({
+        methodId: BigInt(1), moduleId: BigInt(1), methodStartAddress: BigInt(0x1000), methodSize: 0x100,
+        methodToken: 0x06000001, methodFlags: 0, methodNamespace, methodName, methodSignature
+    });
+    const lineOf = async (info: MethodInfo) => (await findMethodDefinition(info))?.range.start.line;
+
+    test('picks the overload whose parameters match the signature', async () => {
+        assert.strictEqual(await lineOf(method('App.OrderService', 'Process', 'instance void  (class System.String,int32)')), 20);
+        assert.strictEqual(await lineOf(method('App.OrderService', 'Process', 'instance void  (class System.String)')), 10);
+        assert.strictEqual(await lineOf(method('App.InvoiceService', 'Process', 'instance void  (class App.Order)')), 30);
+    });
+
+    test('maps compiler-generated names back to the method as written', async () => {
+        assert.strictEqual(await lineOf(method('App.OrderService+<SaveAsync>d__3', 'MoveNext')), 40);
+        assert.strictEqual(await lineOf(method('App.OrderService+<>c__DisplayClass2_0', '<Run>b__0')), 50);
+        assert.strictEqual(await lineOf(method('App.OrderService', '.ctor', 'instance void  ()')), 5);
+    });
+
+    test('finds nothing in other types', async () => {
+        assert.strictEqual(await lineOf(method('App.ShippingService', 'Run')), undefined);
+    });
+});
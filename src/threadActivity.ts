@@ -0,0 +1,70 @@
+/**
+ * Per-thread breakdown of a trace: the CPU and allocation samples attributed to each thread, and
+ * the span between the first and last event it wrote.
+ */
+
+import { ParseResult } from './nettraceParser';
+
+export interface ThreadActivity {
+    threadId: bigint;             // OS thread ID
+    name?: string;                // From the V5 thread table
+    eventCount: number;
+    cpuSamples: number;
+    allocationSamples: number;    // GCAllocationTick events
+    allocatedBytes: bigint;       // Sampled: bytes allocated since the previous tick, summed
+    firstEventMs: number;         // Since the start of the trace
+    lastEventMs: number;
+}
+
+/**
+ * Threads that wrote any event, busiest first: by CPU samples, then by allocated bytes
+ */
+export function summarizeThreads(result: ParseResult): ThreadActivity[] {
+    const traceInfo = result.traceInfo;
+    const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+    const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+
+    const threads = new Map<bigint, ThreadActivity>();
+    const getThread = (threadId: bigint, timeMs: number): ThreadActivity => {
+        let thread = threads.get(threadId);
+        if (!thread) {
+            thread = {
+                threadId,
+                name: result.threads.get(threadId)?.name,
+                eventCount: 0,
+                cpuSamples: 0,
+                allocationSamples: 0,
+                allocatedBytes: BigInt(0),
+                firstEventMs: timeMs,
+                lastEventMs: timeMs
+            };
+            threads.set(threadId, thread);
+        }
+        return thread;
+    };
+
+    const toMs = (timestamp: bigint) => frequency > 0 ? Number(timestamp - syncTime) * 1000 / frequency : 0;
+    for (const [threadId, events] of result.eventIndex.threads) {
+        const thread = getThread(threadId, toMs(events.firstTimestamp));
+        thread.eventCount = events.eventCount;
+        thread.lastEventMs = toMs(events.lastTimestamp);
+    }
+
+    const cpu = result.cpuSampleTimeline;
+    for (let i = 0; i < cpu.count; i++) {
+        getThread(cpu.threadIds[i], cpu.timesMs[i]).cpuSamples++;
+    }
+    const ticks = result.allocationSampleTimeline;
+    for (let i = 0; i < ticks.count; i++) {
+        const thread = getThread(ticks.threadIds[i], ticks.timesMs[i]);
+        thread.allocationSamples++;
+        thread.allocatedBytes += BigInt(ticks.sizes[i]);
+    }
+
+    return Array.from(threads.values()).sort((a, b) => {
+        if (b.cpuSamples !== a.cpuSamples) { return b.cpuSamples - a.cpuSamples; }
+        if (b.allocatedBytes > a.allocatedBytes) { return 1; }
+        if (b.allocatedBytes < a.allocatedBytes) { return -1; }
+        return b.eventCount - a.eventCount;
+    });
+}
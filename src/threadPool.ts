@@ -0,0 +1,122 @@
+/**
+ * Thread pool timeline from the runtime's ThreadPool events (Threading keyword, informational level).
+ *
+ * Worker thread events (start, stop, wait, retirement) each report the pool's active worker count, so
+ * together they trace the pool size over time. The hill-climbing algorithm that sizes the pool logs a
+ * throughput sample every interval and an adjustment whenever it picks a new thread count; starvation
+ * adjustments mean work items waited long enough for the pool to inject threads outside hill climbing.
+ */
+
+import { TraceInfo } from './nettraceParser';
+import { PayloadStruct, getNumber } from './payloadDecoder';
+
+export interface TimeSample {
+    timeMs: number;             // Since the start of the trace
+    value: number;
+}
+
+export interface ThreadPoolAdjustment {
+    timeMs: number;
+    newWorkerThreadCount: number;
+    averageThroughput: number;  // Work items completed per second
+    reason: number;             // See threadPoolAdjustmentReasonName
+}
+
+export interface ThreadPoolTimeline {
+    workerThreads: TimeSample[];    // Active worker threads
+    ioThreads: TimeSample[];        // I/O completion threads (Windows)
+    workingThreads: TimeSample[];   // Worker threads running work items
+    throughput: TimeSample[];       // Hill-climbing throughput samples, in work items per second
+    adjustments: ThreadPoolAdjustment[];
+    minWorkerThreads?: number;
+    maxWorkerThreads?: number;
+}
+
+interface TimedValue<T> {
+    timestamp: bigint;
+    value: T;
+}
+
+const ADJUSTMENT_REASONS = [
+    'Warmup', 'Initializing', 'RandomMove', 'ClimbingMove', 'ChangePoint', 'Stabilizing', 'Starvation',
+    'ThreadTimedOut', 'CooperativeBlocking',
+];
+
+export function threadPoolAdjustmentReasonName(reason: number): string {
+    return ADJUSTMENT_REASONS[reason] ?? `Reason ${reason}`;
+}
+
+export class ThreadPoolTimelineBuilder {
+    private readonly workerThreads: TimedValue<number>[] = [];
+    private readonly ioThreads: TimedValue<number>[] = [];
+    private readonly workingThreads: TimedValue<number>[] = [];
+    private readonly throughput: TimedValue<number>[] = [];
+    private readonly adjustments: TimedValue<Omit<ThreadPoolAdjustment, 'timeMs'>>[] = [];
+    private minWorkerThreads: number | undefined;
+    private maxWorkerThreads: number | undefined;
+
+    workerThreadEvent(fields: PayloadStruct, timestamp: bigint): void {
+        addSample(this.workerThreads, getNumber(fields, 'ActiveWorkerThreadCount'), timestamp);
+    }
+
+    ioThreadEvent(fields: PayloadStruct, timestamp: bigint): void {
+        addSample(this.ioThreads, getNumber(fields, 'IOThreadCount'), timestamp);
+    }
+
+    workingThreadCount(fields: PayloadStruct, timestamp: bigint): void {
+        addSample(this.workingThreads, getNumber(fields, 'Count'), timestamp);
+    }
+
+    adjustmentSample(fields: PayloadStruct, timestamp: bigint): void {
+        addSample(this.throughput, getNumber(fields, 'Throughput'), timestamp);
+    }
+
+    adjustment(fields: PayloadStruct, timestamp: bigint): void {
+        const newWorkerThreadCount = getNumber(fields, 'NewWorkerThreadCount');
+        if (newWorkerThreadCount === undefined) {
+            return;
+        }
+        this.adjustments.push({
+            timestamp,
+            value: {
+                newWorkerThreadCount,
+                averageThroughput: getNumber(fields, 'AverageThroughput') ?? 0,
+                reason: getNumber(fields, 'Reason') ?? 0
+            }
+        });
+    }
+
+    minMaxThreads(fields: PayloadStruct): void {
+        this.minWorkerThreads = getNumber(fields, 'MinWorkerThreads') ?? this.minWorkerThreads;
+        this.maxWorkerThreads = getNumber(fields, 'MaxWorkerThreads') ?? this.maxWorkerThreads;
+    }
+
+    // Events are written per thread, so they are put back in time order here
+    build(traceInfo: TraceInfo | null): ThreadPoolTimeline {
+        const frequency = traceInfo && traceInfo.tickFrequency > 0 ? Number(traceInfo.tickFrequency) : 0;
+        const syncTime = traceInfo?.syncTimeTicks ?? BigInt(0);
+        const toMs = (timestamp: bigint) => frequency > 0 ? Number(timestamp - syncTime) * 1000 / frequency : 0;
+        const toSamples = (values: TimedValue<number>[]) =>
+            sortByTime(values).map(({ timestamp, value }) => ({ timeMs: toMs(timestamp), value }));
+
+        return {
+            workerThreads: toSamples(this.workerThreads),
+            ioThreads: toSamples(this.ioThreads),
+            workingThreads: toSamples(this.workingThreads),
+            throughput: toSamples(this.throughput),
+            adjustments: sortByTime(this.adjustments).map(({ timestamp, value }) => ({ timeMs: toMs(timestamp), ...value })),
+            minWorkerThreads: this.minWorkerThreads,
+            maxWorkerThreads: this.maxWorkerThreads
+        };
+    }
+}
+
+function addSample(samples: TimedValue<number>[], value: number | undefined, timestamp: bigint): void {
+    if (value !== undefined) {
+        samples.push({ timestamp, value });
+    }
+}
+
+function sortByTime<T>(values: TimedValue<T>[]): TimedValue<T>[] {
+    return values.sort((a, b) => a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0);
+}
@@ -0,0 +1,107 @@
+/**
+ * Event counts over a trace in equal time buckets, counted as events are parsed.
+ *
+ * The length of the trace is only known once parsing completes, so buckets start one tick wide and
+ * double in width, merging pairs, whenever an event falls outside the ones kept. Events arrive per
+ * thread buffer rather than in time order, so the range can grow either way. A whole trace ends up
+ * in between half and all of the requested number of buckets.
+ */
+
+import { TraceInfo } from './nettraceParser';
+
+export interface TimeBucket {
+    startMs: number;            // Since the start of the trace
+    endMs: number;
+    count: number;
+}
+
+export class TimeBucketsBuilder {
+    private counts: Float64Array;
+    private origin: bigint | undefined;     // First timestamp counted; buckets are aligned to it
+    private first = BigInt(0);              // Bucket number of counts[0], counted from the origin
+    private width = BigInt(1);              // Ticks per bucket
+    private min = BigInt(0);
+    private max = BigInt(0);
+
+    constructor(private readonly bucketCount = 100) {
+        this.counts = new Float64Array(bucketCount);
+    }
+
+    add(timestamp: bigint): void {
+        if (this.origin === undefined) {
+            this.origin = timestamp;
+            this.min = timestamp;
+            this.max = timestamp;
+        } else if (timestamp < this.min) {
+            this.min = timestamp;
+        } else if (timestamp > this.max) {
+            this.max = timestamp;
+        }
+        let i = this.bucketOf(timestamp) - this.first;
+        if (i < 0 || i >= this.bucketCount) {
+            this.fit(this.min, this.max);
+            i = this.bucketOf(timestamp) - this.first;
+        }
+        this.counts[Number(i)]++;
+    }
+
+    /**
+     * Buckets from the start of the trace to `endTimestamp`; events outside count in the first or last
+     */
+    build(traceInfo: TraceInfo | null, endTimestamp: bigint): TimeBucket[] {
+        if (this.origin === undefined || !traceInfo || traceInfo.tickFrequency <= 0) {
+            return [];
+        }
+        const syncTime = traceInfo.syncTimeTicks;
+        const end = endTimestamp > this.max ? endTimestamp : this.max;
+        this.fit(this.min < syncTime ? this.min : syncTime, end);
+
+        const origin = this.origin;
+        const toMs = (timestamp: bigint) => Number(timestamp - syncTime) * 1000 / Number(traceInfo.tickFrequency);
+        const firstBucket = this.bucketOf(syncTime);
+        const lastBucket = this.bucketOf(endTimestamp > syncTime ? endTimestamp : syncTime);
+        const buckets: TimeBucket[] = [];
+        for (let bucket = firstBucket; bucket <= lastBucket; bucket++) {
+            buckets.push({
+                startMs: Math.max(0, toMs(origin + bucket * this.width)),
+                endMs: toMs(origin + (bucket + BigInt(1)) * this.width),
+                count: 0
+            });
+        }
+        for (let i = 0; i < this.bucketCount; i++) {
+            if (this.counts[i] > 0) {
+                const bucket = this.first + BigInt(i);
+                const index = bucket < firstBucket ? 0 : bucket > lastBucket ? buckets.length - 1 : Number(bucket - firstBucket);
+                buckets[index].count += this.counts[i];
+            }
+        }
+        return buckets;
+    }
+
+    private bucketOf(timestamp: bigint): bigint {
+        return floorDiv(timestamp - this.origin!, this.width);
+    }
+
+    // Widen and move the buckets kept to cover `min` to `max`
+    private fit(min: bigint, max: bigint): void {
+        const width = this.width;
+        const first = this.first;
+        while (this.bucketOf(max) - this.bucketOf(min) >= this.bucketCount) {
+            this.width *= BigInt(2);
+        }
+        this.first = this.bucketOf(min);
+
+        const counts = new Float64Array(this.bucketCount);
+        for (let i = 0; i < this.bucketCount; i++) {
+            if (this.counts[i] > 0) {
+                counts[Number(floorDiv((first + BigInt(i)) * width, this.width) - this.first)] += this.counts[i];
+            }
+        }
+        this.counts = counts;
+    }
+}
+
+function floorDiv(a: bigint, b: bigint): bigint {
+    const quotient = a / b;
+    return a % b !== BigInt(0) && a < BigInt(0) ? quotient - BigInt(1) : quotient;
+}
@@ -0,0 +1,159 @@
+/**
+ * Finds a profiled method's definition through the workspace symbol provider (the C# extension),
+ * for methods whose PDB isn't available.
+ *
+ * The runtime reports methods by their metadata names: `Namespace.Outer+Inner` type names with
+ * generic arity suffixes, `.ctor`/`.cctor` for constructors, and compiler-generated names for lambdas
+ * (`<Main>b__0_0`) and async/iterator state machines (`<RunAsync>d__3.MoveNext`). These are mapped
+ * back to the method as written in C# before searching.
+ */
+
+import * as vscode from 'vscode';
+import { MethodInfo } from './nettraceParser';
+
+interface SourceMethod {
+    typeName: string;       // Simple name of the declaring type
+    methodName: string;     // Name as declared in source
+    parameters?: string[];  // Parameter types, when known to belong to this method
+}
+
+const METHOD_SYMBOL_KINDS = new Set([vscode.SymbolKind.Method, vscode.SymbolKind.Constructor, vscode.SymbolKind.Function]);
+
+const PARAMETER_MODIFIERS = new Set(['ref', 'out', 'in', 'params', 'this', 'scoped', 'readonly']);
+
+// CLR signature type names and their C# keywords
+const CSHARP_TYPE_KEYWORDS: Record<string, string> = {
+    'bool': 'bool', 'boolean': 'bool', 'char': 'char', 'int8': 'sbyte', 'unsigned int8': 'byte', 'uint8': 'byte',
+    'int16': 'short', 'unsigned int16': 'ushort', 'uint16': 'ushort', 'int32': 'int', 'unsigned int32': 'uint',
+    'uint32': 'uint', 'int64': 'long', 'unsigned int64': 'ulong', 'uint64': 'ulong', 'float32': 'float',
+    'float64': 'double', 'string': 'string', 'object': 'object', 'native int': 'nint', 'native unsigned int': 'nuint'
+};
+
+/**
+ * Locate the source definition of a method among the workspace's symbols
+ */
+export async function findMethodDefinition(method: MethodInfo): Promise<vscode.Location | undefined> {
+    const target = toSourceMethod(method);
+    const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+        'vscode.executeWorkspaceSymbolProvider', target.methodName) ?? [];
+
+    let best: { symbol: vscode.SymbolInformation; score: number } | undefined;
+    for (const symbol of symbols) {
+        if (!METHOD_SYMBOL_KINDS.has(symbol.kind) || getSymbolMethodName(symbol.name) !== target.methodName) {
+            continue;
+        }
+        // Some providers leave the container out; trust the name alone then
+        const container = symbol.containerName.split('.').pop()!.replace(/<.*>$/, '');
+        if (container && container !== target.typeName) {
+            continue;
+        }
+        const score = target.parameters ? scoreParameters(symbol.name, target.parameters) : 0;
+        if (!best || score > best.score) {
+            best = { symbol, score };
+        }
+    }
+    return best?.symbol.location;
+}
+
+function toSourceMethod(method: MethodInfo): SourceMethod {
+    // Outer+Inner`1[[System.Int32, ...]] -> [Outer, Inner]
+    const typeNames = method.methodNamespace
+        .replace(/\[.*\]$/, '')
+        .split(/[.+]/)
+        .map(name => name.replace(/`\d+$/, ''))
+        .filter(name => name.length > 0);
+    let typeName = typeNames.pop() ?? '';
+    let methodName = method.methodName;
+    let parameters: string[] | undefined = getSignatureParameters(method.methodSignature);
+
+    // State machine MoveNext: the method is named by the generated type, declared on its parent
+    const stateMachine = /^<([^>]+)>d__\d+$/.exec(typeName);
+    if (stateMachine && typeNames.length > 0) {
+        methodName = stateMachine[1];
+        typeName = typeNames.pop()!;
+        parameters = undefined;
+    } else if (/^<>c(__DisplayClass[\d_]+)?$/.test(typeName) && typeNames.length > 0) {
+        typeName = typeNames.pop()!;   // Lambda closure classes are nested in the declaring type
+    }
+
+    // Local functions (<Outer>g__Local|0_0) keep their own name; lambdas (<Outer>b__0_0) go to the outer method
+    const generated = /^<([^>]*)>(?:g__([^|]+)\|)?/.exec(methodName);
+    if (generated) {
+        methodName = generated[2] ?? generated[1];
+        parameters = undefined;
+    } else if (methodName === '.ctor' || methodName === '.cctor') {
+        methodName = typeName;
+    }
+    return { typeName, methodName, parameters };
+}
+
+/**
+ * Parameter types from a MethodSignature such as `instance void  (class System.String,int32)`
+ */
+function getSignatureParameters(signature: string): string[] | undefined {
+    const match = /\((.*)\)\s*$/.exec(signature);
+    if (!match) {
+        return undefined;
+    }
+    return splitParameters(match[1]).map(type => normalizeTypeName(type));
+}
+
+// Split a parameter list on the commas that aren't inside generic arguments
+function splitParameters(list: string): string[] {
+    const parameters: string[] = [];
+    let depth = 0, start = 0;
+    for (let i = 0; i < list.length; i++) {
+        const c = list[i];
+        if (c === '<' || c === '[') {
+            depth++;
+        } else if (c === '>' || c === ']') {
+            depth--;
+        } else if (c === ',' && depth === 0) {
+            parameters.push(list.substring(start, i));
+            start = i + 1;
+        }
+    }
+    const last = list.substring(start);
+    return parameters.length === 0 && last.trim() === '' ? [] : [...parameters, last];
+}
+
+/**
+ * Reduce a CLR or C# parameter type to a comparable form: the C# keyword for primitives, otherwise
+ * the simple type name, without generic arguments but keeping array ranks
+ */
+function normalizeTypeName(type: string): string {
+    let name = type.trim()
+        .replace(/^(class|valuetype)\s+/, '')
+        .replace(/`\d+/g, '')
+        .replace(/<.*>/, '')
+        .replace(/\s*&$/, '')
+        .trim();
+    const arraySuffix = /(\[,*\])*$/.exec(name)?.[0] ?? '';
+    name = name.substring(0, name.length - arraySuffix.length);
+    const keyword = CSHARP_TYPE_KEYWORDS[name.replace(/^System\./, '').toLowerCase()];
+    return (keyword ?? name.split(/[.+]/).pop()!) + arraySuffix;
+}
+
+// Symbol names may include the parameter list or type parameters: `Run(int, string)`, `Map<T>`
+function getSymbolMethodName(symbolName: string): string {
+    return symbolName.replace(/[(<].*$/, '').trim();
+}
+
+/**
+ * Prefer overloads with the same parameter count, then with the most matching parameter types
+ */
+function scoreParameters(symbolName: string, parameters: string[]): number {
+    const match = /\((.*)\)/.exec(symbolName);
+    if (!match) {
+        return 0;
+    }
+    const symbolParameters = splitParameters(match[1]).map(parameter => {
+        // "int count" or just "int", possibly with a modifier
+        const words = parameter.replace(/<.*>/, '').trim().split(/\s+/).filter(word => !PARAMETER_MODIFIERS.has(word));
+        return normalizeTypeName(words.length > 1 ? words[words.length - 2] : words[0] ?? '');
+    });
+    if (symbolParameters.length !== parameters.length) {
+        return -1;
+    }
+    return 1 + parameters.filter((type, i) => type === symbolParameters[i]).length;
+}
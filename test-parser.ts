@@ -5,6 +5,7 @@
 
 import * as fs from 'fs';
 import { NetTraceFullParser } from './src/nettraceParser';
+import { decodePayload, formatPayloadValue } from './src/payloadDecoder';
 
 const filePath = process.argv[2] || '/Users/sebastienros/tmp/dotnet_20251129_162608.nettrace';
 
@@ -27,6 +28,7 @@ if (result.traceInfo) {
     console.log(`  Time: ${result.traceInfo.syncTimeUTC.toISOString()}`);
     console.log(`  Pointer Size: ${result.traceInfo.pointerSize}`);
     console.log(`  Process ID: ${result.traceInfo.processId}`);
+    console.log(`  Format Version: ${result.debugInfo.formatVersion}`);
 }
 
 console.log(`\nMetadata entries: ${result.metadata.size}`);
@@ -34,6 +36,18 @@ result.metadata.forEach((meta, id) => {
     console.log(`  [${id}] ${meta.providerName}/${meta.eventName} (id=${meta.eventId})`);
 });
 
+// Decode the first event of each type that has field metadata
+console.log('\nDecoded events (first of each type with fields):');
+const decodedMetadataIds = new Set<number>();
+for (const event of result.events) {
+    const meta = result.metadata.get(event.metadataId);
+    if (!meta || meta.fields.length === 0 || decodedMetadataIds.has(event.metadataId)) {
+        continue;
+    }
+    decodedMetadataIds.add(event.metadataId);
+    console.log(`  ${meta.providerName}/${meta.eventName}: ${formatPayloadValue(decodePayload(event.payload, meta.fields))}`);
+}
+
 console.log(`\nProviders found: ${result.debugInfo?.providers?.join(', ') || 'none'}`);
 console.log(`Total events processed: ${result.debugInfo?.totalEvents || 0}`);
 console.log(`Allocation events: ${result.debugInfo?.allocationEvents || 0}`);